@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { BrowserRouter, Routes, Route, useNavigate, useParams, useLocation } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, useNavigate, useParams, useLocation, useSearchParams } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { ProductProvider } from './contexts/ProductContext';
+import { SyncProvider, useSync } from './contexts/SyncContext';
+import { ToastProvider, useToast } from './contexts/ToastContext';
 import Login from './components/Login';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
@@ -9,13 +12,16 @@ import HospitalDetail from './components/HospitalDetail';
 import Settings from './components/Settings';
 import Calendar from './components/Calendar';
 import PriceList from './components/PriceList';
+import ContractList from './components/ContractList';
+import LoanProgram from './components/LoanProgram';
 import { Loader } from 'lucide-react';
-import { Hospital, Note, Contact, UsageRecord, SalesStage, InstalledEquipment } from './types';
+import { Hospital, Note, Contact, UsageRecord, SalesStage, InstalledEquipment, HospitalDetailTab } from './types';
 import {
   fetchHospitals,
-  fetchNotes,
+  fetchOpenTicketCount,
   fetchContacts,
-  fetchUsageRecords,
+  fetchNotesPage,
+  fetchUsageRecordsByHospital,
   createHospital,
   updateHospital,
   createNote,
@@ -32,6 +38,31 @@ import {
   fetchAllProfiles,
   ProfileSummary
 } from './services/databaseService';
+import {
+  mapHospitalRow,
+  mapContactRow,
+  mapNoteRow,
+  mapUsageRecordRow,
+  mapEquipmentRow
+} from './services/rowMappers';
+import { DBHospital, DBContact, DBNote, DBUsageRecord, DBInstalledEquipment } from './lib/supabase';
+import { subscribeToTableChanges, RealtimeChange, RemoteEdit } from './services/realtimeService';
+import { toDataError, Result } from './services/dataErrors';
+
+// 各醫院活動記錄/訂單的載入狀態（進入醫院詳情時才載入）
+interface HospitalDataState {
+  notesCursor: string | null;
+  isLoadingNotes: boolean;
+  isLoadingUsage: boolean;
+}
+
+// 依 id 新增或取代（即時更新可能比 API 回應更早抵達，避免重複）
+const upsertById = <T extends { id: string }>(list: T[], item: T): T[] =>
+  list.some(x => x.id === item.id)
+    ? list.map(x => x.id === item.id ? item : x)
+    : [item, ...list];
+
+const HOSPITAL_DETAIL_TABS: HospitalDetailTab[] = ['overview', 'orders', 'contacts', 'notes', 'files', 'history'];
 
 // 醫院詳情頁面包裝元件
 const HospitalDetailWrapper: React.FC<{
@@ -39,6 +70,11 @@ const HospitalDetailWrapper: React.FC<{
   notes: Note[];
   contacts: Contact[];
   usageRecords: UsageRecord[];
+  remoteEdit: RemoteEdit | null;
+  hospitalDataState: Record<string, HospitalDataState>;
+  dataVersion: number;
+  onLoadHospitalData: (hospitalId: string) => void;
+  onLoadMoreNotes: (hospitalId: string) => void;
   onUpdateHospital: (hospital: Hospital) => void;
   onAddNote: (note: Note) => void;
   onUpdateNote: (note: Note) => void;
@@ -48,6 +84,7 @@ const HospitalDetailWrapper: React.FC<{
   onAddUsageRecord: (record: UsageRecord) => void;
   onUpdateUsageRecord: (record: UsageRecord) => void;
   onDeleteUsageRecord: (recordId: string) => void;
+  onUsageRecordsCreated: (records: UsageRecord[]) => void;
   onAddEquipment: (equipment: InstalledEquipment) => void;
   onUpdateEquipment: (equipment: InstalledEquipment) => void;
   onDeleteEquipment: (equipmentId: string) => void;
@@ -56,6 +93,11 @@ const HospitalDetailWrapper: React.FC<{
   notes,
   contacts,
   usageRecords,
+  remoteEdit,
+  hospitalDataState,
+  dataVersion,
+  onLoadHospitalData,
+  onLoadMoreNotes,
   onUpdateHospital,
   onAddNote,
   onUpdateNote,
@@ -65,12 +107,29 @@ const HospitalDetailWrapper: React.FC<{
   onAddUsageRecord,
   onUpdateUsageRecord,
   onDeleteUsageRecord,
+  onUsageRecordsCreated,
   onAddEquipment,
   onUpdateEquipment,
   onDeleteEquipment
 }) => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // 分頁記在網址上，切換醫院時保留目前分頁
+  const tabParam = searchParams.get('tab') as HospitalDetailTab | null;
+  const activeTab: HospitalDetailTab = tabParam && HOSPITAL_DETAIL_TABS.includes(tabParam) ? tabParam : 'overview';
+  const handleTabChange = (tab: HospitalDetailTab) => {
+    setSearchParams(tab === 'overview' ? {} : { tab }, { replace: true });
+  };
+  const tabQuery = activeTab === 'overview' ? '' : `?tab=${activeTab}`;
+
+  // 進入醫院詳情或資料重新整理後，載入該醫院的活動記錄與訂單
+  useEffect(() => {
+    if (id) {
+      onLoadHospitalData(id);
+    }
+  }, [id, dataVersion]);
 
   // 排序邏輯：與 HospitalList 一致（區域 → 等級 → 名稱筆劃）
   const regionOrder: Record<string, number> = { '北區': 1, '中區': 2, '南區': 3, '東區': 4 };
@@ -101,14 +160,14 @@ const HospitalDetailWrapper: React.FC<{
   // 導航到上一間醫院
   const navigateToPrev = () => {
     if (hasPrev) {
-      navigate(`/hospitals/${sortedHospitals[currentIndex - 1].id}`);
+      navigate(`/hospitals/${sortedHospitals[currentIndex - 1].id}${tabQuery}`);
     }
   };
 
   // 導航到下一間醫院
   const navigateToNext = () => {
     if (hasNext) {
-      navigate(`/hospitals/${sortedHospitals[currentIndex + 1].id}`);
+      navigate(`/hospitals/${sortedHospitals[currentIndex + 1].id}${tabQuery}`);
     }
   };
 
@@ -131,13 +190,22 @@ const HospitalDetailWrapper: React.FC<{
   const hospitalNotes = notes.filter(n => n.hospitalId === hospital.id);
   const hospitalContacts = contacts.filter(c => c.hospitalId === hospital.id);
   const hospitalUsage = usageRecords.filter(u => u.hospitalId === hospital.id);
+  const dataState = hospitalDataState[hospital.id];
 
   return (
     <HospitalDetail
       hospital={hospital}
+      hospitals={hospitals}
       notes={hospitalNotes}
       contacts={hospitalContacts}
       usageHistory={hospitalUsage}
+      remoteEdit={remoteEdit?.hospitalId === hospital.id ? remoteEdit : null}
+      activeTab={activeTab}
+      onTabChange={handleTabChange}
+      hasMoreNotes={!!dataState?.notesCursor}
+      isLoadingNotes={!dataState || dataState.isLoadingNotes}
+      isLoadingUsage={!dataState || dataState.isLoadingUsage}
+      onLoadMoreNotes={() => onLoadMoreNotes(hospital.id)}
       onUpdateHospital={onUpdateHospital}
       onAddNote={onAddNote}
       onUpdateNote={onUpdateNote}
@@ -147,6 +215,7 @@ const HospitalDetailWrapper: React.FC<{
       onAddUsageRecord={onAddUsageRecord}
       onUpdateUsageRecord={onUpdateUsageRecord}
       onDeleteUsageRecord={onDeleteUsageRecord}
+      onUsageRecordsCreated={onUsageRecordsCreated}
       onAddEquipment={onAddEquipment}
       onUpdateEquipment={onUpdateEquipment}
       onDeleteEquipment={onDeleteEquipment}
@@ -177,6 +246,8 @@ const HospitalListWrapper: React.FC<{
 
 const AppContent: React.FC = () => {
   const { user, loading: authLoading, isManagerOrAdmin } = useAuth();
+  const { lastSyncedAt } = useSync();
+  const { showError } = useToast();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -184,6 +255,8 @@ const AppContent: React.FC = () => {
   const getActiveTabFromPath = (pathname: string): string => {
     if (pathname.startsWith('/hospitals')) return 'hospitals';
     if (pathname.startsWith('/pricelist')) return 'pricelist';
+    if (pathname.startsWith('/contracts')) return 'contracts';
+    if (pathname.startsWith('/loans')) return 'loans';
     if (pathname.startsWith('/calendar')) return 'calendar';
     if (pathname.startsWith('/settings')) return 'settings';
     return 'dashboard';
@@ -197,6 +270,13 @@ const AppContent: React.FC = () => {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
   const [allProfiles, setAllProfiles] = useState<ProfileSummary[]>([]);
+  const [remoteEdit, setRemoteEdit] = useState<RemoteEdit | null>(null);
+  const [hospitalDataState, setHospitalDataState] = useState<Record<string, HospitalDataState>>({});
+  const [dataVersion, setDataVersion] = useState(0);
+
+  // 即時更新的 callback 需要讀取最新資料（例如刪除事件只帶 id，要從現有資料找出所屬醫院）
+  const dataRef = useRef({ notes, contacts, usageRecords, hospitals });
+  dataRef.current = { notes, contacts, usageRecords, hospitals };
 
   // 載入狀態 - 只有首次載入才顯示
   const [initialLoading, setInitialLoading] = useState(true);
@@ -215,24 +295,85 @@ const AppContent: React.FC = () => {
     }
 
     try {
-      const [hospitalsData, notesData, contactsData, usageData] = await Promise.all([
+      const [hospitalsData, contactsData] = await Promise.all([
         fetchHospitals(),
-        fetchNotes(),
-        fetchContacts(),
-        fetchUsageRecords()
+        fetchContacts()
       ]);
 
       setHospitals(hospitalsData);
-      setNotes(notesData);
       setContacts(contactsData);
-      setUsageRecords(usageData);
       hasLoadedOnce.current = true;
+      // 通知已開啟的醫院詳情重新載入活動記錄與訂單
+      setDataVersion(v => v + 1);
     } catch (error) {
       console.error('Error loading data:', error);
+      showError(toDataError(error), '載入資料');
     } finally {
       setInitialLoading(false);
     }
-  }, [user]);
+  }, [user, showError]);
+
+  const updateHospitalDataState = (hospitalId: string, updates: Partial<HospitalDataState>) => {
+    setHospitalDataState(prev => ({
+      ...prev,
+      [hospitalId]: {
+        notesCursor: null,
+        isLoadingNotes: false,
+        isLoadingUsage: false,
+        ...prev[hospitalId],
+        ...updates
+      }
+    }));
+  };
+
+  // 載入單一醫院的第一頁活動記錄與全部訂單
+  const loadHospitalData = useCallback(async (hospitalId: string) => {
+    updateHospitalDataState(hospitalId, { isLoadingNotes: true, isLoadingUsage: true });
+
+    const loadNotes = async () => {
+      try {
+        const page = await fetchNotesPage({ hospitalId });
+        setNotes(prev => [...prev.filter(n => n.hospitalId !== hospitalId), ...page.items]);
+        updateHospitalDataState(hospitalId, { notesCursor: page.nextCursor, isLoadingNotes: false });
+      } catch (error) {
+        console.error('Error loading notes:', error);
+        showError(toDataError(error), '載入活動記錄');
+        updateHospitalDataState(hospitalId, { isLoadingNotes: false });
+      }
+    };
+
+    const loadUsage = async () => {
+      try {
+        const records = await fetchUsageRecordsByHospital(hospitalId);
+        setUsageRecords(prev => [...prev.filter(u => u.hospitalId !== hospitalId), ...records]);
+      } catch (error) {
+        console.error('Error loading usage records:', error);
+        showError(toDataError(error), '載入訂單');
+      } finally {
+        updateHospitalDataState(hospitalId, { isLoadingUsage: false });
+      }
+    };
+
+    await Promise.all([loadNotes(), loadUsage()]);
+  }, [showError]);
+
+  // 載入下一頁活動記錄
+  const loadMoreNotes = useCallback(async (hospitalId: string) => {
+    const state = hospitalDataState[hospitalId];
+    if (!state?.notesCursor || state.isLoadingNotes) return;
+
+    updateHospitalDataState(hospitalId, { isLoadingNotes: true });
+    try {
+      const page = await fetchNotesPage({ hospitalId, cursor: state.notesCursor });
+      const loadedIds = new Set(page.items.map(n => n.id));
+      setNotes(prev => [...prev.filter(n => !loadedIds.has(n.id)), ...page.items]);
+      updateHospitalDataState(hospitalId, { notesCursor: page.nextCursor, isLoadingNotes: false });
+    } catch (error) {
+      console.error('Error loading more notes:', error);
+      showError(toDataError(error), '載入活動記錄');
+      updateHospitalDataState(hospitalId, { isLoadingNotes: false });
+    }
+  }, [hospitalDataState, showError]);
 
   // 載入所有 profiles（僅 manager/admin）
   const loadProfiles = useCallback(async () => {
@@ -251,157 +392,270 @@ const AppContent: React.FC = () => {
     loadData(true);
   }, [loadData]);
 
+  // 離線修改同步完成後，重新載入以取得伺服器上的最終版本
+  useEffect(() => {
+    if (lastSyncedAt && hasLoadedOnce.current) {
+      loadData(false);
+    }
+  }, [lastSyncedAt, loadData]);
+
   // 載入 profiles
   useEffect(() => {
     loadProfiles();
   }, [loadProfiles]);
 
-  // 視窗重新獲得焦點時，背景更新資料（不顯示 loading）
+  // 合併其他使用者的即時變更
+  const applyRealtimeChange = useCallback((change: RealtimeChange) => {
+    const { table, eventType, newRow, oldRow, isLocalEcho } = change;
+    const recordId: string = newRow?.id || oldRow?.id;
+    const current = dataRef.current;
+
+    // 找出變更所屬的醫院
+    let hospitalId: string | undefined;
+    if (table === 'hospitals') {
+      hospitalId = recordId;
+    } else {
+      hospitalId = newRow?.hospital_id || oldRow?.hospital_id;
+      if (!hospitalId) {
+        const existing =
+          table === 'notes' ? current.notes.find(n => n.id === recordId) :
+          table === 'contacts' ? current.contacts.find(c => c.id === recordId) :
+          table === 'usage_records' ? current.usageRecords.find(u => u.id === recordId) :
+          table === 'installed_equipment' ? current.hospitals
+            .flatMap(h => h.installedEquipment)
+            .find(eq => eq.id === recordId) :
+          undefined;
+        hospitalId = existing?.hospitalId;
+      }
+    }
+
+    switch (table) {
+      case 'hospitals':
+        if (eventType === 'DELETE') {
+          setHospitals(prev => prev.filter(h => h.id !== recordId));
+        } else {
+          setHospitals(prev => {
+            // 保留 fetchHospitals 一併查詢的設備、合約數與最近記錄日期
+            const existing = prev.find(h => h.id === recordId);
+            const updated = mapHospitalRow(newRow as DBHospital, existing?.installedEquipment);
+            return upsertById(prev, existing ? { ...existing, ...updated } : updated);
+          });
+        }
+        break;
+      case 'notes':
+        setNotes(prev => eventType === 'DELETE'
+          ? prev.filter(n => n.id !== recordId)
+          : upsertById(prev, mapNoteRow(newRow as DBNote)));
+        break;
+      case 'contacts':
+        setContacts(prev => eventType === 'DELETE'
+          ? prev.filter(c => c.id !== recordId)
+          : upsertById(prev, mapContactRow(newRow as DBContact)));
+        break;
+      case 'usage_records':
+        setUsageRecords(prev => eventType === 'DELETE'
+          ? prev.filter(u => u.id !== recordId)
+          : upsertById(prev, mapUsageRecordRow(newRow as DBUsageRecord)));
+        break;
+      case 'installed_equipment':
+        setHospitals(prev => prev.map(h => {
+          const hasItem = h.installedEquipment.some(eq => eq.id === recordId);
+          const belongsHere = eventType !== 'DELETE' && newRow?.hospital_id === h.id;
+          if (!hasItem && !belongsHere) return h;
+
+          let installedEquipment = h.installedEquipment.filter(eq => eq.id !== recordId);
+          if (belongsHere) {
+            const equipment = mapEquipmentRow(newRow as DBInstalledEquipment);
+            installedEquipment = hasItem
+              ? h.installedEquipment.map(eq => eq.id === recordId ? equipment : eq)
+              : [...installedEquipment, equipment];
+          }
+          return { ...h, installedEquipment, equipmentInstalled: installedEquipment.length > 0 };
+        }));
+        break;
+      // 合約由 OverviewTab 自行載入，這裡只負責提示
+      case 'service_tickets':
+        // 狀態變更前的值不一定在廣播中，直接重新計算該醫院的未結案數
+        if (hospitalId) {
+          const ticketHospitalId = hospitalId;
+          fetchOpenTicketCount(ticketHospitalId)
+            .then(openTicketCount => setHospitals(prev => prev.map(h =>
+              h.id === ticketHospitalId ? { ...h, openTicketCount } : h)))
+            .catch(error => console.error('Error refreshing open ticket count:', error));
+        }
+        break;
+    }
+
+    if (!isLocalEcho && hospitalId) {
+      setRemoteEdit({ hospitalId, table, eventType, at: Date.now() });
+    }
+  }, []);
+
+  // 訂閱資料變更；斷線重連後重新載入，補回中斷期間漏掉的變更
   useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible' && hasLoadedOnce.current && user) {
-        // 背景靜默更新
-        loadData(false);
+    if (!user) return;
+
+    return subscribeToTableChanges(
+      ['hospitals', 'notes', 'contacts', 'usage_records', 'installed_equipment', 'contracts', 'service_tickets'],
+      applyRealtimeChange,
+      (isReconnect) => {
+        if (isReconnect && hasLoadedOnce.current) {
+          loadData(false);
+        }
       }
-    };
+    );
+  }, [user, loadData, applyRealtimeChange]);
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [user, loadData]);
+  // 活動記錄日期晚於醫院的上次拜訪日時，同步更新畫面上的 lastVisit
+  const bumpLocalLastVisit = (hospitalId: string, date: string) => {
+    setHospitals(prev => prev.map(h => {
+      if (h.id !== hospitalId) return h;
+      const lastVisit = h.lastVisit === 'Never' ? new Date(0) : new Date(h.lastVisit);
+      return new Date(date) > lastVisit ? { ...h, lastVisit: date } : h;
+    }));
+  };
 
-  // 更新醫院 (樂觀更新)
+  // 更新醫院 (樂觀更新，失敗時回復)
   const handleUpdateHospital = async (updatedHospital: Hospital) => {
+    const previous = hospitals.find(h => h.id === updatedHospital.id);
     // 先更新 UI
     setHospitals(prev => prev.map(h => h.id === updatedHospital.id ? updatedHospital : h));
 
-    const success = await updateHospital(updatedHospital);
-    if (!success) {
-      // 失敗時重新載入
-      loadData(false);
+    const result = await updateHospital(updatedHospital);
+    if (result.ok === false) {
+      if (previous) {
+        setHospitals(prev => prev.map(h => h.id === previous.id ? previous : h));
+      }
+      showError(result.error, '更新醫院資料');
     }
   };
 
-  // 更新聯絡人 (樂觀更新)
+  // 更新聯絡人 (樂觀更新，失敗時回復)
   const handleUpdateContact = async (updatedContact: Contact) => {
+    const previous = contacts.find(c => c.id === updatedContact.id);
     setContacts(prev => prev.map(c => c.id === updatedContact.id ? updatedContact : c));
 
-    const success = await updateContact(updatedContact);
-    if (!success) {
-      loadData(false);
+    const result = await updateContact(updatedContact);
+    if (result.ok === false) {
+      if (previous) {
+        setContacts(prev => prev.map(c => c.id === previous.id ? previous : c));
+      }
+      showError(result.error, '更新聯絡人');
     }
   };
 
-  // 更新筆記 (樂觀更新)
+  // 更新筆記 (樂觀更新，失敗時回復)
   const handleUpdateNote = async (updatedNote: Note) => {
+    const previous = notes.find(n => n.id === updatedNote.id);
     setNotes(prev => prev.map(n => n.id === updatedNote.id ? updatedNote : n));
 
-    const success = await updateNote(updatedNote);
-    if (!success) {
-      loadData(false);
-    } else {
-      // Check and update hospital lastVisit locally
-      const hospital = hospitals.find(h => h.id === updatedNote.hospitalId);
-      if (hospital) {
-        const noteDate = new Date(updatedNote.date);
-        const lastVisit = hospital.lastVisit === 'Never' ? new Date(0) : new Date(hospital.lastVisit);
-
-        if (noteDate > lastVisit) {
-          setHospitals(prev => prev.map(h =>
-            h.id === updatedNote.hospitalId ? { ...h, lastVisit: updatedNote.date } : h
-          ));
-        }
+    const result = await updateNote(updatedNote);
+    if (result.ok === false) {
+      if (previous) {
+        setNotes(prev => prev.map(n => n.id === previous.id ? previous : n));
       }
+      showError(result.error, '更新記錄');
+      return;
     }
+    bumpLocalLastVisit(updatedNote.hospitalId, updatedNote.date);
   };
 
-  // 刪除筆記 (樂觀更新)
+  // 刪除筆記 (樂觀更新，失敗時放回列表)
   const handleDeleteNote = async (noteId: string) => {
+    const removed = notes.find(n => n.id === noteId);
     // 先更新 UI
     setNotes(prev => prev.filter(n => n.id !== noteId));
 
-    const success = await deleteNote(noteId);
-    if (!success) {
-      // 失敗時重新載入
-      loadData(false);
+    const result = await deleteNote(noteId);
+    if (result.ok === false) {
+      if (removed) {
+        setNotes(prev => upsertById(prev, removed));
+      }
+      showError(result.error, '刪除記錄');
     }
   };
 
   // 新增醫院
   const handleAddHospital = async (newHospitalData: Pick<Hospital, 'name' | 'region' | 'address' | 'stage' | 'level'>) => {
-    const newHospital = await createHospital(newHospitalData);
-    if (newHospital) {
-      setHospitals(prev => [newHospital, ...prev]);
+    const result = await createHospital(newHospitalData);
+    if (result.ok === false) {
+      showError(result.error, '新增醫院');
+      return;
     }
+    setHospitals(prev => upsertById(prev, result.data));
   };
 
   // 新增筆記
-  const handleAddNote = async (newNote: Note) => {
-    const created = await createNote({
-      hospitalId: newNote.hospitalId,
-      content: newNote.content,
-      date: newNote.date,
-      author: newNote.author,
-      activityType: newNote.activityType
-    });
-    if (created) {
-      setNotes(prev => [created, ...prev]);
-
-      // Check and update hospital lastVisit locally
-      const hospital = hospitals.find(h => h.id === newNote.hospitalId);
-      if (hospital) {
-        const noteDate = new Date(newNote.date);
-        const lastVisit = hospital.lastVisit === 'Never' ? new Date(0) : new Date(hospital.lastVisit);
-
-        if (noteDate > lastVisit) {
-          setHospitals(prev => prev.map(h =>
-            h.id === newNote.hospitalId ? { ...h, lastVisit: newNote.date } : h
-          ));
-        }
-      }
+  // 回傳建立結果，活動記錄分頁需要新記錄的 id 來對應錄音附件
+  const handleAddNote = async (newNote: Note): Promise<Result<Note>> => {
+    const { id: _localId, ...note } = newNote;
+    const result = await createNote(note);
+    if (result.ok === false) {
+      showError(result.error, '新增記錄');
+      return result;
     }
+    setNotes(prev => upsertById(prev, result.data));
+    bumpLocalLastVisit(newNote.hospitalId, newNote.date);
+    return result;
   };
 
   // 新增使用記錄
   const handleAddUsageRecord = async (newRecord: UsageRecord) => {
-    const created = await createUsageRecord({
+    const result = await createUsageRecord({
       hospitalId: newRecord.hospitalId,
       productCode: newRecord.productCode,
       quantity: newRecord.quantity,
       date: newRecord.date,
-      type: newRecord.type
+      type: newRecord.type,
+      unitPrice: newRecord.unitPrice
     });
-    if (created) {
-      setUsageRecords(prev => [created, ...prev]);
+    if (result.ok === false) {
+      showError(result.error, '新增訂單');
+      return;
     }
+    setUsageRecords(prev => upsertById(prev, result.data));
+  };
+
+  // 報價單轉訂單由 RPC 一次建立所有訂單，這裡只併入列表
+  const handleUsageRecordsCreated = (records: UsageRecord[]) => {
+    setUsageRecords(prev => records.reduce(upsertById, prev));
   };
 
-  // 更新使用記錄
+  // 更新使用記錄 (樂觀更新，失敗時回復)
   const handleUpdateUsageRecord = async (updatedRecord: UsageRecord) => {
+    const previous = usageRecords.find(u => u.id === updatedRecord.id);
     setUsageRecords(prev => prev.map(u => u.id === updatedRecord.id ? updatedRecord : u));
 
-    const success = await updateUsageRecord(updatedRecord);
-    if (!success) {
-      loadData(false);
+    const result = await updateUsageRecord(updatedRecord);
+    if (result.ok === false) {
+      if (previous) {
+        setUsageRecords(prev => prev.map(u => u.id === previous.id ? previous : u));
+      }
+      showError(result.error, '更新訂單');
+      return;
     }
+    // 帶回依訂單日期重新查出的單價
+    setUsageRecords(prev => prev.map(u => u.id === updatedRecord.id ? result.data : u));
   };
 
-  // 刪除使用記錄 (樂觀更新)
+  // 刪除使用記錄 (樂觀更新，失敗時放回列表)
   const handleDeleteUsageRecord = async (recordId: string) => {
+    const removed = usageRecords.find(u => u.id === recordId);
     // 先更新 UI
     setUsageRecords(prev => prev.filter(u => u.id !== recordId));
 
-    const success = await deleteUsageRecord(recordId);
-    if (!success) {
-      // 失敗時重新載入
-      loadData(false);
+    const result = await deleteUsageRecord(recordId);
+    if (result.ok === false) {
+      if (removed) {
+        setUsageRecords(prev => upsertById(prev, removed));
+      }
+      showError(result.error, '刪除訂單');
     }
   };
 
   // 新增聯絡人
   const handleAddContact = async (newContact: Contact) => {
-    const created = await createContact({
+    const result = await createContact({
       hospitalId: newContact.hospitalId,
       name: newContact.name,
       role: newContact.role,
@@ -409,65 +663,64 @@ const AppContent: React.FC = () => {
       phone: newContact.phone,
       isKeyDecisionMaker: newContact.isKeyDecisionMaker
     });
-    if (created) {
-      setContacts(prev => [created, ...prev]);
+    if (result.ok === false) {
+      showError(result.error, '新增聯絡人');
+      return;
     }
+    setContacts(prev => upsertById(prev, result.data));
   };
 
   // ============== 設備管理 ==============
 
+  // 以新的設備清單取代某間醫院的 installedEquipment
+  const setHospitalEquipment = (hospitalId: string, update: (equipment: InstalledEquipment[]) => InstalledEquipment[]) => {
+    setHospitals(prev => prev.map(h => {
+      if (h.id !== hospitalId) return h;
+      const installedEquipment = update(h.installedEquipment);
+      return { ...h, installedEquipment, equipmentInstalled: installedEquipment.length > 0 };
+    }));
+  };
+
   // 新增設備
   const handleAddEquipment = async (equipment: InstalledEquipment) => {
-    const created = await createInstalledEquipment(equipment);
-    if (created) {
-      // 更新對應醫院的 installedEquipment
-      setHospitals(prev => prev.map(h => {
-        if (h.id === equipment.hospitalId) {
-          return {
-            ...h,
-            installedEquipment: [...h.installedEquipment, created],
-            equipmentInstalled: true
-          };
-        }
-        return h;
-      }));
+    const result = await createInstalledEquipment(equipment);
+    if (result.ok === false) {
+      showError(result.error, '新增設備');
+      return;
     }
+    const created = result.data;
+    setHospitalEquipment(equipment.hospitalId, list => [...list.filter(eq => eq.id !== created.id), created]);
   };
 
-  // 更新設備
+  // 更新設備 (樂觀更新，失敗時回復)
   const handleUpdateEquipment = async (equipment: InstalledEquipment) => {
-    // 樂觀更新
-    setHospitals(prev => prev.map(h => {
-      const updatedEquipment = h.installedEquipment.map(eq =>
-        eq.id === equipment.id ? equipment : eq
-      );
-      if (updatedEquipment.some(eq => eq.id === equipment.id)) {
-        return { ...h, installedEquipment: updatedEquipment };
+    const previous = hospitals
+      .find(h => h.id === equipment.hospitalId)
+      ?.installedEquipment.find(eq => eq.id === equipment.id);
+    setHospitalEquipment(equipment.hospitalId, list => list.map(eq => eq.id === equipment.id ? equipment : eq));
+
+    const result = await updateInstalledEquipment(equipment);
+    if (result.ok === false) {
+      if (previous) {
+        setHospitalEquipment(equipment.hospitalId, list => list.map(eq => eq.id === previous.id ? previous : eq));
       }
-      return h;
-    }));
-
-    const success = await updateInstalledEquipment(equipment);
-    if (!success) {
-      loadData(false);
+      showError(result.error, '更新設備');
+      return;
     }
+    const updated = result.data;
+    setHospitalEquipment(equipment.hospitalId, list => list.map(eq => eq.id === updated.id ? updated : eq));
   };
 
-  // 刪除設備
+  // 刪除設備 (樂觀更新，失敗時放回列表)
   const handleDeleteEquipment = async (equipmentId: string) => {
-    // 樂觀更新
-    setHospitals(prev => prev.map(h => {
-      const updatedEquipment = h.installedEquipment.filter(eq => eq.id !== equipmentId);
-      return {
-        ...h,
-        installedEquipment: updatedEquipment,
-        equipmentInstalled: updatedEquipment.length > 0
-      };
-    }));
-
-    const success = await deleteInstalledEquipment(equipmentId);
-    if (!success) {
-      loadData(false);
+    const removed = hospitals.flatMap(h => h.installedEquipment).find(eq => eq.id === equipmentId);
+    if (!removed) return;
+    setHospitalEquipment(removed.hospitalId, list => list.filter(eq => eq.id !== equipmentId));
+
+    const result = await deleteInstalledEquipment(equipmentId);
+    if (result.ok === false) {
+      setHospitalEquipment(removed.hospitalId, list => [...list.filter(eq => eq.id !== removed.id), removed]);
+      showError(result.error, '刪除設備');
     }
   };
 
@@ -500,6 +753,12 @@ const AppContent: React.FC = () => {
       case 'pricelist':
         navigate('/pricelist');
         break;
+      case 'contracts':
+        navigate('/contracts');
+        break;
+      case 'loans':
+        navigate('/loans');
+        break;
       case 'calendar':
         navigate('/calendar');
         break;
@@ -512,9 +771,9 @@ const AppContent: React.FC = () => {
   };
 
   return (
-    <Layout activeTab={activeTab} setActiveTab={handleTabChange}>
+    <Layout activeTab={activeTab} setActiveTab={handleTabChange} hospitals={hospitals}>
       <Routes>
-        <Route path="/" element={<Dashboard hospitals={hospitals} usageRecords={usageRecords} notes={notes} />} />
+        <Route path="/" element={<Dashboard hospitals={hospitals} />} />
         <Route
           path="/hospitals"
           element={
@@ -532,6 +791,11 @@ const AppContent: React.FC = () => {
               notes={notes}
               contacts={contacts}
               usageRecords={usageRecords}
+              remoteEdit={remoteEdit}
+              hospitalDataState={hospitalDataState}
+              dataVersion={dataVersion}
+              onLoadHospitalData={loadHospitalData}
+              onLoadMoreNotes={loadMoreNotes}
               onUpdateHospital={handleUpdateHospital}
               onAddNote={handleAddNote}
               onUpdateNote={handleUpdateNote}
@@ -541,6 +805,7 @@ const AppContent: React.FC = () => {
               onAddUsageRecord={handleAddUsageRecord}
               onUpdateUsageRecord={handleUpdateUsageRecord}
               onDeleteUsageRecord={handleDeleteUsageRecord}
+              onUsageRecordsCreated={handleUsageRecordsCreated}
               onAddEquipment={handleAddEquipment}
               onUpdateEquipment={handleUpdateEquipment}
               onDeleteEquipment={handleDeleteEquipment}
@@ -551,18 +816,19 @@ const AppContent: React.FC = () => {
           path="/pricelist" 
           element={<PriceList hospitals={hospitals} />} 
         />
+        <Route path="/contracts" element={<ContractList hospitals={hospitals} />} />
+        <Route path="/loans" element={<LoanProgram hospitals={hospitals} />} />
         <Route 
           path="/calendar" 
           element={
             <Calendar 
-              notes={notes} 
               hospitals={hospitals} 
               allProfiles={allProfiles}
             />
           } 
         />
-        <Route path="/settings" element={<Settings />} />
-        <Route path="/settings/:section" element={<Settings />} />
+        <Route path="/settings" element={<Settings hospitals={hospitals} allProfiles={allProfiles} onDataRestored={() => loadData(false)} />} />
+        <Route path="/settings/:section" element={<Settings hospitals={hospitals} allProfiles={allProfiles} onDataRestored={() => loadData(false)} />} />
       </Routes>
     </Layout>
   );
@@ -572,7 +838,13 @@ const App: React.FC = () => {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <AppContent />
+        <ToastProvider>
+          <ProductProvider>
+            <SyncProvider>
+              <AppContent />
+            </SyncProvider>
+          </ProductProvider>
+        </ToastProvider>
       </AuthProvider>
     </BrowserRouter>
   );
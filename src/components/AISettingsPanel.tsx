@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, Check, Loader, Save, Zap, Cloud, Server, FlaskConical, Mic } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import {
+  loadAISettings,
+  saveAISettings,
+  testAIProvider,
+  fetchAIQuota,
+  AI_PROVIDER_NAMES,
+  AISettings,
+  AIProviderId,
+  AIQuota
+} from '../services/aiService';
+
+const PROVIDER_OPTIONS: { id: AIProviderId; icon: React.ElementType; description: string }[] = [
+  { id: 'gemini', icon: Cloud, description: '經由公司伺服器呼叫 Google Gemini，依角色有每日用量上限' },
+  { id: 'openai', icon: Server, description: 'OpenAI、Azure OpenAI 或自架的 Ollama、vLLM 等相容服務' },
+  { id: 'mock', icon: FlaskConical, description: '不連線、不需金鑰，依固定規則產生結果，適合開發與展示' }
+];
+
+const inputClassName = 'w-full px-4 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+
+const AISettingsPanel: React.FC = () => {
+  const { showToast, showError } = useToast();
+  const [settings, setSettings] = useState<AISettings>(loadAISettings);
+  const [isTesting, setIsTesting] = useState(false);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [quota, setQuota] = useState<AIQuota | null>(null);
+
+  // 額度查詢失敗（例如尚未部署 ai-proxy）時不顯示用量，不另外提示
+  const loadQuota = async () => {
+    const result = await fetchAIQuota();
+    setQuota(result.ok === true ? result.data : null);
+  };
+
+  useEffect(() => {
+    if (settings.provider === 'gemini') loadQuota();
+  }, [settings.provider]);
+
+  const update = (updates: Partial<AISettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    setSaveSuccess(false);
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 3000);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    const result = await testAIProvider(settings);
+    setIsTesting(false);
+
+    if (settings.provider === 'gemini') loadQuota();
+    if (result.ok === false) {
+      showError(result.error, '連線測試');
+      return;
+    }
+    showToast(`${AI_PROVIDER_NAMES[settings.provider]} 連線正常`, 'success');
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h2 className="text-xl font-bold text-slate-900">AI 服務</h2>
+        <p className="text-sm text-slate-500 mt-1">
+          選擇客戶洞察、郵件草擬、筆記潤飾與語音轉錄使用的 AI 服務。設定只儲存在此瀏覽器。
+        </p>
+      </div>
+
+      {/* 供應商 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {PROVIDER_OPTIONS.map(option => {
+          const Icon = option.icon;
+          const isSelected = settings.provider === option.id;
+          return (
+            <button
+              key={option.id}
+              onClick={() => update({ provider: option.id })}
+              className={`text-left p-4 rounded-xl border-2 transition-all ${isSelected ? 'border-blue-500 bg-blue-50/50' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <Icon size={20} className={isSelected ? 'text-blue-600' : 'text-slate-400'} />
+                {isSelected && <Check size={16} className="text-blue-600" />}
+              </div>
+              <p className="font-semibold text-slate-900 text-sm">{AI_PROVIDER_NAMES[option.id]}</p>
+              <p className="text-xs text-slate-500 mt-1">{option.description}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* 供應商設定 */}
+      {settings.provider === 'gemini' && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">模型</label>
+            <input type="text" value={settings.geminiModel} onChange={(e) => update({ geminiModel: e.target.value })} className={inputClassName} />
+          </div>
+          {quota && (
+            <div className="p-4 bg-slate-50 border border-slate-100 rounded-xl">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="font-semibold text-slate-700">今日用量</span>
+                <span className="text-slate-500">{quota.used.toLocaleString()} / {quota.limit.toLocaleString()} tokens</span>
+              </div>
+              <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${quota.used >= quota.limit ? 'bg-red-500' : quota.used >= quota.limit * 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, quota.limit > 0 ? (quota.used / quota.limit) * 100 : 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-slate-400 mt-2">額度每日 00:00 重新計算，如需調整請洽系統管理員。</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {settings.provider === 'openai' && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">服務網址</label>
+            <input type="url" value={settings.openaiBaseUrl} onChange={(e) => update({ openaiBaseUrl: e.target.value })} placeholder="https://api.openai.com/v1" className={inputClassName} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">模型</label>
+            <input type="text" value={settings.openaiModel} onChange={(e) => update({ openaiModel: e.target.value })} className={inputClassName} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">API Key</label>
+            <input
+              type="password"
+              value={settings.openaiApiKey}
+              onChange={(e) => update({ openaiApiKey: e.target.value })}
+              placeholder="本機服務可留空"
+              className={inputClassName}
+              autoComplete="off"
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.provider === 'mock' && (
+        <div className="flex items-start space-x-3 p-4 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-800">
+          <Sparkles size={18} className="flex-shrink-0 mt-0.5" />
+          <p>本機模擬不會分析內容，產生的洞察與草稿都會標示「本機模擬」，請勿作為實際業務判斷的依據。</p>
+        </div>
+      )}
+
+      {/* 語音轉錄 */}
+      <div className="pt-6 border-t border-slate-100 space-y-4">
+        <div>
+          <h3 className="font-bold text-slate-900 flex items-center">
+            <Mic size={18} className="mr-2 text-slate-400" />
+            語音轉錄
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            活動記錄口述錄音的轉錄服務。留空網址時使用上方選擇的 AI 服務；
+            Ollama 等不支援語音的服務，可另外指定自架的 Whisper 相容服務（例如 faster-whisper-server）。
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-1.5">轉錄服務網址</label>
+          <input
+            type="url"
+            value={settings.transcriptionBaseUrl}
+            onChange={(e) => update({ transcriptionBaseUrl: e.target.value })}
+            placeholder="http://localhost:8000/v1"
+            className={inputClassName}
+          />
+        </div>
+        {(settings.transcriptionBaseUrl || settings.provider === 'openai') && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-1.5">轉錄模型</label>
+              <input type="text" value={settings.transcriptionModel} onChange={(e) => update({ transcriptionModel: e.target.value })} className={inputClassName} />
+            </div>
+            {settings.transcriptionBaseUrl && (
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-1.5">API Key</label>
+                <input
+                  type="password"
+                  value={settings.transcriptionApiKey}
+                  onChange={(e) => update({ transcriptionApiKey: e.target.value })}
+                  placeholder="本機服務可留空"
+                  className={inputClassName}
+                  autoComplete="off"
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 操作 */}
+      <div className="pt-4 flex items-center justify-between">
+        <div>
+          {saveSuccess && (
+            <div className="flex items-center text-sm text-green-600 font-medium animate-fade-in">
+              <Check size={16} className="mr-1.5" />
+              設定已儲存
+            </div>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="px-5 py-2.5 border border-slate-200 text-slate-700 rounded-xl font-semibold hover:bg-slate-50 transition-all flex items-center disabled:opacity-50"
+          >
+            {isTesting ? <Loader size={18} className="animate-spin mr-2" /> : <Zap size={18} className="mr-2" />}
+            測試連線
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md shadow-blue-500/20 active:scale-[0.98] transition-all flex items-center"
+          >
+            <Save size={18} className="mr-2" />
+            儲存設定
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
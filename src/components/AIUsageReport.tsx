@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Sparkles, Loader, Shield, RefreshCw } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAIUsageLogs, ProfileSummary } from '../services/databaseService';
+import { toDataError } from '../services/dataErrors';
+import { toDateKey } from '../lib/dateKey';
+import { AIUsageLog } from '../types';
+
+interface AIUsageReportProps {
+  allProfiles: ProfileSummary[];
+}
+
+// 每百萬 token 的美元牌價，僅用於估算，實際金額以 Google Cloud 帳單為準
+const MODEL_PRICES_PER_MILLION: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 }
+};
+
+const FEATURE_NAMES: Record<AIUsageLog['feature'], string> = {
+  insight: '客戶洞察',
+  email: '郵件草擬',
+  refine: '筆記潤飾',
+  extract: '欄位擷取',
+  transcribe: '語音轉錄'
+};
+
+interface UsageSummary {
+  requests: number;
+  errors: number;
+  tokens: number;
+  cost: number;
+}
+
+const emptySummary = (): UsageSummary => ({ requests: 0, errors: 0, tokens: 0, cost: 0 });
+
+const estimateCost = (log: AIUsageLog) => {
+  const price = MODEL_PRICES_PER_MILLION[log.model] || MODEL_PRICES_PER_MILLION['gemini-2.5-flash'];
+  return (log.promptTokens * price.input + log.outputTokens * price.output) / 1_000_000;
+};
+
+const addToSummary = (summary: UsageSummary, log: AIUsageLog) => {
+  summary.requests += 1;
+  summary.tokens += log.totalTokens;
+  summary.cost += estimateCost(log);
+  if (log.status === 'error') summary.errors += 1;
+};
+
+const formatCost = (cost: number) => `US$ ${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const AIUsageReport: React.FC<AIUsageReportProps> = ({ allProfiles }) => {
+  const { profile: currentUserProfile } = useAuth();
+  const { showError } = useToast();
+  const [logs, setLogs] = useState<AIUsageLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [from, setFrom] = useState(() => {
+    const today = new Date();
+    return toDateKey(new Date(today.getFullYear(), today.getMonth(), 1));
+  });
+  const [to, setTo] = useState(() => toDateKey(new Date()));
+
+  const isAdmin = currentUserProfile?.role_type === 'admin';
+
+  const loadLogs = useCallback(async () => {
+    if (!from || !to) return;
+    setIsLoading(true);
+    try {
+      setLogs(await fetchAIUsageLogs(from, to));
+    } catch (error) {
+      showError(toDataError(error), '載入 AI 用量');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from, to, showError]);
+
+  useEffect(() => {
+    if (isAdmin) loadLogs();
+  }, [isAdmin, loadLogs]);
+
+  const { total, byUser, byFeature } = useMemo(() => {
+    const total = emptySummary();
+    const byUser = new Map<string, UsageSummary>();
+    const byFeature = new Map<AIUsageLog['feature'], UsageSummary>();
+
+    logs.forEach(log => {
+      addToSummary(total, log);
+      const userKey = log.userId || '';
+      if (!byUser.has(userKey)) byUser.set(userKey, emptySummary());
+      addToSummary(byUser.get(userKey)!, log);
+      if (!byFeature.has(log.feature)) byFeature.set(log.feature, emptySummary());
+      addToSummary(byFeature.get(log.feature)!, log);
+    });
+
+    return {
+      total,
+      byUser: Array.from(byUser.entries()).sort((a, b) => b[1].tokens - a[1].tokens),
+      byFeature: Array.from(byFeature.entries()).sort((a, b) => b[1].tokens - a[1].tokens)
+    };
+  }, [logs]);
+
+  const profileNames = useMemo(
+    () => Object.fromEntries(allProfiles.map(p => [p.id, p.full_name || p.email])),
+    [allProfiles]
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="p-6 text-center">
+        <Shield size={48} className="mx-auto text-slate-300 mb-4" />
+        <p className="text-slate-500">您沒有權限存取此頁面</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900">AI 用量</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            經由伺服器呼叫 Gemini 的次數與 token 用量。使用者自行設定的 OpenAI 相容服務不列入統計。
+          </p>
+        </div>
+        <button
+          onClick={loadLogs}
+          disabled={isLoading}
+          className="p-2.5 border border-slate-200 rounded-xl text-slate-500 hover:text-blue-600 hover:border-blue-200 transition-colors disabled:opacity-50"
+          title="重新整理"
+        >
+          <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {/* 期間 */}
+      <div className="grid grid-cols-2 gap-3 max-w-md">
+        <input
+          type="date"
+          value={from}
+          max={to}
+          onChange={(e) => setFrom(e.target.value)}
+          className="px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          title="開始日期"
+        />
+        <input
+          type="date"
+          value={to}
+          min={from}
+          onChange={(e) => setTo(e.target.value)}
+          className="px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          title="結束日期"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-slate-500">
+          <Loader size={20} className="animate-spin mr-2" />
+          <span>載入 AI 用量...</span>
+        </div>
+      ) : logs.length === 0 ? (
+        <div className="text-center py-12">
+          <Sparkles size={40} className="mx-auto mb-3 text-slate-300" />
+          <p className="text-slate-500">此期間沒有 AI 使用記錄</p>
+        </div>
+      ) : (
+        <>
+          {/* 總計 */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {[
+              { label: '呼叫次數', value: total.requests.toLocaleString() },
+              { label: 'Token 用量', value: total.tokens.toLocaleString() },
+              { label: '失敗次數', value: total.errors.toLocaleString() },
+              { label: '估算費用', value: formatCost(total.cost) }
+            ].map(stat => (
+              <div key={stat.label} className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+                <p className="text-xs font-medium text-slate-500">{stat.label}</p>
+                <p className="text-lg font-bold text-slate-900 mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* 依使用者 */}
+          <div>
+            <h3 className="text-sm font-bold text-slate-700 mb-2">依使用者</h3>
+            <div className="overflow-x-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="text-left font-semibold px-4 py-2.5">使用者</th>
+                    <th className="text-right font-semibold px-4 py-2.5">次數</th>
+                    <th className="text-right font-semibold px-4 py-2.5">失敗</th>
+                    <th className="text-right font-semibold px-4 py-2.5">Token</th>
+                    <th className="text-right font-semibold px-4 py-2.5">估算費用</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {byUser.map(([userId, summary]) => (
+                    <tr key={userId || 'unknown'}>
+                      <td className="px-4 py-2.5 text-slate-900">{profileNames[userId] || '未知使用者'}</td>
+                      <td className="px-4 py-2.5 text-right text-slate-600">{summary.requests.toLocaleString()}</td>
+                      <td className={`px-4 py-2.5 text-right ${summary.errors > 0 ? 'text-red-600' : 'text-slate-400'}`}>{summary.errors}</td>
+                      <td className="px-4 py-2.5 text-right text-slate-600">{summary.tokens.toLocaleString()}</td>
+                      <td className="px-4 py-2.5 text-right text-slate-600">{formatCost(summary.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* 依功能 */}
+          <div>
+            <h3 className="text-sm font-bold text-slate-700 mb-2">依功能</h3>
+            <div className="space-y-2">
+              {byFeature.map(([feature, summary]) => (
+                <div key={feature}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-slate-700">{FEATURE_NAMES[feature] || feature}</span>
+                    <span className="text-slate-500">
+                      {summary.requests.toLocaleString()} 次・{summary.tokens.toLocaleString()} tokens
+                    </span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 rounded-full"
+                      style={{ width: `${total.tokens > 0 ? (summary.tokens / total.tokens) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-400">
+            費用依各模型的公開牌價估算，實際金額以 Google Cloud 帳單為準。
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AIUsageReport;
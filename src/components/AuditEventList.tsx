@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, RotateCcw, XCircle, ChevronDown, ChevronUp, ArrowRight } from 'lucide-react';
+import { AuditEvent, AuditEntityType, AuditAction, AuditFieldChange } from '../types';
+
+// 稽核記錄列表：醫院詳情的「歷史記錄」與設定頁的稽核記錄共用
+
+export const AUDIT_ENTITY_NAMES: Record<AuditEntityType, string> = {
+  hospitals: '醫院資料',
+  contacts: '聯絡人',
+  notes: '活動記錄',
+  usage_records: '訂單',
+  installed_equipment: '設備',
+  contracts: '合約',
+  products: '產品',
+  attachments: '附件',
+  quotes: '報價單',
+  maintenance_visits: '保養紀錄',
+  equipment_assets: '設備序號',
+  service_tickets: '維修單'
+};
+
+const ACTION_NAMES: Record<AuditAction, string> = {
+  create: '新增',
+  update: '修改',
+  delete: '刪除',
+  restore: '還原',
+  purge: '永久刪除'
+};
+
+const ACTION_STYLES: Record<AuditAction, { icon: React.ReactNode; badge: string }> = {
+  create: { icon: <Plus size={14} />, badge: 'bg-emerald-50 text-emerald-600' },
+  update: { icon: <Pencil size={14} />, badge: 'bg-blue-50 text-blue-600' },
+  delete: { icon: <Trash2 size={14} />, badge: 'bg-red-50 text-red-600' },
+  restore: { icon: <RotateCcw size={14} />, badge: 'bg-amber-50 text-amber-600' },
+  purge: { icon: <XCircle size={14} />, badge: 'bg-red-100 text-red-700' }
+};
+
+// 資料庫欄位 → 中文名稱
+const FIELD_NAMES: Record<string, string> = {
+  name: '名稱',
+  address: '地址',
+  region: '區域',
+  level: '等級',
+  stage: '銷售階段',
+  equipment_installed: '已安裝設備',
+  last_visit: '上次拜訪',
+  notes: '備註',
+  charge_per_use: '每次收費',
+  consumables: '耗材價格',
+  role: '職稱',
+  email: 'Email',
+  phone: '電話',
+  is_key_decision_maker: '關鍵決策者',
+  content: '內容',
+  activity_type: '活動類型',
+  author_name: '記錄者',
+  created_at: '活動日期',
+  tags: '標籤',
+  sentiment: '客戶反應',
+  next_step: '下一步',
+  next_step_date: '下一步日期',
+  related_contact_ids: '相關聯絡人',
+  attendees: '其他參與者',
+  audio_recordings: '口述錄音',
+  hospital_id: '醫院',
+  product_code: '產品',
+  quantity: '數量',
+  date: '日期',
+  type: '類型',
+  install_date: '安裝日期',
+  ownership: '所有權',
+  loan_converted_at: '借用轉換日',
+  contract_type: '合約類型',
+  start_date: '開始日期',
+  duration_years: '合約年限',
+  warranty_years: '保固年限',
+  maintenance_frequency: '保養頻率',
+  renewal_stage: '續約階段',
+  scheduled_date: '排定日期',
+  technician: '技術人員',
+  completed_date: '完成日期',
+  findings: '檢查結果',
+  signed_off_by: '院方簽收人',
+  signed_off_at: '簽收時間',
+  serial_number: '序號',
+  location: '放置位置',
+  warranty_end_date: '保固到期',
+  fault_category: '故障類別',
+  priority: '優先等級',
+  reported_at: '報修時間',
+  resolved_at: '修復時間',
+  resolution: '處理結果',
+  loaner_serial_number: '替代機序號',
+  loaner_assigned_date: '替代機借出日',
+  loaner_returned_date: '替代機歸還日',
+  code: '代碼',
+  description: '說明',
+  is_active: '銷售中',
+  sort_order: '排序',
+  list_price: '定價',
+  unit_price: '單價',
+  quote_number: '報價單號',
+  items: '報價項目',
+  tax_rate: '稅率',
+  subtotal: '未稅金額',
+  tax: '稅額',
+  total: '總計',
+  valid_until: '有效期限',
+  status: '狀態',
+  converted_at: '轉為訂單',
+  created_by_name: '建立者',
+  recorded_by_name: '記錄者',
+  file_name: '檔名',
+  mime_type: '檔案類型',
+  size: '檔案大小',
+  visibility: '檢視權限',
+  entity_type: '連結對象',
+  uploader_name: '上傳者'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? '是' : '否';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    // 耗材價格 [{ code, price }]
+    if (value.every(v => v && typeof v === 'object' && 'code' in v && 'price' in v)) {
+      return value.map(v => `${v.code} $${Number(v.price).toLocaleString()}`).join('、');
+    }
+    // 報價項目 [{ productCode, quantity, unitPrice, ... }]
+    if (value.every(v => v && typeof v === 'object' && 'productCode' in v && 'unitPrice' in v)) {
+      return value.map(v => `${v.productCode} × ${v.quantity} @ $${Number(v.unitPrice).toLocaleString()}`).join('、');
+    }
+    // 口述錄音 [{ path, durationSeconds, ... }]
+    if (value.every(v => v && typeof v === 'object' && 'path' in v && 'durationSeconds' in v)) {
+      return value.map(v => `錄音 ${v.durationSeconds} 秒`).join('、');
+    }
+    return value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join('、');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatAuditTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-TW', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+interface AuditEventListProps {
+  events: AuditEvent[];
+  hospitalNames?: Record<string, string>; // 提供時顯示事件所屬醫院（全站稽核記錄使用）
+}
+
+const AuditEventList: React.FC<AuditEventListProps> = ({ events, hospitalNames }) => {
+  // 修改事件預設展開，其他事件只在點開時顯示完整內容
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="divide-y divide-slate-100">
+      {events.map(event => {
+        const style = ACTION_STYLES[event.action];
+        const fields = (Object.entries(event.changes) as [string, AuditFieldChange][]).filter(([field]) => field !== 'hospital_id' || event.action === 'update');
+        const isExpanded = (event.action === 'update') !== toggled.has(event.id);
+        const hospitalName = hospitalNames && event.hospitalId ? hospitalNames[event.hospitalId] : undefined;
+
+        return (
+          <div key={event.id} className="py-4 flex gap-3">
+            <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${style.badge}`}>
+              {style.icon}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
+                <span className="font-semibold text-slate-900 text-sm">{event.actorName}</span>
+                <span className="text-sm text-slate-600">
+                  {ACTION_NAMES[event.action]}了{AUDIT_ENTITY_NAMES[event.entityType]}
+                  {event.entityLabel && <span className="font-medium text-slate-800">「{event.entityLabel}」</span>}
+                </span>
+                {hospitalName && event.entityType !== 'hospitals' && (
+                  <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-600">{hospitalName}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 mt-1">
+                <span className="text-xs text-slate-400">{formatAuditTime(event.createdAt)}</span>
+                {fields.length > 0 && (
+                  <button
+                    onClick={() => toggle(event.id)}
+                    className="text-xs font-medium text-slate-500 hover:text-blue-600 flex items-center gap-0.5"
+                  >
+                    {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                    {isExpanded ? '收合' : `${fields.length} 個欄位`}
+                  </button>
+                )}
+              </div>
+
+              {isExpanded && fields.length > 0 && (
+                <div className="mt-2 bg-slate-50 rounded-xl border border-slate-100 divide-y divide-slate-100">
+                  {fields.map(([field, change]) => (
+                    <div key={field} className="px-3 py-2 text-sm grid grid-cols-[6rem_1fr] gap-2">
+                      <span className="text-slate-500 font-medium">{FIELD_NAMES[field] || field}</span>
+                      {event.action === 'update' ? (
+                        <span className="flex flex-wrap items-center gap-1.5 min-w-0">
+                          <span className="text-red-600 line-through break-all">{formatValue(change.before)}</span>
+                          <ArrowRight size={12} className="text-slate-400 flex-shrink-0" />
+                          <span className="text-emerald-700 break-all">{formatValue(change.after)}</span>
+                        </span>
+                      ) : (
+                        <span className="text-slate-700 break-all">
+                          {formatValue(event.action === 'create' || event.action === 'restore' ? change.after : change.before)}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AuditEventList;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { History, Loader, ChevronDown, Shield, RefreshCw } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAuditEvents, AuditQuery } from '../services/auditService';
+import { toDataError } from '../services/dataErrors';
+import { ProfileSummary } from '../services/databaseService';
+import { AuditEvent, AuditEntityType, Hospital } from '../types';
+import AuditEventList, { AUDIT_ENTITY_NAMES } from './AuditEventList';
+
+interface AuditLogProps {
+  hospitals: Hospital[];
+  allProfiles: ProfileSummary[];
+}
+
+type Filters = Pick<AuditQuery, 'entityType' | 'actorId' | 'from' | 'to'>;
+
+const AuditLog: React.FC<AuditLogProps> = ({ hospitals, allProfiles }) => {
+  const { profile: currentUserProfile } = useAuth();
+  const { showError } = useToast();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<Filters>({});
+
+  const isAdmin = currentUserProfile?.role_type === 'admin';
+
+  // 已刪除的醫院不在列表中，改顯示事件本身記錄的名稱
+  const hospitalNames = useMemo(
+    () => Object.fromEntries(hospitals.map(h => [h.id, h.name])),
+    [hospitals]
+  );
+
+  const loadEvents = useCallback(async (pageCursor: string | null) => {
+    setIsLoading(true);
+    try {
+      const page = await fetchAuditEvents({ ...filters, cursor: pageCursor });
+      setEvents(prev => pageCursor ? [...prev, ...page.items] : page.items);
+      setCursor(page.nextCursor);
+    } catch (error) {
+      showError(toDataError(error), '載入稽核記錄');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, showError]);
+
+  useEffect(() => {
+    if (isAdmin) loadEvents(null);
+  }, [isAdmin, loadEvents]);
+
+  const updateFilter = (updates: Filters) => {
+    setFilters(prev => ({ ...prev, ...updates }));
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="p-6 text-center">
+        <Shield size={48} className="mx-auto text-slate-300 mb-4" />
+        <p className="text-slate-500">您沒有權限存取此頁面</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900">稽核記錄</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            所有使用者對醫院、聯絡人、訂單、合約與產品的新增、修改與刪除
+          </p>
+        </div>
+        <button
+          onClick={() => loadEvents(null)}
+          disabled={isLoading}
+          className="p-2.5 border border-slate-200 rounded-xl text-slate-500 hover:text-blue-600 hover:border-blue-200 transition-colors disabled:opacity-50"
+          title="重新整理"
+        >
+          <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {/* 篩選 */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <select
+          value={filters.entityType || ''}
+          onChange={(e) => updateFilter({ entityType: (e.target.value || undefined) as AuditEntityType | undefined })}
+          className="px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+        >
+          <option value="">所有資料類型</option>
+          {(Object.keys(AUDIT_ENTITY_NAMES) as AuditEntityType[]).map(type => (
+            <option key={type} value={type}>{AUDIT_ENTITY_NAMES[type]}</option>
+          ))}
+        </select>
+        <select
+          value={filters.actorId || ''}
+          onChange={(e) => updateFilter({ actorId: e.target.value || undefined })}
+          className="px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+        >
+          <option value="">所有人員</option>
+          {allProfiles.map(p => (
+            <option key={p.id} value={p.id}>{p.full_name || p.email}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from || ''}
+          onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+          className="px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          title="開始日期"
+        />
+        <input
+          type="date"
+          value={filters.to || ''}
+          onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+          className="px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          title="結束日期"
+        />
+      </div>
+
+      {/* 記錄列表 */}
+      <div className="bg-white rounded-xl border border-slate-200 px-4">
+        {events.length > 0 && <AuditEventList events={events} hospitalNames={hospitalNames} />}
+
+        {events.length === 0 && isLoading && (
+          <div className="flex items-center justify-center py-12 text-slate-500">
+            <Loader size={20} className="animate-spin mr-2" />
+            <span>載入稽核記錄...</span>
+          </div>
+        )}
+
+        {events.length === 0 && !isLoading && (
+          <div className="text-center py-12">
+            <History size={40} className="mx-auto mb-3 text-slate-300" />
+            <p className="text-slate-500">沒有符合條件的記錄</p>
+          </div>
+        )}
+      </div>
+
+      {cursor && (
+        <button
+          onClick={() => loadEvents(cursor)}
+          disabled={isLoading}
+          className="w-full py-3 flex items-center justify-center gap-2 border border-slate-200 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-50 hover:text-blue-600 transition-colors disabled:opacity-60"
+        >
+          {isLoading ? <Loader size={16} className="animate-spin" /> : <ChevronDown size={16} />}
+          {isLoading ? '載入中...' : '載入更多'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -27,12 +27,17 @@ import {
   PanelRightClose,
   PanelRight
 } from 'lucide-react';
-import { Note, Hospital } from '../types';
+import { Hospital, UsageRecord, Contract, MaintenanceVisit, ProductType } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { useProducts } from '../contexts/ProductContext';
 import { useNavigate } from 'react-router-dom';
+import { fetchNotesInRange, fetchNotesWithNextStep, fetchContracts, fetchMaintenanceVisits, NoteWithUserId } from '../services/databaseService';
+import { fetchForecastRecords, forecastReorders } from '../services/forecastService';
+import { buildRenewalPipeline, getExpiringContracts, loadContractAlertThresholds, CONTRACT_RENEWAL_STAGES } from '../services/contractService';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
+import { toDateKey } from '../lib/dateKey';
 
 declare module 'jspdf' {
   interface jsPDF {
@@ -41,7 +46,6 @@ declare module 'jspdf' {
 }
 
 interface CalendarProps {
-  notes: Note[];
   hospitals: Hospital[];
   allProfiles?: { id: string; full_name: string; email: string }[];
 }
@@ -70,6 +74,7 @@ interface TodoItem {
   isOverdue: boolean;
   isDueSoon: boolean;
   daysUntilDue: number;
+  tab?: string;  // 點擊時開啟的醫院分頁，補貨預測導向訂單記錄
 }
 
 type ViewMode = 'month' | 'week' | 'day';
@@ -92,6 +97,15 @@ const SENTIMENT_COLORS: Record<string, string> = {
   'neutral': '',
 };
 
+// 待辦事項往回載入的天數（更早逾期的項目不再顯示）
+const TODO_LOOKBACK_DAYS = 90;
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
 const getHeatmapColor = (count: number, max: number): string => {
   if (count === 0) return '';
   const intensity = Math.min(count / Math.max(max, 1), 1);
@@ -101,8 +115,9 @@ const getHeatmapColor = (count: number, max: number): string => {
   return 'bg-blue-300';
 };
 
-const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = [] }) => {
+const Calendar: React.FC<CalendarProps> = ({ hospitals, allProfiles = [] }) => {
   const { profile } = useAuth();
+  const { getProduct } = useProducts();
   const navigate = useNavigate();
   const isManagerOrAdmin = profile?.role_type === 'manager' || profile?.role_type === 'admin';
 
@@ -117,6 +132,84 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
   // 手機版：點擊日期時顯示的 Modal
   const [showMobileDayModal, setShowMobileDayModal] = useState(false);
 
+  // 依顯示範圍查詢的資料
+  const [notes, setNotes] = useState<NoteWithUserId[]>([]);
+  const [nextStepNotes, setNextStepNotes] = useState<NoteWithUserId[]>([]);
+  const [recentVisitNotes, setRecentVisitNotes] = useState<NoteWithUserId[]>([]);
+  const [forecastRecords, setForecastRecords] = useState<UsageRecord[]>([]);
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [maintenanceVisits, setMaintenanceVisits] = useState<MaintenanceVisit[]>([]);
+
+  // 月曆格線涵蓋的日期範圍（週檢視、日檢視都落在其中），前後各多取一天避免時區誤差
+  const visibleRange = useMemo(() => {
+    const year = currentDate.getFullYear();
+    const month = currentDate.getMonth();
+    const firstDay = new Date(year, month, 1);
+    const lastDay = new Date(year, month + 1, 0);
+    return {
+      from: toDateKey(addDays(firstDay, -firstDay.getDay() - 1)),
+      to: toDateKey(addDays(lastDay, 6 - lastDay.getDay() + 1))
+    };
+  }, [currentDate.getFullYear(), currentDate.getMonth()]);
+
+  // 載入顯示範圍內的活動記錄
+  useEffect(() => {
+    let cancelled = false;
+    fetchNotesInRange(visibleRange.from, visibleRange.to)
+      .then(data => { if (!cancelled) setNotes(data); })
+      .catch(error => console.error('Error loading calendar notes:', error));
+    return () => { cancelled = true; };
+  }, [visibleRange]);
+
+  // 載入待辦事項：近期逾期與之後所有的下一步行動
+  useEffect(() => {
+    let cancelled = false;
+    const lookback = toDateKey(addDays(new Date(), -TODO_LOOKBACK_DAYS));
+    const from = visibleRange.from < lookback ? visibleRange.from : lookback;
+    fetchNotesWithNextStep(from)
+      .then(data => { if (!cancelled) setNextStepNotes(data); })
+      .catch(error => console.error('Error loading next steps:', error));
+    return () => { cancelled = true; };
+  }, [visibleRange]);
+
+  // 載入未拜訪門檻內的活動記錄，用於判斷哪些醫院久未拜訪
+  useEffect(() => {
+    let cancelled = false;
+    const today = new Date();
+    fetchNotesInRange(toDateKey(addDays(today, -unvisitedDaysThreshold)), toDateKey(today))
+      .then(data => { if (!cancelled) setRecentVisitNotes(data); })
+      .catch(error => console.error('Error loading recent visits:', error));
+    return () => { cancelled = true; };
+  }, [unvisitedDaysThreshold]);
+
+  // 載入補貨預測所需的近一年訂單
+  useEffect(() => {
+    let cancelled = false;
+    fetchForecastRecords()
+      .then(data => { if (!cancelled) setForecastRecords(data); })
+      .catch(error => console.error('Error loading forecast data:', error));
+    return () => { cancelled = true; };
+  }, []);
+
+  // 載入合約，到期提醒列為待辦
+  useEffect(() => {
+    let cancelled = false;
+    fetchContracts()
+      .then(data => { if (!cancelled) setContracts(data); })
+      .catch(error => console.error('Error loading contracts:', error));
+    return () => { cancelled = true; };
+  }, []);
+
+  // 載入尚未完成的定期保養：近期逾期與顯示範圍內排定的
+  useEffect(() => {
+    let cancelled = false;
+    const lookback = toDateKey(addDays(new Date(), -TODO_LOOKBACK_DAYS));
+    fetchMaintenanceVisits({ from: lookback, to: visibleRange.to, pendingOnly: true })
+      .then(data => { if (!cancelled) setMaintenanceVisits(data); })
+      .catch(error => console.error('Error loading maintenance visits:', error));
+    return () => { cancelled = true; };
+  }, [visibleRange]);
+
   // 點擊頁面其他地方時關閉所有選單
   React.useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -161,29 +254,41 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
     return hospital?.name || '未知醫院';
   };
 
-  const events: CalendarEvent[] = useMemo(() => {
-    return notes.map(note => ({
-      id: note.id,
-      date: note.date.split('T')[0],
-      hospitalId: note.hospitalId,
-      hospitalName: getHospitalName(note.hospitalId),
-      activityType: note.activityType,
-      content: note.content,
-      author: note.author,
-      userId: (note as any).userId,
-      nextStep: note.nextStep,
-      nextStepDate: note.nextStepDate,
-      sentiment: note.sentiment
-    }));
-  }, [notes, hospitals]);
-
-  const filteredEvents = useMemo(() => {
-    let filtered = events;
+  const toEvent = (note: NoteWithUserId): CalendarEvent => ({
+    id: note.id,
+    date: note.date.split('T')[0],
+    hospitalId: note.hospitalId,
+    hospitalName: getHospitalName(note.hospitalId),
+    activityType: note.activityType,
+    content: note.content,
+    author: note.author,
+    userId: note.userId,
+    nextStep: note.nextStep,
+    nextStepDate: note.nextStepDate,
+    sentiment: note.sentiment
+  });
+
+  const filterByUser = (list: CalendarEvent[]): CalendarEvent[] => {
     if (isManagerOrAdmin && selectedUserId !== 'all') {
-      filtered = filtered.filter(e => e.userId === selectedUserId);
+      return list.filter(e => e.userId === selectedUserId);
     }
-    return filtered;
-  }, [events, isManagerOrAdmin, selectedUserId]);
+    return list;
+  };
+
+  const filteredEvents = useMemo(
+    () => filterByUser(notes.map(toEvent)),
+    [notes, hospitals, isManagerOrAdmin, selectedUserId]
+  );
+
+  const nextStepEvents = useMemo(
+    () => filterByUser(nextStepNotes.map(toEvent)),
+    [nextStepNotes, hospitals, isManagerOrAdmin, selectedUserId]
+  );
+
+  const recentVisitEvents = useMemo(
+    () => filterByUser(recentVisitNotes.map(toEvent)),
+    [recentVisitNotes, hospitals, isManagerOrAdmin, selectedUserId]
+  );
 
   const monthlyStats = useMemo(() => {
     const year = currentDate.getFullYear();
@@ -218,7 +323,7 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
     
     const items: TodoItem[] = [];
     
-    filteredEvents.forEach(event => {
+    nextStepEvents.forEach(event => {
       if (event.nextStep && event.nextStepDate) {
         const dueDate = new Date(event.nextStepDate);
         dueDate.setHours(0, 0, 0, 0);
@@ -239,40 +344,92 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
       }
     });
 
+    // 預估補貨日也列為待辦；逾期太久的視為已停用該耗材，不再提醒
+    const todayKey = toDateKey(today);
+    forecastReorders(forecastRecords, hospitals, code => getProduct(code)?.type === ProductType.CONSUMABLE, today)
+      .filter(forecast => forecast.daysUntilReorder >= -TODO_LOOKBACK_DAYS)
+      .forEach(forecast => {
+        items.push({
+          id: `reorder-${forecast.hospitalId}-${forecast.productCode}`,
+          hospitalId: forecast.hospitalId,
+          hospitalName: hospitals.find(h => h.id === forecast.hospitalId)?.name || '未知醫院',
+          nextStep: `預估補貨 ${forecast.productCode}・約 ${forecast.monthlyConsumption.toLocaleString()} 件/月`,
+          nextStepDate: forecast.nextReorderDate,
+          activityDate: todayKey,
+          isOverdue: forecast.status === 'overdue',
+          isDueSoon: forecast.daysUntilReorder >= 0 && forecast.daysUntilReorder <= 3,
+          daysUntilDue: forecast.daysUntilReorder,
+          tab: 'orders'
+        });
+      });
+
+    // 進入續約提醒範圍且尚未結案的合約，以到期日列為待辦
+    const hospitalMap = new Map<string, Hospital>(hospitals.map(h => [h.id, h]));
+    getExpiringContracts(buildRenewalPipeline(contracts.filter(c => hospitalMap.has(c.hospitalId)), loadContractAlertThresholds(), today))
+      .filter(item => item.daysRemaining >= -TODO_LOOKBACK_DAYS)
+      .forEach(({ contract, endDate, daysRemaining, stage }) => {
+        items.push({
+          id: `contract-${contract.id}`,
+          hospitalId: contract.hospitalId,
+          hospitalName: hospitalMap.get(contract.hospitalId)?.name || '未知醫院',
+          nextStep: `合約到期 ${contract.productCode}・續約${CONTRACT_RENEWAL_STAGES[stage].label}`,
+          nextStepDate: endDate,
+          activityDate: todayKey,
+          isOverdue: daysRemaining < 0,
+          isDueSoon: daysRemaining >= 0 && daysRemaining <= 3,
+          daysUntilDue: daysRemaining
+        });
+      });
+
+    // 定期保養，合約已刪除的不列入
+    const contractIds = new Set(contracts.map(c => c.id));
+    maintenanceVisits
+      .filter(visit => contractIds.has(visit.contractId) && hospitalMap.has(visit.hospitalId))
+      .forEach(visit => {
+        const dueDate = new Date(`${visit.scheduledDate}T00:00:00`);
+        const diffDays = Math.round((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+        items.push({
+          id: `maintenance-${visit.id}`,
+          hospitalId: visit.hospitalId,
+          hospitalName: hospitalMap.get(visit.hospitalId)?.name || '未知醫院',
+          nextStep: `定期保養 ${visit.productCode}`,
+          nextStepDate: visit.scheduledDate,
+          activityDate: todayKey,
+          isOverdue: diffDays < 0,
+          isDueSoon: diffDays >= 0 && diffDays <= 3,
+          daysUntilDue: diffDays
+        });
+      });
+
     return items.sort((a, b) => {
       if (a.isOverdue && !b.isOverdue) return -1;
       if (!a.isOverdue && b.isOverdue) return 1;
       return a.daysUntilDue - b.daysUntilDue;
     });
-  }, [filteredEvents]);
+  }, [nextStepEvents, forecastRecords, contracts, maintenanceVisits, hospitals, getProduct]);
 
   const unvisitedHospitals = useMemo(() => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
-    const hospitalLastVisit: Record<string, Date> = {};
-    
-    filteredEvents.forEach(event => {
-      const eventDate = new Date(event.date);
-      if (!hospitalLastVisit[event.hospitalId] || eventDate > hospitalLastVisit[event.hospitalId]) {
-        hospitalLastVisit[event.hospitalId] = eventDate;
-      }
-    });
+    // 門檻天數內有拜訪記錄的醫院
+    const visitedHospitalIds = new Set(recentVisitEvents.map(event => event.hospitalId));
 
     const unvisited: { hospital: Hospital; daysSinceVisit: number; lastVisitDate: string | null }[] = [];
     
     hospitals.forEach(hospital => {
-      const lastVisit = hospitalLastVisit[hospital.id];
-      if (lastVisit) {
+      if (visitedHospitalIds.has(hospital.id)) return;
+
+      // 門檻之前的最後拜訪日改用醫院資料上的 lastVisit，不必載入全部歷史記錄
+      if (hospital.lastVisit && hospital.lastVisit !== 'Never') {
+        const lastVisit = new Date(hospital.lastVisit);
+        lastVisit.setHours(0, 0, 0, 0);
         const diffTime = today.getTime() - lastVisit.getTime();
-        const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-        if (diffDays >= unvisitedDaysThreshold) {
-          unvisited.push({
-            hospital,
-            daysSinceVisit: diffDays,
-            lastVisitDate: lastVisit.toISOString().split('T')[0]
-          });
-        }
+        unvisited.push({
+          hospital,
+          daysSinceVisit: Math.floor(diffTime / (1000 * 60 * 60 * 24)),
+          lastVisitDate: toDateKey(lastVisit)
+        });
       } else {
         unvisited.push({
           hospital,
@@ -283,7 +440,7 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
     });
 
     return unvisited.sort((a, b) => b.daysSinceVisit - a.daysSinceVisit);
-  }, [hospitals, filteredEvents, unvisitedDaysThreshold]);
+  }, [hospitals, recentVisitEvents, unvisitedDaysThreshold]);
 
   const monthCalendarData = useMemo(() => {
     const year = currentDate.getFullYear();
@@ -409,16 +566,16 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
     return { start: startOfMonth, end: endOfMonth };
   };
 
-  const getEventsInRange = (start: Date, end: Date) => {
-    return filteredEvents.filter(e => {
-      const eventDate = new Date(e.date);
-      return eventDate >= start && eventDate <= end;
-    }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // 匯出範圍不一定在目前顯示的月份內，另外向資料庫查詢
+  const getEventsInRange = async (start: Date, end: Date) => {
+    const rangeNotes = await fetchNotesInRange(toDateKey(start), toDateKey(end));
+    return filterByUser(rangeNotes.map(toEvent))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
   };
 
-  const exportToExcel = (range: 'week' | 'month') => {
+  const exportToExcel = async (range: 'week' | 'month') => {
     const { start, end } = range === 'week' ? getWeekRange() : getMonthRange();
-    const eventsToExport = getEventsInRange(start, end);
+    const eventsToExport = await getEventsInRange(start, end);
     
     const data = eventsToExport.map(e => ({
       '日期': e.date,
@@ -446,9 +603,9 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
     setShowExportMenu(false);
   };
 
-  const exportToPDF = (range: 'week' | 'month') => {
+  const exportToPDF = async (range: 'week' | 'month') => {
     const { start, end } = range === 'week' ? getWeekRange() : getMonthRange();
-    const eventsToExport = getEventsInRange(start, end);
+    const eventsToExport = await getEventsInRange(start, end);
     
     const doc = new jsPDF('landscape');
     const rangeText = range === 'week' ? '本週' : '本月';
@@ -500,8 +657,8 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
     }
   };
 
-  const navigateToHospital = (hospitalId: string) => {
-    navigate(`/hospitals/${hospitalId}`);
+  const navigateToHospital = (hospitalId: string, tab?: string) => {
+    navigate(tab ? `/hospitals/${hospitalId}?tab=${tab}` : `/hospitals/${hospitalId}`);
   };
 
   const renderSentimentIcon = (sentiment: string | undefined, size = 14) => {
@@ -684,7 +841,7 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
             {dayTodos.map(todo => (
               <div
                 key={todo.id}
-                onClick={() => navigateToHospital(todo.hospitalId)}
+                onClick={() => navigateToHospital(todo.hospitalId, todo.tab)}
                 className={`p-4 rounded-xl border cursor-pointer transition-colors ${
                   todo.isOverdue ? 'bg-red-50 border-red-200 hover:bg-red-100' : 'bg-amber-50 border-amber-200 hover:bg-amber-100'
                 }`}
@@ -777,7 +934,7 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
                   {selectedDateTodos.map(todo => (
                     <div
                       key={todo.id}
-                      onClick={() => { navigateToHospital(todo.hospitalId); setShowMobileDayModal(false); }}
+                      onClick={() => { navigateToHospital(todo.hospitalId, todo.tab); setShowMobileDayModal(false); }}
                       className={`p-3 rounded-xl border cursor-pointer ${
                         todo.isOverdue ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
                       }`}
@@ -1050,7 +1207,7 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
                     <h4 className="text-[10px] font-semibold text-slate-500 uppercase mb-1.5">待辦</h4>
                     <div className="space-y-1">
                       {selectedDateTodos.slice(0, 3).map(todo => (
-                        <div key={todo.id} onClick={() => navigateToHospital(todo.hospitalId)} className={`p-2 rounded-lg border cursor-pointer text-xs ${todo.isOverdue ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+                        <div key={todo.id} onClick={() => navigateToHospital(todo.hospitalId, todo.tab)} className={`p-2 rounded-lg border cursor-pointer text-xs ${todo.isOverdue ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
                           <div className="font-medium text-slate-900 truncate">{todo.hospitalName}</div>
                           <div className="text-slate-600 truncate">{todo.nextStep}</div>
                         </div>
@@ -1104,7 +1261,7 @@ const Calendar: React.FC<CalendarProps> = ({ notes, hospitals, allProfiles = []
                 ) : (
                   <div className="space-y-1">
                     {todoItems.slice(0, 6).map(todo => (
-                      <div key={todo.id} onClick={() => navigateToHospital(todo.hospitalId)} className={`p-2 rounded-lg border cursor-pointer transition-colors text-xs ${todo.isOverdue ? 'bg-red-50 border-red-200 hover:bg-red-100' : todo.isDueSoon ? 'bg-amber-50 border-amber-200 hover:bg-amber-100' : 'bg-slate-50 border-slate-200 hover:bg-slate-100'}`}>
+                      <div key={todo.id} onClick={() => navigateToHospital(todo.hospitalId, todo.tab)} className={`p-2 rounded-lg border cursor-pointer transition-colors text-xs ${todo.isOverdue ? 'bg-red-50 border-red-200 hover:bg-red-100' : todo.isDueSoon ? 'bg-amber-50 border-amber-200 hover:bg-amber-100' : 'bg-slate-50 border-slate-200 hover:bg-slate-100'}`}>
                         <div className="flex items-center justify-between mb-0.5">
                           <span className="font-medium text-slate-900 truncate">{todo.hospitalName}</span>
                           <span className={`text-[10px] shrink-0 ml-1 ${todo.isOverdue ? 'text-red-600' : todo.isDueSoon ? 'text-amber-600' : 'text-slate-500'}`}>
@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Building2, User, FileText, Package, Loader, CornerDownLeft, AlertCircle } from 'lucide-react';
+import { Hospital, HospitalDetailTab } from '../types';
+import { useProducts } from '../contexts/ProductContext';
+import { searchAll, tokenizeSearchQuery, SearchResults } from '../services/searchService';
+import { toDataError, describeError } from '../services/dataErrors';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  hospitals: Hospital[];
+}
+
+type ResultGroup = 'hospitals' | 'contacts' | 'notes' | 'orders';
+
+interface ResultItem {
+  key: string;
+  group: ResultGroup;
+  hospitalId: string;
+  title: string;
+  subtitle: string;
+}
+
+const GROUPS: { id: ResultGroup; label: string; icon: React.ElementType; tab: HospitalDetailTab }[] = [
+  { id: 'hospitals', label: '醫院', icon: Building2, tab: 'overview' },
+  { id: 'contacts', label: '聯絡人', icon: User, tab: 'contacts' },
+  { id: 'notes', label: '活動記錄', icon: FileText, tab: 'notes' },
+  { id: 'orders', label: '訂單', icon: Package, tab: 'orders' }
+];
+
+const SEARCH_DEBOUNCE_MS = 250;
+const SNIPPET_RADIUS = 30;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 標示文字中符合關鍵字的部分
+const Highlight: React.FC<{ text: string; tokens: string[] }> = ({ text, tokens }) => {
+  if (tokens.length === 0 || !text) return <>{text}</>;
+  const pattern = new RegExp(`(${tokens.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-yellow-100 text-slate-900 rounded px-0.5">{part}</mark>
+          : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+// 長內容只擷取第一個關鍵字前後的片段
+const makeSnippet = (text: string, tokens: string[]): string => {
+  const lower = text.toLowerCase();
+  const index = tokens.reduce((found, token) => {
+    const i = lower.indexOf(token);
+    return i >= 0 && (found < 0 || i < found) ? i : found;
+  }, -1);
+  if (index < 0 || text.length <= SNIPPET_RADIUS * 2) return text.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, hospitals }) => {
+  const navigate = useNavigate();
+  const { products, getProduct } = useProducts();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const searchSeq = useRef(0);
+
+  const tokens = useMemo(() => tokenizeSearchQuery(query), [query]);
+
+  const hospitalNames = useMemo(
+    () => Object.fromEntries(hospitals.map(h => [h.id, h.name])),
+    [hospitals]
+  );
+
+  // 開啟時清空上次的搜尋
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setResults(null);
+      setErrorMessage(null);
+      setSelectedIndex(0);
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen]);
+
+  // 輸入停頓後才查詢；較早送出的查詢若較晚回來則忽略
+  useEffect(() => {
+    if (!isOpen) return;
+    if (tokens.length === 0) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const seq = ++searchSeq.current;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchAll(query, hospitals, products);
+        if (seq !== searchSeq.current) return;
+        setResults(found);
+        setErrorMessage(null);
+      } catch (error) {
+        if (seq !== searchSeq.current) return;
+        setErrorMessage(describeError(toDataError(error), '搜尋'));
+      } finally {
+        if (seq === searchSeq.current) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, query, tokens, hospitals, products]);
+
+  const items = useMemo<ResultItem[]>(() => {
+    if (!results) return [];
+    return [
+      ...results.hospitals.map(h => ({
+        key: `hospital:${h.id}`,
+        group: 'hospitals' as const,
+        hospitalId: h.id,
+        title: h.name,
+        subtitle: [h.region, h.level, h.address].filter(Boolean).join(' · ')
+      })),
+      ...results.contacts.map(c => ({
+        key: `contact:${c.id}`,
+        group: 'contacts' as const,
+        hospitalId: c.hospitalId,
+        title: `${c.name}${c.role ? `（${c.role}）` : ''}`,
+        subtitle: [hospitalNames[c.hospitalId], c.phone, c.email].filter(Boolean).join(' · ')
+      })),
+      ...results.notes.map(n => {
+        const matchedNextStep = n.nextStep && tokens.some(t => n.nextStep!.toLowerCase().includes(t));
+        const matchedContent = tokens.some(t => n.content.toLowerCase().includes(t));
+        const text = matchedContent || !matchedNextStep ? n.content : `下一步：${n.nextStep}`;
+        return {
+          key: `note:${n.id}`,
+          group: 'notes' as const,
+          hospitalId: n.hospitalId,
+          title: makeSnippet(text, tokens),
+          subtitle: [hospitalNames[n.hospitalId], n.date, n.activityType, ...(n.tags || []).map(t => `#${t}`)].filter(Boolean).join(' · ')
+        };
+      }),
+      ...results.orders.map(u => ({
+        key: `order:${u.id}`,
+        group: 'orders' as const,
+        hospitalId: u.hospitalId,
+        title: `${u.productCode}${getProduct(u.productCode) ? ` ${getProduct(u.productCode)!.name}` : ''} × ${u.quantity}`,
+        subtitle: [hospitalNames[u.hospitalId], u.date, u.type].filter(Boolean).join(' · ')
+      }))
+    ];
+  }, [results, tokens, hospitalNames, getProduct]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [items]);
+
+  // 鍵盤移動時讓選取項目保持在可視範圍
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${selectedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const openItem = (item: ResultItem) => {
+    const tab = GROUPS.find(g => g.id === item.group)!.tab;
+    navigate(`/hospitals/${item.hospitalId}${tab === 'overview' ? '' : `?tab=${tab}`}`);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      // 組字中（注音、倉頡）的 Enter 是選字，不是送出
+      if (e.nativeEvent.isComposing) return;
+      e.preventDefault();
+      if (items[selectedIndex]) openItem(items[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start justify-center p-4 pt-[10vh]">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose} />
+      <div
+        role="dialog"
+        aria-label="全站搜尋"
+        className="relative w-full max-w-2xl bg-white rounded-2xl shadow-2xl border border-slate-200 overflow-hidden animate-fade-in"
+        onKeyDown={handleKeyDown}
+      >
+        {/* 搜尋欄 */}
+        <div className="flex items-center gap-3 px-5 border-b border-slate-100">
+          <Search size={20} className="text-slate-400 flex-shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜尋醫院、聯絡人、電話、活動記錄、標籤或產品代碼..."
+            className="flex-1 py-4 text-base outline-none placeholder:text-slate-400"
+          />
+          {isSearching && <Loader size={18} className="animate-spin text-slate-400 flex-shrink-0" />}
+          <kbd className="hidden sm:block text-xs text-slate-400 border border-slate-200 rounded-md px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {/* 結果 */}
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto">
+          {errorMessage && (
+            <div className="flex items-center gap-2 px-5 py-3 text-sm text-red-700 bg-red-50">
+              <AlertCircle size={16} className="flex-shrink-0" />
+              <span>{errorMessage}</span>
+            </div>
+          )}
+
+          {GROUPS.map(group => {
+            const groupItems = items.filter(item => item.group === group.id);
+            if (groupItems.length === 0) return null;
+            const Icon = group.icon;
+
+            return (
+              <div key={group.id} className="py-2">
+                <div className="px-5 py-1.5 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                  {group.label}
+                </div>
+                {groupItems.map(item => {
+                  const index = items.indexOf(item);
+                  const isSelected = index === selectedIndex;
+                  return (
+                    <button
+                      key={item.key}
+                      data-index={index}
+                      onClick={() => openItem(item)}
+                      onMouseMove={() => setSelectedIndex(index)}
+                      className={`w-full flex items-center gap-3 px-5 py-2.5 text-left transition-colors ${isSelected ? 'bg-blue-50' : ''}`}
+                    >
+                      <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${isSelected ? 'bg-blue-100 text-blue-600' : 'bg-slate-100 text-slate-500'}`}>
+                        <Icon size={16} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-900 truncate">
+                          <Highlight text={item.title} tokens={tokens} />
+                        </p>
+                        <p className="text-xs text-slate-500 truncate">
+                          <Highlight text={item.subtitle} tokens={tokens} />
+                        </p>
+                      </div>
+                      {isSelected && <CornerDownLeft size={14} className="text-blue-500 flex-shrink-0" />}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+
+          {tokens.length > 0 && !isSearching && results && items.length === 0 && !errorMessage && (
+            <div className="text-center py-10">
+              <Search size={32} className="mx-auto mb-2 text-slate-300" />
+              <p className="text-sm text-slate-500">找不到「{query.trim()}」的相關資料</p>
+            </div>
+          )}
+
+          {tokens.length === 0 && (
+            <div className="px-5 py-6 text-sm text-slate-400">
+              可搜尋活動記錄內容、下一步、標籤、聯絡人姓名、職稱、電話與產品代碼。多個關鍵字以空白分隔，例如「台大 報價」。
+            </div>
+          )}
+        </div>
+
+        {/* 操作說明 */}
+        <div className="hidden sm:flex items-center gap-4 px-5 py-2.5 border-t border-slate-100 bg-slate-50 text-xs text-slate-400">
+          <span>↑↓ 選擇</span>
+          <span>Enter 開啟</span>
+          <span>Esc 關閉</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileText, Search, Loader, Settings2, ChevronRight, AlertTriangle, Check, X } from 'lucide-react';
+import { Hospital, Contract, ContractRenewalStage } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { useProducts } from '../contexts/ProductContext';
+import { fetchContracts, updateContract } from '../services/databaseService';
+import {
+  ContractAlertLevel,
+  ContractAlertThresholds,
+  CONTRACT_ALERT_LEVELS,
+  CONTRACT_RENEWAL_STAGES,
+  buildRenewalPipeline,
+  isRenewalClosed,
+  loadContractAlertThresholds,
+  saveContractAlertThresholds,
+  validateContractAlertThresholds
+} from '../services/contractService';
+
+interface ContractListProps {
+  hospitals: Hospital[];
+}
+
+type LevelFilter = 'all' | Exclude<ContractAlertLevel, 'active'>;
+type StageFilter = 'all' | 'open' | ContractRenewalStage;
+
+const ContractList: React.FC<ContractListProps> = ({ hospitals }) => {
+  const navigate = useNavigate();
+  const { showError } = useToast();
+  const { getProduct } = useProducts();
+
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [thresholds, setThresholds] = useState<ContractAlertThresholds>(loadContractAlertThresholds);
+  const [thresholdForm, setThresholdForm] = useState<ContractAlertThresholds>(thresholds);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('all');
+  const [stageFilter, setStageFilter] = useState<StageFilter>('open');
+  const [savingContractId, setSavingContractId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchContracts()
+      .then(setContracts)
+      .catch(error => console.error('Error loading contracts:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const hospitalMap = useMemo(() => new Map(hospitals.map(h => [h.id, h])), [hospitals]);
+
+  // 只列出目前仍存在的醫院的合約
+  const pipeline = useMemo(
+    () => buildRenewalPipeline(contracts.filter(c => hospitalMap.has(c.hospitalId)), thresholds),
+    [contracts, hospitalMap, thresholds]
+  );
+
+  // 各提醒等級中續約流程尚未結束的數量
+  const levelCounts = useMemo(() => {
+    const counts: Record<LevelFilter, number> = { all: 0, expired: 0, critical: 0, warning: 0, notice: 0 };
+    pipeline.forEach(item => {
+      if (item.alertLevel === 'active' || isRenewalClosed(item.stage)) return;
+      counts[item.alertLevel]++;
+      counts.all++;
+    });
+    return counts;
+  }, [pipeline]);
+
+  const filteredPipeline = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return pipeline.filter(item => {
+      if (levelFilter !== 'all' && item.alertLevel !== levelFilter) return false;
+      if (stageFilter === 'open' && isRenewalClosed(item.stage)) return false;
+      if (stageFilter !== 'all' && stageFilter !== 'open' && item.stage !== stageFilter) return false;
+      if (term) {
+        const hospitalName = hospitalMap.get(item.contract.hospitalId)?.name.toLowerCase() || '';
+        const productName = getProduct(item.contract.productCode)?.name.toLowerCase() || '';
+        if (!hospitalName.includes(term) && !item.contract.productCode.toLowerCase().includes(term) && !productName.includes(term)) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }, [pipeline, levelFilter, stageFilter, searchTerm, hospitalMap, getProduct]);
+
+  const thresholdError = validateContractAlertThresholds(thresholdForm);
+
+  const handleSaveThresholds = () => {
+    if (thresholdError) return;
+    saveContractAlertThresholds(thresholdForm);
+    setThresholds(thresholdForm);
+    setIsSettingsOpen(false);
+  };
+
+  // 樂觀更新，失敗時還原
+  const handleStageChange = async (contract: Contract, renewalStage: ContractRenewalStage) => {
+    const updated = { ...contract, renewalStage };
+    setContracts(prev => prev.map(c => c.id === contract.id ? updated : c));
+    setSavingContractId(contract.id);
+    try {
+      const result = await updateContract(updated);
+      if (result.ok === false) {
+        setContracts(prev => prev.map(c => c.id === contract.id ? contract : c));
+        showError(result.error, '更新續約階段');
+      }
+    } finally {
+      setSavingContractId(null);
+    }
+  };
+
+  const levelCards: { level: LevelFilter; label: string; className: string }[] = [
+    { level: 'expired', label: '已到期', className: 'text-red-600' },
+    { level: 'critical', label: `${thresholds.critical} 天內到期`, className: 'text-red-500' },
+    { level: 'warning', label: `${thresholds.warning} 天內到期`, className: 'text-amber-600' },
+    { level: 'notice', label: `${thresholds.notice} 天內到期`, className: 'text-yellow-600' }
+  ];
+
+  return (
+    <div className="p-4 md:p-6 lg:p-10 max-w-[1600px] mx-auto h-full flex flex-col relative overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-4 md:mb-8 space-y-2 md:space-y-0">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-slate-900 tracking-tight">合約管理</h1>
+          <p className="text-slate-500 text-sm md:text-base mt-1">依剩餘天數追蹤所有醫院的合約與續約進度。</p>
+        </div>
+        <button
+          onClick={() => { setThresholdForm(thresholds); setIsSettingsOpen(!isSettingsOpen); }}
+          className={`flex items-center space-x-1.5 px-3 py-2 rounded-xl font-medium border transition-all ${isSettingsOpen ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-300'}`}
+        >
+          <Settings2 size={16} />
+          <span className="text-sm">提醒設定</span>
+        </button>
+      </div>
+
+      {/* 提醒門檻設定 */}
+      {isSettingsOpen && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-4">
+          <p className="text-sm text-slate-600 mb-3">合約到期前多少天開始提醒；儀表板與行事曆待辦會使用相同設定。</p>
+          <div className="flex flex-wrap items-end gap-3">
+            {([
+              { key: 'notice', label: '續約預告' },
+              { key: 'warning', label: '續約提醒' },
+              { key: 'critical', label: '即將到期' }
+            ] as const).map(field => (
+              <label key={field.key} className="block">
+                <span className="block text-xs font-semibold text-slate-500 mb-1">{field.label}（天）</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={thresholdForm[field.key] || ''}
+                  onChange={(e) => setThresholdForm(prev => ({ ...prev, [field.key]: parseInt(e.target.value) || 0 }))}
+                  className="w-28 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:bg-white focus:border-blue-500"
+                />
+              </label>
+            ))}
+            <button onClick={handleSaveThresholds} disabled={!!thresholdError} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1">
+              <Check size={16} />儲存
+            </button>
+            <button onClick={() => setIsSettingsOpen(false)} className="px-3 py-2 text-sm text-slate-500 hover:text-slate-700 flex items-center gap-1">
+              <X size={16} />取消
+            </button>
+          </div>
+          {thresholdError && <p className="text-xs text-red-600 mt-2">{thresholdError}</p>}
+        </div>
+      )}
+
+      {/* 各提醒等級數量 */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 md:gap-4 mb-4">
+        {levelCards.map(card => (
+          <button
+            key={card.level}
+            onClick={() => setLevelFilter(levelFilter === card.level ? 'all' : card.level)}
+            className={`text-left bg-white rounded-xl p-3 md:p-4 border shadow-sm transition-all ${levelFilter === card.level ? 'border-blue-400 ring-2 ring-blue-500/10' : 'border-slate-200 hover:border-blue-300'}`}
+          >
+            <p className="text-slate-500 text-xs md:text-sm mb-1">{card.label}</p>
+            <p className={`text-lg md:text-2xl font-bold ${card.className}`}>{levelCounts[card.level]}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* Search and Filter Bar */}
+      <div className="bg-white p-3 md:p-4 rounded-xl shadow-sm border border-slate-200/60 mb-4 flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={18} />
+          <input
+            type="text"
+            placeholder="搜尋醫院或產品..."
+            className="w-full pl-10 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/10 transition-all text-sm"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        <select
+          value={stageFilter}
+          onChange={(e) => setStageFilter(e.target.value as StageFilter)}
+          className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+        >
+          <option value="open">續約未結案</option>
+          <option value="all">全部階段</option>
+          {(Object.keys(CONTRACT_RENEWAL_STAGES) as ContractRenewalStage[]).map(stage => (
+            <option key={stage} value={stage}>{CONTRACT_RENEWAL_STAGES[stage].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Contract Table */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 flex-1 overflow-hidden flex flex-col">
+        {isLoading ? (
+          <div className="p-16 text-center text-slate-500">
+            <Loader size={24} className="mx-auto mb-3 animate-spin text-slate-300" />
+            載入合約資料中...
+          </div>
+        ) : filteredPipeline.length === 0 ? (
+          <div className="p-16 text-center">
+            <FileText size={32} className="mx-auto mb-3 text-slate-300" />
+            <p className="text-slate-500 font-medium">沒有符合條件的合約</p>
+            <p className="text-slate-400 text-sm mt-1">合約可在醫院總覽的「合約」區塊新增</p>
+          </div>
+        ) : (
+          <div className="overflow-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0 z-10">
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                  <th className="px-6 py-3">醫院</th>
+                  <th className="px-4 py-3">產品</th>
+                  <th className="px-4 py-3">到期日</th>
+                  <th className="px-4 py-3">剩餘天數</th>
+                  <th className="px-4 py-3">續約階段</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {filteredPipeline.map(({ contract, endDate, daysRemaining, alertLevel, stage }) => {
+                  const hospital = hospitalMap.get(contract.hospitalId);
+                  const level = CONTRACT_ALERT_LEVELS[alertLevel];
+                  const isEquipment = contract.contractType === 'equipment';
+                  return (
+                    <tr key={contract.id} className="hover:bg-slate-50/60 transition-colors">
+                      <td className="px-6 py-3">
+                        <button onClick={() => navigate(`/hospitals/${contract.hospitalId}`)} className="text-left group">
+                          <p className="font-semibold text-slate-900 group-hover:text-blue-600 flex items-center gap-1">
+                            {hospital?.name}
+                            <ChevronRight size={14} className="opacity-0 group-hover:opacity-100" />
+                          </p>
+                          <p className="text-xs text-slate-400">{hospital?.region}・{hospital?.level}</p>
+                        </button>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-slate-700">{contract.productCode}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${isEquipment ? 'bg-blue-100 text-blue-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                            {isEquipment ? '設備' : '耗材'}
+                          </span>
+                        </div>
+                        <p className="text-xs text-slate-400">{getProduct(contract.productCode)?.name || ''}・{contract.durationYears} 年約</p>
+                      </td>
+                      <td className="px-4 py-3 text-slate-700 whitespace-nowrap">{endDate}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold ${level.className}`}>
+                          {(alertLevel === 'expired' || alertLevel === 'critical') && <AlertTriangle size={12} />}
+                          {daysRemaining < 0 ? `已到期 ${Math.abs(daysRemaining)} 天` : `${daysRemaining} 天`}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={stage}
+                            onChange={(e) => handleStageChange(contract, e.target.value as ContractRenewalStage)}
+                            disabled={savingContractId === contract.id}
+                            className={`px-2 py-1 rounded-lg text-xs font-semibold border-0 focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50 ${CONTRACT_RENEWAL_STAGES[stage].className}`}
+                          >
+                            {(Object.keys(CONTRACT_RENEWAL_STAGES) as ContractRenewalStage[]).map(option => (
+                              <option key={option} value={option}>{CONTRACT_RENEWAL_STAGES[option].label}</option>
+                            ))}
+                          </select>
+                          {savingContractId === contract.id && <Loader size={14} className="animate-spin text-slate-400" />}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContractList;
@@ -1,21 +1,46 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend, PieChart, Pie, Cell
 } from 'recharts';
-import { Users, ShoppingCart, TrendingUp, AlertCircle, Clock, Calendar, CheckCircle, ArrowUpRight, Activity, Filter, Info } from 'lucide-react';
-import { Hospital, UsageRecord, Note, SalesStage } from '../types';
+import { Users, ShoppingCart, TrendingUp, TrendingDown, AlertCircle, Clock, Calendar, CheckCircle, ArrowUpRight, Activity, Filter, Info, DollarSign, ChevronRight, Package, FileText } from 'lucide-react';
+import { Hospital, UsageRecord, Note, SalesStage, ConsumablePriceChange, Contract, ProductType } from '../types';
+import { useProducts } from '../contexts/ProductContext';
+import { fetchUsageRecordsInRange, fetchNotesPage, fetchPriceHistory, fetchContracts } from '../services/databaseService';
+import { priceOrders, sumRevenue, groupRevenue, findMissingPrices, calculateTrend } from '../services/revenueService';
+import { fetchForecastRecords, forecastReorders, REORDER_SOON_DAYS } from '../services/forecastService';
+import { buildRenewalPipeline, getExpiringContracts, loadContractAlertThresholds, CONTRACT_ALERT_LEVELS, CONTRACT_RENEWAL_STAGES } from '../services/contractService';
+import { toDateKey } from '../lib/dateKey';
 
 interface DashboardProps {
   hospitals: Hospital[];
-  usageRecords: UsageRecord[];
-  notes: Note[];
 }
 
+// 最新活動只顯示前幾筆
+const RECENT_NOTES_LIMIT = 5;
+
 const COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#6366f1'];
 
-const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes }) => {
-  const [timeRange, setTimeRange] = useState<'all' | '1y' | '90d'>('all');
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+
+// 圖表座標軸以「萬」為單位
+const formatAxisAmount = (amount: number) =>
+  amount >= 10000 ? `${(amount / 10000).toLocaleString(undefined, { maximumFractionDigits: 1 })}萬` : amount.toLocaleString();
+
+const Dashboard: React.FC<DashboardProps> = ({ hospitals }) => {
+  const navigate = useNavigate();
+  const { getProduct } = useProducts();
+  // 預設只查詢近 90 天；「所有時間」需逐頁讀取全部訂單，僅在使用者選擇時載入
+  const [timeRange, setTimeRange] = useState<'all' | '1y' | '90d'>('90d');
   const [activeTooltip, setActiveTooltip] = useState<number | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [previousRecords, setPreviousRecords] = useState<UsageRecord[]>([]);
+  const [priceHistory, setPriceHistory] = useState<ConsumablePriceChange[]>([]);
+  const [forecastRecords, setForecastRecords] = useState<UsageRecord[]>([]);
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [recentNotes, setRecentNotes] = useState<Note[]>([]);
+  const [noteCount, setNoteCount] = useState(0);
 
   // Close tooltip when clicking outside
   React.useEffect(() => {
@@ -24,26 +49,82 @@ const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes })
     return () => document.removeEventListener('click', handleClickOutside);
   }, []);
 
-  // Date Filtering Logic
-  const filterByDate = (dateStr: string) => {
-    if (timeRange === 'all') return true;
-    const date = new Date(dateStr);
+  // Date Range Start (YYYY-MM-DD)
+  const rangeStart = useMemo(() => {
+    if (timeRange === 'all') return undefined;
 
     const cutoff = new Date();
     if (timeRange === '90d') cutoff.setDate(cutoff.getDate() - 90);
     if (timeRange === '1y') cutoff.setFullYear(cutoff.getFullYear() - 1);
 
-    return date >= cutoff;
-  };
+    return toDateKey(cutoff);
+  }, [timeRange]);
+
+  // 前一期：緊接在目前區間之前、長度相同的區間，用於計算趨勢
+  const previousRange = useMemo(() => {
+    if (timeRange === 'all' || !rangeStart) return null;
+
+    const end = new Date(`${rangeStart}T00:00:00`);
+    end.setDate(end.getDate() - 1);
+    const start = new Date(`${rangeStart}T00:00:00`);
+    if (timeRange === '90d') start.setDate(start.getDate() - 90);
+    if (timeRange === '1y') start.setFullYear(start.getFullYear() - 1);
+
+    return { from: toDateKey(start), to: toDateKey(end) };
+  }, [timeRange, rangeStart]);
+
+  // 依時間範圍向資料庫查詢，不再於前端過濾全部資料
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRangeData = async () => {
+      try {
+        const [records, previous, notePage] = await Promise.all([
+          fetchUsageRecordsInRange(rangeStart),
+          previousRange ? fetchUsageRecordsInRange(previousRange.from, previousRange.to) : Promise.resolve([]),
+          fetchNotesPage({ from: rangeStart, limit: RECENT_NOTES_LIMIT, withCount: true })
+        ]);
+        if (cancelled) return;
+
+        setUsageRecords(records);
+        setPreviousRecords(previous);
+        setRecentNotes(notePage.items);
+        setNoteCount(notePage.total ?? notePage.items.length);
+      } catch (error) {
+        console.error('Error loading dashboard data:', error);
+      }
+    };
+
+    loadRangeData();
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeStart, previousRange]);
+
+  // 舊訂單沒有記錄單價，以議定價歷史回推訂單日期當時的價格
+  useEffect(() => {
+    fetchPriceHistory()
+      .then(setPriceHistory)
+      .catch(error => console.error('Error loading price history:', error));
+  }, []);
+
+  // 補貨預測固定使用近一年訂單，不受時間範圍切換影響
+  useEffect(() => {
+    fetchForecastRecords()
+      .then(setForecastRecords)
+      .catch(error => console.error('Error loading forecast data:', error));
+  }, []);
+
+  useEffect(() => {
+    fetchContracts()
+      .then(setContracts)
+      .catch(error => console.error('Error loading contracts:', error));
+  }, []);
 
     // Memoized Filtered Data
   const filteredSales = useMemo(() =>
-    usageRecords.filter(r => r.type !== '樣品' && filterByDate(r.date)),
-    [usageRecords, timeRange]);
-
-  const filteredNotes = useMemo(() =>
-    notes.filter(n => filterByDate(n.date)),
-    [notes, timeRange]);
+    usageRecords.filter(r => r.type !== '樣品'),
+    [usageRecords]);
 
     // 1. Sales Trends (Bar Chart)
   const usageData = useMemo(() => {
@@ -103,27 +184,98 @@ const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes })
       .sort((a, b) => b.value - a.value);
   }, [filteredSales]);
 
-  // 5. KPI Stats
+  // 5. 營收：訂單數量 × 訂單日期當時的議定價
+  const pricedOrders = useMemo(
+    () => priceOrders(usageRecords, hospitals, priceHistory),
+    [usageRecords, hospitals, priceHistory]
+  );
+  const previousPricedOrders = useMemo(
+    () => priceOrders(previousRecords, hospitals, priceHistory),
+    [previousRecords, hospitals, priceHistory]
+  );
+
+  const revenueByRegion = useMemo(
+    () => groupRevenue(pricedOrders, order => hospitals.find(h => h.id === order.record.hospitalId)?.region || '未知'),
+    [pricedOrders, hospitals]
+  );
+  const revenueByProduct = useMemo(
+    () => groupRevenue(pricedOrders, order => order.record.productCode),
+    [pricedOrders]
+  );
+  const revenueByRep = useMemo(
+    () => groupRevenue(pricedOrders, order => order.record.recordedByName || '未指定'),
+    [pricedOrders]
+  );
+  const missingPrices = useMemo(() => findMissingPrices(pricedOrders), [pricedOrders]);
+
+  // 補貨預測
+  const reorderForecasts = useMemo(
+    () => forecastReorders(forecastRecords, hospitals, code => getProduct(code)?.type === ProductType.CONSUMABLE),
+    [forecastRecords, hospitals, getProduct]
+  );
+  const reorderSoon = reorderForecasts.filter(f => f.status === 'soon');
+  const reorderOverdue = reorderForecasts.filter(f => f.status === 'overdue');
+
+  // 合約續約提醒
+  const contractThresholds = useMemo(loadContractAlertThresholds, []);
+  const expiringContracts = useMemo(() => {
+    const hospitalIds = new Set(hospitals.map(h => h.id));
+    return getExpiringContracts(buildRenewalPipeline(contracts.filter(c => hospitalIds.has(c.hospitalId)), contractThresholds));
+  }, [contracts, hospitals, contractThresholds]);
+
+  // 6. KPI Stats
   const activeTrials = hospitals.filter(h => h.stage === SalesStage.TRIAL).length;
   const openOpportunities = hospitals.filter(h =>
     [SalesStage.LEAD, SalesStage.CONTACT, SalesStage.TRIAL].includes(h.stage)
   ).length;
 
-  const stats = [
-    { label: '醫院總數', value: hospitals.length, icon: Users, color: 'text-blue-600', bg: 'bg-blue-100', trend: '+2%' },
-    { label: '耗材銷售量', value: filteredSales.reduce((acc, r) => acc + r.quantity, 0), icon: ShoppingCart, color: 'text-indigo-600', bg: 'bg-indigo-100', trend: '+15%' },
+  const totalRevenue = sumRevenue(pricedOrders);
+  const totalQuantity = filteredSales.reduce((acc, r) => acc + r.quantity, 0);
+  const previousQuantity = previousRecords.filter(r => r.type !== '樣品').reduce((acc, r) => acc + r.quantity, 0);
+
+  // 「所有時間」沒有前一期可比較，不顯示趨勢
+  const periodTrend = (current: number, previous: number) => previousRange ? calculateTrend(current, previous) : null;
+
+  const stats: Array<{
+    label: string;
+    value: number;
+    display?: string;
+    icon: React.ElementType;
+    color: string;
+    bg: string;
+    trend?: number | null;
+    info?: string;
+  }> = [
+    { label: '醫院總數', value: hospitals.length, icon: Users, color: 'text-blue-600', bg: 'bg-blue-100' },
+    {
+      label: '營收',
+      value: totalRevenue,
+      display: formatCurrency(totalRevenue),
+      icon: DollarSign,
+      color: 'text-amber-600',
+      bg: 'bg-amber-100',
+      trend: periodTrend(totalRevenue, sumRevenue(previousPricedOrders)),
+      info: '訂單數量 × 訂單日期當時的議定價（未稅），不含樣品'
+    },
+    {
+      label: '耗材銷售量',
+      value: totalQuantity,
+      icon: ShoppingCart,
+      color: 'text-indigo-600',
+      bg: 'bg-indigo-100',
+      trend: periodTrend(totalQuantity, previousQuantity)
+    },
     {
       label: '未結案機會',
       value: openOpportunities,
       icon: ArrowUpRight,
       color: 'text-emerald-600',
       bg: 'bg-emerald-100',
-      trend: 'Active',
       info: '包含潛在客戶、接洽中、試用評估階段'
     },
   ];
 
-  // 6. Actionable Lists
+  // 7. Actionable Lists
   const attentionNeeded = hospitals.filter(h => {
     // Logic: No visit recorded in "Last Visit" > 60 days
     // If "Never", it's high priority.
@@ -163,13 +315,22 @@ const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes })
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-3 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
         {stats.map((stat, idx) => (
           <div key={idx} className="relative bg-white rounded-2xl shadow-sm border border-slate-200/60 p-4 sm:p-6 flex flex-col justify-between h-28 sm:h-32 transition-all hover:shadow-lg hover:-translate-y-0.5 group">
             <div className="flex items-center justify-between">
               <div className={`${stat.bg} p-2 sm:p-2.5 rounded-xl shadow-sm`}>
                 <stat.icon size={18} className={stat.color} />
               </div>
+              {stat.trend != null && (
+                <span
+                  className={`ml-auto mr-1 flex items-center gap-0.5 text-xs font-semibold px-2 py-0.5 rounded-full ${stat.trend > 0 ? 'bg-emerald-50 text-emerald-600' : stat.trend < 0 ? 'bg-red-50 text-red-600' : 'bg-slate-100 text-slate-500'}`}
+                  title="與前一期相比"
+                >
+                  {stat.trend > 0 ? <TrendingUp size={12} /> : stat.trend < 0 ? <TrendingDown size={12} /> : null}
+                  {stat.trend > 0 ? '+' : ''}{stat.trend.toFixed(1)}%
+                </span>
+              )}
               {stat.info && (
                 <button
                   onClick={(e) => {
@@ -183,7 +344,7 @@ const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes })
               )}
             </div>
             <div>
-              <p className="text-xl sm:text-3xl font-bold text-slate-900">{stat.value.toLocaleString()}</p>
+              <p className="text-xl sm:text-3xl font-bold text-slate-900 truncate">{stat.display ?? stat.value.toLocaleString()}</p>
               <p className="text-xs sm:text-sm text-slate-500 font-medium">{stat.label}</p>
             </div>
             {stat.info && activeTooltip === idx && (
@@ -327,6 +488,213 @@ const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes })
         </div>
       </div>
 
+      {/* 營收分析 */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 p-6">
+          <h2 className="text-lg font-bold text-slate-900 mb-6">區域營收</h2>
+          <div className="h-64">
+            {revenueByRegion.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={revenueByRegion.slice(0, 8)} layout="vertical" margin={{ left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} stroke="#e2e8f0" />
+                  <XAxis type="number" tick={{ fill: '#94a3b8', fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={formatAxisAmount} />
+                  <YAxis type="category" dataKey="name" tick={{ fill: '#475569', fontSize: 12 }} axisLine={false} tickLine={false} width={60} />
+                  <Tooltip
+                    formatter={(value: number) => [formatCurrency(value), '營收']}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 25px -5px rgb(0 0 0 / 0.1)' }}
+                    cursor={{ fill: 'rgba(59, 130, 246, 0.05)' }}
+                  />
+                  <Bar dataKey="revenue" fill="#f59e0b" radius={[0, 6, 6, 0]} barSize={22} />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-slate-400 text-sm bg-slate-50 rounded-xl">尚無營收數據</div>
+            )}
+          </div>
+        </div>
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 p-6">
+          <h2 className="text-lg font-bold text-slate-900 mb-6">產品營收</h2>
+          <div className="h-64">
+            {revenueByProduct.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={revenueByProduct.slice(0, 8)} layout="vertical" margin={{ left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} stroke="#e2e8f0" />
+                  <XAxis type="number" tick={{ fill: '#94a3b8', fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={formatAxisAmount} />
+                  <YAxis type="category" dataKey="name" tick={{ fill: '#475569', fontSize: 12 }} axisLine={false} tickLine={false} width={60} />
+                  <Tooltip
+                    formatter={(value: number) => [formatCurrency(value), '營收']}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 25px -5px rgb(0 0 0 / 0.1)' }}
+                    cursor={{ fill: 'rgba(59, 130, 246, 0.05)' }}
+                  />
+                  <Bar dataKey="revenue" fill="#3b82f6" radius={[0, 6, 6, 0]} barSize={22} />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-slate-400 text-sm bg-slate-50 rounded-xl">尚無營收數據</div>
+            )}
+          </div>
+        </div>
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 p-6">
+          <h2 className="text-lg font-bold text-slate-900 mb-6">業務營收</h2>
+          <div className="h-64">
+            {revenueByRep.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={revenueByRep.slice(0, 8)} layout="vertical" margin={{ left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} stroke="#e2e8f0" />
+                  <XAxis type="number" tick={{ fill: '#94a3b8', fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={formatAxisAmount} />
+                  <YAxis type="category" dataKey="name" tick={{ fill: '#475569', fontSize: 12 }} axisLine={false} tickLine={false} width={80} />
+                  <Tooltip
+                    formatter={(value: number) => [formatCurrency(value), '營收']}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 25px -5px rgb(0 0 0 / 0.1)' }}
+                    cursor={{ fill: 'rgba(59, 130, 246, 0.05)' }}
+                  />
+                  <Bar dataKey="revenue" fill="#10b981" radius={[0, 6, 6, 0]} barSize={22} />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-slate-400 text-sm bg-slate-50 rounded-xl">尚無營收數據</div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* 缺少價格的醫院 */}
+      {missingPrices.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-amber-200 p-6">
+          <div className="flex items-start gap-3 mb-4">
+            <AlertCircle size={20} className="text-amber-500 shrink-0 mt-0.5" />
+            <div>
+              <h2 className="text-lg font-bold text-slate-900">缺少議定價</h2>
+              <p className="text-sm text-slate-500 mt-1">以下醫院的訂單找不到任何價格，未計入營收。請在醫院總覽的「收費與耗材」設定售價。</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {missingPrices.map(entry => {
+              const hospital = hospitals.find(h => h.id === entry.hospitalId);
+              return (
+                <button
+                  key={entry.hospitalId}
+                  onClick={() => navigate(`/hospitals/${entry.hospitalId}`)}
+                  className="flex items-center justify-between p-3.5 bg-amber-50/50 rounded-xl border border-amber-100 hover:border-amber-300 transition-all text-left group"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-900 truncate group-hover:text-blue-600">{hospital?.name || '未知醫院'}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {entry.productCodes.join('、')}・{entry.orderCount} 筆訂單・{entry.quantity.toLocaleString()} 件
+                    </p>
+                  </div>
+                  <ChevronRight size={16} className="text-slate-300 group-hover:text-blue-500 shrink-0" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* 補貨預測 */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 p-6 lg:p-8">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+              <Package size={20} className="text-blue-500" />
+              補貨預測
+            </h2>
+            <p className="text-sm text-slate-500 mt-1">依近一年訂購節奏與已安裝設備台數估算每月用量，預測下次補貨日</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[
+            { title: `本週可能補貨（${REORDER_SOON_DAYS} 天內）`, items: reorderSoon, empty: '本週沒有預計補貨的醫院', tone: 'amber' },
+            { title: '逾期未補貨', items: reorderOverdue, empty: '沒有逾期未補貨的醫院', tone: 'red' }
+          ].map(group => (
+            <div key={group.title}>
+              <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">
+                {group.title}
+                {group.items.length > 0 && <span className="ml-1 text-slate-500">・{group.items.length}</span>}
+              </p>
+              {group.items.length > 0 ? (
+                <div className="space-y-2 max-h-[320px] overflow-y-auto custom-scrollbar">
+                  {group.items.map(forecast => {
+                    const hospital = hospitals.find(h => h.id === forecast.hospitalId);
+                    return (
+                      <button
+                        key={`${forecast.hospitalId}-${forecast.productCode}`}
+                        onClick={() => navigate(`/hospitals/${forecast.hospitalId}?tab=orders`)}
+                        className={`w-full flex items-center justify-between gap-3 p-3 rounded-xl border text-left transition-all group ${group.tone === 'red' ? 'bg-red-50/50 border-red-100 hover:border-red-300' : 'bg-amber-50/50 border-amber-100 hover:border-amber-300'}`}
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-bold text-slate-900 truncate group-hover:text-blue-600">{hospital?.name || '未知醫院'}</span>
+                            <span className="text-xs font-semibold text-slate-600 bg-white border border-slate-200 px-1.5 py-0.5 rounded shrink-0">{forecast.productCode}</span>
+                          </div>
+                          <p className="text-xs text-slate-500 mt-0.5">
+                            約 {forecast.monthlyConsumption.toLocaleString()} 件/月・上次 {forecast.lastOrderDate} 訂 {forecast.lastOrderQuantity.toLocaleString()} 件
+                            {forecast.confidence === 'low' && <span className="ml-1 text-slate-400">（依設備台數推估）</span>}
+                          </p>
+                        </div>
+                        <span className={`text-xs font-semibold shrink-0 ${group.tone === 'red' ? 'text-red-600' : 'text-amber-600'}`}>
+                          {forecast.daysUntilReorder < 0
+                            ? `逾期 ${Math.abs(forecast.daysUntilReorder)} 天`
+                            : forecast.daysUntilReorder === 0 ? '今天' : `${forecast.daysUntilReorder} 天後`}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-sm text-slate-400 bg-slate-50 rounded-xl border border-dashed border-slate-200">{group.empty}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 合約即將到期 */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 p-6 lg:p-8">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+              <FileText size={20} className="text-amber-500" />
+              合約即將到期
+              {expiringContracts.length > 0 && (
+                <span className="text-xs font-bold text-amber-700 bg-amber-50 border border-amber-100 px-2 py-0.5 rounded-full">{expiringContracts.length}</span>
+              )}
+            </h2>
+            <p className="text-sm text-slate-500 mt-1">{contractThresholds.notice} 天內到期或已到期、尚未完成續約的合約</p>
+          </div>
+          <button onClick={() => navigate('/contracts')} className="text-sm font-semibold text-blue-600 hover:text-blue-700 flex items-center gap-1 shrink-0">
+            查看全部
+            <ChevronRight size={16} />
+          </button>
+        </div>
+        {expiringContracts.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {expiringContracts.slice(0, 9).map(({ contract, endDate, daysRemaining, alertLevel, stage }) => {
+              const hospital = hospitals.find(h => h.id === contract.hospitalId);
+              return (
+                <button
+                  key={contract.id}
+                  onClick={() => navigate(`/hospitals/${contract.hospitalId}`)}
+                  className="flex items-center justify-between gap-3 p-3.5 bg-slate-50 rounded-xl border border-slate-200 hover:border-blue-300 transition-all text-left group"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-900 truncate group-hover:text-blue-600">{hospital?.name || '未知醫院'}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {contract.productCode}・{endDate} 到期・{CONTRACT_RENEWAL_STAGES[stage].label}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold shrink-0 ${CONTRACT_ALERT_LEVELS[alertLevel].className}`}>
+                    {daysRemaining < 0 ? `已到期 ${Math.abs(daysRemaining)} 天` : `${daysRemaining} 天`}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-sm text-slate-400 bg-slate-50 rounded-xl border border-dashed border-slate-200">沒有需要處理續約的合約</div>
+        )}
+      </div>
+
       {/* Bottom Section: Activity & Action Items */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
 
@@ -338,13 +706,13 @@ const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes })
               <h2 className="text-lg font-bold text-slate-900">最新活動</h2>
             </div>
             <span className="text-xs font-bold text-blue-700 bg-blue-50 border border-blue-100 px-3 py-1 rounded-full">
-              {filteredNotes.length} 則新訊息
+              {noteCount} 則新訊息
             </span>
           </div>
           <div className="flex-1 p-6 overflow-y-auto max-h-[500px] custom-scrollbar">
             <div className="space-y-6">
-              {filteredNotes.length > 0 ? (
-                filteredNotes.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 5).map((note, index) => {
+              {recentNotes.length > 0 ? (
+                recentNotes.map((note, index) => {
                   const hospital = hospitals.find(h => h.id === note.hospitalId);
                   return (
                     <div key={note.id} className="flex gap-4 group">
@@ -357,7 +725,7 @@ const Dashboard: React.FC<DashboardProps> = ({ hospitals, usageRecords, notes })
                             note.activityType === '通話' ? <Activity size={16} /> :
                               <Calendar size={16} />}
                         </div>
-                        {index !== filteredNotes.length - 1 && <div className="w-0.5 h-full bg-slate-100 mt-2"></div>}
+                        {index !== recentNotes.length - 1 && <div className="w-0.5 h-full bg-slate-100 mt-2"></div>}
                       </div>
                       <div className="flex-1 pb-6 border-b border-slate-50 last:border-0 last:pb-0">
                         <div className="flex justify-between items-start">
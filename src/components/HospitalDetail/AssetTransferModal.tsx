@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { X, ArrowRightLeft, ArrowRight, Check, Loader, History } from 'lucide-react';
+import { AssetTransfer, EquipmentAsset, Hospital } from '@/types';
+import { useToast } from '../../contexts/ToastContext';
+import { fetchAssetTransfers, transferEquipmentAsset } from '../../services/databaseService';
+import { todayKey } from '../../lib/dateKey';
+
+interface AssetTransferModalProps {
+    asset: EquipmentAsset;
+    hospitals: Hospital[];
+    onClose: () => void;
+    onTransferred: (asset: EquipmentAsset) => void;
+}
+
+const inputClassName = 'w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm';
+const labelClassName = 'block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2';
+
+// 移轉到其他醫院或院內其他病房，並列出這台設備過去的移轉記錄
+const AssetTransferModal: React.FC<AssetTransferModalProps> = ({ asset, hospitals, onClose, onTransferred }) => {
+    const { showError } = useToast();
+    const [transfers, setTransfers] = useState<AssetTransfer[]>([]);
+    const [isLoadingTransfers, setIsLoadingTransfers] = useState(true);
+    const [form, setForm] = useState({
+        toHospitalId: asset.hospitalId,
+        toLocation: '',
+        transferDate: todayKey(),
+        reason: ''
+    });
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchAssetTransfers(asset.id)
+            .then(data => { if (!cancelled) setTransfers(data); })
+            .catch(error => console.error('Error loading asset transfers:', error))
+            .finally(() => { if (!cancelled) setIsLoadingTransfers(false); });
+        return () => { cancelled = true; };
+    }, [asset.id]);
+
+    const hospitalName = (hospitalId?: string) =>
+        hospitals.find(h => h.id === hospitalId)?.name || '未知醫院';
+
+    const describePlace = (hospitalId?: string, location?: string) =>
+        location ? `${hospitalName(hospitalId)}・${location}` : hospitalName(hospitalId);
+
+    const handleTransfer = async () => {
+        setIsSaving(true);
+        try {
+            const result = await transferEquipmentAsset(asset, form);
+            if (result.ok === false) {
+                showError(result.error, '移轉設備');
+                return;
+            }
+            onTransferred(result.data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const isUnchanged = form.toHospitalId === asset.hospitalId && form.toLocation.trim() === (asset.location || '');
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => !isSaving && onClose()}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+                    <h3 className="font-bold text-lg text-slate-900 flex items-center">
+                        <div className="bg-violet-100 p-2 rounded-lg mr-3 text-violet-600"><ArrowRightLeft size={20} /></div>
+                        <span>
+                            移轉設備
+                            <span className="block text-xs font-normal text-slate-500 mt-0.5">{asset.productCode} #{asset.serialNumber}・目前在 {describePlace(asset.hospitalId, asset.location)}</span>
+                        </span>
+                    </h3>
+                    <button onClick={onClose} disabled={isSaving} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-100"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClassName}>移轉至醫院</label>
+                            <select className={inputClassName} value={form.toHospitalId} onChange={(e) => setForm({ ...form, toHospitalId: e.target.value })} disabled={isSaving}>
+                                {hospitals.map(h => (
+                                    <option key={h.id} value={h.id}>{h.name}{h.id === asset.hospitalId ? '（院內移動）' : ''}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>新放置位置</label>
+                            <input className={inputClassName} value={form.toLocation} onChange={(e) => setForm({ ...form, toLocation: e.target.value })} placeholder="病房或科別" disabled={isSaving} />
+                        </div>
+                        <div>
+                            <label className={labelClassName}>移轉日期</label>
+                            <input type="date" className={inputClassName} value={form.transferDate} onChange={(e) => setForm({ ...form, transferDate: e.target.value })} disabled={isSaving} />
+                        </div>
+                        <div>
+                            <label className={labelClassName}>原因</label>
+                            <input className={inputClassName} value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value })} placeholder="例如: 借用轉調、病房整併" disabled={isSaving} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <p className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2 flex items-center gap-1"><History size={14} />移轉記錄</p>
+                        {isLoadingTransfers ? (
+                            <div className="text-center py-4"><Loader size={20} className="mx-auto animate-spin text-slate-300" /></div>
+                        ) : transfers.length === 0 ? (
+                            <p className="text-sm text-slate-400 py-2">尚無移轉記錄</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {transfers.map(transfer => (
+                                    <div key={transfer.id} className="p-3 rounded-xl bg-slate-50 border border-slate-200 text-sm">
+                                        <div className="flex items-center gap-2 flex-wrap text-slate-700">
+                                            <span className="font-semibold">{transfer.transferDate}</span>
+                                            <span>{describePlace(transfer.fromHospitalId, transfer.fromLocation)}</span>
+                                            <ArrowRight size={14} className="text-slate-400" />
+                                            <span>{describePlace(transfer.toHospitalId, transfer.toLocation)}</span>
+                                        </div>
+                                        <p className="text-xs text-slate-500 mt-1">{transfer.reason || '未填寫原因'}・{transfer.transferredByName}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-100">
+                    <button onClick={onClose} disabled={isSaving} className="px-5 py-2.5 text-slate-600 font-semibold hover:bg-slate-100 rounded-xl">取消</button>
+                    <button onClick={handleTransfer} disabled={isSaving || isUnchanged || !form.transferDate} className="px-5 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md flex items-center transition-all disabled:opacity-50">
+                        {isSaving ? <Loader size={18} className="mr-2 animate-spin" /> : <Check size={18} className="mr-2" />}
+                        確認移轉
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AssetTransferModal;
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { Paperclip } from 'lucide-react';
+import { Attachment } from '@/types';
+import AttachmentPreview, { getAttachmentIcon } from './AttachmentPreview';
+
+interface AttachmentChipsProps {
+    attachments: Attachment[];
+    className?: string;
+}
+
+// 活動記錄與合約下方的附件列表，點擊即預覽；上傳與管理在「檔案」分頁
+const AttachmentChips: React.FC<AttachmentChipsProps> = ({ attachments, className = '' }) => {
+    const [previewing, setPreviewing] = useState<Attachment | null>(null);
+
+    if (attachments.length === 0) return null;
+
+    return (
+        <div className={`flex items-center gap-2 flex-wrap ${className}`}>
+            <Paperclip size={12} className="text-slate-400" />
+            {attachments.map(attachment => {
+                const Icon = getAttachmentIcon(attachment);
+                return (
+                    <button
+                        key={attachment.id}
+                        onClick={() => setPreviewing(attachment)}
+                        className="flex items-center gap-1 max-w-[200px] px-2 py-0.5 text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-md hover:border-blue-200 hover:text-blue-600 transition-colors"
+                        title={attachment.fileName}
+                    >
+                        <Icon size={12} className="shrink-0" />
+                        <span className="truncate">{attachment.fileName}</span>
+                    </button>
+                );
+            })}
+            {previewing && <AttachmentPreview attachment={previewing} onClose={() => setPreviewing(null)} />}
+        </div>
+    );
+};
+
+export default AttachmentChips;
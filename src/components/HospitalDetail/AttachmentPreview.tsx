@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, Loader, FileText, Image as ImageIcon, File as FileIcon, Mic } from 'lucide-react';
+import { Attachment } from '@/types';
+import { getAttachmentUrl } from '../../services/databaseService';
+import { useToast } from '../../contexts/ToastContext';
+
+interface AttachmentPreviewProps {
+    attachment: Attachment;
+    onClose: () => void;
+}
+
+export const isImageAttachment = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+export const isPdfAttachment = (attachment: Attachment) => attachment.mimeType === 'application/pdf';
+export const isAudioAttachment = (attachment: Attachment) => attachment.mimeType.startsWith('audio/');
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export const getAttachmentIcon = (attachment: Attachment): React.ElementType =>
+    isImageAttachment(attachment) ? ImageIcon
+        : isPdfAttachment(attachment) ? FileText
+        : isAudioAttachment(attachment) ? Mic
+        : FileIcon;
+
+// 下載使用另一組帶 download 參數的簽署網址，瀏覽器會以原始檔名存檔
+export const downloadAttachment = async (attachment: Attachment) => {
+    const result = await getAttachmentUrl(attachment, true);
+    if (result.ok === true) window.open(result.data, '_blank', 'noopener');
+    return result;
+};
+
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment, onClose }) => {
+    const { showError } = useToast();
+    const [url, setUrl] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const canPreview = isImageAttachment(attachment) || isPdfAttachment(attachment) || isAudioAttachment(attachment);
+
+    useEffect(() => {
+        if (!canPreview) {
+            setIsLoading(false);
+            return;
+        }
+        let cancelled = false;
+        setIsLoading(true);
+        getAttachmentUrl(attachment).then(result => {
+            if (cancelled) return;
+            setIsLoading(false);
+            if (result.ok === false) {
+                showError(result.error, '載入附件');
+                return;
+            }
+            setUrl(result.data);
+        });
+        return () => { cancelled = true; };
+    }, [attachment, canPreview, showError]);
+
+    const handleDownload = async () => {
+        const result = await downloadAttachment(attachment);
+        if (result.ok === false) showError(result.error, '下載附件');
+    };
+
+    const Icon = getAttachmentIcon(attachment);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between gap-3 px-5 py-4 border-b border-slate-100">
+                    <div className="flex items-center gap-3 min-w-0">
+                        <Icon size={18} className="text-slate-400 shrink-0" />
+                        <div className="min-w-0">
+                            <p className="font-bold text-slate-900 truncate">{attachment.fileName}</p>
+                            <p className="text-xs text-slate-400">{formatFileSize(attachment.size)} • {attachment.uploaderName}</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                        <button
+                            onClick={handleDownload}
+                            className="p-2 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="下載"
+                        >
+                            <Download size={18} />
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                            title="關閉"
+                        >
+                            <X size={18} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 min-h-[300px] bg-slate-50 rounded-b-2xl overflow-auto flex items-center justify-center">
+                    {isLoading ? (
+                        <div className="flex items-center text-slate-500">
+                            <Loader size={20} className="animate-spin mr-2" />
+                            <span>載入預覽...</span>
+                        </div>
+                    ) : !canPreview ? (
+                        <div className="text-center p-8">
+                            <FileIcon size={40} className="mx-auto mb-3 text-slate-300" />
+                            <p className="text-slate-500 mb-4">此檔案類型無法預覽</p>
+                            <button
+                                onClick={handleDownload}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-semibold hover:bg-blue-700 transition-colors inline-flex items-center gap-2"
+                            >
+                                <Download size={16} />
+                                下載檔案
+                            </button>
+                        </div>
+                    ) : url && isImageAttachment(attachment) ? (
+                        <img src={url} alt={attachment.fileName} className="max-w-full max-h-[75vh] object-contain" />
+                    ) : url && isAudioAttachment(attachment) ? (
+                        <audio src={url} controls autoPlay className="w-full max-w-md" />
+                    ) : url ? (
+                        <iframe src={url} title={attachment.fileName} className="w-full h-[75vh] rounded-b-2xl" />
+                    ) : (
+                        <p className="text-slate-500">無法載入預覽</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AttachmentPreview;
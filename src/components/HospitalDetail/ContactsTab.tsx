@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
-    User, Mail, Phone, Sparkles, Edit, X
+    User, Mail, Phone, Sparkles, Edit, X, Square, RefreshCw
 } from 'lucide-react';
 import { Contact, Hospital } from '@/types';
-import { generateEmailDraft } from '../../services/geminiService';
+import { useToast } from '../../contexts/ToastContext';
+import { generateEmailDraft, EMAIL_TONE_NAMES, EmailTone } from '../../services/aiService';
 
 interface ContactsTabProps {
     hospital: Hospital;
@@ -29,20 +30,71 @@ const ContactsTab: React.FC<ContactsTabProps> = ({
         isKeyDecisionMaker: false
     });
 
+    const { showError } = useToast();
+
     // Email Drafting State
-    const [emailDraft, setEmailDraft] = useState<{ content: string, contact: string } | null>(null);
+    const [emailDraft, setEmailDraft] = useState<{ content: string, contactId: string, tone: EmailTone } | null>(null);
     const [isDraftingEmail, setIsDraftingEmail] = useState(false);
+    const draftAbortRef = useRef<AbortController | null>(null);
+    // 最近一次收到的串流內容，用來只接上新產生的文字
+    const streamedDraftRef = useRef('');
+
+    // 切換醫院或離開頁面時停止產生
+    useEffect(() => {
+        return () => {
+            draftAbortRef.current?.abort();
+            draftAbortRef.current = null;
+            setEmailDraft(null);
+            setIsDraftingEmail(false);
+        };
+    }, [hospital.id]);
 
-    const handleGenerateEmail = async (contact: Contact) => {
+    const handleGenerateEmail = async (contact: Contact, tone: EmailTone = 'Professional') => {
+        draftAbortRef.current?.abort();
+        const controller = new AbortController();
+        draftAbortRef.current = controller;
+        streamedDraftRef.current = '';
+        setEmailDraft({ content: '', contactId: contact.id, tone });
         setIsDraftingEmail(true);
-        const draft = await generateEmailDraft(
+
+        const result = await generateEmailDraft(
             contact.name,
             hospital.name,
             `針對近期互動進行跟進，內容關於${hospital.equipmentInstalled ? '設備效能' : '潛在試用機會'}。目前銷售階段為${hospital.stage}。`,
-            'Professional'
+            tone,
+            {
+                signal: controller.signal,
+                // 只附加新收到的文字，使用者在產生途中的修改不會被覆蓋
+                onPartial: (text) => {
+                    const previous = streamedDraftRef.current;
+                    streamedDraftRef.current = text;
+                    setEmailDraft(prev => prev && { ...prev, content: prev.content + text.slice(previous.length) });
+                }
+            }
         );
-        setEmailDraft({ content: draft, contact: contact.name });
+        // 已被新的請求取代
+        if (draftAbortRef.current !== controller) return;
+        draftAbortRef.current = null;
+        setIsDraftingEmail(false);
+
+        if (result.ok === false) {
+            if (!controller.signal.aborted) showError(result.error, '草擬郵件');
+            // 停止或失敗時保留已產生的內容，完全沒有內容才關閉
+            setEmailDraft(prev => prev && prev.content.trim() ? prev : null);
+        }
+    };
+
+    const handleRegenerateEmail = (contact: Contact) => {
+        if (!emailDraft) return;
+        if (emailDraft.content !== streamedDraftRef.current && !window.confirm('重新產生會取代目前已修改的草稿，確定要繼續嗎？')) return;
+        handleGenerateEmail(contact, emailDraft.tone);
+    };
+
+    const handleCloseDraft = () => {
+        draftAbortRef.current?.abort();
+        draftAbortRef.current = null;
         setIsDraftingEmail(false);
+        setEmailDraft(null);
     };
 
     const handleSaveContact = () => {
@@ -125,26 +177,64 @@ const ContactsTab: React.FC<ContactsTabProps> = ({
                             </div>
                         </div>
 
-                        <button
-                            onClick={() => handleGenerateEmail(contact)}
-                            disabled={isDraftingEmail}
-                            className="w-full flex items-center justify-center space-x-2 bg-white border border-slate-200 text-slate-700 py-2.5 rounded-xl text-sm font-semibold hover:bg-slate-50 hover:border-slate-300 transition-all shadow-sm active:scale-[0.98]"
-                        >
-                            <Sparkles size={16} className={isDraftingEmail ? "animate-spin text-purple-500" : "text-purple-500"} />
-                            <span>{isDraftingEmail ? '正在生成郵件...' : 'AI 草擬郵件'}</span>
-                        </button>
+                        {emailDraft?.contactId !== contact.id && (
+                            <button
+                                onClick={() => handleGenerateEmail(contact)}
+                                disabled={isDraftingEmail}
+                                className="w-full flex items-center justify-center space-x-2 bg-white border border-slate-200 text-slate-700 py-2.5 rounded-xl text-sm font-semibold hover:bg-slate-50 hover:border-slate-300 transition-all shadow-sm active:scale-[0.98] disabled:opacity-50"
+                            >
+                                <Sparkles size={16} className="text-purple-500" />
+                                <span>AI 草擬郵件</span>
+                            </button>
+                        )}
 
-                        {emailDraft?.contact === contact.name && (
-                            <div className="mt-4 bg-slate-50 p-4 rounded-xl text-sm border border-slate-200 animate-fade-in shadow-inner">
+                        {emailDraft?.contactId === contact.id && (
+                            <div className="bg-slate-50 p-4 rounded-xl text-sm border border-slate-200 animate-fade-in shadow-inner">
                                 <div className="flex justify-between items-center mb-3">
-                                    <span className="font-bold text-slate-700 flex items-center gap-2"><Sparkles size={14} className="text-purple-500" /> AI 草稿</span>
-                                    <button onClick={() => setEmailDraft(null)} className="text-slate-400 hover:text-slate-600"><X size={16} /></button>
+                                    <span className="font-bold text-slate-700 flex items-center gap-2">
+                                        <Sparkles size={14} className={isDraftingEmail ? 'animate-spin text-purple-500' : 'text-purple-500'} />
+                                        {isDraftingEmail ? '正在生成郵件...' : 'AI 草稿'}
+                                    </span>
+                                    <button onClick={handleCloseDraft} className="text-slate-400 hover:text-slate-600"><X size={16} /></button>
                                 </div>
                                 <textarea
-                                    readOnly
-                                    className="w-full bg-white border border-slate-200 rounded-lg p-3 text-slate-600 text-xs h-32 focus:outline-none focus:ring-1 focus:ring-purple-200 leading-relaxed resize-none"
+                                    className="w-full bg-white border border-slate-200 rounded-lg p-3 text-slate-600 text-xs h-48 focus:outline-none focus:ring-1 focus:ring-purple-200 leading-relaxed resize-y"
                                     value={emailDraft.content}
+                                    onChange={(e) => setEmailDraft({ ...emailDraft, content: e.target.value })}
+                                    placeholder="等待 AI 回應..."
                                 />
+                                <div className="flex items-center justify-between mt-3 gap-2">
+                                    {/* 語氣 */}
+                                    <div className="flex bg-white border border-slate-200 rounded-lg p-0.5">
+                                        {(Object.keys(EMAIL_TONE_NAMES) as EmailTone[]).map(tone => (
+                                            <button
+                                                key={tone}
+                                                onClick={() => setEmailDraft({ ...emailDraft, tone })}
+                                                disabled={isDraftingEmail}
+                                                className={`px-2.5 py-1 rounded-md text-xs font-semibold transition-colors disabled:opacity-50 ${emailDraft.tone === tone ? 'bg-purple-100 text-purple-700' : 'text-slate-500 hover:text-slate-700'}`}
+                                            >
+                                                {EMAIL_TONE_NAMES[tone]}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {isDraftingEmail ? (
+                                        <button
+                                            onClick={() => draftAbortRef.current?.abort()}
+                                            className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-600 bg-white border border-slate-200 hover:text-red-600 hover:border-red-200 transition-colors"
+                                        >
+                                            <Square size={12} className="fill-current" />
+                                            <span>停止</span>
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={() => handleRegenerateEmail(contact)}
+                                            className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold text-purple-700 bg-purple-50 hover:bg-purple-100 transition-colors"
+                                        >
+                                            <RefreshCw size={12} />
+                                            <span>重新產生</span>
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                         )}
                     </div>
@@ -1,26 +1,32 @@
 import React, { useState, useEffect } from 'react';
-import { X, Package, Loader } from 'lucide-react';
-import { InstalledEquipment, ProductType } from '../../types';
-import { PRODUCTS } from '../../constants';
+import { X, Package, Loader, AlertTriangle } from 'lucide-react';
+import { AssetStatus, EquipmentAsset, InstalledEquipment, OwnershipType, ProductType } from '../../types';
+import { useProducts } from '../../contexts/ProductContext';
+import { ASSET_STATUS_CONFIG, OWNERSHIP_TYPES, summarizeAssets } from '../../services/assetService';
 
 interface EditEquipmentModalProps {
     equipment: InstalledEquipment | null;
     isOpen: boolean;
     onClose: () => void;
     onSave: (updatedEquipment: InstalledEquipment) => Promise<void> | void;
+    assets?: EquipmentAsset[];  // 此醫院已登錄的設備序號，用來對照數量
 }
 
 const EditEquipmentModal: React.FC<EditEquipmentModalProps> = ({
     equipment,
     isOpen,
     onClose,
-    onSave
+    onSave,
+    assets = []
 }) => {
+    const { activeProducts, getProduct } = useProducts();
     const [formData, setFormData] = useState<InstalledEquipment | null>(null);
     const [isSaving, setIsSaving] = useState(false);
 
-    // 設備產品列表（主機類）
-    const equipmentProducts = PRODUCTS.filter(p => p.type === ProductType.EQUIPMENT);
+    // 設備產品列表（主機類）；原本的型號已停售時仍保留為選項，避免儲存時被改成其他型號
+    const equipmentProducts = activeProducts.filter(p => p.type === ProductType.EQUIPMENT);
+    const currentCode = equipment?.productCode;
+    const isCurrentRetired = !!currentCode && !equipmentProducts.some(p => p.code === currentCode);
 
     useEffect(() => {
         if (equipment) {
@@ -43,6 +49,9 @@ const EditEquipmentModal: React.FC<EditEquipmentModalProps> = ({
 
     if (!isOpen || !formData) return null;
 
+    const summary = summarizeAssets(assets, formData.productCode);
+    const hasAssets = summary.registered > 0 || summary.byStatus.returned > 0;
+
     return (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
             <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in border border-slate-100">
@@ -64,6 +73,9 @@ const EditEquipmentModal: React.FC<EditEquipmentModalProps> = ({
                             onChange={(e) => setFormData({ ...formData, productCode: e.target.value })}
                             disabled={isSaving}
                         >
+                            {isCurrentRetired && (
+                                <option value={currentCode}>{currentCode}{getProduct(currentCode) ? ` - ${getProduct(currentCode)?.name}` : ''}（已停售）</option>
+                            )}
                             {equipmentProducts.map(p => (
                                 <option key={p.code} value={p.code}>{p.code} - {p.name}</option>
                             ))}
@@ -95,14 +107,47 @@ const EditEquipmentModal: React.FC<EditEquipmentModalProps> = ({
                         <select
                             className="w-full border border-slate-300 rounded-xl px-4 py-2.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white transition-all"
                             value={formData.ownership}
-                            onChange={(e) => setFormData({ ...formData, ownership: e.target.value as '租賃' | '買斷' })}
+                            onChange={(e) => setFormData({ ...formData, ownership: e.target.value as OwnershipType })}
                             disabled={isSaving}
                         >
-                            <option value="租賃">租賃</option>
-                            <option value="買斷">買斷</option>
+                            {OWNERSHIP_TYPES.map(type => (
+                                <option key={type} value={type}>{type}</option>
+                            ))}
                         </select>
                     </div>
 
+                    {/* 序號彙總：數量仍由業務填寫，這裡對照逐台登錄的結果 */}
+                    {hasAssets && (
+                        <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 text-sm space-y-2">
+                            <div className="flex justify-between items-center">
+                                <span className="font-semibold text-slate-700">已登錄序號</span>
+                                <span className="font-bold text-slate-900">{summary.registered} / {formData.quantity} 台</span>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                {(Object.keys(ASSET_STATUS_CONFIG) as AssetStatus[])
+                                    .filter(status => summary.byStatus[status] > 0)
+                                    .map(status => (
+                                        <span key={status} className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ASSET_STATUS_CONFIG[status].className}`}>
+                                            {ASSET_STATUS_CONFIG[status].label} {summary.byStatus[status]}
+                                        </span>
+                                    ))}
+                                {OWNERSHIP_TYPES
+                                    .filter(type => summary.byOwnership[type])
+                                    .map(type => (
+                                        <span key={type} className="px-2 py-0.5 rounded-full text-xs font-semibold bg-white border border-slate-200 text-slate-600">
+                                            {type} {summary.byOwnership[type]}
+                                        </span>
+                                    ))}
+                            </div>
+                            {summary.registered !== formData.quantity && (
+                                <p className="flex items-center gap-1 text-xs text-amber-600">
+                                    <AlertTriangle size={12} />
+                                    數量與已登錄序號不符，請確認是否需補登序號或更正數量
+                                </p>
+                            )}
+                        </div>
+                    )}
+
                     <div className="pt-4 flex space-x-3">
                         <button
                             onClick={handleSave}
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { X, Cpu, Check, Loader } from 'lucide-react';
+import { AssetStatus, EquipmentAsset, OwnershipType, ProductType } from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { useToast } from '../../contexts/ToastContext';
+import { createEquipmentAsset, updateEquipmentAsset } from '../../services/databaseService';
+import { ASSET_STATUS_CONFIG, OWNERSHIP_TYPES } from '../../services/assetService';
+
+interface EquipmentAssetModalProps {
+    hospitalId: string;
+    asset: EquipmentAsset | null;  // null 表示登錄新設備
+    onClose: () => void;
+    onSaved: (asset: EquipmentAsset) => void;
+}
+
+const inputClassName = 'w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm';
+const labelClassName = 'block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2';
+
+// 登錄或編輯單台設備；醫院與放置位置登錄後只能透過移轉修改
+const EquipmentAssetModal: React.FC<EquipmentAssetModalProps> = ({ hospitalId, asset, onClose, onSaved }) => {
+    const { activeProducts, getProduct } = useProducts();
+    const { showError } = useToast();
+    const equipmentProducts = activeProducts.filter(p => p.type === ProductType.EQUIPMENT);
+
+    const [form, setForm] = useState({
+        productCode: asset?.productCode || equipmentProducts[0]?.code || '',
+        serialNumber: asset?.serialNumber || '',
+        location: asset?.location || '',
+        status: asset?.status || 'in_service' as AssetStatus,
+        ownership: asset?.ownership || '買斷' as OwnershipType,
+        installDate: asset?.installDate || '',
+        warrantyEndDate: asset?.warrantyEndDate || '',
+        notes: asset?.notes || ''
+    });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const fields = {
+                hospitalId,
+                productCode: form.productCode,
+                serialNumber: form.serialNumber,
+                location: form.location,
+                status: form.status,
+                ownership: form.ownership,
+                installDate: form.installDate || undefined,
+                warrantyEndDate: form.warrantyEndDate || undefined,
+                notes: form.notes
+            };
+            const result = asset
+                ? await updateEquipmentAsset({ ...asset, ...fields, hospitalId: asset.hospitalId, location: asset.location })
+                : await createEquipmentAsset(fields);
+            if (result.ok === false) {
+                showError(result.error, asset ? '更新設備' : '登錄設備');
+                return;
+            }
+            onSaved(result.data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => !isSaving && onClose()}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+                    <h3 className="font-bold text-lg text-slate-900 flex items-center">
+                        <div className="bg-blue-100 p-2 rounded-lg mr-3 text-blue-600"><Cpu size={20} /></div>
+                        {asset ? '編輯設備序號' : '登錄設備序號'}
+                    </h3>
+                    <button onClick={onClose} disabled={isSaving} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-100"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClassName}>設備型號</label>
+                            <select className={inputClassName} value={form.productCode} onChange={(e) => setForm({ ...form, productCode: e.target.value })} disabled={isSaving}>
+                                {!equipmentProducts.some(p => p.code === form.productCode) && form.productCode && (
+                                    <option value={form.productCode}>{form.productCode} - {getProduct(form.productCode)?.name || '已停售'}</option>
+                                )}
+                                {equipmentProducts.map(p => <option key={p.code} value={p.code}>{p.code} - {p.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>序號</label>
+                            <input className={inputClassName} value={form.serialNumber} onChange={(e) => setForm({ ...form, serialNumber: e.target.value })} placeholder="例如: MR810-2301-0042" disabled={isSaving} />
+                        </div>
+                        {!asset && (
+                            <div className="md:col-span-2">
+                                <label className={labelClassName}>放置位置</label>
+                                <input className={inputClassName} value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} placeholder="例如: 5B 病房、加護病房" disabled={isSaving} />
+                            </div>
+                        )}
+                        <div>
+                            <label className={labelClassName}>狀態</label>
+                            <select className={inputClassName} value={form.status} onChange={(e) => setForm({ ...form, status: e.target.value as AssetStatus })} disabled={isSaving}>
+                                {(Object.keys(ASSET_STATUS_CONFIG) as AssetStatus[]).map(status => (
+                                    <option key={status} value={status}>{ASSET_STATUS_CONFIG[status].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>所有權</label>
+                            <select className={inputClassName} value={form.ownership} onChange={(e) => setForm({ ...form, ownership: e.target.value as OwnershipType })} disabled={isSaving}>
+                                {OWNERSHIP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>安裝日期</label>
+                            <input type="date" className={inputClassName} value={form.installDate} onChange={(e) => setForm({ ...form, installDate: e.target.value })} disabled={isSaving} />
+                        </div>
+                        <div>
+                            <label className={labelClassName}>保固到期</label>
+                            <input type="date" className={inputClassName} value={form.warrantyEndDate} onChange={(e) => setForm({ ...form, warrantyEndDate: e.target.value })} disabled={isSaving} />
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClassName}>備註</label>
+                        <textarea rows={2} className={`${inputClassName} resize-none`} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} disabled={isSaving} />
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-100">
+                    <button onClick={onClose} disabled={isSaving} className="px-5 py-2.5 text-slate-600 font-semibold hover:bg-slate-100 rounded-xl">取消</button>
+                    <button onClick={handleSave} disabled={isSaving || !form.productCode || !form.serialNumber.trim()} className="px-5 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md flex items-center transition-all disabled:opacity-50">
+                        {isSaving ? <Loader size={18} className="mr-2 animate-spin" /> : <Check size={18} className="mr-2" />}
+                        儲存
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EquipmentAssetModal;
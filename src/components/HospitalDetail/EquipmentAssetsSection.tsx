@@ -0,0 +1,155 @@
+import React, { useState, useMemo } from 'react';
+import { Loader, Plus, Cpu, MapPin, ShieldAlert, Edit, ArrowRightLeft, ChevronDown, ChevronUp } from 'lucide-react';
+import { Hospital, EquipmentAsset } from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { ASSET_STATUS_CONFIG, isWarrantyExpired } from '../../services/assetService';
+import EquipmentAssetModal from './EquipmentAssetModal';
+import AssetTransferModal from './AssetTransferModal';
+
+interface EquipmentAssetsSectionProps {
+    hospital: Hospital;
+    hospitals: Hospital[];
+    assets: EquipmentAsset[];
+    isLoading: boolean;
+    onAssetsChange: (updater: (prev: EquipmentAsset[]) => EquipmentAsset[]) => void;
+}
+
+const EquipmentAssetsSection: React.FC<EquipmentAssetsSectionProps> = ({ hospital, hospitals, assets, isLoading, onAssetsChange }) => {
+    const { getProduct } = useProducts();
+    const [editingAsset, setEditingAsset] = useState<EquipmentAsset | null>(null);
+    const [isAdding, setIsAdding] = useState(false);
+    const [transferringAsset, setTransferringAsset] = useState<EquipmentAsset | null>(null);
+    const [showReturned, setShowReturned] = useState(false);
+
+    // 依型號分組，組內依序號排序
+    const groups = useMemo(() => {
+        const visible = assets.filter(a => showReturned || a.status !== 'returned');
+        const map = new Map<string, EquipmentAsset[]>();
+        visible.forEach(asset => {
+            map.set(asset.productCode, [...(map.get(asset.productCode) || []), asset]);
+        });
+        return Array.from(map.entries())
+            .map(([productCode, items]) => ({
+                productCode,
+                items: items.sort((a, b) => a.serialNumber.localeCompare(b.serialNumber))
+            }))
+            .sort((a, b) => a.productCode.localeCompare(b.productCode));
+    }, [assets, showReturned]);
+
+    const returnedCount = assets.filter(a => a.status === 'returned').length;
+
+    const handleSaved = (asset: EquipmentAsset) => {
+        onAssetsChange(prev => prev.some(a => a.id === asset.id)
+            ? prev.map(a => a.id === asset.id ? asset : a)
+            : [...prev, asset]);
+        setEditingAsset(null);
+        setIsAdding(false);
+    };
+
+    // 移到其他醫院後就不屬於此醫院的清單
+    const handleTransferred = (asset: EquipmentAsset) => {
+        onAssetsChange(prev => asset.hospitalId === hospital.id
+            ? prev.map(a => a.id === asset.id ? asset : a)
+            : prev.filter(a => a.id !== asset.id));
+        setTransferringAsset(null);
+    };
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 lg:p-8">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h2 className="text-lg font-bold text-slate-900">設備序號</h2>
+                    <p className="text-sm text-slate-500 mt-1">逐台追蹤序號、放置病房、狀態與保固，院際或病房間移轉會保留記錄</p>
+                </div>
+                <button onClick={() => setIsAdding(true)} className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all shadow-md shadow-blue-600/20 active:scale-[0.98]">
+                    <Plus size={18} /><span className="font-medium">登錄序號</span>
+                </button>
+            </div>
+
+            {isLoading ? (
+                <div className="text-center py-12">
+                    <Loader size={32} className="mx-auto mb-3 text-slate-300 animate-spin" />
+                    <p className="text-slate-500">載入設備序號中...</p>
+                </div>
+            ) : groups.length === 0 ? (
+                <div className="text-center py-8 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+                    <Cpu size={28} className="mx-auto mb-2 text-slate-300" />
+                    <p className="text-slate-500 text-sm">尚未登錄任何設備序號</p>
+                </div>
+            ) : (
+                <div className="space-y-5">
+                    {groups.map(group => (
+                        <div key={group.productCode}>
+                            <p className="text-sm font-semibold text-slate-700 mb-2">
+                                {getProduct(group.productCode)?.name || group.productCode}
+                                <span className="ml-2 text-xs font-normal text-slate-400">{group.items.length} 台</span>
+                            </p>
+                            <div className="space-y-2">
+                                {group.items.map(asset => {
+                                    const status = ASSET_STATUS_CONFIG[asset.status];
+                                    return (
+                                        <div key={asset.id} className="p-3 rounded-xl border border-slate-200 bg-slate-50 group">
+                                            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                                                <div className="min-w-0 text-sm">
+                                                    <div className="flex items-center gap-2 flex-wrap">
+                                                        <span className="font-mono font-semibold text-slate-900">{asset.serialNumber}</span>
+                                                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>{status.label}</span>
+                                                        <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${asset.ownership === '買斷' ? 'bg-emerald-50 text-emerald-700' : asset.ownership === '借用' ? 'bg-violet-50 text-violet-700' : 'bg-blue-50 text-blue-700'}`}>{asset.ownership}</span>
+                                                        {isWarrantyExpired(asset) && (
+                                                            <span className="flex items-center gap-1 text-xs text-red-600"><ShieldAlert size={12} />保固已過期</span>
+                                                        )}
+                                                    </div>
+                                                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs text-slate-500">
+                                                        <span className="flex items-center gap-1"><MapPin size={12} />{asset.location || '未填寫位置'}</span>
+                                                        {asset.installDate && <span>安裝 {asset.installDate}</span>}
+                                                        {asset.warrantyEndDate && <span>保固至 {asset.warrantyEndDate}</span>}
+                                                    </div>
+                                                    {asset.notes && <p className="text-xs text-slate-500 mt-1">{asset.notes}</p>}
+                                                </div>
+                                                <div className="flex gap-1 shrink-0 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                                                    <button onClick={() => setTransferringAsset(asset)} className="p-2 text-slate-400 hover:text-violet-600 hover:bg-violet-50 rounded-lg" title="移轉與記錄">
+                                                        <ArrowRightLeft size={16} />
+                                                    </button>
+                                                    <button onClick={() => setEditingAsset(asset)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg" title="編輯">
+                                                        <Edit size={16} />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {returnedCount > 0 && (
+                <button onClick={() => setShowReturned(!showReturned)} className="mt-4 flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-slate-700">
+                    {showReturned ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    {showReturned ? '隱藏已退回的設備' : `顯示已退回的設備 (${returnedCount})`}
+                </button>
+            )}
+
+            {(isAdding || editingAsset) && (
+                <EquipmentAssetModal
+                    hospitalId={hospital.id}
+                    asset={editingAsset}
+                    onClose={() => { setEditingAsset(null); setIsAdding(false); }}
+                    onSaved={handleSaved}
+                />
+            )}
+
+            {transferringAsset && (
+                <AssetTransferModal
+                    asset={transferringAsset}
+                    hospitals={hospitals}
+                    onClose={() => setTransferringAsset(null)}
+                    onTransferred={handleTransferred}
+                />
+            )}
+        </div>
+    );
+};
+
+export default EquipmentAssetsSection;
@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+    Upload, Download, Trash2, Loader, FolderOpen, RefreshCw, Users, Shield, Lock, Eye
+} from 'lucide-react';
+import { Hospital, Note, Contract, Attachment, AttachmentEntityType, AttachmentVisibility } from '@/types';
+import {
+    fetchContractsByHospital, uploadAttachment, updateAttachmentVisibility, deleteAttachment,
+    MAX_ATTACHMENT_SIZE
+} from '../../services/databaseService';
+import { toDataError } from '../../services/dataErrors';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useProducts } from '../../contexts/ProductContext';
+import AttachmentPreview, { formatFileSize, getAttachmentIcon, isImageAttachment, downloadAttachment } from './AttachmentPreview';
+
+interface FilesTabProps {
+    hospital: Hospital;
+    notes: Note[];
+    attachments: Attachment[];
+    isLoading?: boolean;
+    onReload: () => void;
+    onAttachmentsChange: (update: (prev: Attachment[]) => Attachment[]) => void;
+}
+
+const ENTITY_NAMES: Record<AttachmentEntityType, string> = {
+    hospitals: '醫院資料',
+    notes: '活動記錄',
+    contracts: '合約'
+};
+
+const VISIBILITY_OPTIONS: { id: AttachmentVisibility; label: string; description: string; icon: React.ElementType }[] = [
+    { id: 'team', label: '所有人', description: '所有業務都能檢視', icon: Users },
+    { id: 'managers', label: '主管', description: '只有您與主管、管理員能檢視', icon: Shield },
+    { id: 'private', label: '僅自己', description: '只有您能檢視', icon: Lock }
+];
+
+const VISIBILITY_STYLES: Record<AttachmentVisibility, string> = {
+    team: 'bg-slate-100 text-slate-600',
+    managers: 'bg-amber-50 text-amber-700',
+    private: 'bg-purple-50 text-purple-700'
+};
+
+type FilterType = 'all' | AttachmentEntityType;
+
+const FilesTab: React.FC<FilesTabProps> = ({
+    hospital,
+    notes,
+    attachments,
+    isLoading = false,
+    onReload,
+    onAttachmentsChange
+}) => {
+    const { user, isManagerOrAdmin } = useAuth();
+    const { showToast, showError } = useToast();
+    const { getProduct } = useProducts();
+
+    const [contracts, setContracts] = useState<Contract[]>([]);
+    const [filter, setFilter] = useState<FilterType>('all');
+    // 上傳目標以「類型:ID」表示，預設連結到醫院本身
+    const [target, setTarget] = useState(`hospitals:${hospital.id}`);
+    const [visibility, setVisibility] = useState<AttachmentVisibility>('team');
+    const [isDragging, setIsDragging] = useState(false);
+    const [uploadingCount, setUploadingCount] = useState(0);
+    const [previewing, setPreviewing] = useState<Attachment | null>(null);
+    const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        setTarget(`hospitals:${hospital.id}`);
+        const loadContracts = async () => {
+            try {
+                setContracts(await fetchContractsByHospital(hospital.id));
+            } catch (error) {
+                showError(toDataError(error), '載入合約');
+            }
+        };
+        loadContracts();
+    }, [hospital.id, showError]);
+
+    const getNoteLabel = (note: Note) =>
+        `${note.date} ${note.activityType}：${note.content.slice(0, 20)}${note.content.length > 20 ? '…' : ''}`;
+
+    const getContractLabel = (contract: Contract) =>
+        `${getProduct(contract.productCode)?.name || contract.productCode}（${contract.startDate} 起 ${contract.durationYears} 年）`;
+
+    // 連結對象的顯示名稱；較早的活動記錄可能尚未載入，只顯示類型
+    const getLinkedLabel = (attachment: Attachment) => {
+        if (attachment.entityType === 'notes') {
+            const note = notes.find(n => n.id === attachment.entityId);
+            return note ? `活動記錄・${note.date} ${note.activityType}` : '活動記錄';
+        }
+        if (attachment.entityType === 'contracts') {
+            const contract = contracts.find(c => c.id === attachment.entityId);
+            return contract ? `合約・${getContractLabel(contract)}` : '合約';
+        }
+        return ENTITY_NAMES.hospitals;
+    };
+
+    // 上傳者與主管、管理員可以變更權限或刪除，與 RLS 一致
+    const canManage = (attachment: Attachment) => isManagerOrAdmin || attachment.uploadedBy === user?.id;
+
+    const counts = useMemo(() => {
+        const result: Record<FilterType, number> = { all: attachments.length, hospitals: 0, notes: 0, contracts: 0 };
+        attachments.forEach(a => { result[a.entityType] += 1; });
+        return result;
+    }, [attachments]);
+
+    const visibleAttachments = filter === 'all' ? attachments : attachments.filter(a => a.entityType === filter);
+
+    const handleFiles = async (files: FileList | File[]) => {
+        const list = Array.from(files);
+        if (list.length === 0) return;
+
+        const [entityType, entityId] = target.split(':') as [AttachmentEntityType, string];
+        setUploadingCount(list.length);
+
+        let uploaded = 0;
+        for (const file of list) {
+            const result = await uploadAttachment(file, { hospitalId: hospital.id, entityType, entityId }, visibility);
+            setUploadingCount(prev => prev - 1);
+            if (result.ok === false) {
+                showError(result.error, `上傳「${file.name}」`);
+                continue;
+            }
+            uploaded += 1;
+            onAttachmentsChange(prev => [result.data, ...prev]);
+        }
+
+        if (uploaded > 0) showToast(`已上傳 ${uploaded} 個檔案`, 'success');
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (uploadingCount > 0) return;
+        handleFiles(e.dataTransfer.files);
+    };
+
+    const handleVisibilityChange = async (attachment: Attachment, next: AttachmentVisibility) => {
+        setBusyId(attachment.id);
+        const result = await updateAttachmentVisibility(attachment.id, next);
+        setBusyId(null);
+
+        if (result.ok === false) {
+            showError(result.error, '變更檢視權限');
+            return;
+        }
+        onAttachmentsChange(prev => prev.map(a => a.id === attachment.id ? { ...a, visibility: next } : a));
+    };
+
+    const handleDelete = async (attachment: Attachment) => {
+        setBusyId(attachment.id);
+        const result = await deleteAttachment(attachment);
+        setBusyId(null);
+        setDeleteConfirmId(null);
+
+        if (result.ok === false) {
+            showError(result.error, '刪除附件');
+            return;
+        }
+        onAttachmentsChange(prev => prev.filter(a => a.id !== attachment.id));
+        showToast(`已刪除「${attachment.fileName}」`, 'success');
+    };
+
+    const handleDownload = async (attachment: Attachment) => {
+        const result = await downloadAttachment(attachment);
+        if (result.ok === false) showError(result.error, '下載附件');
+    };
+
+    const selectClassName = 'bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            {/* Header */}
+            <div className="flex justify-between items-center bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+                <div>
+                    <h3 className="font-bold text-slate-900 text-lg">檔案</h3>
+                    <p className="text-sm text-slate-500 mt-1">報價單、標案文件、裝機照片與合約掃描檔，可連結到活動記錄或合約。</p>
+                </div>
+                <button
+                    onClick={onReload}
+                    disabled={isLoading}
+                    className="p-2.5 bg-white border border-slate-200 rounded-xl text-slate-500 hover:text-blue-600 hover:border-blue-200 transition-all disabled:opacity-50"
+                    title="重新整理"
+                >
+                    <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            {/* 上傳 */}
+            <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+                <div className="flex flex-col md:flex-row gap-3">
+                    <label className="flex-1">
+                        <span className="block text-xs font-bold text-slate-500 uppercase mb-1.5">連結到</span>
+                        <select value={target} onChange={(e) => setTarget(e.target.value)} className={`${selectClassName} w-full`}>
+                            <option value={`hospitals:${hospital.id}`}>醫院資料（{hospital.name}）</option>
+                            {notes.length > 0 && (
+                                <optgroup label="活動記錄">
+                                    {notes.map(note => (
+                                        <option key={note.id} value={`notes:${note.id}`}>{getNoteLabel(note)}</option>
+                                    ))}
+                                </optgroup>
+                            )}
+                            {contracts.length > 0 && (
+                                <optgroup label="合約">
+                                    {contracts.map(contract => (
+                                        <option key={contract.id} value={`contracts:${contract.id}`}>{getContractLabel(contract)}</option>
+                                    ))}
+                                </optgroup>
+                            )}
+                        </select>
+                    </label>
+                    <label className="md:w-64">
+                        <span className="block text-xs font-bold text-slate-500 uppercase mb-1.5">檢視權限</span>
+                        <select value={visibility} onChange={(e) => setVisibility(e.target.value as AttachmentVisibility)} className={`${selectClassName} w-full`}>
+                            {VISIBILITY_OPTIONS.map(option => (
+                                <option key={option.id} value={option.id}>{option.label} — {option.description}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    onClick={() => uploadingCount === 0 && fileInputRef.current?.click()}
+                    className={`py-8 px-6 border-2 border-dashed rounded-2xl text-center cursor-pointer transition-all ${
+                        isDragging
+                            ? 'border-blue-400 bg-blue-50 text-blue-600'
+                            : 'border-slate-300 text-slate-500 hover:border-blue-400 hover:text-blue-600 hover:bg-blue-50/50'
+                    }`}
+                >
+                    {uploadingCount > 0 ? (
+                        <div className="flex items-center justify-center gap-2 font-medium">
+                            <Loader size={20} className="animate-spin" />
+                            上傳中，剩餘 {uploadingCount} 個檔案...
+                        </div>
+                    ) : (
+                        <>
+                            <Upload size={24} className="mx-auto mb-2" />
+                            <p className="font-medium">拖曳檔案到這裡，或點擊選擇檔案</p>
+                            <p className="text-xs text-slate-400 mt-1">單檔上限 {MAX_ATTACHMENT_SIZE / 1024 / 1024}MB，圖片與 PDF 可直接預覽</p>
+                        </>
+                    )}
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            if (e.target.files) handleFiles(e.target.files);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            </div>
+
+            {/* 篩選 */}
+            <div className="flex gap-2 flex-wrap">
+                {(['all', 'hospitals', 'notes', 'contracts'] as FilterType[]).map(type => (
+                    <button
+                        key={type}
+                        onClick={() => setFilter(type)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                            filter === type
+                                ? 'bg-blue-50 border-blue-200 text-blue-700'
+                                : 'bg-white border-slate-200 text-slate-600 hover:border-blue-200'
+                        }`}
+                    >
+                        {type === 'all' ? '全部' : ENTITY_NAMES[type]} ({counts[type]})
+                    </button>
+                ))}
+            </div>
+
+            {/* 檔案列表 */}
+            {visibleAttachments.length > 0 && (
+                <div className="bg-white rounded-2xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+                    {visibleAttachments.map(attachment => {
+                        const Icon = getAttachmentIcon(attachment);
+                        const visibilityOption = VISIBILITY_OPTIONS.find(o => o.id === attachment.visibility)!;
+                        const VisibilityIcon = visibilityOption.icon;
+                        const isBusy = busyId === attachment.id;
+
+                        return (
+                            <div key={attachment.id} className="flex flex-col md:flex-row md:items-center gap-3 px-5 py-4 group">
+                                <button
+                                    onClick={() => setPreviewing(attachment)}
+                                    className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                                >
+                                    <div className={`w-10 h-10 rounded-lg flex items-center justify-center shrink-0 ${isImageAttachment(attachment) ? 'bg-emerald-50 text-emerald-600' : 'bg-blue-50 text-blue-600'}`}>
+                                        <Icon size={18} />
+                                    </div>
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-slate-900 truncate group-hover:text-blue-600 transition-colors">{attachment.fileName}</p>
+                                        <p className="text-xs text-slate-400 truncate">
+                                            {formatFileSize(attachment.size)} • {attachment.uploaderName} • {new Date(attachment.createdAt).toLocaleDateString('zh-TW')} • {getLinkedLabel(attachment)}
+                                        </p>
+                                    </div>
+                                </button>
+
+                                <div className="flex items-center gap-2 shrink-0">
+                                    {canManage(attachment) ? (
+                                        <select
+                                            value={attachment.visibility}
+                                            onChange={(e) => handleVisibilityChange(attachment, e.target.value as AttachmentVisibility)}
+                                            disabled={isBusy}
+                                            className={`text-xs font-medium rounded-lg px-2 py-1 border-0 outline-none focus:ring-2 focus:ring-blue-500 ${VISIBILITY_STYLES[attachment.visibility]}`}
+                                            title={visibilityOption.description}
+                                        >
+                                            {VISIBILITY_OPTIONS.map(option => (
+                                                <option key={option.id} value={option.id}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className={`flex items-center gap-1 text-xs font-medium rounded-lg px-2 py-1 ${VISIBILITY_STYLES[attachment.visibility]}`} title={visibilityOption.description}>
+                                            <VisibilityIcon size={12} />
+                                            {visibilityOption.label}
+                                        </span>
+                                    )}
+                                    <button onClick={() => setPreviewing(attachment)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors" title="預覽">
+                                        <Eye size={16} />
+                                    </button>
+                                    <button onClick={() => handleDownload(attachment)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors" title="下載">
+                                        <Download size={16} />
+                                    </button>
+                                    {canManage(attachment) && (
+                                        deleteConfirmId === attachment.id ? (
+                                            <div className="flex items-center gap-1">
+                                                <button
+                                                    onClick={() => handleDelete(attachment)}
+                                                    disabled={isBusy}
+                                                    className="px-2.5 py-1.5 text-xs font-semibold text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1"
+                                                >
+                                                    {isBusy && <Loader size={12} className="animate-spin" />}
+                                                    確認刪除
+                                                </button>
+                                                <button
+                                                    onClick={() => setDeleteConfirmId(null)}
+                                                    className="px-2.5 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                                                >
+                                                    取消
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <button onClick={() => setDeleteConfirmId(attachment.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="刪除">
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {attachments.length === 0 && isLoading && (
+                <div className="flex items-center justify-center py-12 text-slate-500">
+                    <Loader size={20} className="animate-spin mr-2" />
+                    <span>正在載入檔案...</span>
+                </div>
+            )}
+
+            {visibleAttachments.length === 0 && !isLoading && (
+                <div className="text-center py-12 bg-slate-50 rounded-2xl border border-dashed border-slate-200">
+                    <FolderOpen size={32} className="mx-auto mb-3 text-slate-300" />
+                    <p className="text-slate-500 font-medium">{filter === 'all' ? '尚無檔案' : `沒有連結到${ENTITY_NAMES[filter]}的檔案`}</p>
+                </div>
+            )}
+
+            {previewing && <AttachmentPreview attachment={previewing} onClose={() => setPreviewing(null)} />}
+        </div>
+    );
+};
+
+export default FilesTab;
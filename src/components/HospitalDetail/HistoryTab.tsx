@@ -0,0 +1,88 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Loader, ChevronDown, RefreshCw } from 'lucide-react';
+import { Hospital, AuditEvent } from '@/types';
+import { fetchAuditEvents } from '../../services/auditService';
+import { toDataError } from '../../services/dataErrors';
+import { useToast } from '../../contexts/ToastContext';
+import AuditEventList from '../AuditEventList';
+
+interface HistoryTabProps {
+    hospital: Hospital;
+}
+
+const HistoryTab: React.FC<HistoryTabProps> = ({ hospital }) => {
+    const { showError } = useToast();
+    const [events, setEvents] = useState<AuditEvent[]>([]);
+    const [cursor, setCursor] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // 載入第一頁，或以游標載入較早的記錄
+    const loadEvents = useCallback(async (pageCursor: string | null) => {
+        setIsLoading(true);
+        try {
+            const page = await fetchAuditEvents({ hospitalId: hospital.id, cursor: pageCursor });
+            setEvents(prev => pageCursor ? [...prev, ...page.items] : page.items);
+            setCursor(page.nextCursor);
+        } catch (error) {
+            showError(toDataError(error), '載入歷史記錄');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [hospital.id, showError]);
+
+    useEffect(() => {
+        loadEvents(null);
+    }, [loadEvents]);
+
+    return (
+        <div className="animate-fade-in">
+            <div className="flex justify-between items-center bg-white p-6 rounded-2xl border border-slate-200 shadow-sm mb-6">
+                <div>
+                    <h3 className="font-bold text-slate-900 text-lg">歷史記錄</h3>
+                    <p className="text-sm text-slate-500 mt-1">此醫院的資料、聯絡人、訂單與合約異動，包含修改前後的內容。</p>
+                </div>
+                <button
+                    onClick={() => loadEvents(null)}
+                    disabled={isLoading}
+                    className="p-2.5 bg-white border border-slate-200 rounded-xl text-slate-500 hover:text-blue-600 hover:border-blue-200 transition-all disabled:opacity-50"
+                    title="重新整理"
+                >
+                    <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            {events.length > 0 && (
+                <div className="bg-white rounded-2xl border border-slate-200 shadow-sm px-6">
+                    <AuditEventList events={events} />
+                </div>
+            )}
+
+            {cursor && (
+                <button
+                    onClick={() => loadEvents(cursor)}
+                    disabled={isLoading}
+                    className="w-full mt-4 py-3 flex items-center justify-center gap-2 bg-white border border-slate-200 rounded-2xl text-sm font-semibold text-slate-600 hover:bg-slate-50 hover:border-blue-200 hover:text-blue-600 transition-all disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                    {isLoading ? <Loader size={16} className="animate-spin" /> : <ChevronDown size={16} />}
+                    {isLoading ? '載入中...' : '載入較早的記錄'}
+                </button>
+            )}
+
+            {events.length === 0 && isLoading && (
+                <div className="flex items-center justify-center py-12 text-slate-500">
+                    <Loader size={20} className="animate-spin mr-2" />
+                    <span>正在載入歷史記錄...</span>
+                </div>
+            )}
+
+            {events.length === 0 && !isLoading && (
+                <div className="text-center py-12 bg-slate-50 rounded-2xl border border-dashed border-slate-200">
+                    <History size={32} className="mx-auto mb-3 text-slate-300" />
+                    <p className="text-slate-500 font-medium">尚無異動記錄</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HistoryTab;
@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    Brain, Sparkles, X, RefreshCw, TrendingUp, TrendingDown, Minus, AlertTriangle, CalendarPlus, Check, Square
+} from 'lucide-react';
+import { Hospital, Contact, Note, UsageRecord, HospitalInsight, InsightAction, InsightTrend, InsightRiskLevel } from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { useToast } from '../../contexts/ToastContext';
+import { generateHospitalInsight } from '../../services/aiService';
+
+interface InsightCardsProps {
+    hospital: Hospital;
+    contacts: Contact[];
+    notes: Note[];
+    usageHistory: UsageRecord[];
+    onAddNote: (note: Note) => void;
+}
+
+const TREND_STYLES: Record<InsightTrend, { icon: React.ReactNode; label: string; className: string }> = {
+    up: { icon: <TrendingUp size={16} />, label: '成長', className: 'text-emerald-600 bg-emerald-50' },
+    flat: { icon: <Minus size={16} />, label: '持平', className: 'text-slate-600 bg-slate-100' },
+    down: { icon: <TrendingDown size={16} />, label: '下滑', className: 'text-red-600 bg-red-50' }
+};
+
+const RISK_STYLES: Record<InsightRiskLevel, { label: string; className: string }> = {
+    high: { label: '高', className: 'bg-red-50 text-red-700 ring-red-200' },
+    medium: { label: '中', className: 'bg-amber-50 text-amber-700 ring-amber-200' },
+    low: { label: '低', className: 'bg-slate-50 text-slate-600 ring-slate-200' }
+};
+
+const getScoreStyle = (score: number) => {
+    if (score >= 70) return { text: 'text-emerald-600', bar: 'bg-emerald-500', label: '良好' };
+    if (score >= 40) return { text: 'text-amber-600', bar: 'bg-amber-500', label: '需關注' };
+    return { text: 'text-red-600', bar: 'bg-red-500', label: '高風險' };
+};
+
+const InsightCards: React.FC<InsightCardsProps> = ({ hospital, contacts, notes, usageHistory, onAddNote }) => {
+    const { activeProducts, getProduct } = useProducts();
+    const { showToast, showError } = useToast();
+    const [isOpen, setIsOpen] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [insight, setInsight] = useState<HospitalInsight | null>(null);
+    // 串流中已收到的部分結果，完成後才取代 insight
+    const [partialInsight, setPartialInsight] = useState<HospitalInsight | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    // 已轉為活動記錄的建議（以索引記錄），避免重複新增
+    const [addedActions, setAddedActions] = useState<Set<number>>(new Set());
+
+    // 切換醫院時停止產生並清除上一間醫院的分析
+    useEffect(() => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        setIsOpen(false);
+        setIsLoading(false);
+        setInsight(null);
+        setPartialInsight(null);
+        setAddedActions(new Set());
+    }, [hospital.id]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const fetchInsight = async () => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsOpen(true);
+        setIsLoading(true);
+        setPartialInsight(null);
+
+        const result = await generateHospitalInsight(hospital, contacts, notes, usageHistory, activeProducts, {
+            onPartial: setPartialInsight,
+            signal: controller.signal
+        });
+        // 已被新的請求或切換醫院取代
+        if (abortRef.current !== controller) return;
+        abortRef.current = null;
+        setIsLoading(false);
+        setPartialInsight(null);
+
+        if (result.ok === false) {
+            // 使用者按下停止時保留上一次的結果，不顯示錯誤
+            if (!controller.signal.aborted) showError(result.error, '產生客戶洞察');
+            if (!insight) setIsOpen(false);
+            return;
+        }
+        setInsight(result.data);
+        setAddedActions(new Set());
+    };
+
+    const stopInsight = () => abortRef.current?.abort();
+
+    // 將建議行動存成一筆活動記錄，下一步與日期直接帶入
+    const addActionAsNote = (action: InsightAction, index: number) => {
+        onAddNote({
+            id: `n-${Date.now()}`,
+            hospitalId: hospital.id,
+            date: new Date().toISOString().split('T')[0],
+            content: `AI 建議：${action.title}${action.detail ? `\n${action.detail}` : ''}`,
+            author: '我',
+            activityType: '筆記',
+            tags: [],
+            nextStep: action.title,
+            nextStepDate: action.dueDate
+        });
+        setAddedActions(prev => new Set(prev).add(index));
+        showToast(`已新增下一步「${action.title}」`, 'success');
+    };
+
+    if (!isOpen) {
+        return (
+            <button
+                onClick={fetchInsight}
+                className="w-full bg-gradient-to-r from-slate-50 to-blue-50 border border-slate-200/80 rounded-2xl px-4 md:px-6 py-4 flex items-center justify-between hover:shadow-lg hover:border-blue-200 hover:-translate-y-0.5 transition-all group"
+            >
+                <div className="flex items-center space-x-3 md:space-x-4">
+                    <div className="p-2 md:p-2.5 bg-white rounded-xl shadow-sm border border-slate-100 group-hover:border-blue-200 group-hover:shadow-md transition-all">
+                        <Brain size={20} className="text-slate-500 group-hover:text-blue-600" />
+                    </div>
+                    <div className="text-left">
+                        <h3 className="font-bold text-slate-900 text-sm md:text-base">AI 客戶洞察</h3>
+                        <p className="text-xs md:text-sm text-slate-500">分析關係健康度、用量趨勢與風險，並建議下一步行動</p>
+                    </div>
+                </div>
+                <span className="bg-white text-blue-600 px-3 md:px-4 py-2 rounded-xl text-xs md:text-sm font-semibold flex items-center space-x-1 md:space-x-2 shadow-sm border border-blue-100 group-hover:bg-blue-600 group-hover:text-white group-hover:border-blue-600 transition-all">
+                    <Sparkles size={14} /> <span>生成報告</span>
+                </span>
+            </button>
+        );
+    }
+
+    const displayedInsight = partialInsight || insight;
+    const scoreStyle = displayedInsight ? getScoreStyle(displayedInsight.healthScore) : null;
+
+    return (
+        <div className="bg-gradient-to-br from-slate-50 to-blue-50/50 border border-slate-200 rounded-2xl p-4 md:p-6">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-3">
+                    <div className="p-2 bg-blue-100 rounded-lg"><Brain size={18} className="text-blue-600" /></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">AI 客戶洞察</h3>
+                        {partialInsight ? (
+                            <p className="text-xs text-blue-500">產生中...</p>
+                        ) : insight && (
+                            <p className="text-xs text-slate-400">
+                                {new Date(insight.generatedAt).toLocaleString('zh-TW', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })} 產生
+                            </p>
+                        )}
+                    </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                    {isLoading ? (
+                        <button onClick={stopInsight} className="flex items-center space-x-1 px-2.5 py-1.5 hover:bg-white rounded-lg text-xs font-semibold text-slate-500 hover:text-red-600 transition-colors" title="停止產生">
+                            <Square size={12} className="fill-current" /><span>停止</span>
+                        </button>
+                    ) : (
+                        <button onClick={fetchInsight} className="p-1.5 hover:bg-white rounded-lg transition-colors" title="重新產生">
+                            <RefreshCw size={16} className="text-slate-400" />
+                        </button>
+                    )}
+                    <button onClick={() => setIsOpen(false)} className="p-1.5 hover:bg-white rounded-lg transition-colors">
+                        <X size={18} className="text-slate-400" />
+                    </button>
+                </div>
+            </div>
+
+            {isLoading && !displayedInsight && (
+                <div className="flex items-center space-x-3 text-slate-500 py-4">
+                    <div className="animate-spin rounded-full h-5 w-5 border-2 border-blue-600 border-t-transparent"></div>
+                    <span>正在分析客戶資料...</span>
+                </div>
+            )}
+
+            {displayedInsight && scoreStyle && (
+                <div className={`grid grid-cols-1 lg:grid-cols-2 gap-4 transition-opacity ${isLoading && !partialInsight ? 'opacity-50' : ''}`}>
+                    {/* 關係健康度 */}
+                    <div className="bg-white rounded-xl border border-slate-200 p-5">
+                        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">關係健康度</p>
+                        <div className="flex items-baseline space-x-2 mb-2">
+                            <span className={`text-3xl font-bold ${scoreStyle.text}`}>{displayedInsight.healthScore}</span>
+                            <span className="text-sm text-slate-400">/ 100</span>
+                            <span className={`text-sm font-semibold ${scoreStyle.text}`}>{scoreStyle.label}</span>
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-3">
+                            <div className={`h-full rounded-full ${scoreStyle.bar}`} style={{ width: `${displayedInsight.healthScore}%` }} />
+                        </div>
+                        <p className="text-sm text-slate-700 leading-relaxed">{displayedInsight.healthSummary}</p>
+                    </div>
+
+                    {/* 產品用量趨勢 */}
+                    <div className="bg-white rounded-xl border border-slate-200 p-5">
+                        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">用量趨勢</p>
+                        {displayedInsight.productTrends.length === 0 ? (
+                            <p className="text-sm text-slate-400">{partialInsight ? '產生中...' : '尚無足夠的使用記錄'}</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {displayedInsight.productTrends.map(trend => {
+                                    const style = TREND_STYLES[trend.trend];
+                                    const product = getProduct(trend.productCode);
+                                    return (
+                                        <div key={trend.productCode} className="flex items-start space-x-3">
+                                            <span className={`p-1.5 rounded-lg flex-shrink-0 ${style.className}`} title={style.label}>{style.icon}</span>
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-semibold text-slate-900">
+                                                    {trend.productCode}
+                                                    {product && <span className="font-normal text-slate-500 ml-1.5">{product.name}</span>}
+                                                </p>
+                                                <p className="text-sm text-slate-600">{trend.summary}</p>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 風險提示 */}
+                    <div className="bg-white rounded-xl border border-slate-200 p-5">
+                        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">風險提示</p>
+                        {displayedInsight.riskFlags.length === 0 ? (
+                            <p className="text-sm text-slate-400">{partialInsight ? '產生中...' : '目前沒有明顯風險'}</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {displayedInsight.riskFlags.map((risk, i) => (
+                                    <div key={i} className="flex items-start space-x-3">
+                                        <span className={`px-2 py-0.5 rounded-md text-xs font-bold ring-1 flex-shrink-0 flex items-center space-x-1 ${RISK_STYLES[risk.level].className}`}>
+                                            <AlertTriangle size={12} /><span>{RISK_STYLES[risk.level].label}</span>
+                                        </span>
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-slate-900">{risk.title}</p>
+                                            <p className="text-sm text-slate-600">{risk.detail}</p>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 建議行動 */}
+                    <div className="bg-white rounded-xl border border-slate-200 p-5">
+                        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">建議行動</p>
+                        {displayedInsight.recommendedActions.length === 0 ? (
+                            <p className="text-sm text-slate-400">{partialInsight ? '產生中...' : '沒有建議的行動'}</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {displayedInsight.recommendedActions.map((action, i) => {
+                                    const isAdded = addedActions.has(i);
+                                    return (
+                                        <div key={i} className="flex items-start justify-between gap-3">
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-semibold text-slate-900">{action.title}</p>
+                                                <p className="text-sm text-slate-600">{action.detail}</p>
+                                                <p className="text-xs text-slate-400 mt-0.5">{action.activityType} · {action.dueDate} 前</p>
+                                            </div>
+                                            <button
+                                                onClick={() => addActionAsNote(action, i)}
+                                                disabled={isAdded || isLoading}
+                                                className={`flex-shrink-0 flex items-center space-x-1 px-2.5 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+                                                    isAdded
+                                                        ? 'bg-emerald-50 text-emerald-600'
+                                                        : 'bg-blue-50 text-blue-600 hover:bg-blue-600 hover:text-white disabled:opacity-50'
+                                                }`}
+                                                title="新增為活動記錄的下一步"
+                                            >
+                                                {isAdded ? <Check size={14} /> : <CalendarPlus size={14} />}
+                                                <span>{isAdded ? '已加入' : '加入下一步'}</span>
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default InsightCards;
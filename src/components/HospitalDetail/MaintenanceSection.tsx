@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader, Wrench, Calendar, ShieldCheck, ChevronDown, ChevronUp, Edit, UserCheck } from 'lucide-react';
+import { Hospital, Contract, MaintenanceVisit } from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { fetchMaintenanceVisits } from '../../services/databaseService';
+import {
+    MAINTENANCE_STATUS_CONFIG,
+    getDaysUntil,
+    getMaintenanceStatus,
+    hasMaintenancePlan,
+    isUnderWarranty
+} from '../../services/maintenanceService';
+import MaintenanceVisitModal from './MaintenanceVisitModal';
+
+interface MaintenanceSectionProps {
+    hospital: Hospital;
+    contracts: Contract[];
+    isLoadingContracts: boolean;
+}
+
+const MaintenanceSection: React.FC<MaintenanceSectionProps> = ({ hospital, contracts, isLoadingContracts }) => {
+    const { getProduct } = useProducts();
+    const [visits, setVisits] = useState<MaintenanceVisit[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [editingVisit, setEditingVisit] = useState<MaintenanceVisit | null>(null);
+    const [showCompleted, setShowCompleted] = useState(false);
+
+    // 排程在儲存合約時產生，合約變更後重新載入
+    useEffect(() => {
+        if (isLoadingContracts) return;
+        let cancelled = false;
+        setIsLoading(true);
+        fetchMaintenanceVisits({ hospitalId: hospital.id })
+            .then(data => { if (!cancelled) setVisits(data); })
+            .catch(error => console.error('Error loading maintenance visits:', error))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [hospital.id, contracts, isLoadingContracts]);
+
+    const contractMap = useMemo(() => new Map(contracts.map(c => [c.id, c])), [contracts]);
+
+    // 只顯示仍存在的合約的保養；待辦列出所有逾期與各合約的下一次保養
+    const { pendingVisits, completedVisits } = useMemo(() => {
+        const active = visits
+            .filter(v => contractMap.has(v.contractId))
+            .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate));
+        const nextShown = new Set<string>();
+        const pending = active.filter(v => {
+            if (v.completedDate) return false;
+            if (getMaintenanceStatus(v) === 'overdue') return true;
+            if (nextShown.has(v.contractId)) return false;
+            nextShown.add(v.contractId);
+            return true;
+        });
+        const completed = active
+            .filter(v => v.completedDate)
+            .sort((a, b) => b.completedDate!.localeCompare(a.completedDate!));
+        return { pendingVisits: pending, completedVisits: completed };
+    }, [visits, contractMap]);
+
+    const hasPlan = contracts.some(hasMaintenancePlan);
+
+    const handleSaved = (visit: MaintenanceVisit) => {
+        setVisits(prev => prev.map(v => v.id === visit.id ? visit : v));
+        setEditingVisit(null);
+    };
+
+    const renderWarranty = (visit: MaintenanceVisit) => {
+        const contract = contractMap.get(visit.contractId);
+        if (!contract) return null;
+        return isUnderWarranty(contract, visit.scheduledDate) ? (
+            <span className="flex items-center gap-1 text-emerald-600"><ShieldCheck size={14} />保固內</span>
+        ) : (
+            <span className="text-slate-400">保固外・需報價</span>
+        );
+    };
+
+    if (!hasPlan && visits.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 lg:p-8">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h2 className="text-lg font-bold text-slate-900">定期保養</h2>
+                    <p className="text-sm text-slate-500 mt-1">依設備合約的保養頻率自動排程，完成後記錄技術人員、檢查結果與院方簽收</p>
+                </div>
+            </div>
+
+            {isLoading || isLoadingContracts ? (
+                <div className="text-center py-12">
+                    <Loader size={32} className="mx-auto mb-3 text-slate-300 animate-spin" />
+                    <p className="text-slate-500">載入保養排程中...</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {pendingVisits.length === 0 && (
+                        <div className="text-center py-8 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+                            <Wrench size={28} className="mx-auto mb-2 text-slate-300" />
+                            <p className="text-slate-500 text-sm">目前沒有待執行的保養</p>
+                        </div>
+                    )}
+                    {pendingVisits.map(visit => {
+                        const status = getMaintenanceStatus(visit);
+                        const config = MAINTENANCE_STATUS_CONFIG[status];
+                        const days = getDaysUntil(visit.scheduledDate);
+                        return (
+                            <div key={visit.id} className={`p-4 rounded-xl border ${status === 'overdue' ? 'bg-red-50 border-red-200' : status === 'due_soon' ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-200'}`}>
+                                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="font-semibold text-slate-900">{getProduct(visit.productCode)?.name || visit.productCode}</span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${config.className}`}>
+                                                {status === 'overdue' ? `逾期 ${Math.abs(days)} 天` : days === 0 ? '今天' : `${config.label}・${days} 天後`}
+                                            </span>
+                                        </div>
+                                        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-slate-500">
+                                            <span className="flex items-center gap-1"><Calendar size={14} />排定 {new Date(visit.scheduledDate).toLocaleDateString('zh-TW')}</span>
+                                            {renderWarranty(visit)}
+                                        </div>
+                                    </div>
+                                    <button onClick={() => setEditingVisit(visit)} className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-semibold hover:bg-blue-700 shrink-0 self-start md:self-auto">
+                                        <Wrench size={14} />填寫保養紀錄
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {completedVisits.length > 0 && (
+                        <div className="pt-2">
+                            <button onClick={() => setShowCompleted(!showCompleted)} className="flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-slate-700">
+                                {showCompleted ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                已完成的保養 ({completedVisits.length})
+                            </button>
+                            {showCompleted && (
+                                <div className="mt-3 space-y-2">
+                                    {completedVisits.map(visit => (
+                                        <div key={visit.id} className="p-3 rounded-xl border border-slate-200 bg-white group">
+                                            <div className="flex items-start justify-between gap-3">
+                                                <div className="min-w-0 text-sm">
+                                                    <div className="flex items-center gap-2 flex-wrap">
+                                                        <span className="font-semibold text-slate-900">{new Date(visit.completedDate!).toLocaleDateString('zh-TW')}</span>
+                                                        <span className="text-slate-500">{getProduct(visit.productCode)?.name || visit.productCode}</span>
+                                                        <span className="text-slate-500">・{visit.technician}</span>
+                                                        {visit.signedOffBy ? (
+                                                            <span className="flex items-center gap-1 text-xs text-emerald-600"><UserCheck size={12} />{visit.signedOffBy} 簽收</span>
+                                                        ) : (
+                                                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">待院方簽收</span>
+                                                        )}
+                                                    </div>
+                                                    {visit.findings && <p className="text-slate-600 mt-1 whitespace-pre-wrap">{visit.findings}</p>}
+                                                    <p className="text-xs text-slate-400 mt-1">排定 {visit.scheduledDate}</p>
+                                                </div>
+                                                <button onClick={() => setEditingVisit(visit)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg md:opacity-0 md:group-hover:opacity-100 transition-opacity" title="修改紀錄">
+                                                    <Edit size={16} />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {editingVisit && (
+                <MaintenanceVisitModal
+                    visit={editingVisit}
+                    productName={getProduct(editingVisit.productCode)?.name || editingVisit.productCode}
+                    onClose={() => setEditingVisit(null)}
+                    onSaved={handleSaved}
+                />
+            )}
+        </div>
+    );
+};
+
+export default MaintenanceSection;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { X, Wrench, Check, Loader } from 'lucide-react';
+import { MaintenanceVisit } from '@/types';
+import { useToast } from '../../contexts/ToastContext';
+import { completeMaintenanceVisit } from '../../services/databaseService';
+import { todayKey } from '../../lib/dateKey';
+
+interface MaintenanceVisitModalProps {
+    visit: MaintenanceVisit;
+    productName: string;
+    onClose: () => void;
+    onSaved: (visit: MaintenanceVisit) => void;
+}
+
+const inputClassName = 'w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm';
+
+// 填寫保養結果；已完成的保養可再次開啟修改
+const MaintenanceVisitModal: React.FC<MaintenanceVisitModalProps> = ({ visit, productName, onClose, onSaved }) => {
+    const { showError } = useToast();
+    const [technician, setTechnician] = useState(visit.technician || '');
+    const [completedDate, setCompletedDate] = useState(visit.completedDate || todayKey());
+    const [findings, setFindings] = useState(visit.findings || '');
+    const [signedOffBy, setSignedOffBy] = useState(visit.signedOffBy || '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const result = await completeMaintenanceVisit(visit, { technician, completedDate, findings, signedOffBy });
+            if (result.ok === false) {
+                showError(result.error, '儲存保養紀錄');
+                return;
+            }
+            onSaved(result.data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => !isSaving && onClose()}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+                    <h3 className="font-bold text-lg text-slate-900 flex items-center">
+                        <div className="bg-teal-100 p-2 rounded-lg mr-3 text-teal-600"><Wrench size={20} /></div>
+                        <span>
+                            保養紀錄
+                            <span className="block text-xs font-normal text-slate-500 mt-0.5">{productName}・排定 {visit.scheduledDate}</span>
+                        </span>
+                    </h3>
+                    <button onClick={onClose} disabled={isSaving} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-100"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">技術人員</label>
+                            <input className={inputClassName} value={technician} onChange={(e) => setTechnician(e.target.value)} disabled={isSaving} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">完成日期</label>
+                            <input type="date" className={inputClassName} value={completedDate} onChange={(e) => setCompletedDate(e.target.value)} disabled={isSaving} />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">檢查結果</label>
+                        <textarea
+                            rows={4}
+                            className={`${inputClassName} resize-none`}
+                            value={findings}
+                            onChange={(e) => setFindings(e.target.value)}
+                            placeholder="檢查項目、更換零件、異常狀況與後續建議"
+                            disabled={isSaving}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">院方簽收人</label>
+                        <input className={inputClassName} value={signedOffBy} onChange={(e) => setSignedOffBy(e.target.value)} placeholder="尚未簽收可留空" disabled={isSaving} />
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-100">
+                    <button onClick={onClose} disabled={isSaving} className="px-5 py-2.5 text-slate-600 font-semibold hover:bg-slate-100 rounded-xl">取消</button>
+                    <button onClick={handleSave} disabled={isSaving || !technician.trim() || !completedDate} className="px-5 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md flex items-center transition-all disabled:opacity-50">
+                        {isSaving ? <Loader size={18} className="mr-2 animate-spin" /> : <Check size={18} className="mr-2" />}
+                        儲存紀錄
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MaintenanceVisitModal;
@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { Play, Loader } from 'lucide-react';
+import { NoteAudioRecording } from '@/types';
+import { getNoteAudioUrl } from '../../services/databaseService';
+import { useToast } from '../../contexts/ToastContext';
+
+interface NoteAudioPlayerProps {
+    recording?: NoteAudioRecording;  // 舊版存放在 note-audio bucket 的錄音
+    audio?: Blob;                    // 尚未上傳、保存在本機的錄音
+    durationSeconds: number;
+    label?: string;
+}
+
+const formatRecordingDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// 點擊後才取得簽署網址，列表載入時不會對每段錄音各發一次請求
+const NoteAudioPlayer: React.FC<NoteAudioPlayerProps> = ({ recording, audio, durationSeconds, label = '原始錄音' }) => {
+    const { showError } = useToast();
+    const [url, setUrl] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    // 本機錄音的 object URL 在元件卸載時釋放
+    useEffect(() => {
+        if (!url || !audio) return;
+        return () => URL.revokeObjectURL(url);
+    }, [url, audio]);
+
+    const handlePlay = async () => {
+        if (audio) {
+            setUrl(URL.createObjectURL(audio));
+            return;
+        }
+        if (!recording) return;
+        setIsLoading(true);
+        const result = await getNoteAudioUrl(recording.path);
+        setIsLoading(false);
+
+        if (result.ok === false) {
+            showError(result.error, '載入錄音');
+            return;
+        }
+        setUrl(result.data);
+    };
+
+    if (url) {
+        return <audio src={url} controls autoPlay className="h-8 max-w-full" />;
+    }
+
+    return (
+        <button
+            onClick={handlePlay}
+            disabled={isLoading}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:border-blue-200 hover:text-blue-600 transition-colors disabled:opacity-60"
+            title="播放原始錄音"
+        >
+            {isLoading ? <Loader size={12} className="animate-spin" /> : <Play size={12} />}
+            {label} {formatRecordingDuration(durationSeconds)}
+        </button>
+    );
+};
+
+export default NoteAudioPlayer;
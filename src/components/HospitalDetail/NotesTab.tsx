@@ -1,21 +1,35 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
     Wand2, Send, Edit, FileText, X,
     Smile, Meh, Frown, Tag, User as UserIcon, ArrowRightCircle,
-    Calendar, Save, Plus, UserPlus, Check, Trash2, AlertTriangle, Pencil
+    Calendar, Save, Plus, UserPlus, Check, Trash2, AlertTriangle, Pencil, Loader, ChevronDown,
+    ListChecks, Sparkles, PackagePlus, Mic, RefreshCw
 } from 'lucide-react';
-import { Note, ActivityType, Hospital, Contact, Sentiment } from '@/types';
-import { refineNoteContent } from '../../services/geminiService';
-import { PRODUCTS } from '../../constants';
+import { Note, ActivityType, Hospital, Contact, Sentiment, UsageRecord, NoteOrderMention, NoteAudioRecording, Attachment } from '@/types';
+import { refineNoteContent, extractNoteFields, transcribeAudio } from '../../services/aiService';
+import { Result } from '../../services/dataErrors';
+import { PendingRecording, savePendingRecording, listPendingRecordings, assignPendingRecordings, removePendingRecording } from '../../lib/offlineStore';
+import VoiceRecorder from './VoiceRecorder';
+import NoteAudioPlayer from './NoteAudioPlayer';
+import AttachmentChips from './AttachmentChips';
+import { useProducts } from '../../contexts/ProductContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useSync } from '../../contexts/SyncContext';
 
 interface NotesTabProps {
     hospital: Hospital;
     notes: Note[];
     contacts: Contact[];
-    onAddNote: (note: Note) => void;
+    onAddNote: (note: Note) => Promise<Result<Note>>;
     onUpdateNote: (note: Note) => void;
     onDeleteNote: (noteId: string) => void;
     onAddContact: (contact: Contact) => void;
+    onAddUsageRecord?: (record: UsageRecord) => void;
+    attachments?: Attachment[];
+    // 分頁載入
+    hasMore?: boolean;
+    isLoading?: boolean;
+    onLoadMore?: () => void;
 }
 
 // 職稱關鍵字對照表
@@ -75,6 +89,17 @@ const splitAttendees = (input: string): string[] => {
         .filter(n => n.length > 0);
 };
 
+const ACTIVITY_TYPE_OPTIONS: ActivityType[] = ['拜訪', '通話', '郵件', '會議', '展示', '教育訓練', '筆記'];
+
+// AI 預先填入的表單欄位，業務修改後即視為已確認
+type SuggestedField = 'activityType' | 'sentiment' | 'tags' | 'nextStep' | 'nextStepDate' | 'contacts';
+
+const AISuggestedBadge: React.FC = () => (
+    <span className="inline-flex items-center gap-0.5 text-[10px] font-semibold text-purple-600 bg-purple-50 border border-purple-100 px-1.5 py-0.5 rounded-md normal-case">
+        <Sparkles size={10} /> AI 建議
+    </span>
+);
+
 // 待新增聯絡人的介面
 interface PendingContact {
     name: string;
@@ -90,8 +115,17 @@ const NotesTab: React.FC<NotesTabProps> = ({
     onAddNote,
     onUpdateNote,
     onDeleteNote,
-    onAddContact
+    onAddContact,
+    onAddUsageRecord,
+    attachments = [],
+    hasMore = false,
+    isLoading = false,
+    onLoadMore
 }) => {
+    const { activeProducts } = useProducts();
+    const { showToast, showError } = useToast();
+    const { isOnline, syncNow } = useSync();
+
     // Form State
     const [editingId, setEditingId] = useState<string | null>(null);
     const [content, setContent] = useState('');
@@ -103,8 +137,17 @@ const NotesTab: React.FC<NotesTabProps> = ({
     const [nextStepDate, setNextStepDate] = useState('');
     const [selectedContactIds, setSelectedContactIds] = useState<string[]>([]);
     const [attendees, setAttendees] = useState('');
+    // 舊版存放在 note-audio bucket 的錄音，編輯時保留
+    const [audioRecordings, setAudioRecordings] = useState<NoteAudioRecording[]>([]);
+    // 本次錄製、保存在本機的錄音；活動記錄儲存後由同步流程上傳為附件，取消時一併刪除
+    const [draftRecordings, setDraftRecordings] = useState<PendingRecording[]>([]);
 
     const [isRefining, setIsRefining] = useState(false);
+    const [transcribeStatus, setTranscribeStatus] = useState<'transcribing' | 'refining' | null>(null);
+    const [isExtracting, setIsExtracting] = useState(false);
+    const [suggestedFields, setSuggestedFields] = useState<Set<SuggestedField>>(new Set());
+    const [orderMentions, setOrderMentions] = useState<NoteOrderMention[]>([]);
+    const [addedMentions, setAddedMentions] = useState<Set<number>>(new Set());
     const [isFormOpen, setIsFormOpen] = useState(false);
     const [isExpanded, setIsExpanded] = useState(false);
 
@@ -117,7 +160,7 @@ const NotesTab: React.FC<NotesTabProps> = ({
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     const [noteToDelete, setNoteToDelete] = useState<Note | null>(null);
 
-    const PREDEFINED_TAGS = ['價格異議', '競品比較', '需要報價', '售後服務', '新產品介紹', ...PRODUCTS.map(p => p.code)];
+    const PREDEFINED_TAGS = ['價格異議', '競品比較', '需要報價', '售後服務', '新產品介紹', ...activeProducts.map(p => p.code)];
 
     const resetForm = () => {
         setEditingId(null);
@@ -130,8 +173,13 @@ const NotesTab: React.FC<NotesTabProps> = ({
         setNextStepDate('');
         setSelectedContactIds([]);
         setAttendees('');
+        setAudioRecordings([]);
+        setDraftRecordings([]);
         setIsFormOpen(false);
         setIsExpanded(false);
+        setSuggestedFields(new Set());
+        setOrderMentions([]);
+        setAddedMentions(new Set());
     };
 
     const handleEditClick = (note: Note) => {
@@ -145,6 +193,7 @@ const NotesTab: React.FC<NotesTabProps> = ({
         setNextStepDate(note.nextStepDate || '');
         setSelectedContactIds(note.relatedContactIds || []);
         setAttendees(note.attendees || '');
+        setAudioRecordings(note.audioRecordings || []);
         setIsFormOpen(true);
         setIsExpanded(true);
         window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -176,13 +225,177 @@ const NotesTab: React.FC<NotesTabProps> = ({
         }
     };
 
+    // 轉錄文字接在內文後再經 AI 潤飾；離線或轉錄失敗時錄音仍保存在本機，之後可再轉錄
+    const transcribeRecording = async (recording: PendingRecording, isStored = true): Promise<boolean> => {
+        setTranscribeStatus('transcribing');
+        const transcription = await transcribeAudio(recording.audio, recording.durationSeconds);
+
+        if (transcription.ok === false) {
+            setTranscribeStatus(null);
+            if (transcription.error.kind === 'network') {
+                showToast('錄音已保存在本機，恢復連線後會自動轉錄', 'info');
+            } else {
+                showError(transcription.error, '語音轉錄');
+            }
+            return false;
+        }
+
+        setTranscribeStatus('refining');
+        const refined = await refineNoteContent(transcription.data);
+        setContent(prev => prev.trim() ? `${prev.trimEnd()}\n\n${refined}` : refined);
+        setIsExpanded(true);
+        setTranscribeStatus(null);
+
+        if (isStored) {
+            const transcribed = { ...recording, transcript: refined };
+            setDraftRecordings(prev => prev.map(r => r.id === recording.id ? transcribed : r));
+            savePendingRecording(transcribed).catch(error => console.error('Error saving transcript:', error));
+        }
+        return true;
+    };
+
+    const transcribePending = async (recordings: PendingRecording[]) => {
+        for (const recording of recordings.filter(r => r.transcript === undefined)) {
+            if (!await transcribeRecording(recording)) break;
+        }
+    };
+
+    // 先把錄音存到本機再轉錄，上傳留到活動記錄儲存後由同步流程處理
+    const handleRecorded = async (audio: Blob, durationSeconds: number) => {
+        const recording: PendingRecording = {
+            id: crypto.randomUUID(),
+            hospitalId: hospital.id,
+            audio,
+            mimeType: audio.type.split(';')[0] || 'audio/webm',
+            durationSeconds,
+            recordedAt: new Date().toISOString()
+        };
+        let isStored = true;
+        try {
+            await savePendingRecording(recording);
+            setDraftRecordings(prev => [...prev, recording]);
+        } catch (error) {
+            console.error('Error saving recording locally:', error);
+            showToast('無法在本機保存錄音，這段錄音只會轉錄為文字', 'error');
+            isStored = false;
+        }
+        await transcribeRecording(recording, isStored);
+    };
+
+    // 還原上次未儲存的錄音與轉錄文字（例如頁面重新整理或離線時關閉分頁）
+    useEffect(() => {
+        let cancelled = false;
+        listPendingRecordings().then(recordings => {
+            const drafts = recordings.filter(r => r.hospitalId === hospital.id && !r.noteId);
+            if (cancelled || drafts.length === 0) return;
+            setDraftRecordings(drafts);
+            setContent(drafts.map(r => r.transcript).filter(Boolean).join('\n\n'));
+            setIsFormOpen(true);
+            setIsExpanded(true);
+            if (navigator.onLine) transcribePending(drafts);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [hospital.id]);
+
+    // 恢復連線時補轉錄離線期間錄製的錄音
+    useEffect(() => {
+        if (isOnline && !transcribeStatus) transcribePending(draftRecordings);
+    }, [isOnline]);
+
+    const handleRemoveRecording = (id: string) => {
+        setDraftRecordings(prev => prev.filter(r => r.id !== id));
+        removePendingRecording(id).catch(error => console.error('Error removing recording:', error));
+    };
+
+    const handleCancelForm = () => {
+        if (draftRecordings.length > 0 && !window.confirm('表單中的錄音尚未隨活動記錄儲存，取消後將會刪除。確定要取消嗎？')) return;
+        draftRecordings.forEach(r => handleRemoveRecording(r.id));
+        resetForm();
+    };
+
+    const confirmSuggestion = (field: SuggestedField) => {
+        setSuggestedFields(prev => {
+            if (!prev.has(field)) return prev;
+            const next = new Set(prev);
+            next.delete(field);
+            return next;
+        });
+    };
+
+    // 依內文預先填入欄位；標籤與聯絡人併入已選的項目，其他欄位以建議值取代
+    const handleExtractFields = async () => {
+        if (!content.trim()) return;
+        setIsExtracting(true);
+        const result = await extractNoteFields(content, activityDate, contacts, PREDEFINED_TAGS, activeProducts);
+        setIsExtracting(false);
+
+        if (result.ok === false) {
+            showError(result.error, 'AI 擷取欄位');
+            return;
+        }
+
+        const extraction = result.data;
+        const filled = new Set<SuggestedField>();
+        if (extraction.activityType) {
+            setActivityType(extraction.activityType);
+            filled.add('activityType');
+        }
+        if (extraction.sentiment) {
+            setSentiment(extraction.sentiment);
+            filled.add('sentiment');
+        }
+        if (extraction.tags.length > 0) {
+            setSelectedTags(prev => Array.from(new Set([...prev, ...extraction.tags])));
+            filled.add('tags');
+        }
+        if (extraction.nextStep) {
+            setNextStep(extraction.nextStep);
+            filled.add('nextStep');
+        }
+        if (extraction.nextStepDate) {
+            setNextStepDate(extraction.nextStepDate);
+            filled.add('nextStepDate');
+        }
+        if (extraction.relatedContactIds.length > 0) {
+            setSelectedContactIds(prev => Array.from(new Set([...prev, ...extraction.relatedContactIds])));
+            filled.add('contacts');
+        }
+
+        setSuggestedFields(filled);
+        setOrderMentions(extraction.orderMentions);
+        setAddedMentions(new Set());
+        setIsExpanded(true);
+
+        if (filled.size === 0 && extraction.orderMentions.length === 0) {
+            showToast('內容中沒有可擷取的欄位', 'info');
+        }
+    };
+
+    const handleAddMentionAsRecord = (mention: NoteOrderMention, index: number) => {
+        if (!onAddUsageRecord) return;
+        onAddUsageRecord({
+            id: `u-${Date.now()}`,
+            hospitalId: hospital.id,
+            productCode: mention.productCode,
+            quantity: mention.quantity,
+            date: activityDate,
+            type: mention.type
+        });
+        setAddedMentions(prev => new Set(prev).add(index));
+        showToast(`已新增${mention.type}記錄：${mention.productCode} × ${mention.quantity}`, 'success');
+    };
+
     const toggleTag = (tag: string) => {
+        confirmSuggestion('tags');
         setSelectedTags(prev =>
             prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
         );
     };
 
     const toggleContact = (id: string) => {
+        confirmSuggestion('contacts');
         setSelectedContactIds(prev =>
             prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]
         );
@@ -227,7 +440,8 @@ const NotesTab: React.FC<NotesTabProps> = ({
             nextStep: nextStep || undefined,
             nextStepDate: nextStepDate || undefined,
             relatedContactIds: selectedContactIds,
-            attendees: attendees || undefined
+            attendees: attendees || undefined,
+            audioRecordings
         };
 
         // 檢查是否有新參與者
@@ -244,11 +458,26 @@ const NotesTab: React.FC<NotesTabProps> = ({
         }
     };
 
-    const saveNote = (noteData: any) => {
+    // 新增失敗時保留表單與錄音；成功後錄音交由同步流程上傳為這筆記錄的附件
+    const saveNote = async (noteData: any) => {
+        let noteId = editingId;
         if (editingId) {
             onUpdateNote({ ...noteData, id: editingId });
         } else {
-            onAddNote({ ...noteData, id: `n-${Date.now()}` });
+            const result = await onAddNote({ ...noteData, id: `n-${Date.now()}` });
+            if (result.ok === false) return;
+            noteId = result.data.id;
+        }
+
+        if (draftRecordings.length > 0) {
+            try {
+                await assignPendingRecordings(draftRecordings.map(r => r.id), noteId);
+                syncNow();
+            } catch (error) {
+                console.error('Error assigning recordings to note:', error);
+                showToast('錄音未能對應到活動記錄，仍保存在本機', 'error');
+                return;
+            }
         }
         resetForm();
     };
@@ -525,11 +754,15 @@ const NotesTab: React.FC<NotesTabProps> = ({
 
                         <div className="flex items-center gap-3">
                             {/* Sentiment Selector */}
-                            <div className="flex bg-slate-50 p-1 rounded-lg border border-slate-200">
+                            {suggestedFields.has('sentiment') && <AISuggestedBadge />}
+                            <div className={`flex bg-slate-50 p-1 rounded-lg border ${suggestedFields.has('sentiment') ? 'border-purple-300 ring-2 ring-purple-100' : 'border-slate-200'}`}>
                                 {(['positive', 'neutral', 'negative'] as Sentiment[]).map(s => (
                                     <button
                                         key={s}
-                                        onClick={() => setSentiment(s)}
+                                        onClick={() => {
+                                            setSentiment(s);
+                                            confirmSuggestion('sentiment');
+                                        }}
                                         className={`p-1.5 rounded-md transition-all ${sentiment === s ? 'bg-white shadow-sm ring-1 ring-slate-200' : 'hover:bg-slate-200/50'}`}
                                         title={s === 'positive' ? '正向' : s === 'negative' ? '負向' : '中立'}
                                     >
@@ -540,7 +773,7 @@ const NotesTab: React.FC<NotesTabProps> = ({
 
                             {/* 關閉按鈕 */}
                             <button
-                                onClick={resetForm}
+                                onClick={handleCancelForm}
                                 className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
                                 title="關閉"
                             >
@@ -555,17 +788,18 @@ const NotesTab: React.FC<NotesTabProps> = ({
                             <div className="flex flex-col md:flex-row gap-4">
                                 {/* 活動類型 */}
                                 <select
-                                    className="bg-slate-50 border border-slate-200 rounded-lg px-4 py-2.5 text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-blue-500 w-full md:w-auto min-w-[120px] appearance-none bg-no-repeat bg-[length:16px_16px] bg-[center_right_12px]"
+                                    className={`bg-slate-50 border rounded-lg px-4 py-2.5 text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-blue-500 w-full md:w-auto min-w-[120px] appearance-none bg-no-repeat bg-[length:16px_16px] bg-[center_right_12px] ${suggestedFields.has('activityType') ? 'border-purple-300 ring-2 ring-purple-100' : 'border-slate-200'}`}
                                     style={{ backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%2394a3b8'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'%3E%3C/path%3E%3C/svg%3E")` }}
                                     value={activityType}
-                                    onChange={(e) => setActivityType(e.target.value as ActivityType)}
+                                    onChange={(e) => {
+                                        setActivityType(e.target.value as ActivityType);
+                                        confirmSuggestion('activityType');
+                                    }}
+                                    title={suggestedFields.has('activityType') ? 'AI 建議，請確認' : undefined}
                                 >
-                                    <option value="拜訪">拜訪</option>
-                                    <option value="電話">電話</option>
-                                    <option value="Email">Email</option>
-                                    <option value="會議">會議</option>
-                                    <option value="展示">展示</option>
-                                    <option value="教育訓練">教育訓練</option>
+                                    {ACTIVITY_TYPE_OPTIONS.map(type => (
+                                        <option key={type} value={type}>{type}</option>
+                                    ))}
                                 </select>
 
                                 {/* 活動日期 */}
@@ -585,6 +819,7 @@ const NotesTab: React.FC<NotesTabProps> = ({
                                     <span className="text-xs text-slate-400 font-medium shrink-0 flex items-center">
                                         <UserIcon size={12} className="mr-1" /> 對象:
                                     </span>
+                                    {suggestedFields.has('contacts') && <AISuggestedBadge />}
                                     {contacts.length > 0 ? contacts.map(c => (
                                         <button
                                             key={c.id}
@@ -625,16 +860,116 @@ const NotesTab: React.FC<NotesTabProps> = ({
                                 onFocus={() => setIsExpanded(true)}
                                 autoFocus
                             />
-                            <button
-                                onClick={handleRefineNote}
-                                disabled={isRefining || !content}
-                                className="absolute bottom-4 right-4 p-2 bg-white text-purple-600 rounded-lg shadow-sm border border-purple-100 hover:bg-purple-50 transition-all disabled:opacity-50"
-                                title="AI 潤飾內容"
-                            >
-                                <Wand2 size={16} className={isRefining ? "animate-spin" : ""} />
-                            </button>
+                            <div className="absolute bottom-4 right-4 flex items-center gap-2">
+                                {transcribeStatus && (
+                                    <span className="flex items-center gap-1.5 px-2.5 py-1.5 bg-white text-xs font-medium text-purple-600 rounded-lg border border-purple-100 shadow-sm">
+                                        <Loader size={12} className="animate-spin" />
+                                        {transcribeStatus === 'transcribing' ? '轉錄中...' : '潤飾中...'}
+                                    </span>
+                                )}
+                                <VoiceRecorder
+                                    onRecorded={handleRecorded}
+                                    disabled={!!transcribeStatus || isRefining || isExtracting}
+                                />
+                                <button
+                                    onClick={handleExtractFields}
+                                    disabled={isExtracting || isRefining || !!transcribeStatus || !content.trim()}
+                                    className="p-2 bg-white text-purple-600 rounded-lg shadow-sm border border-purple-100 hover:bg-purple-50 transition-all disabled:opacity-50"
+                                    title="AI 擷取欄位"
+                                >
+                                    {isExtracting ? <Loader size={16} className="animate-spin" /> : <ListChecks size={16} />}
+                                </button>
+                                <button
+                                    onClick={handleRefineNote}
+                                    disabled={isRefining || isExtracting || !!transcribeStatus || !content}
+                                    className="p-2 bg-white text-purple-600 rounded-lg shadow-sm border border-purple-100 hover:bg-purple-50 transition-all disabled:opacity-50"
+                                    title="AI 潤飾內容"
+                                >
+                                    <Wand2 size={16} className={isRefining ? "animate-spin" : ""} />
+                                </button>
+                            </div>
                         </div>
 
+                        {/* 口述錄音 */}
+                        {(audioRecordings.length > 0 || draftRecordings.length > 0) && (
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <span className="text-xs text-slate-400 font-medium shrink-0 flex items-center">
+                                    <Mic size={12} className="mr-1" /> 錄音:
+                                </span>
+                                {audioRecordings.map(recording => (
+                                    <NoteAudioPlayer key={recording.path} recording={recording} durationSeconds={recording.durationSeconds} />
+                                ))}
+                                {draftRecordings.map(recording => (
+                                    <div key={recording.id} className="flex items-center gap-1">
+                                        <NoteAudioPlayer audio={recording.audio} durationSeconds={recording.durationSeconds} label="未上傳錄音" />
+                                        {recording.transcript === undefined && (
+                                            <button
+                                                onClick={() => transcribeRecording(recording)}
+                                                disabled={!!transcribeStatus || !isOnline}
+                                                className="p-1 text-slate-400 hover:text-purple-600 hover:bg-purple-50 rounded-md transition-colors disabled:opacity-50"
+                                                title={isOnline ? '重新轉錄' : '恢復連線後會自動轉錄'}
+                                            >
+                                                <RefreshCw size={12} />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => handleRemoveRecording(recording.id)}
+                                            className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                                            title="刪除錄音"
+                                        >
+                                            <X size={12} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* AI 擷取結果 */}
+                        {(suggestedFields.size > 0 || orderMentions.length > 0) && (
+                            <div className="p-4 bg-purple-50/60 border border-purple-100 rounded-xl space-y-3 animate-fade-in">
+                                <p className="text-sm text-purple-800 flex items-center gap-2">
+                                    <Sparkles size={14} className="shrink-0" />
+                                    {suggestedFields.size > 0
+                                        ? `AI 已預先填入 ${suggestedFields.size} 個欄位（標示「AI 建議」），請確認後再發布。`
+                                        : 'AI 沒有找到可填入的欄位。'}
+                                </p>
+                                {orderMentions.length > 0 && (
+                                    <div className="space-y-2">
+                                        <p className="text-xs font-bold text-slate-500 uppercase">內文提到的數量</p>
+                                        {orderMentions.map((mention, index) => {
+                                            const isAdded = addedMentions.has(index);
+                                            return (
+                                                <div key={index} className="flex items-center justify-between gap-3 bg-white rounded-lg border border-purple-100 px-3 py-2">
+                                                    <div className="min-w-0">
+                                                        <p className="text-sm font-semibold text-slate-900">
+                                                            {mention.productCode} × {mention.quantity}
+                                                            <span className="ml-2 text-xs font-medium text-slate-500">{mention.type}</span>
+                                                        </p>
+                                                        <p className="text-xs text-slate-500 truncate">「{mention.excerpt}」</p>
+                                                    </div>
+                                                    {onAddUsageRecord && (
+                                                        <button
+                                                            onClick={() => handleAddMentionAsRecord(mention, index)}
+                                                            disabled={isAdded}
+                                                            className={`shrink-0 flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+                                                                isAdded
+                                                                    ? 'bg-emerald-50 text-emerald-600'
+                                                                    : 'bg-blue-50 text-blue-600 hover:bg-blue-600 hover:text-white'
+                                                            }`}
+                                                            title={`以活動日期 ${activityDate} 新增${mention.type}記錄`}
+                                                        >
+                                                            {isAdded ? <Check size={14} /> : <PackagePlus size={14} />}
+                                                            <span>{isAdded ? '已新增' : `新增${mention.type}記錄`}</span>
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         {/* Expanded Options */}
                         {(isExpanded || editingId) && (
                             <div className="space-y-4 pt-2 animate-fade-in border-t border-slate-100 mt-4">
@@ -643,6 +978,7 @@ const NotesTab: React.FC<NotesTabProps> = ({
                                     <div className="flex items-center gap-2 mb-2">
                                         <Tag size={14} className="text-slate-400" />
                                         <span className="text-xs font-bold text-slate-500 uppercase">標籤</span>
+                                        {suggestedFields.has('tags') && <AISuggestedBadge />}
                                     </div>
                                     <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto custom-scrollbar">
                                         {PREDEFINED_TAGS.map(tag => (
@@ -663,22 +999,32 @@ const NotesTab: React.FC<NotesTabProps> = ({
                                 {/* Next Step */}
                                 <div className="flex flex-col md:flex-row gap-4 p-4 bg-blue-50/50 rounded-xl border border-blue-100">
                                     <div className="flex-1">
-                                        <label className="text-xs font-bold text-slate-500 uppercase block mb-1.5">下一步行動</label>
+                                        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-1.5">
+                                            下一步行動 {suggestedFields.has('nextStep') && <AISuggestedBadge />}
+                                        </label>
                                         <input
                                             type="text"
                                             placeholder="例如：寄送報價單"
-                                            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                                            className={`w-full border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white ${suggestedFields.has('nextStep') ? 'border-purple-300' : 'border-slate-300'}`}
                                             value={nextStep}
-                                            onChange={(e) => setNextStep(e.target.value)}
+                                            onChange={(e) => {
+                                                setNextStep(e.target.value);
+                                                confirmSuggestion('nextStep');
+                                            }}
                                         />
                                     </div>
                                     <div className="w-full md:w-48">
-                                        <label className="text-xs font-bold text-slate-500 uppercase block mb-1.5">截止日期</label>
+                                        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-1.5">
+                                            截止日期 {suggestedFields.has('nextStepDate') && <AISuggestedBadge />}
+                                        </label>
                                         <input
                                             type="date"
-                                            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                                            className={`w-full border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white ${suggestedFields.has('nextStepDate') ? 'border-purple-300' : 'border-slate-300'}`}
                                             value={nextStepDate}
-                                            onChange={(e) => setNextStepDate(e.target.value)}
+                                            onChange={(e) => {
+                                                setNextStepDate(e.target.value);
+                                                confirmSuggestion('nextStepDate');
+                                            }}
                                         />
                                     </div>
                                 </div>
@@ -688,7 +1034,7 @@ const NotesTab: React.FC<NotesTabProps> = ({
                         {/* Action Buttons */}
                         <div className="flex justify-end pt-2 gap-3">
                             <button
-                                onClick={resetForm}
+                                onClick={handleCancelForm}
                                 className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-medium transition-colors"
                             >
                                 取消
@@ -793,6 +1139,22 @@ const NotesTab: React.FC<NotesTabProps> = ({
                                 </div>
                             )}
 
+                            {/* 口述錄音 */}
+                            {note.audioRecordings && note.audioRecordings.length > 0 && (
+                                <div className="flex items-center gap-2 flex-wrap mb-3">
+                                    <Mic size={12} className="text-slate-400" />
+                                    {note.audioRecordings.map(recording => (
+                                        <NoteAudioPlayer key={recording.path} recording={recording} durationSeconds={recording.durationSeconds} />
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* 附件 */}
+                            <AttachmentChips
+                                attachments={attachments.filter(a => a.entityType === 'notes' && a.entityId === note.id)}
+                                className="mb-3"
+                            />
+
                             {/* 下一步行動 */}
                             {(note.nextStep || note.nextStepDate) && (
                                 <div className="flex items-center gap-3 bg-amber-50/50 p-2.5 rounded-lg border border-amber-100/50 w-fit mt-2">
@@ -812,7 +1174,26 @@ const NotesTab: React.FC<NotesTabProps> = ({
                     </div>
                 ))}
 
-                {notes.length === 0 && (
+                {/* 載入更多 */}
+                {hasMore && (
+                    <button
+                        onClick={onLoadMore}
+                        disabled={isLoading}
+                        className="w-full py-3 flex items-center justify-center gap-2 bg-white border border-slate-200 rounded-2xl text-sm font-semibold text-slate-600 hover:bg-slate-50 hover:border-blue-200 hover:text-blue-600 transition-all disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                        {isLoading ? <Loader size={16} className="animate-spin" /> : <ChevronDown size={16} />}
+                        {isLoading ? '載入中...' : '載入較早的記錄'}
+                    </button>
+                )}
+
+                {notes.length === 0 && isLoading && (
+                    <div className="flex items-center justify-center py-12 text-slate-500">
+                        <Loader size={20} className="animate-spin mr-2" />
+                        <span>正在載入活動記錄...</span>
+                    </div>
+                )}
+
+                {notes.length === 0 && !isLoading && (
                     <div className="text-center py-12 bg-slate-50 rounded-2xl border border-dashed border-slate-200">
                         <FileText size={32} className="mx-auto mb-3 text-slate-300" />
                         <p className="text-slate-500 font-medium">尚無活動記錄</p>
@@ -1,16 +1,17 @@
 import React, { useState } from 'react';
 import {
-    ShoppingCart, X, Check, Edit, Trash2, AlertTriangle
+    ShoppingCart, X, Check, Edit, Trash2, AlertTriangle, Loader
 } from 'lucide-react';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
 } from 'recharts';
 import { UsageRecord, ProductType, UsageType, Hospital } from '@/types';
-import { PRODUCTS } from '../../constants';
+import { useProducts } from '../../contexts/ProductContext';
 
 interface OrdersTabProps {
     hospital: Hospital;
     usageHistory: UsageRecord[];
+    isLoading?: boolean;
     onAddUsageRecord: (record: UsageRecord) => void;
     onUpdateUsageRecord: (record: UsageRecord) => void;
     onDeleteUsageRecord: (recordId: string) => void;
@@ -34,15 +35,19 @@ const handleNumericInput = (value: string): string => {
 const OrdersTab: React.FC<OrdersTabProps> = ({
     hospital,
     usageHistory,
+    isLoading = false,
     onAddUsageRecord,
     onUpdateUsageRecord,
     onDeleteUsageRecord
 }) => {
+    const { activeProducts, getProduct } = useProducts();
+    const consumableProducts = activeProducts.filter(p => p.type === ProductType.CONSUMABLE);
+
     // Order Logging State
     const [isLoggingOrder, setIsLoggingOrder] = useState(false);
     const [editingOrder, setEditingOrder] = useState<UsageRecord | null>(null);
     const [orderForm, setOrderForm] = useState({
-        productCode: 'AA031',
+        productCode: '',
         date: new Date().toISOString().split('T')[0],
         quantity: '10',
         type: '訂單' as UsageType
@@ -56,10 +61,13 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
         const quantity = parseInt(orderForm.quantity) || 0;
         if (quantity <= 0) return;
         
+        const productCode = orderForm.productCode || consumableProducts[0]?.code;
+        if (!productCode) return;
+
         const newOrder: UsageRecord = {
             id: `u-${Date.now()}`,
             hospitalId: hospital.id,
-            productCode: orderForm.productCode,
+            productCode,
             quantity: quantity,
             date: orderForm.date,
             type: orderForm.type
@@ -67,7 +75,7 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
         onAddUsageRecord(newOrder);
         setIsLoggingOrder(false);
         setOrderForm({
-            productCode: 'AA031',
+            productCode: '',
             date: new Date().toISOString().split('T')[0],
             quantity: '10',
             type: '訂單'
@@ -76,7 +84,13 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
 
     const handleUpdateOrderSubmit = () => {
         if (editingOrder) {
-            onUpdateUsageRecord(editingOrder);
+            // 產品、日期或類型變更時清除單價，儲存時依新的訂單日期重新查價
+            const original = usageHistory.find(u => u.id === editingOrder.id);
+            const needsReprice = !original
+                || original.productCode !== editingOrder.productCode
+                || original.date !== editingOrder.date
+                || original.type !== editingOrder.type;
+            onUpdateUsageRecord(needsReprice ? { ...editingOrder, unitPrice: undefined } : editingOrder);
             setEditingOrder(null);
         }
     };
@@ -180,10 +194,10 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                             <div className="relative">
                                 <select
                                     className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white text-sm shadow-sm appearance-none cursor-pointer"
-                                    value={orderForm.productCode}
+                                    value={orderForm.productCode || consumableProducts[0]?.code || ''}
                                     onChange={(e) => setOrderForm({ ...orderForm, productCode: e.target.value })}
                                 >
-                                    {PRODUCTS.filter(p => p.type === ProductType.CONSUMABLE).map(p => (
+                                    {consumableProducts.map(p => (
                                         <option key={p.code} value={p.code}>{p.code} - {p.name}</option>
                                     ))}
                                 </select>
@@ -240,7 +254,7 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
 
             {/* Charts */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                {PRODUCTS.filter(p => p.type === ProductType.CONSUMABLE).map(product => {
+                {consumableProducts.map(product => {
                     const productUsage = usageHistory.filter(u => u.productCode === product.code);
                     const totalPurchased = productUsage
                         .filter(u => u.type === '訂單')
@@ -329,13 +343,14 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                 <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">日期</th>
                                 <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">產品</th>
                                 <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">數量</th>
+                                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">單價</th>
                                 <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">類型</th>
                                 <th className="px-6 py-4 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">操作</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-100">
                             {usageHistory.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map((record) => {
-                                const product = PRODUCTS.find(p => p.code === record.productCode);
+                                const product = getProduct(record.productCode);
                                 const isSample = record.type === '樣品';
                                 return (
                                     <tr key={record.id} className="hover:bg-slate-50/80 transition-colors group">
@@ -345,6 +360,9 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                             <span className="text-slate-500">{product?.name}</span>
                                         </td>
                                         <td className="px-6 py-4 text-sm font-bold text-slate-900">{record.quantity}</td>
+                                        <td className="px-6 py-4 text-sm text-slate-600" title={record.unitPrice != null ? '訂單日期當時的議定價' : undefined}>
+                                            {record.unitPrice != null ? `NT$ ${record.unitPrice.toLocaleString()}` : '-'}
+                                        </td>
                                         <td className="px-6 py-4 text-sm">
                                             <span className={`px-2.5 py-1 rounded-full text-xs font-semibold border ${isSample ? 'bg-purple-50 text-purple-700 border-purple-100' : 'bg-blue-50 text-blue-700 border-blue-100'}`}>
                                                 {record.type || '訂單'}
@@ -371,9 +389,17 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                     </tr>
                                 );
                             })}
-                            {usageHistory.length === 0 && (
+                            {usageHistory.length === 0 && isLoading && (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-12 text-center text-slate-400 text-sm">
+                                        <Loader size={18} className="animate-spin inline mr-2" />
+                                        正在載入訂單記錄...
+                                    </td>
+                                </tr>
+                            )}
+                            {usageHistory.length === 0 && !isLoading && (
                                 <tr>
-                                    <td colSpan={5} className="px-6 py-12 text-center text-slate-400 text-sm">
+                                    <td colSpan={6} className="px-6 py-12 text-center text-slate-400 text-sm">
                                         尚無訂單記錄。點擊「記錄訂單」以新增。
                                     </td>
                                 </tr>
@@ -405,7 +431,7 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                         value={editingOrder.productCode}
                                         onChange={(e) => setEditingOrder({ ...editingOrder, productCode: e.target.value })}
                                     >
-                                        {PRODUCTS.filter(p => p.type === ProductType.CONSUMABLE).map(p => (
+                                        {consumableProducts.map(p => (
                                             <option key={p.code} value={p.code}>{p.code} - {p.name}</option>
                                         ))}
                                     </select>
@@ -1,20 +1,39 @@
 import React, { useState, useEffect } from 'react';
 import {
     Activity, Plus, X, Package, Check, Edit, Trash2, Loader,
-    DollarSign, ShoppingBag, Calendar, FileText, AlertTriangle, Clock
+    DollarSign, ShoppingBag, Calendar, FileText, AlertTriangle, Clock, History
 } from 'lucide-react';
-import { Hospital, Contact, UsageRecord, ProductType, SalesStage, InstalledEquipment, ConsumablePrice, Contract, ContractType, MaintenanceFrequency } from '@/types';
-import { PRODUCTS } from '../../constants';
-import { fetchContractsByHospital, createContract, updateContract, deleteContract } from '../../services/databaseService';
+import { Hospital, Contact, Note, UsageRecord, ProductType, SalesStage, InstalledEquipment, ConsumablePrice, ConsumablePriceChange, Contract, ContractType, MaintenanceFrequency, Attachment, EquipmentAsset, OwnershipType } from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { useToast } from '../../contexts/ToastContext';
+import {
+    fetchContractsByHospital, createContract, updateContract, deleteContract,
+    fetchPriceHistory, recordPriceChanges, PriceChangeInput, fetchEquipmentAssets
+} from '../../services/databaseService';
+import { subscribeToTableChanges } from '../../services/realtimeService';
+import { buildRenewalItem, loadContractAlertThresholds, CONTRACT_RENEWAL_STAGES } from '../../services/contractService';
+import { OWNERSHIP_TYPES, summarizeAssets } from '../../services/assetService';
+import InsightCards from './InsightCards';
+import AttachmentChips from './AttachmentChips';
+import QuotesSection from './QuotesSection';
+import MaintenanceSection from './MaintenanceSection';
+import EquipmentAssetsSection from './EquipmentAssetsSection';
+import ServiceTicketsSection from './ServiceTicketsSection';
+import EditEquipmentModal from './EditEquipmentModal';
 
 interface OverviewTabProps {
     hospital: Hospital;
+    hospitals: Hospital[];
     contacts: Contact[];
+    notes: Note[];
     usageHistory: UsageRecord[];
+    onAddNote: (note: Note) => void;
     onAddEquipment: (equipment: InstalledEquipment) => Promise<void> | void;
     onUpdateEquipment: (equipment: InstalledEquipment) => Promise<void> | void;
     onDeleteEquipment: (equipmentId: string) => Promise<void> | void;
     onUpdateHospital?: (hospital: Hospital) => Promise<void> | void;
+    onUsageRecordsCreated?: (records: UsageRecord[]) => void;
+    attachments?: Attachment[];
 }
 
 // 自訂下拉箭頭元件
@@ -28,34 +47,52 @@ const SelectArrow = () => (
 
 const OverviewTab: React.FC<OverviewTabProps> = ({
     hospital,
+    hospitals,
     contacts,
+    notes,
     usageHistory,
+    onAddNote,
     onAddEquipment,
     onUpdateEquipment,
     onDeleteEquipment,
-    onUpdateHospital
+    onUpdateHospital,
+    onUsageRecordsCreated,
+    attachments = []
 }) => {
+    const { products, activeProducts, getProduct } = useProducts();
+    const { showError } = useToast();
+
     // Equipment State
     const [isAddingEquipment, setIsAddingEquipment] = useState(false);
     const [isSavingEquipment, setIsSavingEquipment] = useState(false);
     const [editingEquipment, setEditingEquipment] = useState<InstalledEquipment | null>(null);
     const [equipmentForm, setEquipmentForm] = useState({
-        productCode: 'MR810',
+        productCode: '',
         quantity: 1,
         installDate: new Date().toISOString().split('T')[0],
-        ownership: '租賃' as '租賃' | '買斷'
+        ownership: '租賃' as OwnershipType
     });
     const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
 
+    // 設備序號：逐台資料，已安裝設備的數量作為彙總對照
+    const [assets, setAssets] = useState<EquipmentAsset[]>([]);
+    const [isLoadingAssets, setIsLoadingAssets] = useState(true);
+
     // 收費與耗材 State
     const [isEditingChargeInfo, setIsEditingChargeInfo] = useState(false);
     const [isSavingChargeInfo, setIsSavingChargeInfo] = useState(false);
     const [chargeForm, setChargeForm] = useState({
         chargePerUse: hospital.chargePerUse?.toString() || '',
-        consumables: hospital.consumables || [] as ConsumablePrice[]
+        consumables: hospital.consumables || [] as ConsumablePrice[],
+        effectiveDate: new Date().toISOString().split('T')[0],
+        reason: ''
     });
 
+    // 議定價異動記錄
+    const [priceHistory, setPriceHistory] = useState<ConsumablePriceChange[]>([]);
+    const [showPriceHistory, setShowPriceHistory] = useState(false);
+
     // 合約 State
     const [contracts, setContracts] = useState<Contract[]>([]);
     const [isLoadingContracts, setIsLoadingContracts] = useState(true);
@@ -89,17 +126,56 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         loadContracts();
     }, [hospital.id]);
 
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoadingAssets(true);
+        fetchEquipmentAssets(hospital.id)
+            .then(data => { if (!cancelled) setAssets(data); })
+            .catch(error => console.error('Error loading equipment assets:', error))
+            .finally(() => { if (!cancelled) setIsLoadingAssets(false); });
+        return () => { cancelled = true; };
+    }, [hospital.id]);
+
+    // 借出或歸還替代機會移動設備並改變狀態
+    const reloadAssets = () => {
+        fetchEquipmentAssets(hospital.id)
+            .then(setAssets)
+            .catch(error => console.error('Error reloading equipment assets:', error));
+    };
+
+    useEffect(() => {
+        fetchPriceHistory({ hospitalId: hospital.id })
+            .then(setPriceHistory)
+            .catch(error => console.error('Error loading price history:', error));
+    }, [hospital.id]);
+
+    // 其他使用者變更合約時重新載入（刪除事件可能只帶 id，無法判斷所屬醫院，一律重新載入）
+    useEffect(() => {
+        return subscribeToTableChanges(['contracts'], async (change) => {
+            if (change.isLocalEcho) return;
+            const hospitalId = change.newRow?.hospital_id || change.oldRow?.hospital_id;
+            if (hospitalId && hospitalId !== hospital.id) return;
+
+            try {
+                const data = await fetchContractsByHospital(hospital.id);
+                setContracts(data);
+            } catch (error) {
+                console.error('Error reloading contracts:', error);
+            }
+        });
+    }, [hospital.id]);
+
     // 數字輸入的 helper function
     const handleNumericInput = (value: string): string => {
         return value.replace(/[^\d]/g, '').replace(/^0+/, '') || '';
     };
 
     // 設備產品列表（主機類）
-    const equipmentProducts = PRODUCTS.filter(p => p.type === ProductType.EQUIPMENT);
+    const equipmentProducts = activeProducts.filter(p => p.type === ProductType.EQUIPMENT);
     // 耗材產品列表
-    const consumableProducts = PRODUCTS.filter(p => p.type === ProductType.CONSUMABLE);
-    // 所有產品
-    const allProducts = PRODUCTS;
+    const consumableProducts = activeProducts.filter(p => p.type === ProductType.CONSUMABLE);
+    // 所有產品（含停售，用於顯示既有資料）
+    const allProducts = products;
 
     // 格式化日期
     const formatLastVisit = (lastVisit: string): string => {
@@ -121,31 +197,17 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         }).format(amount);
     };
 
-    // 計算合約到期日
-    const getContractEndDate = (startDate: string, durationYears: number): Date => {
-        const start = new Date(startDate);
-        return new Date(start.setFullYear(start.getFullYear() + durationYears));
-    };
+    // 判斷合約狀態，提醒門檻與合約管理頁的設定相同
+    const contractThresholds = loadContractAlertThresholds();
+    const getContractStatus = (contract: Contract): { status: 'active' | 'warning' | 'expired'; label: string; daysRemaining: number; endDate: string } => {
+        const { endDate, daysRemaining, alertLevel } = buildRenewalItem(contract, contractThresholds);
 
-    // 計算剩餘天數
-    const getDaysRemaining = (endDate: Date): number => {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const diff = endDate.getTime() - today.getTime();
-        return Math.ceil(diff / (1000 * 60 * 60 * 24));
-    };
-
-    // 判斷合約狀態
-    const getContractStatus = (contract: Contract): { status: 'active' | 'warning' | 'expired'; label: string; daysRemaining: number } => {
-        const endDate = getContractEndDate(contract.startDate, contract.durationYears);
-        const daysRemaining = getDaysRemaining(endDate);
-        
-        if (daysRemaining < 0) {
-            return { status: 'expired', label: '已到期', daysRemaining };
-        } else if (daysRemaining <= 180) { // 6 個月內到期
-            return { status: 'warning', label: `${daysRemaining} 天後到期`, daysRemaining };
+        if (alertLevel === 'expired') {
+            return { status: 'expired', label: '已到期', daysRemaining, endDate };
+        } else if (alertLevel !== 'active') {
+            return { status: 'warning', label: `${daysRemaining} 天後到期`, daysRemaining, endDate };
         } else {
-            return { status: 'active', label: '有效', daysRemaining };
+            return { status: 'active', label: '有效', daysRemaining, endDate };
         }
     };
 
@@ -160,6 +222,17 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         return map[freq] || freq;
     };
 
+    // 已登錄序號的台數；與填寫數量不符時標示，提醒補登或更正
+    const renderRegisteredCount = (eq: InstalledEquipment) => {
+        const summary = summarizeAssets(assets, eq.productCode);
+        if (summary.registered === 0 && summary.byStatus.returned === 0) return null;
+        return (
+            <span className={`block text-xs font-normal mt-0.5 ${summary.registered === eq.quantity ? 'text-slate-400' : 'text-amber-600'}`}>
+                已登錄 {summary.registered} 台{summary.byStatus.in_repair > 0 ? `・${summary.byStatus.in_repair} 台送修` : ''}
+            </span>
+        );
+    };
+
     // Equipment handlers
     const handleSaveEquipment = async () => {
         setIsSavingEquipment(true);
@@ -167,7 +240,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
             const newEquipment: InstalledEquipment = {
                 id: `eq-${Date.now()}`,
                 hospitalId: hospital.id,
-                productCode: equipmentForm.productCode,
+                productCode: equipmentForm.productCode || equipmentProducts[0]?.code || '',
                 quantity: Number(equipmentForm.quantity),
                 installDate: equipmentForm.installDate,
                 ownership: equipmentForm.ownership
@@ -175,7 +248,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
             await onAddEquipment(newEquipment);
             setIsAddingEquipment(false);
             setEquipmentForm({
-                productCode: 'MR810',
+                productCode: '',
                 quantity: 1,
                 installDate: new Date().toISOString().split('T')[0],
                 ownership: '租賃'
@@ -187,19 +260,6 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         }
     };
 
-    const handleUpdateEquipmentSubmit = async () => {
-        if (!editingEquipment) return;
-        setIsSavingEquipment(true);
-        try {
-            await onUpdateEquipment(editingEquipment);
-            setEditingEquipment(null);
-        } catch (error) {
-            console.error('Error updating equipment:', error);
-        } finally {
-            setIsSavingEquipment(false);
-        }
-    };
-
     const handleDeleteEquipment = async (id: string) => {
         setIsDeleting(true);
         try {
@@ -216,15 +276,36 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
     const handleEditChargeInfo = () => {
         setChargeForm({
             chargePerUse: hospital.chargePerUse?.toString() || '',
-            consumables: hospital.consumables || []
+            consumables: hospital.consumables || [],
+            effectiveDate: new Date().toISOString().split('T')[0],
+            reason: ''
         });
         setIsEditingChargeInfo(true);
     };
 
+    // 新增或調整過售價的耗材；取消使用的耗材不產生異動記錄
+    const pendingPriceChanges: PriceChangeInput[] = chargeForm.consumables
+        .filter(item => item.price > 0)
+        .map(item => ({
+            productCode: item.code,
+            price: item.price,
+            previousPrice: hospital.consumables?.find(c => c.code === item.code)?.price || undefined
+        }))
+        .filter(change => change.price !== change.previousPrice);
+
     const handleSaveChargeInfo = async () => {
         if (!onUpdateHospital) return;
         setIsSavingChargeInfo(true);
         try {
+            // 先寫入異動記錄，失敗時不更新售價，避免價格變了卻沒有歷史
+            if (pendingPriceChanges.length > 0) {
+                const result = await recordPriceChanges(hospital.id, pendingPriceChanges, chargeForm.effectiveDate, chargeForm.reason);
+                if (result.ok === false) {
+                    showError(result.error, '記錄價格異動');
+                    return;
+                }
+                setPriceHistory(prev => [...prev, ...result.data]);
+            }
             await onUpdateHospital({
                 ...hospital,
                 chargePerUse: chargeForm.chargePerUse ? parseInt(chargeForm.chargePerUse) : undefined,
@@ -290,7 +371,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         if (!contractForm.productCode) return;
         setIsSavingContract(true);
         try {
-            const newContract = await createContract({
+            const result = await createContract({
                 hospitalId: hospital.id,
                 productCode: contractForm.productCode,
                 contractType: contractForm.contractType,
@@ -299,12 +380,13 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                 warrantyYears: contractForm.contractType === 'equipment' ? contractForm.warrantyYears : undefined,
                 maintenanceFrequency: contractForm.contractType === 'equipment' ? contractForm.maintenanceFrequency : undefined
             });
-            if (newContract) {
-                setContracts(prev => [newContract, ...prev]);
+            if (result.ok === false) {
+                showError(result.error, '新增合約');
+                return;
             }
+            const newContract = result.data;
+            setContracts(prev => [newContract, ...prev.filter(c => c.id !== newContract.id)]);
             setIsAddingContract(false);
-        } catch (error) {
-            console.error('Error saving contract:', error);
         } finally {
             setIsSavingContract(false);
         }
@@ -326,7 +408,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         if (!editingContract) return;
         setIsSavingContract(true);
         try {
-            const success = await updateContract({
+            const result = await updateContract({
                 ...editingContract,
                 productCode: contractForm.productCode,
                 contractType: contractForm.contractType,
@@ -335,8 +417,11 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                 warrantyYears: contractForm.contractType === 'equipment' ? contractForm.warrantyYears : undefined,
                 maintenanceFrequency: contractForm.contractType === 'equipment' ? contractForm.maintenanceFrequency : undefined
             });
-            if (success) {
-                setContracts(prev => prev.map(c => c.id === editingContract.id ? {
+            if (result.ok === false) {
+                showError(result.error, '更新合約');
+                return;
+            }
+            setContracts(prev => prev.map(c => c.id === editingContract.id ? {
                     ...c,
                     productCode: contractForm.productCode,
                     contractType: contractForm.contractType,
@@ -345,10 +430,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                     warrantyYears: contractForm.contractType === 'equipment' ? contractForm.warrantyYears : undefined,
                     maintenanceFrequency: contractForm.contractType === 'equipment' ? contractForm.maintenanceFrequency : undefined
                 } : c));
-            }
             setEditingContract(null);
-        } catch (error) {
-            console.error('Error updating contract:', error);
         } finally {
             setIsSavingContract(false);
         }
@@ -357,13 +439,13 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
     const handleDeleteContract = async (id: string) => {
         setIsDeletingContract(true);
         try {
-            const success = await deleteContract(id);
-            if (success) {
-                setContracts(prev => prev.filter(c => c.id !== id));
+            const result = await deleteContract(id);
+            if (result.ok === false) {
+                showError(result.error, '刪除合約');
+                return;
             }
+            setContracts(prev => prev.filter(c => c.id !== id));
             setDeleteContractId(null);
-        } catch (error) {
-            console.error('Error deleting contract:', error);
         } finally {
             setIsDeletingContract(false);
         }
@@ -371,6 +453,9 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
 
     return (
         <div className="space-y-6 animate-fade-in">
+            {/* AI 客戶洞察 */}
+            <InsightCards hospital={hospital} contacts={contacts} notes={notes} usageHistory={usageHistory} onAddNote={onAddNote} />
+
             {/* Equipment Status */}
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 lg:p-8">
                 <div className="flex justify-between items-center mb-6">
@@ -397,7 +482,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">設備型號</label>
                                 <div className="relative">
-                                    <select className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm appearance-none cursor-pointer" value={equipmentForm.productCode} onChange={(e) => setEquipmentForm({ ...equipmentForm, productCode: e.target.value })} disabled={isSavingEquipment}>
+                                    <select className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm appearance-none cursor-pointer" value={equipmentForm.productCode || equipmentProducts[0]?.code || ''} onChange={(e) => setEquipmentForm({ ...equipmentForm, productCode: e.target.value })} disabled={isSavingEquipment}>
                                         {equipmentProducts.map(p => <option key={p.code} value={p.code}>{p.code} - {p.name}</option>)}
                                     </select>
                                     <SelectArrow />
@@ -414,9 +499,8 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">所有權</label>
                                 <div className="relative">
-                                    <select className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm appearance-none cursor-pointer" value={equipmentForm.ownership} onChange={(e) => setEquipmentForm({ ...equipmentForm, ownership: e.target.value as '租賃' | '買斷' })} disabled={isSavingEquipment}>
-                                        <option value="租賃">租賃</option>
-                                        <option value="買斷">買斷</option>
+                                    <select className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm appearance-none cursor-pointer" value={equipmentForm.ownership} onChange={(e) => setEquipmentForm({ ...equipmentForm, ownership: e.target.value as OwnershipType })} disabled={isSavingEquipment}>
+                                        {OWNERSHIP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
                                     </select>
                                     <SelectArrow />
                                 </div>
@@ -445,7 +529,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                                 </thead>
                                 <tbody className="divide-y divide-slate-100 bg-white">
                                     {hospital.installedEquipment.map(eq => {
-                                        const product = PRODUCTS.find(p => p.code === eq.productCode);
+                                        const product = getProduct(eq.productCode);
                                         return (
                                             <tr key={eq.id} className="hover:bg-slate-50/50 transition-colors group">
                                                 <td className="px-6 py-4 text-sm font-medium text-slate-900">
@@ -454,10 +538,13 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                                                         {product?.name || eq.productCode}
                                                     </div>
                                                 </td>
-                                                <td className="px-6 py-4 text-sm text-slate-600 font-medium">{eq.quantity}</td>
+                                                <td className="px-6 py-4 text-sm text-slate-600 font-medium">
+                                                    {eq.quantity}
+                                                    {renderRegisteredCount(eq)}
+                                                </td>
                                                 <td className="px-6 py-4 text-sm text-slate-600">{new Date(eq.installDate).toLocaleDateString()}</td>
                                                 <td className="px-6 py-4 text-sm">
-                                                    <span className={`px-2.5 py-1 rounded-md text-xs font-semibold ${eq.ownership === '買斷' ? 'bg-emerald-50 text-emerald-700 border border-emerald-100' : 'bg-blue-50 text-blue-700 border border-blue-100'}`}>{eq.ownership}</span>
+                                                    <span className={`px-2.5 py-1 rounded-md text-xs font-semibold ${eq.ownership === '買斷' ? 'bg-emerald-50 text-emerald-700 border border-emerald-100' : eq.ownership === '借用' ? 'bg-violet-50 text-violet-700 border border-violet-100' : 'bg-blue-50 text-blue-700 border border-blue-100'}`}>{eq.ownership}</span>
                                                 </td>
                                                 <td className="px-6 py-4 text-right">
                                                     <div className="flex items-center justify-end space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -473,7 +560,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                         </div>
                         <div className="md:hidden space-y-3">
                             {hospital.installedEquipment.map(eq => {
-                                const product = PRODUCTS.find(p => p.code === eq.productCode);
+                                const product = getProduct(eq.productCode);
                                 return (
                                     <div key={eq.id} className="bg-slate-50 rounded-xl p-4 border border-slate-100">
                                         <div className="flex justify-between items-start mb-3">
@@ -484,11 +571,11 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                                                     <p className="text-xs text-slate-500">{eq.productCode}</p>
                                                 </div>
                                             </div>
-                                            <span className={`px-2.5 py-1 rounded-md text-xs font-semibold ${eq.ownership === '買斷' ? 'bg-emerald-50 text-emerald-700' : 'bg-blue-50 text-blue-700'}`}>{eq.ownership}</span>
+                                            <span className={`px-2.5 py-1 rounded-md text-xs font-semibold ${eq.ownership === '買斷' ? 'bg-emerald-50 text-emerald-700' : eq.ownership === '借用' ? 'bg-violet-50 text-violet-700' : 'bg-blue-50 text-blue-700'}`}>{eq.ownership}</span>
                                         </div>
                                         <div className="flex items-center justify-between text-sm border-t border-slate-200 pt-3">
                                             <div className="flex gap-4">
-                                                <span className="text-slate-500">數量: <span className="text-slate-900 font-medium">{eq.quantity}</span></span>
+                                                <span className="text-slate-500">數量: <span className="text-slate-900 font-medium">{eq.quantity}</span>{renderRegisteredCount(eq)}</span>
                                                 <span className="text-slate-500 flex items-center"><Calendar size={12} className="mr-1" />{new Date(eq.installDate).toLocaleDateString('zh-TW')}</span>
                                             </div>
                                             <div className="flex gap-1">
@@ -555,9 +642,26 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                                 })}
                             </div>
                         </div>
+                        {pendingPriceChanges.length > 0 && (
+                            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3">
+                                <p className="text-sm text-amber-800 font-medium">
+                                    價格異動：{pendingPriceChanges.map(change => `${change.productCode} ${change.previousPrice ? `${formatCurrency(change.previousPrice)} → ` : ''}${formatCurrency(change.price)}`).join('、')}
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">生效日期</label>
+                                        <input type="date" className="w-full p-2.5 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm" value={chargeForm.effectiveDate} max={new Date().toISOString().split('T')[0]} onChange={(e) => setChargeForm({ ...chargeForm, effectiveDate: e.target.value })} disabled={isSavingChargeInfo} />
+                                    </div>
+                                    <div className="md:col-span-2">
+                                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">調價原因</label>
+                                        <input type="text" className="w-full p-2.5 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm" value={chargeForm.reason} onChange={(e) => setChargeForm({ ...chargeForm, reason: e.target.value })} placeholder="例如: 年度議價、採購量達標折扣" disabled={isSavingChargeInfo} />
+                                    </div>
+                                </div>
+                            </div>
+                        )}
                         <div className="flex justify-end gap-3 pt-2">
                             <button onClick={() => setIsEditingChargeInfo(false)} disabled={isSavingChargeInfo} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-medium disabled:opacity-50">取消</button>
-                            <button onClick={handleSaveChargeInfo} disabled={isSavingChargeInfo} className="px-6 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md flex items-center disabled:opacity-50">
+                            <button onClick={handleSaveChargeInfo} disabled={isSavingChargeInfo || (pendingPriceChanges.length > 0 && !chargeForm.reason.trim())} className="px-6 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md flex items-center disabled:opacity-50">
                                 {isSavingChargeInfo ? <><Loader size={18} className="mr-2 animate-spin" />儲存中...</> : <><Check size={18} className="mr-2" />儲存</>}
                             </button>
                         </div>
@@ -581,7 +685,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                                     {hospital.consumables && hospital.consumables.length > 0 ? (
                                         <div className="space-y-1.5">
                                             {hospital.consumables.map(item => {
-                                                const product = consumableProducts.find(p => p.code === item.code);
+                                                const product = getProduct(item.code);
                                                 return (
                                                     <div key={item.code} className="flex items-center justify-between bg-white px-3 py-2 rounded-lg border border-slate-200">
                                                         <div className="flex items-center gap-2">
@@ -601,6 +705,32 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                         </div>
                     </div>
                 )}
+
+                {!isEditingChargeInfo && priceHistory.length > 0 && (
+                    <div className="mt-4">
+                        <button onClick={() => setShowPriceHistory(prev => !prev)} className="flex items-center gap-1.5 text-sm font-medium text-slate-500 hover:text-blue-600">
+                            <History size={14} />
+                            {showPriceHistory ? '隱藏價格異動記錄' : `價格異動記錄（${priceHistory.length}）`}
+                        </button>
+                        {showPriceHistory && (
+                            <div className="mt-3 space-y-2 animate-fade-in">
+                                {[...priceHistory].reverse().map(change => (
+                                    <div key={change.id} className="flex flex-col md:flex-row md:items-center justify-between gap-1 bg-slate-50 px-3 py-2 rounded-lg border border-slate-100 text-sm">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="font-medium text-slate-700">{change.productCode}</span>
+                                            <span className="text-slate-500">
+                                                {change.previousPrice ? `${formatCurrency(change.previousPrice)} → ` : ''}
+                                                <span className="font-semibold text-slate-900">{formatCurrency(change.price)}</span>
+                                            </span>
+                                            {change.reason && <span className="text-slate-500">・{change.reason}</span>}
+                                        </div>
+                                        <span className="text-xs text-slate-400 shrink-0">{change.effectiveDate} 生效・{change.changedByName}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* 合約管理區塊 */}
@@ -698,7 +828,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                         {contracts.map(contract => {
                             const product = allProducts.find(p => p.code === contract.productCode);
                             const status = getContractStatus(contract);
-                            const endDate = getContractEndDate(contract.startDate, contract.durationYears);
+                            const renewalStage = contract.renewalStage || 'not_started';
                             const isEquipment = contract.contractType === 'equipment';
 
                             return (
@@ -718,11 +848,16 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                                                         {status.status === 'warning' && <AlertTriangle size={12} />}
                                                         {status.label}
                                                     </span>
+                                                    {(status.status !== 'active' || renewalStage !== 'not_started') && (
+                                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CONTRACT_RENEWAL_STAGES[renewalStage].className}`}>
+                                                            續約：{CONTRACT_RENEWAL_STAGES[renewalStage].label}
+                                                        </span>
+                                                    )}
                                                 </div>
                                                 <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-slate-500">
                                                     <span className="flex items-center gap-1">
                                                         <Calendar size={14} />
-                                                        {new Date(contract.startDate).toLocaleDateString('zh-TW')} ~ {endDate.toLocaleDateString('zh-TW')}
+                                                        {new Date(contract.startDate).toLocaleDateString('zh-TW')} ~ {new Date(status.endDate).toLocaleDateString('zh-TW')}
                                                     </span>
                                                     <span>合約 {contract.durationYears} 年</span>
                                                     {isEquipment && contract.warrantyYears && (
@@ -735,6 +870,10 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                                                         </span>
                                                     )}
                                                 </div>
+                                                <AttachmentChips
+                                                    attachments={attachments.filter(a => a.entityType === 'contracts' && a.entityId === contract.id)}
+                                                    className="mt-2"
+                                                />
                                             </div>
                                         </div>
                                         <div className="flex items-center gap-2 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
@@ -755,6 +894,18 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
                 )}
             </div>
 
+            {/* 設備序號 */}
+            <EquipmentAssetsSection hospital={hospital} hospitals={hospitals} assets={assets} isLoading={isLoadingAssets} onAssetsChange={setAssets} />
+
+            {/* 設備維修 */}
+            <ServiceTicketsSection hospital={hospital} contacts={contacts} assets={assets} onAssetsReload={reloadAssets} />
+
+            {/* 定期保養 */}
+            <MaintenanceSection hospital={hospital} contracts={contracts} isLoadingContracts={isLoadingContracts} />
+
+            {/* 報價單區塊 */}
+            <QuotesSection hospital={hospital} onOrdersCreated={onUsageRecordsCreated} />
+
             {/* 快速摘要 */}
             <div className="bg-gradient-to-br from-blue-50 to-indigo-50 border border-blue-100 rounded-2xl p-6 lg:p-8">
                 <h3 className="font-bold text-blue-900 mb-4 flex items-center"><Activity size={18} className="mr-2" /> 快速摘要</h3>
@@ -779,54 +930,13 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
             </div>
 
             {/* Edit Equipment Modal */}
-            {editingEquipment && (
-                <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
-                    <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in border border-slate-100">
-                        <div className="px-6 py-5 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
-                            <h3 className="font-bold text-lg text-slate-900 flex items-center">
-                                <div className="bg-blue-100 p-1.5 rounded-lg mr-2 text-blue-600"><Package size={18} /></div>
-                                編輯設備
-                            </h3>
-                            <button onClick={() => setEditingEquipment(null)} className="text-slate-400 hover:text-slate-600" disabled={isSavingEquipment}><X size={20} /></button>
-                        </div>
-                        <div className="p-6 space-y-5">
-                            <div>
-                                <label className="block text-sm font-semibold text-slate-700 mb-1.5">設備型號</label>
-                                <div className="relative">
-                                    <select className="w-full border border-slate-300 rounded-xl px-4 py-2.5 focus:ring-2 focus:ring-blue-500 outline-none bg-white appearance-none cursor-pointer" value={editingEquipment.productCode} onChange={(e) => setEditingEquipment({ ...editingEquipment, productCode: e.target.value })} disabled={isSavingEquipment}>
-                                        {equipmentProducts.map(p => <option key={p.code} value={p.code}>{p.code} - {p.name}</option>)}
-                                    </select>
-                                    <SelectArrow />
-                                </div>
-                            </div>
-                            <div>
-                                <label className="block text-sm font-semibold text-slate-700 mb-1.5">數量</label>
-                                <input type="number" min="1" className="w-full border border-slate-300 rounded-xl px-4 py-2.5 focus:ring-2 focus:ring-blue-500 outline-none" value={editingEquipment.quantity} onChange={(e) => setEditingEquipment({ ...editingEquipment, quantity: Number(e.target.value) })} disabled={isSavingEquipment} />
-                            </div>
-                            <div>
-                                <label className="block text-sm font-semibold text-slate-700 mb-1.5">安裝日期</label>
-                                <input type="date" className="w-full border border-slate-300 rounded-xl px-4 py-2.5 focus:ring-2 focus:ring-blue-500 outline-none" value={editingEquipment.installDate} onChange={(e) => setEditingEquipment({ ...editingEquipment, installDate: e.target.value })} disabled={isSavingEquipment} />
-                            </div>
-                            <div>
-                                <label className="block text-sm font-semibold text-slate-700 mb-1.5">所有權</label>
-                                <div className="relative">
-                                    <select className="w-full border border-slate-300 rounded-xl px-4 py-2.5 focus:ring-2 focus:ring-blue-500 outline-none bg-white appearance-none cursor-pointer" value={editingEquipment.ownership} onChange={(e) => setEditingEquipment({ ...editingEquipment, ownership: e.target.value as '租賃' | '買斷' })} disabled={isSavingEquipment}>
-                                        <option value="租賃">租賃</option>
-                                        <option value="買斷">買斷</option>
-                                    </select>
-                                    <SelectArrow />
-                                </div>
-                            </div>
-                            <div className="pt-4 flex space-x-3">
-                                <button onClick={handleUpdateEquipmentSubmit} disabled={isSavingEquipment} className="flex-1 bg-blue-600 text-white py-2.5 rounded-xl font-semibold hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center">
-                                    {isSavingEquipment ? <><Loader size={18} className="mr-2 animate-spin" />儲存中...</> : '儲存變更'}
-                                </button>
-                                <button onClick={() => setEditingEquipment(null)} disabled={isSavingEquipment} className="flex-1 bg-slate-100 text-slate-700 py-2.5 rounded-xl font-semibold hover:bg-slate-200 disabled:opacity-50">取消</button>
-                            </div>
-                        </div>
-                    </div>
-                </div>
-            )}
+            <EditEquipmentModal
+                equipment={editingEquipment}
+                isOpen={!!editingEquipment}
+                assets={assets}
+                onClose={() => setEditingEquipment(null)}
+                onSave={onUpdateEquipment}
+            />
 
             {/* Edit Contract Modal */}
             {editingContract && (
@@ -0,0 +1,280 @@
+import React, { useState, useMemo } from 'react';
+import { X, Plus, Trash2, Loader, Check, FileDown, Receipt } from 'lucide-react';
+import { Hospital, Quote, QuoteItem, QuotePriceSource } from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { useToast } from '../../contexts/ToastContext';
+import { createQuote } from '../../services/databaseService';
+import { toDateKey } from '../../lib/dateKey';
+
+interface QuoteBuilderModalProps {
+    hospital: Hospital;
+    onClose: () => void;
+    onCreated: (quote: Quote, exportPdf: boolean) => void;
+}
+
+const DEFAULT_TAX_RATE = 0.05;
+const DEFAULT_VALID_DAYS = 30;
+
+const PRICE_SOURCE_LABELS: Record<QuotePriceSource, string> = {
+    negotiated: '議定價',
+    list: '定價',
+    manual: '手動'
+};
+
+// 金額四捨五入到元，與發票一致
+const roundAmount = (amount: number) => Math.round(amount);
+
+const calculateQuoteTotals = (items: Pick<QuoteItem, 'quantity' | 'unitPrice'>[], taxRate: number) => {
+    const subtotal = roundAmount(items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+    const tax = roundAmount(subtotal * taxRate);
+    return { subtotal, tax, total: subtotal + tax };
+};
+
+const QuoteBuilderModal: React.FC<QuoteBuilderModalProps> = ({ hospital, onClose, onCreated }) => {
+    const { activeProducts, getProduct } = useProducts();
+    const { showError } = useToast();
+
+    const [items, setItems] = useState<QuoteItem[]>([]);
+    const [taxRatePercent, setTaxRatePercent] = useState(String(DEFAULT_TAX_RATE * 100));
+    const [validUntil, setValidUntil] = useState(() => {
+        const date = new Date();
+        date.setDate(date.getDate() + DEFAULT_VALID_DAYS);
+        return toDateKey(date);
+    });
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const negotiatedPrices = useMemo(
+        () => new Map((hospital.consumables || []).map(c => [c.code, c.price])),
+        [hospital.consumables]
+    );
+
+    // 議定價優先，其次為產品定價，都沒有時由業務手動輸入
+    const getDefaultPrice = (productCode: string): Pick<QuoteItem, 'unitPrice' | 'priceSource'> => {
+        const negotiated = negotiatedPrices.get(productCode);
+        if (negotiated) return { unitPrice: negotiated, priceSource: 'negotiated' };
+        const listPrice = getProduct(productCode)?.listPrice;
+        if (listPrice) return { unitPrice: listPrice, priceSource: 'list' };
+        return { unitPrice: 0, priceSource: 'manual' };
+    };
+
+    // 已議價的耗材排在前面
+    const selectableProducts = useMemo(
+        () => [...activeProducts].sort((a, b) => Number(negotiatedPrices.has(b.code)) - Number(negotiatedPrices.has(a.code))),
+        [activeProducts, negotiatedPrices]
+    );
+
+    const buildItem = (productCode: string): QuoteItem => ({
+        productCode,
+        productName: getProduct(productCode)?.name || productCode,
+        quantity: 1,
+        ...getDefaultPrice(productCode)
+    });
+
+    const handleAddItem = () => {
+        const next = selectableProducts.find(p => !items.some(item => item.productCode === p.code));
+        if (!next) return;
+        setItems(prev => [...prev, buildItem(next.code)]);
+    };
+
+    const handleProductChange = (index: number, productCode: string) => {
+        setItems(prev => prev.map((item, i) => i === index ? { ...buildItem(productCode), quantity: item.quantity } : item));
+    };
+
+    const handleQuantityChange = (index: number, value: string) => {
+        const quantity = parseInt(value.replace(/[^\d]/g, '')) || 0;
+        setItems(prev => prev.map((item, i) => i === index ? { ...item, quantity } : item));
+    };
+
+    const handlePriceChange = (index: number, value: string) => {
+        const unitPrice = parseFloat(value) || 0;
+        setItems(prev => prev.map((item, i) => i === index ? { ...item, unitPrice, priceSource: 'manual' } : item));
+    };
+
+    // 切換回議定價或定價
+    const handleResetPrice = (index: number) => {
+        setItems(prev => prev.map((item, i) => i === index ? { ...item, ...getDefaultPrice(item.productCode) } : item));
+    };
+
+    const handleRemoveItem = (index: number) => {
+        setItems(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const taxRate = (parseFloat(taxRatePercent) || 0) / 100;
+    const totals = calculateQuoteTotals(items, taxRate);
+    const canSave = items.length > 0 && items.every(item => item.quantity > 0) && !!validUntil && !isSaving;
+
+    const handleSave = async (exportPdf: boolean) => {
+        if (!canSave) return;
+        setIsSaving(true);
+        try {
+            const result = await createQuote({
+                hospitalId: hospital.id,
+                items,
+                taxRate,
+                ...totals,
+                validUntil,
+                notes: notes.trim() || undefined,
+                status: 'draft'
+            });
+            if (result.ok === false) {
+                showError(result.error, '建立報價單');
+                return;
+            }
+            onCreated(result.data, exportPdf);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const formatCurrency = (amount: number) =>
+        new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => !isSaving && onClose()}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+                    <h3 className="font-bold text-lg text-slate-900 flex items-center">
+                        <div className="bg-indigo-100 p-2 rounded-lg mr-3 text-indigo-600"><Receipt size={20} /></div>
+                        建立報價單
+                    </h3>
+                    <button onClick={onClose} disabled={isSaving} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-100"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-5">
+                    <div>
+                        <div className="flex items-center justify-between mb-3">
+                            <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">品項</label>
+                            <button
+                                onClick={handleAddItem}
+                                disabled={isSaving || items.length >= selectableProducts.length}
+                                className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                            >
+                                <Plus size={16} />新增品項
+                            </button>
+                        </div>
+
+                        {items.length === 0 ? (
+                            <div className="text-center py-8 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+                                <p className="text-slate-500 text-sm">點擊「新增品項」加入報價產品</p>
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                {items.map((item, index) => (
+                                    <div key={index} className="grid grid-cols-12 gap-2 items-center bg-slate-50 border border-slate-200 rounded-xl p-3">
+                                        <select
+                                            className="col-span-12 md:col-span-5 p-2 rounded-lg border border-slate-300 bg-white text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                                            value={item.productCode}
+                                            onChange={(e) => handleProductChange(index, e.target.value)}
+                                            disabled={isSaving}
+                                        >
+                                            {selectableProducts
+                                                .filter(p => p.code === item.productCode || !items.some(other => other.productCode === p.code))
+                                                .map(p => (
+                                                    <option key={p.code} value={p.code}>
+                                                        {p.code} - {p.name}{negotiatedPrices.has(p.code) ? '（已議價）' : ''}
+                                                    </option>
+                                                ))}
+                                        </select>
+                                        <input
+                                            type="text"
+                                            inputMode="numeric"
+                                            className="col-span-3 md:col-span-2 p-2 rounded-lg border border-slate-300 bg-white text-sm text-right outline-none focus:ring-2 focus:ring-blue-500"
+                                            value={item.quantity || ''}
+                                            onChange={(e) => handleQuantityChange(index, e.target.value)}
+                                            placeholder="數量"
+                                            disabled={isSaving}
+                                        />
+                                        <div className="col-span-5 md:col-span-3">
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                className="w-full p-2 rounded-lg border border-slate-300 bg-white text-sm text-right outline-none focus:ring-2 focus:ring-blue-500"
+                                                value={item.unitPrice || ''}
+                                                onChange={(e) => handlePriceChange(index, e.target.value)}
+                                                placeholder="未稅單價"
+                                                disabled={isSaving}
+                                            />
+                                            <div className="flex items-center justify-end gap-1 mt-1 text-[11px]">
+                                                <span className={item.priceSource === 'negotiated' ? 'text-emerald-600' : item.priceSource === 'list' ? 'text-blue-600' : 'text-amber-600'}>
+                                                    {PRICE_SOURCE_LABELS[item.priceSource]}
+                                                </span>
+                                                {item.priceSource === 'manual' && getDefaultPrice(item.productCode).priceSource !== 'manual' && (
+                                                    <button onClick={() => handleResetPrice(index)} className="text-slate-400 hover:text-blue-600 underline" disabled={isSaving}>
+                                                        還原
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                        <div className="col-span-3 md:col-span-2 flex items-center justify-end gap-1">
+                                            <span className="text-sm font-semibold text-slate-700 tabular-nums">{formatCurrency(item.quantity * item.unitPrice)}</span>
+                                            <button onClick={() => handleRemoveItem(index)} className="p-1 text-slate-400 hover:text-red-600" disabled={isSaving} title="移除品項">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">稅率 (%)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm"
+                                value={taxRatePercent}
+                                onChange={(e) => setTaxRatePercent(e.target.value)}
+                                disabled={isSaving}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">有效期限</label>
+                            <input
+                                type="date"
+                                className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm"
+                                value={validUntil}
+                                onChange={(e) => setValidUntil(e.target.value)}
+                                disabled={isSaving}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">備註</label>
+                        <textarea
+                            className="w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm resize-none"
+                            rows={2}
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            placeholder="付款條件、交貨方式等"
+                            disabled={isSaving}
+                        />
+                    </div>
+
+                    <div className="bg-slate-50 rounded-xl border border-slate-200 p-4 space-y-1 text-sm">
+                        <div className="flex justify-between text-slate-600"><span>小計（未稅）</span><span className="tabular-nums">{formatCurrency(totals.subtotal)}</span></div>
+                        <div className="flex justify-between text-slate-600"><span>稅額</span><span className="tabular-nums">{formatCurrency(totals.tax)}</span></div>
+                        <div className="flex justify-between font-bold text-slate-900 text-base pt-1 border-t border-slate-200"><span>總計</span><span className="tabular-nums">{formatCurrency(totals.total)}</span></div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-100">
+                    <button onClick={() => handleSave(false)} disabled={!canSave} className="px-5 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-xl font-semibold hover:bg-slate-50 flex items-center transition-all disabled:opacity-50">
+                        {isSaving ? <Loader size={18} className="mr-2 animate-spin" /> : <Check size={18} className="mr-2" />}
+                        儲存草稿
+                    </button>
+                    <button onClick={() => handleSave(true)} disabled={!canSave} className="px-5 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md flex items-center transition-all disabled:opacity-50">
+                        {isSaving ? <Loader size={18} className="mr-2 animate-spin" /> : <FileDown size={18} className="mr-2" />}
+                        儲存並匯出 PDF
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default QuoteBuilderModal;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Loader, Receipt, FileDown, Send, CheckCircle2, XCircle, ShoppingCart, Trash2, Calendar } from 'lucide-react';
+import { Hospital, Quote, QuoteStatus, UsageRecord } from '@/types';
+import { useToast } from '../../contexts/ToastContext';
+import { fetchQuotesByHospital, updateQuoteStatus, convertQuoteToOrders, deleteQuote } from '../../services/databaseService';
+import { exportQuotePdf } from '../../services/quotePdf';
+import { todayKey } from '../../lib/dateKey';
+import QuoteBuilderModal from './QuoteBuilderModal';
+
+interface QuotesSectionProps {
+    hospital: Hospital;
+    onOrdersCreated?: (orders: UsageRecord[]) => void;
+}
+
+const STATUS_CONFIG: Record<QuoteStatus, { label: string; className: string }> = {
+    draft: { label: '草稿', className: 'bg-slate-100 text-slate-600' },
+    sent: { label: '已送出', className: 'bg-blue-100 text-blue-700' },
+    accepted: { label: '已接受', className: 'bg-emerald-100 text-emerald-700' },
+    rejected: { label: '未接受', className: 'bg-red-100 text-red-700' }
+};
+
+const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+
+const QuotesSection: React.FC<QuotesSectionProps> = ({ hospital, onOrdersCreated }) => {
+    const { showToast, showError } = useToast();
+    const [quotes, setQuotes] = useState<Quote[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+    const [busyQuoteId, setBusyQuoteId] = useState<string | null>(null);
+    const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadQuotes = async () => {
+            setIsLoading(true);
+            try {
+                const data = await fetchQuotesByHospital(hospital.id);
+                if (!cancelled) setQuotes(data);
+            } catch (error) {
+                console.error('Error loading quotes:', error);
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        loadQuotes();
+        return () => { cancelled = true; };
+    }, [hospital.id]);
+
+    const replaceQuote = (quote: Quote) => {
+        setQuotes(prev => prev.map(q => q.id === quote.id ? quote : q));
+    };
+
+    const handleExport = async (quote: Quote) => {
+        setBusyQuoteId(quote.id);
+        try {
+            const result = await exportQuotePdf(quote, hospital);
+            if (result.ok === false) showError(result.error, '匯出 PDF');
+        } catch (error) {
+            console.error('Error exporting quote PDF:', error);
+            showToast('匯出 PDF 失敗，請稍後再試', 'error');
+        } finally {
+            setBusyQuoteId(null);
+        }
+    };
+
+    const handleCreated = (quote: Quote, exportPdf: boolean) => {
+        setQuotes(prev => [quote, ...prev]);
+        setIsBuilderOpen(false);
+        showToast(`已建立報價單 ${quote.quoteNumber}`, 'success');
+        if (exportPdf) handleExport(quote);
+    };
+
+    const handleStatusChange = async (quote: Quote, status: QuoteStatus) => {
+        setBusyQuoteId(quote.id);
+        try {
+            const result = await updateQuoteStatus(quote.id, status);
+            if (result.ok === false) {
+                showError(result.error, '更新報價單');
+                return;
+            }
+            replaceQuote(result.data);
+        } finally {
+            setBusyQuoteId(null);
+        }
+    };
+
+    // 建立訂單與標記已轉換在同一個交易內完成，兩人同時操作時只有一方會成功，不會重複下單
+    const handleConvert = async (quote: Quote) => {
+        setBusyQuoteId(quote.id);
+        try {
+            const result = await convertQuoteToOrders(quote, todayKey());
+            if (result.ok === false) {
+                showError(result.error, '轉為訂單');
+                return;
+            }
+            replaceQuote(result.data.quote);
+            onOrdersCreated?.(result.data.orders);
+            showToast(`已將 ${result.data.orders.length} 個品項轉為訂單`, 'success');
+        } finally {
+            setBusyQuoteId(null);
+        }
+    };
+
+    const handleDelete = async (quoteId: string) => {
+        setBusyQuoteId(quoteId);
+        try {
+            const result = await deleteQuote(quoteId);
+            if (result.ok === false) {
+                showError(result.error, '刪除報價單');
+                return;
+            }
+            setQuotes(prev => prev.filter(q => q.id !== quoteId));
+            setDeleteConfirmId(null);
+        } finally {
+            setBusyQuoteId(null);
+        }
+    };
+
+    const today = todayKey();
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 lg:p-8">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h2 className="text-lg font-bold text-slate-900">報價單</h2>
+                    <p className="text-sm text-slate-500 mt-1">依議定價或產品定價建立報價，接受後可一鍵轉為訂單</p>
+                </div>
+                <button onClick={() => setIsBuilderOpen(true)} className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all shadow-md shadow-blue-600/20 active:scale-[0.98]">
+                    <Plus size={18} /><span className="font-medium">建立報價</span>
+                </button>
+            </div>
+
+            {isLoading ? (
+                <div className="text-center py-12">
+                    <Loader size={32} className="mx-auto mb-3 text-slate-300 animate-spin" />
+                    <p className="text-slate-500">載入報價單中...</p>
+                </div>
+            ) : quotes.length > 0 ? (
+                <div className="space-y-3">
+                    {quotes.map(quote => {
+                        const status = STATUS_CONFIG[quote.status];
+                        const isBusy = busyQuoteId === quote.id;
+                        const isExpired = quote.validUntil < today && (quote.status === 'draft' || quote.status === 'sent');
+
+                        return (
+                            <div key={quote.id} className="p-4 rounded-xl border bg-slate-50 border-slate-200">
+                                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="font-semibold text-slate-900">{quote.quoteNumber}</span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+                                            {isExpired && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">已過期</span>}
+                                            {quote.convertedAt && (
+                                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">
+                                                    已轉訂單 {new Date(quote.convertedAt).toLocaleDateString('zh-TW')}
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-slate-500">
+                                            <span className="font-semibold text-slate-700">{formatCurrency(quote.total)}</span>
+                                            <span>{quote.items.map(item => `${item.productCode} × ${item.quantity}`).join('、')}</span>
+                                            <span className="flex items-center gap-1">
+                                                <Calendar size={14} />
+                                                有效至 {new Date(quote.validUntil).toLocaleDateString('zh-TW')}
+                                            </span>
+                                            <span>{quote.createdByName}</span>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1 flex-wrap shrink-0">
+                                        {isBusy && <Loader size={16} className="animate-spin text-slate-400 mr-1" />}
+                                        <button onClick={() => handleExport(quote)} disabled={isBusy} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50" title="匯出 PDF">
+                                            <FileDown size={16} />
+                                        </button>
+                                        {quote.status === 'draft' && (
+                                            <button onClick={() => handleStatusChange(quote, 'sent')} disabled={isBusy} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50" title="標記為已送出">
+                                                <Send size={16} />
+                                            </button>
+                                        )}
+                                        {(quote.status === 'draft' || quote.status === 'sent') && (
+                                            <>
+                                                <button onClick={() => handleStatusChange(quote, 'accepted')} disabled={isBusy} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg disabled:opacity-50" title="客戶已接受">
+                                                    <CheckCircle2 size={16} />
+                                                </button>
+                                                <button onClick={() => handleStatusChange(quote, 'rejected')} disabled={isBusy} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50" title="客戶未接受">
+                                                    <XCircle size={16} />
+                                                </button>
+                                            </>
+                                        )}
+                                        {quote.status === 'accepted' && !quote.convertedAt && (
+                                            <button onClick={() => handleConvert(quote)} disabled={isBusy} className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-xs font-semibold hover:bg-emerald-700 disabled:opacity-50">
+                                                <ShoppingCart size={14} />轉為訂單
+                                            </button>
+                                        )}
+                                        {!quote.convertedAt && (
+                                            deleteConfirmId === quote.id ? (
+                                                <>
+                                                    <button onClick={() => handleDelete(quote.id)} disabled={isBusy} className="px-2 py-1 text-xs font-semibold text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50">確認刪除</button>
+                                                    <button onClick={() => setDeleteConfirmId(null)} disabled={isBusy} className="px-2 py-1 text-xs text-slate-500 hover:text-slate-700">取消</button>
+                                                </>
+                                            ) : (
+                                                <button onClick={() => setDeleteConfirmId(quote.id)} disabled={isBusy} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50" title="刪除">
+                                                    <Trash2 size={16} />
+                                                </button>
+                                            )
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="text-center py-12 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+                    <Receipt size={32} className="mx-auto mb-3 text-slate-300" />
+                    <p className="text-slate-500 font-medium">尚無報價單</p>
+                    <p className="text-slate-400 text-sm mt-1">點擊「建立報價」選擇產品與數量</p>
+                </div>
+            )}
+
+            {isBuilderOpen && (
+                <QuoteBuilderModal hospital={hospital} onClose={() => setIsBuilderOpen(false)} onCreated={handleCreated} />
+            )}
+        </div>
+    );
+};
+
+export default QuotesSection;
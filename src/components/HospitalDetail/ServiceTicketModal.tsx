@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { X, Wrench, Check, Loader, Repeat } from 'lucide-react';
+import {
+    Hospital, Contact, EquipmentAsset, ServiceTicket, ServiceTicketStatus, ServiceTicketPriority, FaultCategory
+} from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { useToast } from '../../contexts/ToastContext';
+import {
+    createServiceTicket, updateServiceTicket, fetchAvailableLoaners, assignTicketLoaner, returnTicketLoaner
+} from '../../services/databaseService';
+import { todayKey } from '../../lib/dateKey';
+import {
+    FAULT_CATEGORY_LABELS,
+    SERVICE_TICKET_PRIORITY_CONFIG,
+    SERVICE_TICKET_STATUS_CONFIG,
+    SERVICE_TICKET_TRANSITIONS,
+    isLoanerOut,
+    isTicketOpen
+} from '../../services/ticketService';
+
+interface ServiceTicketModalProps {
+    hospital: Hospital;
+    contacts: Contact[];
+    assets: EquipmentAsset[];
+    ticket: ServiceTicket | null;  // null 表示新增報修
+    onClose: () => void;
+    onSaved: (ticket: ServiceTicket) => void;
+    onLoanerChanged: (ticket: ServiceTicket) => void;  // 借出或歸還替代機，設備的醫院與狀態也已變更
+}
+
+// ISO 時間與 datetime-local 輸入框（本地時間）互轉
+const toLocalInput = (iso: string) => {
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const inputClassName = 'w-full p-3 rounded-xl border-slate-300 border focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm';
+const labelClassName = 'block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2';
+
+const ServiceTicketModal: React.FC<ServiceTicketModalProps> = ({ hospital, contacts, assets, ticket, onClose, onSaved, onLoanerChanged }) => {
+    const { getProduct } = useProducts();
+    const { showError } = useToast();
+    const firstEquipment = hospital.installedEquipment[0];
+
+    const [form, setForm] = useState({
+        equipmentId: ticket?.equipmentId || firstEquipment?.id || '',
+        productCode: ticket?.productCode || firstEquipment?.productCode || '',
+        assetId: ticket?.assetId || '',
+        reportedByContactId: ticket?.reportedByContactId || '',
+        faultCategory: ticket?.faultCategory || 'hardware' as FaultCategory,
+        priority: ticket?.priority || 'normal' as ServiceTicketPriority,
+        reportedAt: toLocalInput(ticket?.reportedAt || new Date().toISOString()),
+        description: ticket?.description || '',
+        status: ticket?.status || 'open' as ServiceTicketStatus,
+        resolution: ticket?.resolution || ''
+    });
+    const [isSaving, setIsSaving] = useState(false);
+
+    // 替代機從已退回的同產品設備中挑選，借出與歸還各自立即儲存，不隨維修單的「儲存」送出
+    const loanerOut = !!ticket && isLoanerOut(ticket);
+    const canAssignLoaner = !!ticket && !loanerOut && isTicketOpen(ticket);
+    const [loanerOptions, setLoanerOptions] = useState<EquipmentAsset[]>([]);
+    const [isLoadingLoaners, setIsLoadingLoaners] = useState(false);
+    const [loanerForm, setLoanerForm] = useState({ assetId: '', location: '', date: todayKey() });
+
+    useEffect(() => {
+        if (!canAssignLoaner || !ticket) return;
+        let cancelled = false;
+        setIsLoadingLoaners(true);
+        fetchAvailableLoaners(ticket.productCode)
+            .then(data => { if (!cancelled) setLoanerOptions(data); })
+            .catch(error => console.error('Error loading available loaners:', error))
+            .finally(() => { if (!cancelled) setIsLoadingLoaners(false); });
+        return () => { cancelled = true; };
+    }, [canAssignLoaner, ticket]);
+
+    const productAssets = assets.filter(a => a.productCode === form.productCode && (a.status !== 'returned' || a.id === form.assetId));
+    const statusOptions = ticket ? [ticket.status, ...SERVICE_TICKET_TRANSITIONS[ticket.status]] : [];
+    const needsResolution = form.status === 'resolved' || form.status === 'closed';
+
+    const handleEquipmentChange = (equipmentId: string) => {
+        const equipment = hospital.installedEquipment.find(eq => eq.id === equipmentId);
+        setForm({ ...form, equipmentId, productCode: equipment?.productCode || '', assetId: '' });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const fields = {
+                hospitalId: hospital.id,
+                equipmentId: form.equipmentId,
+                productCode: form.productCode,
+                assetId: form.assetId || undefined,
+                reportedByContactId: form.reportedByContactId || undefined,
+                faultCategory: form.faultCategory,
+                priority: form.priority,
+                reportedAt: new Date(form.reportedAt).toISOString(),
+                description: form.description
+            };
+            const result = ticket
+                ? await updateServiceTicket(ticket, { ...ticket, ...fields, status: form.status, resolution: form.resolution })
+                : await createServiceTicket(fields);
+            if (result.ok === false) {
+                showError(result.error, ticket ? '更新維修單' : '建立維修單');
+                return;
+            }
+            onSaved(result.data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleAssignLoaner = async () => {
+        const loaner = loanerOptions.find(a => a.id === loanerForm.assetId);
+        if (!ticket || !loaner) return;
+        setIsSaving(true);
+        try {
+            const result = await assignTicketLoaner(ticket, loaner, loanerForm.date, loanerForm.location);
+            if (result.ok === false) {
+                showError(result.error, '借出替代機');
+                return;
+            }
+            onLoanerChanged(result.data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReturnLoaner = async () => {
+        if (!ticket) return;
+        setIsSaving(true);
+        try {
+            const result = await returnTicketLoaner(ticket, loanerForm.date);
+            if (result.ok === false) {
+                showError(result.error, '歸還替代機');
+                return;
+            }
+            onLoanerChanged(result.data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => !isSaving && onClose()}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+                    <h3 className="font-bold text-lg text-slate-900 flex items-center">
+                        <div className="bg-orange-100 p-2 rounded-lg mr-3 text-orange-600"><Wrench size={20} /></div>
+                        {ticket ? '維修單' : '新增報修'}
+                    </h3>
+                    <button onClick={onClose} disabled={isSaving} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-100"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClassName}>故障設備</label>
+                            <select className={inputClassName} value={form.equipmentId} onChange={(e) => handleEquipmentChange(e.target.value)} disabled={isSaving}>
+                                {hospital.installedEquipment.map(eq => (
+                                    <option key={eq.id} value={eq.id}>{getProduct(eq.productCode)?.name || eq.productCode} × {eq.quantity}（{eq.ownership}）</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>序號</label>
+                            <select className={inputClassName} value={form.assetId} onChange={(e) => setForm({ ...form, assetId: e.target.value })} disabled={isSaving || productAssets.length === 0}>
+                                <option value="">{productAssets.length === 0 ? '尚未登錄序號' : '未指定'}</option>
+                                {productAssets.map(a => (
+                                    <option key={a.id} value={a.id}>{a.serialNumber}{a.location ? `・${a.location}` : ''}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>報修人</label>
+                            <select className={inputClassName} value={form.reportedByContactId} onChange={(e) => setForm({ ...form, reportedByContactId: e.target.value })} disabled={isSaving}>
+                                <option value="">未指定</option>
+                                {contacts.map(c => <option key={c.id} value={c.id}>{c.name}{c.role ? `（${c.role}）` : ''}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>報修時間</label>
+                            <input type="datetime-local" className={inputClassName} value={form.reportedAt} onChange={(e) => setForm({ ...form, reportedAt: e.target.value })} disabled={isSaving} />
+                        </div>
+                        <div>
+                            <label className={labelClassName}>故障類別</label>
+                            <select className={inputClassName} value={form.faultCategory} onChange={(e) => setForm({ ...form, faultCategory: e.target.value as FaultCategory })} disabled={isSaving}>
+                                {(Object.keys(FAULT_CATEGORY_LABELS) as FaultCategory[]).map(category => (
+                                    <option key={category} value={category}>{FAULT_CATEGORY_LABELS[category]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClassName}>優先等級</label>
+                            <select className={inputClassName} value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value as ServiceTicketPriority })} disabled={isSaving}>
+                                {(Object.keys(SERVICE_TICKET_PRIORITY_CONFIG) as ServiceTicketPriority[]).map(priority => (
+                                    <option key={priority} value={priority}>
+                                        {SERVICE_TICKET_PRIORITY_CONFIG[priority].label}（{SERVICE_TICKET_PRIORITY_CONFIG[priority].slaHours} 小時內修復）
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClassName}>故障描述</label>
+                        <textarea rows={3} className={`${inputClassName} resize-none`} value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} placeholder="故障現象、錯誤代碼、發生頻率" disabled={isSaving} />
+                    </div>
+
+                    {ticket && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-2 border-t border-slate-100">
+                            <div>
+                                <label className={labelClassName}>狀態</label>
+                                <select className={inputClassName} value={form.status} onChange={(e) => setForm({ ...form, status: e.target.value as ServiceTicketStatus })} disabled={isSaving || statusOptions.length === 1}>
+                                    {statusOptions.map(status => <option key={status} value={status}>{SERVICE_TICKET_STATUS_CONFIG[status].label}</option>)}
+                                </select>
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className={labelClassName}>處理結果{needsResolution && <span className="text-red-500 ml-1">*</span>}</label>
+                                <textarea rows={2} className={`${inputClassName} resize-none`} value={form.resolution} onChange={(e) => setForm({ ...form, resolution: e.target.value })} placeholder="更換零件、調整設定等處理內容" disabled={isSaving} />
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="pt-2 border-t border-slate-100">
+                        <label className={`${labelClassName} flex items-center gap-1`}><Repeat size={12} />替代機</label>
+                        {!ticket ? (
+                            <p className="text-sm text-slate-400">建立維修單後可借出替代機</p>
+                        ) : loanerOut ? (
+                            <div className="flex flex-wrap items-end gap-3">
+                                <p className="flex-1 min-w-[12rem] text-sm text-violet-700 font-semibold">
+                                    {ticket.loanerSerialNumber || '未知序號'} 借出中{ticket.loanerAssignedDate ? `（${ticket.loanerAssignedDate} 起）` : ''}
+                                </p>
+                                <div>
+                                    <label className={labelClassName}>歸還日</label>
+                                    <input type="date" className={inputClassName} value={loanerForm.date} min={ticket.loanerAssignedDate} onChange={(e) => setLoanerForm({ ...loanerForm, date: e.target.value })} disabled={isSaving} />
+                                </div>
+                                <button onClick={handleReturnLoaner} disabled={isSaving || !loanerForm.date} className="px-4 py-3 bg-violet-600 text-white rounded-xl text-sm font-bold hover:bg-violet-700 disabled:opacity-50">
+                                    歸還
+                                </button>
+                            </div>
+                        ) : canAssignLoaner ? (
+                            <div className="space-y-2">
+                                {ticket.loanerSerialNumber && ticket.loanerReturnedDate && (
+                                    <p className="text-xs text-slate-500">先前借出 {ticket.loanerSerialNumber}，{ticket.loanerReturnedDate} 已歸還</p>
+                                )}
+                                <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1.5fr_auto] gap-3 items-end">
+                                    <select className={inputClassName} value={loanerForm.assetId} onChange={(e) => setLoanerForm({ ...loanerForm, assetId: e.target.value })} disabled={isSaving || isLoadingLoaners || loanerOptions.length === 0}>
+                                        <option value="">{isLoadingLoaners ? '載入中…' : loanerOptions.length === 0 ? '沒有可借出的同型號設備' : '選擇已退回的設備'}</option>
+                                        {loanerOptions.map(a => (
+                                            <option key={a.id} value={a.id}>{a.serialNumber}{a.location ? `・${a.location}` : ''}</option>
+                                        ))}
+                                    </select>
+                                    <input className={inputClassName} value={loanerForm.location} onChange={(e) => setLoanerForm({ ...loanerForm, location: e.target.value })} placeholder="放置位置（病房或科別）" disabled={isSaving} />
+                                    <input type="date" className={inputClassName} value={loanerForm.date} onChange={(e) => setLoanerForm({ ...loanerForm, date: e.target.value })} disabled={isSaving} />
+                                    <button onClick={handleAssignLoaner} disabled={isSaving || !loanerForm.assetId || !loanerForm.date} className="px-4 py-3 bg-violet-600 text-white rounded-xl text-sm font-bold hover:bg-violet-700 disabled:opacity-50">
+                                        借出
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-slate-400">
+                                {ticket.loanerSerialNumber ? `${ticket.loanerSerialNumber}，${ticket.loanerReturnedDate} 已歸還` : '未借出替代機'}
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-100">
+                    <button onClick={onClose} disabled={isSaving} className="px-5 py-2.5 text-slate-600 font-semibold hover:bg-slate-100 rounded-xl">取消</button>
+                    <button onClick={handleSave} disabled={isSaving || !form.equipmentId || !form.description.trim() || (needsResolution && !form.resolution.trim())} className="px-5 py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-md flex items-center transition-all disabled:opacity-50">
+                        {isSaving ? <Loader size={18} className="mr-2 animate-spin" /> : <Check size={18} className="mr-2" />}
+                        儲存
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ServiceTicketModal;
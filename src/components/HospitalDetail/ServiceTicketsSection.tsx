@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader, Plus, Wrench, Clock, User, Repeat, ChevronDown, ChevronUp, Edit } from 'lucide-react';
+import { Hospital, Contact, EquipmentAsset, ServiceTicket } from '@/types';
+import { useProducts } from '../../contexts/ProductContext';
+import { fetchServiceTickets } from '../../services/databaseService';
+import { subscribeToTableChanges } from '../../services/realtimeService';
+import {
+    FAULT_CATEGORY_LABELS,
+    SERVICE_TICKET_PRIORITY_CONFIG,
+    SERVICE_TICKET_STATUS_CONFIG,
+    SLA_STATE_CONFIG,
+    formatSlaRemaining,
+    getSlaStatus,
+    isLoanerOut,
+    isTicketOpen
+} from '../../services/ticketService';
+import ServiceTicketModal from './ServiceTicketModal';
+
+interface ServiceTicketsSectionProps {
+    hospital: Hospital;
+    contacts: Contact[];
+    assets: EquipmentAsset[];
+    onAssetsReload: () => void;
+}
+
+const ServiceTicketsSection: React.FC<ServiceTicketsSectionProps> = ({ hospital, contacts, assets, onAssetsReload }) => {
+    const { getProduct } = useProducts();
+    const [tickets, setTickets] = useState<ServiceTicket[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [editingTicket, setEditingTicket] = useState<ServiceTicket | null>(null);
+    const [isAdding, setIsAdding] = useState(false);
+    const [showClosed, setShowClosed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        fetchServiceTickets({ hospitalId: hospital.id })
+            .then(data => { if (!cancelled) setTickets(data); })
+            .catch(error => console.error('Error loading service tickets:', error))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [hospital.id]);
+
+    // 其他使用者更新維修單時重新載入
+    useEffect(() => {
+        return subscribeToTableChanges(['service_tickets'], async (change) => {
+            if (change.isLocalEcho) return;
+            const hospitalId = change.newRow?.hospital_id || change.oldRow?.hospital_id;
+            if (hospitalId && hospitalId !== hospital.id) return;
+
+            try {
+                setTickets(await fetchServiceTickets({ hospitalId: hospital.id }));
+            } catch (error) {
+                console.error('Error reloading service tickets:', error);
+            }
+        });
+    }, [hospital.id]);
+
+    // 未結案的依 SLA 剩餘時間排序，最急的在最上面
+    const { openTickets, closedTickets } = useMemo(() => {
+        const open = tickets
+            .filter(isTicketOpen)
+            .sort((a, b) => getSlaStatus(a).hoursRemaining - getSlaStatus(b).hoursRemaining);
+        const closed = tickets.filter(t => !isTicketOpen(t));
+        return { openTickets: open, closedTickets: closed };
+    }, [tickets]);
+
+    const contactMap = useMemo(() => new Map(contacts.map(c => [c.id, c])), [contacts]);
+    const assetMap = useMemo(() => new Map(assets.map(a => [a.id, a])), [assets]);
+
+    const handleSaved = (ticket: ServiceTicket) => {
+        setTickets(prev => prev.some(t => t.id === ticket.id)
+            ? prev.map(t => t.id === ticket.id ? ticket : t)
+            : [ticket, ...prev]);
+        setEditingTicket(null);
+        setIsAdding(false);
+    };
+
+    const handleLoanerChanged = (ticket: ServiceTicket) => {
+        handleSaved(ticket);
+        onAssetsReload();
+    };
+
+    const renderTicket = (ticket: ServiceTicket) => {
+        const status = SERVICE_TICKET_STATUS_CONFIG[ticket.status];
+        const priority = SERVICE_TICKET_PRIORITY_CONFIG[ticket.priority];
+        const sla = getSlaStatus(ticket);
+        const asset = ticket.assetId ? assetMap.get(ticket.assetId) : undefined;
+        const reporter = ticket.reportedByContactId ? contactMap.get(ticket.reportedByContactId) : undefined;
+        const loanerOut = isLoanerOut(ticket);
+        const isOpen = isTicketOpen(ticket);
+
+        return (
+            <div key={ticket.id} className={`p-4 rounded-xl border group ${isOpen && sla.state === 'breached' ? 'bg-red-50 border-red-200' : isOpen ? 'bg-slate-50 border-slate-200' : 'bg-white border-slate-200'}`}>
+                <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 text-sm">
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-semibold text-slate-900">{getProduct(ticket.productCode)?.name || ticket.productCode}</span>
+                            {asset && <span className="font-mono text-xs text-slate-500">#{asset.serialNumber}</span>}
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>{status.label}</span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${priority.className}`}>{priority.label}</span>
+                            <span className="text-xs text-slate-500">{FAULT_CATEGORY_LABELS[ticket.faultCategory]}</span>
+                        </div>
+                        <p className="text-slate-600 mt-1 whitespace-pre-wrap">{ticket.description}</p>
+                        {ticket.resolution && <p className="text-emerald-700 mt-1 whitespace-pre-wrap">處理結果：{ticket.resolution}</p>}
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-slate-500">
+                            <span className="flex items-center gap-1"><Clock size={12} />報修 {new Date(ticket.reportedAt).toLocaleString('zh-TW', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })}</span>
+                            <span className={`font-semibold ${SLA_STATE_CONFIG[sla.state].className}`}>
+                                {isOpen ? `SLA ${formatSlaRemaining(sla.hoursRemaining)}` : SLA_STATE_CONFIG[sla.state].label}
+                            </span>
+                            {reporter && <span className="flex items-center gap-1"><User size={12} />{reporter.name}</span>}
+                            {ticket.loanerSerialNumber && (
+                                <span className={`flex items-center gap-1 ${loanerOut ? 'text-violet-600 font-semibold' : ''}`}>
+                                    <Repeat size={12} />替代機 {ticket.loanerSerialNumber}{loanerOut ? ' 借出中' : ' 已歸還'}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                    <button onClick={() => setEditingTicket(ticket)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg md:opacity-0 md:group-hover:opacity-100 transition-opacity shrink-0" title="更新維修單">
+                        <Edit size={16} />
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 lg:p-8">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                        設備維修
+                        {openTickets.length > 0 && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">{openTickets.length} 張未結案</span>
+                        )}
+                    </h2>
+                    <p className="text-sm text-slate-500 mt-1">記錄報修、SLA 時限、處理進度與維修期間的替代機</p>
+                </div>
+                {hospital.installedEquipment.length > 0 && (
+                    <button onClick={() => setIsAdding(true)} className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-all shadow-md shadow-blue-600/20 active:scale-[0.98]">
+                        <Plus size={18} /><span className="font-medium">新增報修</span>
+                    </button>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="text-center py-12">
+                    <Loader size={32} className="mx-auto mb-3 text-slate-300 animate-spin" />
+                    <p className="text-slate-500">載入維修單中...</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {openTickets.length === 0 && (
+                        <div className="text-center py-8 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+                            <Wrench size={28} className="mx-auto mb-2 text-slate-300" />
+                            <p className="text-slate-500 text-sm">
+                                {hospital.installedEquipment.length > 0 ? '目前沒有未結案的維修單' : '新增已安裝設備後即可建立維修單'}
+                            </p>
+                        </div>
+                    )}
+                    {openTickets.map(renderTicket)}
+
+                    {closedTickets.length > 0 && (
+                        <div className="pt-2">
+                            <button onClick={() => setShowClosed(!showClosed)} className="flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-slate-700">
+                                {showClosed ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                已修復與結案 ({closedTickets.length})
+                            </button>
+                            {showClosed && <div className="mt-3 space-y-2">{closedTickets.map(renderTicket)}</div>}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {(isAdding || editingTicket) && (
+                <ServiceTicketModal
+                    hospital={hospital}
+                    contacts={contacts}
+                    assets={assets}
+                    ticket={editingTicket}
+                    onClose={() => { setEditingTicket(null); setIsAdding(false); }}
+                    onSaved={handleSaved}
+                    onLoanerChanged={handleLoanerChanged}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ServiceTicketsSection;
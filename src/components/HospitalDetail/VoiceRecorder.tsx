@@ -0,0 +1,118 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { useToast } from '../../contexts/ToastContext';
+
+interface VoiceRecorderProps {
+    onRecorded: (audio: Blob, durationSeconds: number) => void;
+    disabled?: boolean;
+}
+
+// 單段錄音上限，避免檔案超過轉錄服務的大小限制
+const MAX_RECORDING_SECONDS = 10 * 60;
+
+// Chrome/Firefox 錄 webm，Safari 只支援 mp4
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const pickMimeType = () =>
+    PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+const formatDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onRecorded, disabled = false }) => {
+    const { showToast } = useToast();
+    const [isRecording, setIsRecording] = useState(false);
+    const [elapsed, setElapsed] = useState(0);
+
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const startedAtRef = useRef(0);
+    const discardRef = useRef(false);
+    const onRecordedRef = useRef(onRecorded);
+    onRecordedRef.current = onRecorded;
+
+    const isSupported = typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+    // 表單關閉時停止錄音並捨棄內容，同時釋放麥克風
+    useEffect(() => () => {
+        discardRef.current = true;
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    }, []);
+
+    useEffect(() => {
+        if (!isRecording) return;
+        const timer = setInterval(() => {
+            const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+            setElapsed(seconds);
+            if (seconds >= MAX_RECORDING_SECONDS) recorderRef.current?.stop();
+        }, 250);
+        return () => clearInterval(timer);
+    }, [isRecording]);
+
+    const startRecording = async () => {
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch (error) {
+            console.error('Microphone access denied:', error);
+            showToast('無法使用麥克風，請在瀏覽器設定中允許麥克風權限', 'error');
+            return;
+        }
+
+        const mimeType = pickMimeType();
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        const chunks: Blob[] = [];
+
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = () => {
+            stream.getTracks().forEach(track => track.stop());
+            recorderRef.current = null;
+            setIsRecording(false);
+            if (discardRef.current || chunks.length === 0) return;
+
+            const durationSeconds = Math.max(1, Math.round((Date.now() - startedAtRef.current) / 1000));
+            onRecordedRef.current(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }), durationSeconds);
+        };
+
+        recorderRef.current = recorder;
+        discardRef.current = false;
+        startedAtRef.current = Date.now();
+        setElapsed(0);
+        recorder.start(1000);
+        setIsRecording(true);
+    };
+
+    const stopRecording = () => {
+        recorderRef.current?.stop();
+    };
+
+    if (!isSupported) return null;
+
+    if (isRecording) {
+        return (
+            <button
+                onClick={stopRecording}
+                className="px-2.5 py-2 bg-red-600 text-white rounded-lg shadow-sm hover:bg-red-700 transition-all flex items-center gap-1.5 text-xs font-semibold tabular-nums"
+                title="停止錄音並轉錄"
+            >
+                <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+                <Square size={12} className="fill-current" />
+                {formatDuration(elapsed)}
+            </button>
+        );
+    }
+
+    return (
+        <button
+            onClick={startRecording}
+            disabled={disabled}
+            className="p-2 bg-white text-red-500 rounded-lg shadow-sm border border-red-100 hover:bg-red-50 transition-all disabled:opacity-50"
+            title="口述錄音"
+        >
+            <Mic size={16} />
+        </button>
+    );
+};
+
+export default VoiceRecorder;
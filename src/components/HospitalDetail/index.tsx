@@ -1,32 +1,47 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
-    ArrowLeft, MapPin, Edit, Brain, Sparkles, X, ChevronLeft, ChevronRight
+    ArrowLeft, MapPin, Edit, X, ChevronLeft, ChevronRight, Users
 } from 'lucide-react';
-import { Hospital, Note, Contact, UsageRecord, SalesStage, InstalledEquipment } from '../../types';
-import { PRODUCTS } from '../../constants';
-import { generateHospitalInsight } from '../../services/geminiService';
+import { Hospital, Note, Contact, UsageRecord, SalesStage, InstalledEquipment, HospitalDetailTab, Attachment } from '../../types';
+import { RemoteEdit, RealtimeTable } from '../../services/realtimeService';
+import { fetchAttachmentsByHospital } from '../../services/databaseService';
+import { toDataError, Result } from '../../services/dataErrors';
+import { useToast } from '../../contexts/ToastContext';
+import { useSync } from '../../contexts/SyncContext';
 
 // Sub-components
 import OverviewTab from './OverviewTab';
 import ContactsTab from './ContactsTab';
 import OrdersTab from './OrdersTab';
 import NotesTab from './NotesTab';
+import HistoryTab from './HistoryTab';
+import FilesTab from './FilesTab';
 import EditHospitalModal from './EditHospitalModal';
 
 interface HospitalDetailProps {
     hospital: Hospital;
+    hospitals: Hospital[];  // 設備移轉的目標醫院
     notes: Note[];
     contacts: Contact[];
     usageHistory: UsageRecord[];
+    remoteEdit?: RemoteEdit | null; // 其他使用者對此醫院的最新變更
+    activeTab?: HospitalDetailTab;   // 由網址決定，全站搜尋可直接開啟指定分頁
+    onTabChange?: (tab: HospitalDetailTab) => void;
+    // 活動記錄分頁與訂單載入狀態
+    hasMoreNotes?: boolean;
+    isLoadingNotes?: boolean;
+    isLoadingUsage?: boolean;
+    onLoadMoreNotes?: () => void;
     onUpdateHospital: (hospital: Hospital) => void;
-    onAddNote: (note: Note) => void;
+    onAddNote: (note: Note) => Promise<Result<Note>>;
     onUpdateNote: (note: Note) => void;
     onDeleteNote: (noteId: string) => void;
     onUpdateContact: (contact: Contact) => void;
     onAddContact: (contact: Contact) => void;
-    onAddUsageRecord: (record: UsageRecord) => void;
+    onAddUsageRecord: (record: UsageRecord) => Promise<void> | void;
     onUpdateUsageRecord: (record: UsageRecord) => void;
     onDeleteUsageRecord: (recordId: string) => void;
+    onUsageRecordsCreated?: (records: UsageRecord[]) => void;
     onAddEquipment: (equipment: InstalledEquipment) => Promise<void> | void;
     onUpdateEquipment: (equipment: InstalledEquipment) => Promise<void> | void;
     onDeleteEquipment: (equipmentId: string) => Promise<void> | void;
@@ -40,9 +55,17 @@ interface HospitalDetailProps {
 
 const HospitalDetail: React.FC<HospitalDetailProps> = ({
     hospital,
+    hospitals,
     notes,
     contacts,
     usageHistory,
+    remoteEdit = null,
+    activeTab = 'overview',
+    onTabChange,
+    hasMoreNotes = false,
+    isLoadingNotes = false,
+    isLoadingUsage = false,
+    onLoadMoreNotes,
     onUpdateHospital,
     onAddNote,
     onUpdateNote,
@@ -52,6 +75,7 @@ const HospitalDetail: React.FC<HospitalDetailProps> = ({
     onAddUsageRecord,
     onUpdateUsageRecord,
     onDeleteUsageRecord,
+    onUsageRecordsCreated,
     onAddEquipment,
     onUpdateEquipment,
     onDeleteEquipment,
@@ -61,25 +85,55 @@ const HospitalDetail: React.FC<HospitalDetailProps> = ({
     hasPrev = false,
     hasNext = false
 }) => {
-    const [activeTab, setActiveTab] = useState<'overview' | 'orders' | 'contacts' | 'notes'>('overview');
-    const [insight, setInsight] = useState<string>('');
-    const [isLoadingInsight, setIsLoadingInsight] = useState(false);
+    const { showError } = useToast();
     const [isEditingHospital, setIsEditingHospital] = useState(false);
-    const [showInsight, setShowInsight] = useState(false);
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [isLoadingAttachments, setIsLoadingAttachments] = useState(true);
+    const [visibleRemoteEdit, setVisibleRemoteEdit] = useState<RemoteEdit | null>(null);
+    const openedAtRef = useRef(Date.now());
 
-    const fetchInsight = async () => {
-        setShowInsight(true);
-        setIsLoadingInsight(true);
-        const result = await generateHospitalInsight(hospital, contacts, notes, usageHistory, PRODUCTS);
-        setInsight(result);
-        setIsLoadingInsight(false);
-    };
+    // 切換醫院時清除提示，只顯示開啟頁面之後發生的變更
+    useEffect(() => {
+        openedAtRef.current = Date.now();
+        setVisibleRemoteEdit(null);
+    }, [hospital.id]);
+
+    // 附件需要網路才能預覽，不做離線快取；活動記錄、合約與檔案分頁共用同一份列表
+    const loadAttachments = useCallback(async () => {
+        setIsLoadingAttachments(true);
+        try {
+            setAttachments(await fetchAttachmentsByHospital(hospital.id));
+        } catch (error) {
+            setAttachments([]);
+            showError(toDataError(error), '載入附件');
+        } finally {
+            setIsLoadingAttachments(false);
+        }
+    }, [hospital.id, showError]);
+
+    useEffect(() => {
+        loadAttachments();
+    }, [loadAttachments]);
+
+    // 口述錄音在同步時才上傳為活動記錄的附件，同步完成後重新載入
+    const { lastSyncedAt } = useSync();
+    useEffect(() => {
+        if (lastSyncedAt) loadAttachments();
+    }, [lastSyncedAt]);
 
-    const tabNames = {
+    useEffect(() => {
+        if (remoteEdit && remoteEdit.at >= openedAtRef.current) {
+            setVisibleRemoteEdit(remoteEdit);
+        }
+    }, [remoteEdit]);
+
+    const tabNames: Record<HospitalDetailTab, string> = {
         'overview': '總覽',
         'orders': '訂單',
         'contacts': '聯絡人',
-        'notes': '活動記錄'
+        'notes': '活動記錄',
+        'files': '檔案',
+        'history': '歷史記錄'
     };
 
     // 階段顏色
@@ -98,6 +152,22 @@ const HospitalDetail: React.FC<HospitalDetailProps> = ({
         }
     };
 
+    const remoteTableNames: Record<RealtimeTable, string> = {
+        'hospitals': '醫院資料',
+        'notes': '活動記錄',
+        'contacts': '聯絡人',
+        'usage_records': '訂單',
+        'installed_equipment': '設備',
+        'contracts': '合約',
+        'service_tickets': '維修單'
+    };
+
+    const remoteEventNames: Record<RemoteEdit['eventType'], string> = {
+        'INSERT': '新增',
+        'UPDATE': '修改',
+        'DELETE': '刪除'
+    };
+
     // 是否顯示導航按鈕
     const showNavigation = hasPrev || hasNext;
 
@@ -161,56 +231,38 @@ const HospitalDetail: React.FC<HospitalDetailProps> = ({
 
             {/* Content - 加入底部 padding 給手機版浮動按鈕留空間 */}
             <div className={`p-4 md:p-6 lg:p-10 max-w-[1400px] mx-auto w-full space-y-6 ${showNavigation ? 'pb-24 md:pb-6' : ''}`}>
-                {!showInsight ? (
-                    <button
-                        onClick={fetchInsight}
-                        className="w-full bg-gradient-to-r from-slate-50 to-blue-50 border border-slate-200/80 rounded-2xl px-4 md:px-6 py-4 flex items-center justify-between hover:shadow-lg hover:border-blue-200 hover:-translate-y-0.5 transition-all group"
-                    >
-                        <div className="flex items-center space-x-3 md:space-x-4">
-                            <div className="p-2 md:p-2.5 bg-white rounded-xl shadow-sm border border-slate-100 group-hover:border-blue-200 group-hover:shadow-md transition-all">
-                                <Brain size={20} className="text-slate-500 group-hover:text-blue-600" />
-                            </div>
-                            <div className="text-left">
-                                <h3 className="font-bold text-slate-900 text-sm md:text-base">AI 客戶洞察</h3>
-                                <p className="text-xs md:text-sm text-slate-500">分析設備使用與建議下一步行動</p>
+                {/* 其他使用者編輯提示 */}
+                {visibleRemoteEdit && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-2xl px-4 md:px-5 py-3 flex items-start md:items-center justify-between gap-3">
+                        <div className="flex items-start md:items-center space-x-3 min-w-0">
+                            <div className="p-1.5 bg-amber-100 rounded-lg flex-shrink-0">
+                                <Users size={16} className="text-amber-700" />
                             </div>
+                            <p className="text-sm text-amber-800">
+                                <span className="font-semibold">其他使用者剛剛{remoteEventNames[visibleRemoteEdit.eventType]}了{remoteTableNames[visibleRemoteEdit.table]}</span>
+                                <span className="text-amber-700">（{new Date(visibleRemoteEdit.at).toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })}），畫面已更新為最新資料。若您正在編輯，儲存前請再確認內容。</span>
+                            </p>
                         </div>
-                        <span className="bg-white text-blue-600 px-3 md:px-4 py-2 rounded-xl text-xs md:text-sm font-semibold flex items-center space-x-1 md:space-x-2 shadow-sm border border-blue-100 group-hover:bg-blue-600 group-hover:text-white group-hover:border-blue-600 transition-all">
-                            <Sparkles size={14} /> <span>生成報告</span>
-                        </span>
-                    </button>
-                ) : (
-                    <div className="bg-gradient-to-br from-slate-50 to-blue-50/50 border border-slate-200 rounded-2xl p-4 md:p-6 relative">
-                        <button onClick={() => setShowInsight(false)} className="absolute top-3 right-3 md:top-4 md:right-4 p-1.5 hover:bg-white rounded-lg transition-colors">
-                            <X size={18} className="text-slate-400" />
+                        <button onClick={() => setVisibleRemoteEdit(null)} className="p-1 hover:bg-amber-100 rounded-lg transition-colors flex-shrink-0">
+                            <X size={16} className="text-amber-600" />
                         </button>
-                        <div className="flex items-center space-x-3 mb-4">
-                            <div className="p-2 bg-blue-100 rounded-lg"><Brain size={18} className="text-blue-600" /></div>
-                            <h3 className="font-bold text-slate-900">AI 客戶洞察</h3>
-                        </div>
-                        {isLoadingInsight ? (
-                            <div className="flex items-center space-x-3 text-slate-500 py-4">
-                                <div className="animate-spin rounded-full h-5 w-5 border-2 border-blue-600 border-t-transparent"></div>
-                                <span>正在分析客戶資料...</span>
-                            </div>
-                        ) : (
-                            <div className="prose prose-sm prose-slate max-w-none text-slate-700 leading-relaxed whitespace-pre-wrap">{insight}</div>
-                        )}
                     </div>
                 )}
 
                 <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 overflow-hidden">
                     <nav className="border-b border-slate-200 px-4 md:px-6 flex space-x-4 md:space-x-6 overflow-x-auto">
-                        {(Object.keys(tabNames) as Array<keyof typeof tabNames>).map(tab => (
-                            <button key={tab} onClick={() => setActiveTab(tab)} className={`py-3 md:py-4 px-1 md:px-2 text-sm font-semibold border-b-2 transition-all whitespace-nowrap ${activeTab === tab ? 'border-blue-600 text-blue-600 font-bold' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}>{tabNames[tab]}</button>
+                        {(Object.keys(tabNames) as HospitalDetailTab[]).map(tab => (
+                            <button key={tab} onClick={() => onTabChange?.(tab)} className={`py-3 md:py-4 px-1 md:px-2 text-sm font-semibold border-b-2 transition-all whitespace-nowrap ${activeTab === tab ? 'border-blue-600 text-blue-600 font-bold' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}>{tabNames[tab]}</button>
                         ))}
                     </nav>
                 </div>
 
-                {activeTab === 'overview' && <OverviewTab hospital={hospital} contacts={contacts} usageHistory={usageHistory} onAddEquipment={onAddEquipment} onUpdateEquipment={onUpdateEquipment} onDeleteEquipment={onDeleteEquipment} onUpdateHospital={onUpdateHospital} />}
-                {activeTab === 'orders' && <OrdersTab hospital={hospital} usageHistory={usageHistory} onAddUsageRecord={onAddUsageRecord} onUpdateUsageRecord={onUpdateUsageRecord} onDeleteUsageRecord={onDeleteUsageRecord} />}
+                {activeTab === 'overview' && <OverviewTab hospital={hospital} hospitals={hospitals} contacts={contacts} notes={notes} usageHistory={usageHistory} onAddNote={onAddNote} onAddEquipment={onAddEquipment} onUpdateEquipment={onUpdateEquipment} onDeleteEquipment={onDeleteEquipment} onUpdateHospital={onUpdateHospital} onUsageRecordsCreated={onUsageRecordsCreated} attachments={attachments} />}
+                {activeTab === 'orders' && <OrdersTab hospital={hospital} usageHistory={usageHistory} isLoading={isLoadingUsage} onAddUsageRecord={onAddUsageRecord} onUpdateUsageRecord={onUpdateUsageRecord} onDeleteUsageRecord={onDeleteUsageRecord} />}
                 {activeTab === 'contacts' && <ContactsTab hospital={hospital} contacts={contacts} onAddContact={onAddContact} onUpdateContact={onUpdateContact} />}
-                {activeTab === 'notes' && <NotesTab hospital={hospital} notes={notes} contacts={contacts} onAddNote={onAddNote} onUpdateNote={onUpdateNote} onDeleteNote={onDeleteNote} onAddContact={onAddContact} />}
+                {activeTab === 'notes' && <NotesTab hospital={hospital} notes={notes} contacts={contacts} hasMore={hasMoreNotes} isLoading={isLoadingNotes} onLoadMore={onLoadMoreNotes} onAddNote={onAddNote} onUpdateNote={onUpdateNote} onDeleteNote={onDeleteNote} onAddContact={onAddContact} onAddUsageRecord={onAddUsageRecord} attachments={attachments} />}
+                {activeTab === 'files' && <FilesTab hospital={hospital} notes={notes} attachments={attachments} isLoading={isLoadingAttachments} onReload={loadAttachments} onAttachmentsChange={setAttachments} />}
+                {activeTab === 'history' && <HistoryTab hospital={hospital} />}
             </div>
 
             {/* 手機版：底部浮動導航按鈕 */}
@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Search, Filter, ChevronRight, Plus, X, ArrowUpDown, ArrowUp, ArrowDown, MapPin, Building, DollarSign } from 'lucide-react';
+import { Search, Filter, ChevronRight, Plus, X, ArrowUpDown, ArrowUp, ArrowDown, MapPin, Building, DollarSign, Wrench } from 'lucide-react';
 import { Hospital, SalesStage, HospitalLevel, Region, City } from '../types';
 
 interface HospitalListProps {
@@ -215,6 +215,16 @@ const HospitalList: React.FC<HospitalListProps> = ({ hospitals, onSelectHospital
     );
   };
 
+  const getOpenTicketBadge = (hospital: Hospital) => {
+    if (!hospital.openTicketCount) return null;
+    return (
+      <span className="inline-flex items-center mt-1 px-1.5 py-0.5 rounded text-[11px] font-semibold bg-red-50 text-red-600">
+        <Wrench size={11} className="mr-1" />
+        {hospital.openTicketCount} 張維修中
+      </span>
+    );
+  };
+
   const getEquipmentSummary = (hospital: Hospital) => {
     if (!hospital.installedEquipment || hospital.installedEquipment.length === 0) {
       return <span className="text-slate-400 text-sm">-</span>;
@@ -390,6 +400,7 @@ const HospitalList: React.FC<HospitalListProps> = ({ hospitals, onSelectHospital
                     <div>
                       <span className="font-semibold text-slate-900 group-hover:text-blue-600 transition-colors block">{hospital.name}</span>
                       <span className="text-xs text-slate-400 truncate block max-w-[200px]">{hospital.address}</span>
+                      {getOpenTicketBadge(hospital)}
                     </div>
                   </td>
                   <td className="px-4 py-4 text-sm text-slate-600 font-medium">{hospital.region}</td>
@@ -450,7 +461,10 @@ const HospitalList: React.FC<HospitalListProps> = ({ hospitals, onSelectHospital
               </div>
               <div className="flex justify-between text-sm items-start">
                 <span className="text-slate-500 mt-0.5">設備</span>
-                <div className="text-right">{getEquipmentSummary(hospital)}</div>
+                <div className="text-right">
+                  {getEquipmentSummary(hospital)}
+                  {getOpenTicketBadge(hospital)}
+                </div>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-slate-500">上次拜訪</span>
@@ -1,23 +1,43 @@
-import React, { useState } from 'react';
-import { LayoutDashboard, Building2, LogOut, Activity, ChevronLeft, ChevronRight, Menu, X, Loader, Calendar, DollarSign } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { LayoutDashboard, Building2, LogOut, Activity, ChevronLeft, ChevronRight, Menu, X, Loader, Calendar, DollarSign, FileText, Handshake, CloudOff, RefreshCw, Search } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useSync } from '../contexts/SyncContext';
+import { Hospital } from '../types';
+import CommandPalette from './CommandPalette';
 
 interface LayoutProps {
   children: React.ReactNode;
   activeTab: string;
   setActiveTab: (tab: string) => void;
+  hospitals: Hospital[];
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab }) => {
+const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, hospitals }) => {
   const { profile, signOut } = useAuth();
+  const { isOnline, pendingCount, isSyncing, syncNow } = useSync();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Ctrl+K（Mac 為 ⌘K）開啟全站搜尋
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const navItems = [
     { id: 'dashboard', label: '儀表板', icon: LayoutDashboard },
     { id: 'hospitals', label: '醫院列表', icon: Building2 },
     { id: 'pricelist', label: '價格清單', icon: DollarSign },
+    { id: 'contracts', label: '合約管理', icon: FileText },
+    { id: 'loans', label: '借用設備', icon: Handshake },
     { id: 'calendar', label: '行事曆', icon: Calendar },
   ];
 
@@ -29,9 +49,13 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab }) =>
   const handleLogout = async () => {
     try {
       setIsLoggingOut(true);
+      const signedOut = await signOut();
+      if (!signedOut) {
+        setIsLoggingOut(false);
+        return;
+      }
       // 清除 sessionStorage（包含排序設定等）
       sessionStorage.clear();
-      await signOut();
       // signOut 會清除 user state，App.tsx 會自動顯示 Login 頁面
     } catch (error) {
       console.error('登出失敗:', error);
@@ -39,6 +63,15 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab }) =>
     }
   };
 
+  // 同步狀態：離線、同步中或有待同步資料時才顯示
+  const showSyncStatus = !isOnline || isSyncing || pendingCount > 0;
+  const syncLabel = !isOnline
+    ? (pendingCount > 0 ? `離線模式 · ${pendingCount} 筆待同步` : '離線模式')
+    : isSyncing
+      ? '同步中...'
+      : `${pendingCount} 筆待同步`;
+  const SyncIcon = !isOnline ? CloudOff : RefreshCw;
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden relative selection:bg-blue-100">
       
@@ -82,6 +115,26 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab }) =>
           </button>
         </div>
 
+        {/* Search */}
+        <div className="px-4 pt-6 shrink-0">
+          <button
+            onClick={() => {
+              setIsSearchOpen(true);
+              setIsMobileMenuOpen(false);
+            }}
+            title="搜尋 (Ctrl+K)"
+            className={`w-full flex items-center ${isCollapsed && !isMobileMenuOpen ? 'justify-center px-2' : 'space-x-3 px-3.5'} py-2.5 rounded-xl bg-slate-800/50 text-slate-400 hover:text-slate-100 hover:bg-slate-800 transition-colors`}
+          >
+            <Search size={18} className="flex-shrink-0" />
+            {(!isCollapsed || isMobileMenuOpen) && (
+              <>
+                <span className="flex-1 text-left text-sm">搜尋...</span>
+                <kbd className="hidden md:block text-[10px] font-medium text-slate-500 border border-slate-700 rounded px-1.5 py-0.5">Ctrl K</kbd>
+              </>
+            )}
+          </button>
+        </div>
+
         {/* Navigation */}
         <nav className="flex-1 px-4 py-6 space-y-1.5 overflow-hidden">
           {(!isCollapsed || isMobileMenuOpen) && (
@@ -132,6 +185,23 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab }) =>
              </button>
         </div>
 
+        {/* Sync Status */}
+        {showSyncStatus && (
+          <div className="px-4 py-3 border-t border-slate-800/50 shrink-0">
+            <button
+              onClick={syncNow}
+              disabled={!isOnline || isSyncing}
+              title={syncLabel}
+              className={`w-full flex items-center ${isCollapsed && !isMobileMenuOpen ? 'justify-center' : 'space-x-2.5 px-3'} py-2 rounded-lg text-xs font-medium transition-colors disabled:cursor-default ${
+                isOnline ? 'text-amber-300 bg-amber-500/10 hover:bg-amber-500/20' : 'text-slate-300 bg-slate-800/70'
+              }`}
+            >
+              <SyncIcon size={16} className={`flex-shrink-0 ${isSyncing ? 'animate-spin' : ''}`} />
+              {(!isCollapsed || isMobileMenuOpen) && <span className="truncate">{syncLabel}</span>}
+            </button>
+          </div>
+        )}
+
         {/* User Profile / Footer */}
         <div className="p-4 border-t border-slate-800 bg-slate-900/50 shrink-0">
           <div 
@@ -189,15 +259,34 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab }) =>
             </div>
             <span className="font-bold text-slate-800 text-lg tracking-tight">MedSales</span>
           </div>
-          <button onClick={() => setIsMobileMenuOpen(true)} className="text-slate-500 hover:text-slate-800 p-1.5 rounded-md hover:bg-slate-100 transition-colors">
-            <Menu size={24} />
-          </button>
+          {showSyncStatus && (
+            <button
+              onClick={syncNow}
+              disabled={!isOnline || isSyncing}
+              className={`ml-auto mr-2 flex items-center space-x-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${
+                isOnline ? 'bg-amber-50 text-amber-700 border border-amber-200' : 'bg-slate-100 text-slate-600 border border-slate-200'
+              }`}
+            >
+              <SyncIcon size={14} className={isSyncing ? 'animate-spin' : ''} />
+              <span>{syncLabel}</span>
+            </button>
+          )}
+          <div className="flex items-center space-x-1">
+            <button onClick={() => setIsSearchOpen(true)} className="text-slate-500 hover:text-slate-800 p-1.5 rounded-md hover:bg-slate-100 transition-colors" aria-label="搜尋">
+              <Search size={22} />
+            </button>
+            <button onClick={() => setIsMobileMenuOpen(true)} className="text-slate-500 hover:text-slate-800 p-1.5 rounded-md hover:bg-slate-100 transition-colors">
+              <Menu size={24} />
+            </button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-auto">
             {children}
         </div>
       </main>
+
+      <CommandPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} hospitals={hospitals} />
     </div>
   );
 };
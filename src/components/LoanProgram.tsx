@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Handshake, Search, Loader, Settings2, ChevronRight, AlertTriangle, Check, X } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { EquipmentAsset, Hospital, ProductType, UsageRecord } from '../types';
+import { useProducts } from '../contexts/ProductContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchLoanProgramAssets, fetchUsageRecordsInRange } from '../services/databaseService';
+import {
+  DEFAULT_LOAN_UTILIZATION_SETTINGS,
+  LoanUtilizationSettings,
+  buildConversionTrend,
+  buildLoanPlacements,
+  fetchLoanUtilizationSettings,
+  getEarliestLoanStart,
+  saveLoanUtilizationSettings,
+  summarizeLoanProgram,
+  validateLoanUtilizationSettings
+} from '../services/loanService';
+
+interface LoanProgramProps {
+  hospitals: Hospital[];
+}
+
+type LoanFilter = 'active' | 'under_utilized' | 'converted' | 'all';
+
+const LoanProgram: React.FC<LoanProgramProps> = ({ hospitals }) => {
+  const navigate = useNavigate();
+  const { getProduct } = useProducts();
+  const { isManagerOrAdmin } = useAuth();
+  const { showError } = useToast();
+
+  const [assets, setAssets] = useState<EquipmentAsset[]>([]);
+  const [isLoadingAssets, setIsLoadingAssets] = useState(true);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [isLoadingRecords, setIsLoadingRecords] = useState(true);
+  const [settings, setSettings] = useState<LoanUtilizationSettings>(DEFAULT_LOAN_UTILIZATION_SETTINGS);
+  const [settingsForm, setSettingsForm] = useState<LoanUtilizationSettings>(settings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState<LoanFilter>('active');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLoanUtilizationSettings()
+      .then(data => { if (!cancelled) setSettings(data); })
+      .catch(error => console.error('Error loading loan utilization settings:', error));
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLoanProgramAssets()
+      .then(data => { if (!cancelled) setAssets(data); })
+      .catch(error => console.error('Error loading equipment assets for loan program:', error))
+      .finally(() => { if (!cancelled) setIsLoadingAssets(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // 只載入最早一筆借用開始後的訂單
+  const earliestLoanStart = useMemo(() => getEarliestLoanStart(assets), [assets]);
+
+  useEffect(() => {
+    if (isLoadingAssets) return;
+    if (!earliestLoanStart) {
+      setIsLoadingRecords(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingRecords(true);
+    fetchUsageRecordsInRange(earliestLoanStart)
+      .then(data => { if (!cancelled) setUsageRecords(data); })
+      .catch(error => console.error('Error loading usage records for loan program:', error))
+      .finally(() => { if (!cancelled) setIsLoadingRecords(false); });
+    return () => { cancelled = true; };
+  }, [earliestLoanStart, isLoadingAssets]);
+
+  const isLoading = isLoadingAssets || isLoadingRecords;
+
+  const placements = useMemo(
+    () => buildLoanPlacements(
+      assets,
+      hospitals,
+      usageRecords,
+      code => getProduct(code)?.type === ProductType.CONSUMABLE,
+      settings
+    ),
+    [assets, hospitals, usageRecords, getProduct, settings]
+  );
+
+  const summary = useMemo(() => summarizeLoanProgram(placements), [placements]);
+  const conversionTrend = useMemo(() => buildConversionTrend(placements), [placements]);
+
+  const filteredPlacements = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return placements
+      .filter(p => {
+        if (filter === 'active' && p.status !== 'active') return false;
+        if (filter === 'under_utilized' && !p.isUnderUtilized) return false;
+        if (filter === 'converted' && p.status !== 'converted') return false;
+        if (term) {
+          const productName = getProduct(p.asset.productCode)?.name.toLowerCase() || '';
+          if (!p.hospital.name.toLowerCase().includes(term) && !p.asset.productCode.toLowerCase().includes(term)
+            && !productName.includes(term) && !p.asset.serialNumber.toLowerCase().includes(term)) {
+            return false;
+          }
+        }
+        return true;
+      })
+      // 低度使用的排最前面，其次依每台每月用量由低到高
+      .sort((a, b) => Number(b.isUnderUtilized) - Number(a.isUnderUtilized) || a.monthlyPerUnit - b.monthlyPerUnit);
+  }, [placements, filter, searchTerm, getProduct]);
+
+  const settingsError = validateLoanUtilizationSettings(settingsForm);
+
+  // 低度使用標準全團隊共用，只有主管與管理員可以修改
+  const handleSaveSettings = async () => {
+    if (settingsError) return;
+    setIsSavingSettings(true);
+    try {
+      const result = await saveLoanUtilizationSettings(settingsForm);
+      if (result.ok === false) {
+        showError(result.error, '儲存低度使用標準');
+        return;
+      }
+      setSettings(settingsForm);
+      setIsSettingsOpen(false);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const summaryCards: { filter: LoanFilter; label: string; value: string; className: string }[] = [
+    { filter: 'active', label: '借用中', value: `${summary.activeUnits} 台`, className: 'text-blue-600' },
+    { filter: 'under_utilized', label: '低度使用・建議收回', value: `${summary.underUtilizedUnits} 台`, className: 'text-red-600' },
+    { filter: 'converted', label: '已轉換', value: `${summary.convertedUnits} 台（${Math.round(summary.conversionRate * 100)}%）`, className: 'text-emerald-600' },
+    { filter: 'all', label: '平均轉換天數', value: summary.averageDaysToConvert === null ? '-' : `${summary.averageDaysToConvert} 天`, className: 'text-slate-700' }
+  ];
+
+  return (
+    <div className="p-4 md:p-6 lg:p-10 max-w-[1600px] mx-auto h-full flex flex-col relative overflow-y-auto">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-4 md:mb-8 space-y-2 md:space-y-0">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-slate-900 tracking-tight">借用設備</h1>
+          <p className="text-slate-500 text-sm md:text-base mt-1">追蹤借用機的借用天數、耗材用量與轉為買斷或租賃的進度。</p>
+        </div>
+        <button
+          onClick={() => { setSettingsForm(settings); setIsSettingsOpen(!isSettingsOpen); }}
+          className={`flex items-center space-x-1.5 px-3 py-2 rounded-xl font-medium border transition-all ${isSettingsOpen ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-300'}`}
+        >
+          <Settings2 size={16} />
+          <span className="text-sm">低度使用標準</span>
+        </button>
+      </div>
+
+      {/* 低度使用標準 */}
+      {isSettingsOpen && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-4">
+          <p className="text-sm text-slate-600 mb-3">
+            借用超過觀察期後，每台每月耗材訂購量低於標準即標示為低度使用。
+            {!isManagerOrAdmin && '此標準全團隊共用，只有主管與管理員可以修改。'}
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">每台每月耗材量（個）</span>
+              <input
+                type="number"
+                min={1}
+                value={settingsForm.minMonthlyPerUnit || ''}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, minMonthlyPerUnit: parseFloat(e.target.value) || 0 }))}
+                disabled={!isManagerOrAdmin || isSavingSettings}
+                className="w-32 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:bg-white focus:border-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">觀察期（天）</span>
+              <input
+                type="number"
+                min={0}
+                value={settingsForm.graceDays}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, graceDays: parseInt(e.target.value) || 0 }))}
+                disabled={!isManagerOrAdmin || isSavingSettings}
+                className="w-28 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:bg-white focus:border-blue-500"
+              />
+            </label>
+            {isManagerOrAdmin && (
+              <button onClick={handleSaveSettings} disabled={!!settingsError || isSavingSettings} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1">
+                {isSavingSettings ? <Loader size={16} className="animate-spin" /> : <Check size={16} />}儲存
+              </button>
+            )}
+            <button onClick={() => setIsSettingsOpen(false)} className="px-3 py-2 text-sm text-slate-500 hover:text-slate-700 flex items-center gap-1">
+              <X size={16} />{isManagerOrAdmin ? '取消' : '關閉'}
+            </button>
+          </div>
+          {settingsError && <p className="text-xs text-red-600 mt-2">{settingsError}</p>}
+        </div>
+      )}
+
+      {/* 摘要 */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 md:gap-4 mb-4">
+        {summaryCards.map(card => (
+          <button
+            key={card.filter}
+            onClick={() => setFilter(card.filter)}
+            className={`text-left bg-white rounded-xl p-3 md:p-4 border shadow-sm transition-all ${filter === card.filter ? 'border-blue-400 ring-2 ring-blue-500/10' : 'border-slate-200 hover:border-blue-300'}`}
+          >
+            <p className="text-slate-500 text-xs md:text-sm mb-1">{card.label}</p>
+            <p className={`text-lg md:text-2xl font-bold ${card.className}`}>{card.value}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* 每月轉換台數 */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 p-4 md:p-6 mb-4">
+        <h2 className="text-lg font-bold text-slate-900 mb-4">近 12 個月轉換</h2>
+        <div className="h-56">
+          {summary.convertedUnits > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={conversionTrend}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="month" tick={{ fill: '#94a3b8', fontSize: 11 }} axisLine={false} tickLine={false} />
+                <YAxis allowDecimals={false} tick={{ fill: '#94a3b8', fontSize: 11 }} axisLine={false} tickLine={false} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [`${value} 台`, name]}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 25px -5px rgb(0 0 0 / 0.1)' }}
+                  cursor={{ fill: 'rgba(59, 130, 246, 0.05)' }}
+                />
+                <Legend />
+                <Bar dataKey="買斷" stackId="conversion" fill="#10b981" />
+                <Bar dataKey="租賃" stackId="conversion" fill="#3b82f6" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-slate-400 text-sm bg-slate-50 rounded-xl">尚無借用轉換記錄</div>
+          )}
+        </div>
+      </div>
+
+      {/* Search Bar */}
+      <div className="bg-white p-3 md:p-4 rounded-xl shadow-sm border border-slate-200/60 mb-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={18} />
+          <input
+            type="text"
+            placeholder="搜尋醫院、產品或序號..."
+            className="w-full pl-10 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/10 transition-all text-sm"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {/* Loan Table */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200/60 overflow-hidden">
+        {isLoading ? (
+          <div className="p-16 text-center text-slate-500">
+            <Loader size={24} className="mx-auto mb-3 animate-spin text-slate-300" />
+            載入借用設備與耗材訂單中...
+          </div>
+        ) : filteredPlacements.length === 0 ? (
+          <div className="p-16 text-center">
+            <Handshake size={32} className="mx-auto mb-3 text-slate-300" />
+            <p className="text-slate-500 font-medium">沒有符合條件的借用設備</p>
+            <p className="text-slate-400 text-sm mt-1">在醫院總覽登錄所有權為「借用」的設備序號即會列在這裡</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                  <th className="px-6 py-3">醫院</th>
+                  <th className="px-4 py-3">設備</th>
+                  <th className="px-4 py-3">借用期間</th>
+                  <th className="px-4 py-3 text-right">借用天數</th>
+                  <th className="px-4 py-3 text-right">期間耗材量</th>
+                  <th className="px-4 py-3 text-right">每月耗材量</th>
+                  <th className="px-4 py-3">狀態</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {filteredPlacements.map(placement => {
+                  const { asset, hospital } = placement;
+                  return (
+                    <tr key={asset.id} className={`transition-colors ${placement.isUnderUtilized ? 'bg-red-50/40 hover:bg-red-50' : 'hover:bg-slate-50/60'}`}>
+                      <td className="px-6 py-3">
+                        <button onClick={() => navigate(`/hospitals/${hospital.id}`)} className="text-left group">
+                          <p className="font-semibold text-slate-900 group-hover:text-blue-600 flex items-center gap-1">
+                            {hospital.name}
+                            <ChevronRight size={14} className="opacity-0 group-hover:opacity-100" />
+                          </p>
+                          <p className="text-xs text-slate-400">{hospital.region}・{hospital.level}</p>
+                        </button>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className="font-semibold text-slate-700">{asset.productCode}</span>
+                        <span className="font-mono text-xs text-slate-400 ml-1">#{asset.serialNumber}</span>
+                        <p className="text-xs text-slate-400">{getProduct(asset.productCode)?.name || ''}{asset.location ? `・${asset.location}` : ''}</p>
+                      </td>
+                      <td className="px-4 py-3 text-slate-700 whitespace-nowrap">
+                        {placement.loanStart} ~ {placement.loanEnd || '今'}
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-700">{placement.daysOnLoan}</td>
+                      <td className="px-4 py-3 text-right text-slate-700">{placement.consumableQuantity.toLocaleString()}</td>
+                      <td className={`px-4 py-3 text-right font-semibold ${placement.isUnderUtilized ? 'text-red-600' : 'text-slate-900'}`}>
+                        {placement.monthlyPerUnit.toFixed(1)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {placement.status === 'converted' ? (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-700">已轉{asset.ownership}</span>
+                        ) : placement.isUnderUtilized ? (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+                            <AlertTriangle size={12} />建議收回
+                          </span>
+                        ) : placement.daysOnLoan < settings.graceDays ? (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-slate-100 text-slate-500">觀察期</span>
+                        ) : (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-700">使用正常</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoanProgram;
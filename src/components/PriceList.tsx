@@ -19,7 +19,8 @@ import {
   FileText
 } from 'lucide-react';
 import { Hospital, Region, HospitalLevel, ProductType } from '../types';
-import { PRODUCTS } from '../constants';
+import { useProducts } from '../contexts/ProductContext';
+import PriceTimeline from './PriceTimeline';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
@@ -34,7 +35,7 @@ interface PriceListProps {
   hospitals: Hospital[];
 }
 
-type ViewMode = 'matrix' | 'list';
+type ViewMode = 'matrix' | 'list' | 'timeline';
 type SortKey = 'hospital' | 'region' | 'level' | 'price';
 type SortDirection = 'asc' | 'desc';
 
@@ -55,6 +56,7 @@ const LEVEL_ORDER: Record<string, number> = {
 
 const PriceList: React.FC<PriceListProps> = ({ hospitals }) => {
   const navigate = useNavigate();
+  const { activeProducts } = useProducts();
   const [searchTerm, setSearchTerm] = useState('');
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [isFilterOpen, setIsFilterOpen] = useState(false);
@@ -68,8 +70,8 @@ const PriceList: React.FC<PriceListProps> = ({ hospitals }) => {
 
   // 取得耗材產品列表
   const consumableProducts = useMemo(() => 
-    PRODUCTS.filter(p => p.type === ProductType.CONSUMABLE),
-    []
+    activeProducts.filter(p => p.type === ProductType.CONSUMABLE),
+    [activeProducts]
   );
 
   // 預設選擇第一個耗材
@@ -549,12 +551,22 @@ const PriceList: React.FC<PriceListProps> = ({ hospitals }) => {
             >
               矩陣檢視
             </button>
+            <button
+              onClick={() => setViewMode('timeline')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                viewMode === 'timeline' 
+                  ? 'bg-white text-slate-900 shadow-sm' 
+                  : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              價格歷史
+            </button>
           </div>
         </div>
       </div>
 
-      {/* Product Tabs - 清單模式 */}
-      {viewMode === 'list' && (
+      {/* Product Tabs - 清單與價格歷史模式 */}
+      {viewMode !== 'matrix' && (
         <div className="flex gap-2 mb-4 overflow-x-auto pb-2 md:pb-0">
           {consumableProducts.map(product => (
             <button
@@ -762,6 +774,13 @@ const PriceList: React.FC<PriceListProps> = ({ hospitals }) => {
         </div>
       )}
 
+      {/* Desktop Timeline View */}
+      {viewMode === 'timeline' && matrixData.length > 0 && (
+        <div className="hidden md:block bg-white rounded-2xl shadow-sm border border-slate-200/60 flex-1 min-h-0 overflow-auto">
+          <PriceTimeline hospitals={matrixData} productCode={selectedProduct} />
+        </div>
+      )}
+
       {/* Desktop Matrix View */}
       {viewMode === 'matrix' && (
         <div className="hidden md:block bg-white rounded-2xl shadow-sm border border-slate-200/60 flex-1 min-h-0 overflow-hidden">
@@ -899,7 +918,7 @@ const PriceList: React.FC<PriceListProps> = ({ hospitals }) => {
       </div>
 
       {/* Empty State for Desktop */}
-      {((viewMode === 'list' && sortedPriceData.length === 0) || (viewMode === 'matrix' && matrixData.length === 0)) && (
+      {((viewMode === 'list' && sortedPriceData.length === 0) || (viewMode !== 'list' && matrixData.length === 0)) && (
         <div className="hidden md:flex p-16 text-center text-slate-400 flex-col items-center justify-center">
           <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4">
             <DollarSign size={24} className="text-slate-300" />
@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader, TrendingUp, TrendingDown, History, ChevronRight } from 'lucide-react';
+import { Hospital, ConsumablePriceChange } from '../types';
+import { fetchPriceHistory } from '../services/databaseService';
+
+interface PriceTimelineProps {
+  hospitals: Hospital[];  // 已套用搜尋、區域與等級篩選
+  productCode: string;
+}
+
+const formatPrice = (price: number) => `$${price.toLocaleString()}`;
+
+// 價格時間軸：逐家醫院列出選定耗材的議定價異動，由舊到新
+const PriceTimeline: React.FC<PriceTimelineProps> = ({ hospitals, productCode }) => {
+  const navigate = useNavigate();
+  const [history, setHistory] = useState<ConsumablePriceChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!productCode) return;
+    let cancelled = false;
+    setIsLoading(true);
+    fetchPriceHistory({ productCodes: [productCode] })
+      .then(data => { if (!cancelled) setHistory(data); })
+      .catch(error => console.error('Error loading price history:', error))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [productCode]);
+
+  const rows = useMemo(() => {
+    const byHospital = new Map<string, ConsumablePriceChange[]>();
+    history.forEach(change => {
+      byHospital.set(change.hospitalId, [...(byHospital.get(change.hospitalId) || []), change]);
+    });
+    return hospitals
+      .map(hospital => ({
+        hospital,
+        changes: byHospital.get(hospital.id) || [],
+        currentPrice: hospital.consumables?.find(c => c.code === productCode)?.price
+      }))
+      .filter(row => row.changes.length > 0 || row.currentPrice);
+  }, [history, hospitals, productCode]);
+
+  if (isLoading) {
+    return (
+      <div className="p-16 text-center text-slate-500">
+        <Loader size={24} className="mx-auto mb-3 animate-spin text-slate-300" />
+        載入價格異動記錄...
+      </div>
+    );
+  }
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="divide-y divide-slate-100">
+      {rows.map(({ hospital, changes, currentPrice }) => (
+        <div key={hospital.id} className="px-6 py-4 flex items-start gap-6 hover:bg-slate-50/60 transition-colors">
+          <button
+            onClick={() => navigate(`/hospitals/${hospital.id}`)}
+            className="w-48 shrink-0 text-left group"
+          >
+            <p className="font-semibold text-slate-900 group-hover:text-blue-600 flex items-center gap-1">
+              <span className="truncate">{hospital.name}</span>
+              <ChevronRight size={14} className="shrink-0 opacity-0 group-hover:opacity-100" />
+            </p>
+            <p className="text-xs text-slate-400 mt-0.5">{hospital.region}・{hospital.level}</p>
+          </button>
+
+          {changes.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-slate-400 py-1">
+              <History size={14} />
+              目前 {formatPrice(currentPrice || 0)}，尚無異動記錄
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 overflow-x-auto pb-1">
+              {changes[0].previousPrice != null && (
+                <div className="shrink-0 px-3 py-1.5 rounded-lg border border-dashed border-slate-200 text-xs text-slate-400">
+                  <p>調整前</p>
+                  <p className="font-semibold text-slate-500">{formatPrice(changes[0].previousPrice)}</p>
+                </div>
+              )}
+              {changes.map(change => {
+                const previous = change.previousPrice;
+                const delta = previous ? (change.price - previous) / previous * 100 : null;
+                return (
+                  <React.Fragment key={change.id}>
+                    <div className="shrink-0 w-4 h-px bg-slate-300" />
+                    <div
+                      className="shrink-0 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-xs"
+                      title={`${change.reason || '未填寫原因'}（${change.changedByName}）`}
+                    >
+                      <p className="text-slate-400">{change.effectiveDate}</p>
+                      <p className="font-bold text-slate-900 text-sm flex items-center gap-1">
+                        {formatPrice(change.price)}
+                        {delta !== null && delta !== 0 && (
+                          <span className={`flex items-center text-[11px] font-semibold ${delta > 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                            {delta > 0 ? <TrendingUp size={11} /> : <TrendingDown size={11} />}
+                            {Math.abs(delta).toFixed(1)}%
+                          </span>
+                        )}
+                      </p>
+                      {change.reason && <p className="text-slate-500 max-w-[160px] truncate">{change.reason}</p>}
+                    </div>
+                  </React.Fragment>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PriceTimeline;
@@ -0,0 +1,387 @@
+import React, { useState } from 'react';
+import { Package, Plus, Pencil, Loader, Check, X, Shield, AlertCircle, Archive, RotateCcw, Download } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useProducts } from '../contexts/ProductContext';
+import { createProduct, updateProduct, importProducts } from '../services/databaseService';
+import { describeError } from '../services/dataErrors';
+import { Product, ProductType } from '../types';
+import { DEFAULT_PRODUCTS } from '../constants';
+
+const TYPE_COLORS: Record<ProductType, string> = {
+  [ProductType.EQUIPMENT]: 'bg-blue-50 text-blue-700',
+  [ProductType.CONSUMABLE]: 'bg-emerald-50 text-emerald-700',
+};
+
+const EMPTY_FORM = {
+  code: '',
+  name: '',
+  type: ProductType.CONSUMABLE as ProductType,
+  description: '',
+  sortOrder: '',
+  listPrice: ''
+};
+
+const ProductManagement: React.FC = () => {
+  const { profile: currentUserProfile } = useAuth();
+  const { products, loading, refreshProducts } = useProducts();
+  const [error, setError] = useState<string | null>(null);
+
+  // 新增 / 編輯 Modal
+  const [showModal, setShowModal] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // 停售 / 恢復銷售中的產品代碼
+  const [togglingCode, setTogglingCode] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // 檢查是否為 admin
+  const isAdmin = currentUserProfile?.role_type === 'admin';
+
+  const openAddModal = () => {
+    setEditingProduct(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (product: Product) => {
+    setEditingProduct(product);
+    setForm({
+      code: product.code,
+      name: product.name,
+      type: product.type,
+      description: product.description || '',
+      sortOrder: product.sortOrder?.toString() || '',
+      listPrice: product.listPrice?.toString() || ''
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingProduct(null);
+    setFormError(null);
+  };
+
+  // 儲存產品（新增或編輯）
+  const handleSave = async () => {
+    const code = form.code.trim().toUpperCase();
+    if (!code || !form.name.trim()) {
+      setFormError('請填寫產品代碼與名稱');
+      return;
+    }
+
+    if (!editingProduct && products.some(p => p.code === code)) {
+      setFormError('此產品代碼已存在');
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError(null);
+
+    const product: Product = {
+      code,
+      name: form.name.trim(),
+      type: form.type,
+      description: form.description.trim(),
+      isActive: editingProduct ? editingProduct.isActive : true,
+      sortOrder: form.sortOrder ? parseInt(form.sortOrder) : undefined,
+      listPrice: form.listPrice ? parseInt(form.listPrice) : undefined
+    };
+
+    const result = editingProduct ? await updateProduct(product) : await createProduct(product);
+    setIsSaving(false);
+
+    if (result.ok === false) {
+      setFormError(describeError(result.error, '儲存'));
+      return;
+    }
+    closeModal();
+    await refreshProducts();
+  };
+
+  // 停售 / 恢復銷售
+  const handleToggleActive = async (product: Product) => {
+    setTogglingCode(product.code);
+    setError(null);
+
+    const result = await updateProduct({ ...product, isActive: !product.isActive });
+    if (result.ok === false) {
+      setError(describeError(result.error, '更新產品狀態'));
+    } else {
+      await refreshProducts();
+    }
+    setTogglingCode(null);
+  };
+
+  // 匯入預設產品目錄
+  const handleImportDefaults = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    const result = await importProducts(DEFAULT_PRODUCTS);
+    if (result.ok === false) {
+      setError(describeError(result.error, '匯入預設產品'));
+    } else {
+      await refreshProducts();
+    }
+    setIsImporting(false);
+  };
+
+  // 非 admin 不顯示
+  if (!isAdmin) {
+    return (
+      <div className="p-6 text-center">
+        <Shield size={48} className="mx-auto text-slate-300 mb-4" />
+        <p className="text-slate-500">您沒有權限存取此頁面</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <Loader size={24} className="animate-spin text-blue-600 mr-2" />
+        <span className="text-slate-500">載入產品目錄...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900">產品管理</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            新增、編輯或停售設備與耗材產品
+          </p>
+        </div>
+        <button
+          onClick={openAddModal}
+          className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition-colors shadow-sm"
+        >
+          <Plus size={18} />
+          <span>新增產品</span>
+        </button>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-red-700 text-sm flex items-center">
+          <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* 產品列表 */}
+      <div className="bg-slate-50 rounded-xl border border-slate-200 overflow-hidden">
+        <div className="divide-y divide-slate-200">
+          {products.map((product) => (
+            <div
+              key={product.code}
+              className={`p-4 bg-white flex items-center justify-between gap-4 ${!product.isActive ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-center space-x-3 min-w-0">
+                <div className="w-14 h-10 rounded-lg bg-slate-100 text-slate-700 flex items-center justify-center font-bold text-xs flex-shrink-0">
+                  {product.code}
+                </div>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium text-slate-900 truncate">{product.name}</p>
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${TYPE_COLORS[product.type] || 'bg-slate-50 text-slate-700'}`}>
+                      {product.type}
+                    </span>
+                    {!product.isActive && (
+                      <span className="px-2 py-0.5 rounded-md text-xs font-medium bg-slate-100 text-slate-500">已停售</span>
+                    )}
+                  </div>
+                  {product.description && (
+                    <p className="text-sm text-slate-500 truncate">{product.description}</p>
+                  )}
+                  {product.listPrice !== undefined && (
+                    <p className="text-xs text-slate-400">定價 NT$ {product.listPrice.toLocaleString()}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => openEditModal(product)}
+                  className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="編輯"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => handleToggleActive(product)}
+                  disabled={togglingCode === product.code}
+                  className={`p-2 text-slate-400 rounded-lg transition-colors disabled:opacity-50 ${product.isActive ? 'hover:text-amber-600 hover:bg-amber-50' : 'hover:text-emerald-600 hover:bg-emerald-50'}`}
+                  title={product.isActive ? '停售' : '恢復銷售'}
+                >
+                  {togglingCode === product.code ? (
+                    <Loader size={16} className="animate-spin" />
+                  ) : product.isActive ? (
+                    <Archive size={16} />
+                  ) : (
+                    <RotateCcw size={16} />
+                  )}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {products.length === 0 && (
+          <div className="p-8 text-center bg-white">
+            <Package size={48} className="mx-auto text-slate-300 mb-4" />
+            <p className="text-slate-500 mb-4">產品目錄為空</p>
+            <button
+              onClick={handleImportDefaults}
+              disabled={isImporting}
+              className="inline-flex items-center space-x-2 px-4 py-2.5 border border-slate-300 rounded-xl text-slate-700 font-medium hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              {isImporting ? <Loader size={16} className="animate-spin" /> : <Download size={16} />}
+              <span>匯入預設產品</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* 新增 / 編輯產品 Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold text-slate-900">{editingProduct ? '編輯產品' : '新增產品'}</h3>
+                <button
+                  onClick={closeModal}
+                  className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-100 rounded-lg text-red-700 text-sm flex items-center">
+                  <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+                    產品代碼 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value })}
+                    className="w-full px-4 py-2.5 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all disabled:bg-slate-50 disabled:text-slate-500"
+                    placeholder="例如：AA001"
+                    disabled={!!editingProduct}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-1.5">類型</label>
+                  <select
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as ProductType })}
+                    className="w-full px-4 py-2.5 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all bg-white"
+                  >
+                    <option value={ProductType.EQUIPMENT}>設備</option>
+                    <option value={ProductType.CONSUMABLE}>耗材</option>
+                  </select>
+                </div>
+              </div>
+              {editingProduct && (
+                <p className="text-xs text-slate-400 -mt-2">產品代碼已被訂單與設備記錄引用，無法修改</p>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+                  產品名稱 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-4 py-2.5 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-1.5">說明</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-2.5 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all resize-none"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-1.5">排序</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={form.sortOrder}
+                  onChange={(e) => setForm({ ...form, sortOrder: e.target.value.replace(/[^\d]/g, '') })}
+                  className="w-full px-4 py-2.5 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  placeholder="數字越小越前面"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-1.5">定價 (NT$，未稅)</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={form.listPrice}
+                  onChange={(e) => setForm({ ...form, listPrice: e.target.value.replace(/[^\d]/g, '') })}
+                  className="w-full px-4 py-2.5 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  placeholder="醫院沒有議定價時，報價單使用此價格"
+                />
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-slate-200 flex justify-end space-x-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2.5 text-slate-600 hover:bg-slate-100 rounded-xl font-medium transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-4 py-2.5 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+              >
+                {isSaving ? (
+                  <>
+                    <Loader size={16} className="animate-spin" />
+                    <span>儲存中...</span>
+                  </>
+                ) : (
+                  <>
+                    <Check size={16} />
+                    <span>儲存</span>
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductManagement;
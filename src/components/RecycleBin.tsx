@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Trash2, Loader, RotateCcw, XCircle, Shield, RefreshCw, Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import {
+  fetchTrash,
+  restoreTrashItem,
+  purgeTrashItem,
+  canPurge,
+  getPurgeAvailableAt,
+  RECYCLE_RETENTION_DAYS,
+  ProfileSummary
+} from '../services/databaseService';
+import { toDataError } from '../services/dataErrors';
+import { TrashItem } from '../types';
+import { AUDIT_ENTITY_NAMES } from './AuditEventList';
+
+interface RecycleBinProps {
+  allProfiles: ProfileSummary[];
+  onRestored?: () => void; // 還原後重新載入資料
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-TW', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const itemKey = (item: TrashItem) => `${item.entityType}:${item.id}`;
+
+const RecycleBin: React.FC<RecycleBinProps> = ({ allProfiles, onRestored }) => {
+  const { isManagerOrAdmin } = useAuth();
+  const { showToast, showError } = useToast();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyKeys, setBusyKeys] = useState<Set<string>>(new Set());
+  const [isPurgingExpired, setIsPurgingExpired] = useState(false);
+
+  const profileNames = useMemo(
+    () => Object.fromEntries(allProfiles.map(p => [p.id, p.full_name || p.email])),
+    [allProfiles]
+  );
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setItems(await fetchTrash());
+    } catch (error) {
+      showError(toDataError(error), '載入回收筒');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    if (isManagerOrAdmin) loadTrash();
+  }, [isManagerOrAdmin, loadTrash]);
+
+  // 和醫院一起刪除的關聯資料跟著醫院還原或清除，不單獨列出
+  const { visibleItems, childCounts } = useMemo(() => {
+    const deletedHospitals = new Map(
+      items.filter(i => i.entityType === 'hospitals').map(i => [i.id, i.deletedAt])
+    );
+    const counts: Record<string, number> = {};
+    const visible = items.filter(item => {
+      if (item.entityType === 'hospitals') return true;
+      if (deletedHospitals.get(item.hospitalId) !== item.deletedAt) return true;
+      counts[item.hospitalId] = (counts[item.hospitalId] || 0) + 1;
+      return false;
+    });
+    return { visibleItems: visible, childCounts: counts };
+  }, [items]);
+
+  const expiredItems = visibleItems.filter(canPurge);
+
+  const setBusy = (item: TrashItem, busy: boolean) => {
+    setBusyKeys(prev => {
+      const next = new Set(prev);
+      if (busy) next.add(itemKey(item)); else next.delete(itemKey(item));
+      return next;
+    });
+  };
+
+  // 移除項目本身，以及跟著醫院一起處理的關聯資料
+  const removeFromList = (item: TrashItem) => {
+    setItems(prev => prev.filter(i =>
+      itemKey(i) !== itemKey(item) &&
+      !(item.entityType === 'hospitals' && i.hospitalId === item.id && i.deletedAt === item.deletedAt)
+    ));
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusy(item, true);
+    const result = await restoreTrashItem(item);
+    setBusy(item, false);
+
+    if (result.ok === false) {
+      showError(result.error, '還原');
+      return;
+    }
+    removeFromList(item);
+    showToast(`已還原${AUDIT_ENTITY_NAMES[item.entityType]}「${item.label}」`, 'success');
+    onRestored?.();
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!window.confirm(`確定要永久刪除「${item.label}」嗎？此操作無法復原。`)) return;
+
+    setBusy(item, true);
+    const result = await purgeTrashItem(item);
+    setBusy(item, false);
+
+    if (result.ok === false) {
+      showError(result.error, '永久刪除');
+      return;
+    }
+    removeFromList(item);
+    showToast(`已永久刪除「${item.label}」`, 'success');
+  };
+
+  const handlePurgeExpired = async () => {
+    if (!window.confirm(`確定要永久刪除 ${expiredItems.length} 筆已超過 ${RECYCLE_RETENTION_DAYS} 天的項目嗎？此操作無法復原。`)) return;
+
+    setIsPurgingExpired(true);
+    let purged = 0;
+    for (const item of expiredItems) {
+      const result = await purgeTrashItem(item);
+      if (result.ok === false) {
+        showError(result.error, `永久刪除「${item.label}」`);
+        continue;
+      }
+      removeFromList(item);
+      purged++;
+    }
+    setIsPurgingExpired(false);
+
+    if (purged > 0) showToast(`已永久刪除 ${purged} 筆項目`, 'success');
+  };
+
+  if (!isManagerOrAdmin) {
+    return (
+      <div className="p-6 text-center">
+        <Shield size={48} className="mx-auto text-slate-300 mb-4" />
+        <p className="text-slate-500">您沒有權限存取此頁面</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900">回收筒</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            刪除的醫院、活動記錄、訂單、設備與合約會保留 {RECYCLE_RETENTION_DAYS} 天，期間可以還原，之後才能永久刪除
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {expiredItems.length > 0 && (
+            <button
+              onClick={handlePurgeExpired}
+              disabled={isPurgingExpired}
+              className="px-4 py-2.5 flex items-center gap-2 border border-red-200 text-red-600 rounded-xl text-sm font-semibold hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              {isPurgingExpired ? <Loader size={16} className="animate-spin" /> : <XCircle size={16} />}
+              清除逾期項目（{expiredItems.length}）
+            </button>
+          )}
+          <button
+            onClick={loadTrash}
+            disabled={isLoading}
+            className="p-2.5 border border-slate-200 rounded-xl text-slate-500 hover:text-blue-600 hover:border-blue-200 transition-colors disabled:opacity-50"
+            title="重新整理"
+          >
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {/* 項目列表 */}
+      <div className="bg-white rounded-xl border border-slate-200">
+        {visibleItems.length > 0 && (
+          <div className="divide-y divide-slate-100">
+            {visibleItems.map(item => {
+              const isBusy = busyKeys.has(itemKey(item)) || isPurgingExpired;
+              const purgeable = canPurge(item);
+              const childCount = item.entityType === 'hospitals' ? childCounts[item.id] || 0 : 0;
+
+              return (
+                <div key={itemKey(item)} className="px-4 py-4 flex items-center gap-4">
+                  <div className="w-9 h-9 rounded-lg bg-slate-100 text-slate-500 flex items-center justify-center flex-shrink-0">
+                    <Trash2 size={16} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
+                      <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-600">
+                        {AUDIT_ENTITY_NAMES[item.entityType]}
+                      </span>
+                      <span className="font-semibold text-slate-900 text-sm truncate">{item.label}</span>
+                      {childCount > 0 && (
+                        <span className="text-xs text-slate-500">含 {childCount} 筆關聯資料</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-slate-400">
+                      <span>
+                        {item.deletedBy ? `${profileNames[item.deletedBy] || '未知使用者'} · ` : ''}
+                        刪除於 {formatDateTime(item.deletedAt)}
+                      </span>
+                      {!purgeable && (
+                        <span className="flex items-center gap-1">
+                          <Clock size={12} />
+                          {getPurgeAvailableAt(item).toLocaleDateString('zh-TW')} 後可永久刪除
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      disabled={isBusy}
+                      className="px-3 py-2 flex items-center gap-1.5 border border-slate-200 rounded-lg text-sm font-medium text-slate-600 hover:text-blue-600 hover:border-blue-200 transition-colors disabled:opacity-50"
+                    >
+                      {isBusy ? <Loader size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                      還原
+                    </button>
+                    {purgeable && (
+                      <button
+                        onClick={() => handlePurge(item)}
+                        disabled={isBusy}
+                        className="px-3 py-2 flex items-center gap-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                      >
+                        <XCircle size={14} />
+                        永久刪除
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {visibleItems.length === 0 && isLoading && (
+          <div className="flex items-center justify-center py-12 text-slate-500">
+            <Loader size={20} className="animate-spin mr-2" />
+            <span>載入回收筒...</span>
+          </div>
+        )}
+
+        {visibleItems.length === 0 && !isLoading && (
+          <div className="text-center py-12">
+            <Trash2 size={40} className="mx-auto mb-3 text-slate-300" />
+            <p className="text-slate-500">回收筒是空的</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecycleBin;
@@ -1,20 +1,33 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { User, Bell, Shield, Database, Save, Check, Loader, Pencil, X, Camera, Users } from 'lucide-react';
+import { User, Bell, Shield, Database, Save, Check, Loader, Pencil, X, Camera, Users, Package, History, Trash2, Sparkles, Gauge } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import UserManagement from './UserManagement';
-
-type SettingsSection = 'profile' | 'notifications' | 'security' | 'data' | 'users';
-
-const Settings: React.FC = () => {
+import ProductManagement from './ProductManagement';
+import AuditLog from './AuditLog';
+import RecycleBin from './RecycleBin';
+import AISettingsPanel from './AISettingsPanel';
+import AIUsageReport from './AIUsageReport';
+import { Hospital } from '../types';
+import { ProfileSummary } from '../services/databaseService';
+
+type SettingsSection = 'profile' | 'notifications' | 'security' | 'ai' | 'data' | 'users' | 'products' | 'audit' | 'ai-usage' | 'recycle';
+
+interface SettingsProps {
+  hospitals?: Hospital[];
+  allProfiles?: ProfileSummary[];
+  onDataRestored?: () => void;
+}
+
+const Settings: React.FC<SettingsProps> = ({ hospitals = [], allProfiles = [], onDataRestored }) => {
   const { section } = useParams<{ section?: string }>();
   const navigate = useNavigate();
-  const { user, profile: authProfile, updateProfile } = useAuth();
+  const { user, profile: authProfile, updateProfile, isManagerOrAdmin } = useAuth();
   const isAdmin = authProfile?.role_type === 'admin';
   
   // 從 URL 取得 section，預設為 profile
-  const validSections: SettingsSection[] = ['profile', 'notifications', 'security', 'data', 'users'];
+  const validSections: SettingsSection[] = ['profile', 'notifications', 'security', 'ai', 'data', 'users', 'products', 'audit', 'ai-usage', 'recycle'];
   // ... 其餘程式碼
   const activeSection: SettingsSection = validSections.includes(section as SettingsSection) 
     ? (section as SettingsSection) 
@@ -358,10 +371,10 @@ const Settings: React.FC = () => {
   const handleExportData = async () => {
     try {
       const [hospitals, contacts, notes, usage] = await Promise.all([
-        supabase.from('hospitals').select('*'),
+        supabase.from('hospitals').select('*').is('deleted_at', null),
         supabase.from('contacts').select('*'),
-        supabase.from('notes').select('*'),
-        supabase.from('usage_records').select('*')
+        supabase.from('notes').select('*').is('deleted_at', null),
+        supabase.from('usage_records').select('*').is('deleted_at', null)
       ]);
 
       const exportData = {
@@ -428,6 +441,13 @@ const Settings: React.FC = () => {
                         <Shield size={18} />
                         <span>帳戶安全</span>
                     </button>
+                    <button
+                        onClick={() => setActiveSection('ai')}
+                        className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl font-medium transition-all ${activeSection === 'ai' ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-600 hover:bg-white hover:text-slate-900'}`}
+                    >
+                        <Sparkles size={18} />
+                        <span>AI 服務</span>
+                    </button>
                     <button
                         onClick={() => setActiveSection('data')}
                         className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl font-medium transition-all ${activeSection === 'data' ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-600 hover:bg-white hover:text-slate-900'}`}
@@ -444,6 +464,42 @@ const Settings: React.FC = () => {
                         <span>使用者管理</span>
                       </button>
                     )}
+                    {isAdmin && (
+                      <button
+                        onClick={() => setActiveSection('products')}
+                        className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl font-medium transition-all ${activeSection === 'products' ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-600 hover:bg-white hover:text-slate-900'}`}
+                      >
+                        <Package size={18} />
+                        <span>產品管理</span>
+                      </button>
+                    )}
+                    {isAdmin && (
+                      <button
+                        onClick={() => setActiveSection('audit')}
+                        className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl font-medium transition-all ${activeSection === 'audit' ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-600 hover:bg-white hover:text-slate-900'}`}
+                      >
+                        <History size={18} />
+                        <span>稽核記錄</span>
+                      </button>
+                    )}
+                    {isAdmin && (
+                      <button
+                        onClick={() => setActiveSection('ai-usage')}
+                        className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl font-medium transition-all ${activeSection === 'ai-usage' ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-600 hover:bg-white hover:text-slate-900'}`}
+                      >
+                        <Gauge size={18} />
+                        <span>AI 用量</span>
+                      </button>
+                    )}
+                    {isManagerOrAdmin && (
+                      <button
+                        onClick={() => setActiveSection('recycle')}
+                        className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl font-medium transition-all ${activeSection === 'recycle' ? 'bg-white text-blue-600 shadow-sm ring-1 ring-slate-200' : 'text-slate-600 hover:bg-white hover:text-slate-900'}`}
+                      >
+                        <Trash2 size={18} />
+                        <span>回收筒</span>
+                      </button>
+                    )}
                 </nav>
             </div>
 
@@ -814,9 +870,24 @@ const Settings: React.FC = () => {
                              </div>
                         </div>
                     )}
+                    {activeSection === 'ai' && (
+                      <AISettingsPanel />
+                    )}
                     {activeSection === 'users' && isAdmin && (
                       <UserManagement />
                     )}
+                    {activeSection === 'products' && isAdmin && (
+                      <ProductManagement />
+                    )}
+                    {activeSection === 'audit' && isAdmin && (
+                      <AuditLog hospitals={hospitals} allProfiles={allProfiles} />
+                    )}
+                    {activeSection === 'ai-usage' && isAdmin && (
+                      <AIUsageReport allProfiles={allProfiles} />
+                    )}
+                    {activeSection === 'recycle' && isManagerOrAdmin && (
+                      <RecycleBin allProfiles={allProfiles} onRestored={onDataRestored} />
+                    )}
                 </div>
             </div>
         </div>
@@ -1,13 +1,14 @@
 
 import { Hospital, Product, ProductType, SalesStage, Contact, UsageRecord, Note, HospitalLevel, Region } from './types';
 
-export const PRODUCTS: Product[] = [
-  { code: 'MR810', name: 'F&P 810 System', type: ProductType.EQUIPMENT, description: 'F&P 810 System' },
-  { code: 'FP950', name: 'F&P 950 System', type: ProductType.EQUIPMENT, description: 'F&P 950 System' },
-  { code: 'AA001', name: 'The Optiflow Nasal Interface', type: ProductType.CONSUMABLE, description: 'F&P Optiflow Nasal Interface' },
-  { code: 'AA031', name: 'The Optiflow Trace™ Nasal Interface', type: ProductType.CONSUMABLE, description: 'F&P Optiflow Trace Nasal Interface with an integrated CO2 sampling tube' },
-  { code: 'AA400', name: 'Optiflow Oxygen Kit AA400', type: ProductType.CONSUMABLE, description: 'Optiflow Oxygen Kit AA400' },
-  { code: 'AA401', name: 'Optiflow Oxygen Kit AA401', type: ProductType.CONSUMABLE, description: 'Optiflow Oxygen Kit AA401' },
+// 預設產品目錄：僅用於 products 資料表為空時的初始匯入，實際資料請從資料表讀取
+export const DEFAULT_PRODUCTS: Product[] = [
+  { code: 'MR810', name: 'F&P 810 System', type: ProductType.EQUIPMENT, description: 'F&P 810 System', isActive: true, sortOrder: 1 },
+  { code: 'FP950', name: 'F&P 950 System', type: ProductType.EQUIPMENT, description: 'F&P 950 System', isActive: true, sortOrder: 2 },
+  { code: 'AA001', name: 'The Optiflow Nasal Interface', type: ProductType.CONSUMABLE, description: 'F&P Optiflow Nasal Interface', isActive: true, sortOrder: 3 },
+  { code: 'AA031', name: 'The Optiflow Trace™ Nasal Interface', type: ProductType.CONSUMABLE, description: 'F&P Optiflow Trace Nasal Interface with an integrated CO2 sampling tube', isActive: true, sortOrder: 4 },
+  { code: 'AA400', name: 'Optiflow Oxygen Kit AA400', type: ProductType.CONSUMABLE, description: 'Optiflow Oxygen Kit AA400', isActive: true, sortOrder: 5 },
+  { code: 'AA401', name: 'Optiflow Oxygen Kit AA401', type: ProductType.CONSUMABLE, description: 'Optiflow Oxygen Kit AA401', isActive: true, sortOrder: 6 },
 ];
 
 export const MOCK_HOSPITALS: Hospital[] = [
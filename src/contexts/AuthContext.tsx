@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase, Profile } from '../lib/supabase';
+import { clearOfflineCache, clearPendingWrites, countPendingWrites } from '../lib/offlineStore';
+import { flushOutbox } from '../services/syncService';
 
 // 擴展 Profile 類型
 export interface ExtendedProfile extends Profile {
@@ -14,7 +16,7 @@ interface AuthContextType {
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signUp: (email: string, password: string, fullName: string, role?: string) => Promise<{ error: AuthError | null }>;
-  signOut: () => Promise<void>;
+  signOut: () => Promise<boolean>; // 使用者取消（仍有離線修改未同步）時回傳 false
   updateProfile: (updates: Partial<Profile>) => Promise<void>;
   refreshSession: () => Promise<boolean>;
   isManagerOrAdmin: boolean;
@@ -152,14 +154,33 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  // 登出
-  const signOut = async () => {
+  // 登出：先送出離線期間排入的修改，仍有未同步的資料時需使用者確認放棄才登出
+  const signOut = async (): Promise<boolean> => {
+    if (navigator.onLine) {
+      try {
+        await flushOutbox();
+      } catch (error) {
+        console.error('Error syncing offline changes before sign out:', error);
+      }
+    }
+
+    const pendingCount = await countPendingWrites();
+    if (pendingCount > 0) {
+      const message = navigator.onLine
+        ? `還有 ${pendingCount} 筆離線修改或錄音無法同步，登出後將會遺失。確定要登出嗎？`
+        : `目前離線，還有 ${pendingCount} 筆修改或錄音尚未同步，登出後將會遺失。建議恢復連線後再登出，確定要登出嗎？`;
+      if (!window.confirm(message)) return false;
+      await clearPendingWrites();
+    }
+
     sessionStorage.removeItem('hospitalSortConfig');
+    await clearOfflineCache();
     
     await supabase.auth.signOut();
     setUser(null);
     setProfile(null);
     setSession(null);
+    return true;
   };
 
   // 更新 Profile
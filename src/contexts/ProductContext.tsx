@@ -0,0 +1,67 @@
+import React, { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react';
+import { Product } from '../types';
+import { fetchProducts } from '../services/databaseService';
+import { useAuth } from './AuthContext';
+
+interface ProductContextType {
+  products: Product[];        // 全部產品（含停售），用於顯示歷史資料的產品名稱
+  activeProducts: Product[];  // 銷售中產品，用於各種下拉選單
+  loading: boolean;
+  refreshProducts: () => Promise<void>;
+  getProduct: (code: string) => Product | undefined;
+}
+
+const ProductContext = createContext<ProductContextType | undefined>(undefined);
+
+export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // 從資料庫載入產品目錄
+  const refreshProducts = useCallback(async () => {
+    if (!user) {
+      setProducts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await fetchProducts();
+      setProducts(data);
+    } catch (error) {
+      console.error('Error loading products:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshProducts();
+  }, [refreshProducts]);
+
+  const activeProducts = useMemo(() => products.filter(p => p.isActive), [products]);
+
+  const getProduct = useCallback(
+    (code: string) => products.find(p => p.code === code),
+    [products]
+  );
+
+  const value: ProductContextType = {
+    products,
+    activeProducts,
+    loading,
+    refreshProducts,
+    getProduct,
+  };
+
+  return <ProductContext.Provider value={value}>{children}</ProductContext.Provider>;
+};
+
+export const useProducts = () => {
+  const context = useContext(ProductContext);
+  if (context === undefined) {
+    throw new Error('useProducts must be used within a ProductProvider');
+  }
+  return context;
+};
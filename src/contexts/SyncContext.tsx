@@ -0,0 +1,103 @@
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
+import { subscribeOutbox } from '../lib/offlineStore';
+import { flushOutbox } from '../services/syncService';
+import { useAuth } from './AuthContext';
+import { useToast } from './ToastContext';
+
+// 連線中仍有待同步資料時的重試間隔
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+interface SyncContextType {
+  isOnline: boolean;
+  pendingCount: number;          // outbox 中尚未送出的寫入數，加上已儲存到活動記錄、尚未上傳的錄音
+  isSyncing: boolean;
+  lastSyncedAt: number | null;   // 最近一次有資料寫入伺服器的時間，供畫面重新載入
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const syncingRef = useRef(false);
+
+  // 監聽瀏覽器連線狀態
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // 訂閱 outbox 數量變化
+  useEffect(() => subscribeOutbox(setPendingCount), []);
+
+  const syncNow = useCallback(async () => {
+    if (!user || !navigator.onLine || syncingRef.current) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await flushOutbox();
+      if (result.applied > 0 || result.conflicts > 0 || result.failed > 0) {
+        setLastSyncedAt(Date.now());
+      }
+      if (result.failed > 0) {
+        showToast(`${result.failed} 筆離線修改被伺服器拒絕（可能沒有權限或資料不完整），已捨棄`, 'error');
+      }
+      if (result.conflicts > 0) {
+        showToast(`${result.conflicts} 筆離線修改因資料已被其他人更新而未套用`, 'info');
+      }
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [user, showToast]);
+
+  const hasPending = pendingCount > 0;
+
+  // 恢復連線或有新的待同步資料時自動同步
+  useEffect(() => {
+    if (isOnline && hasPending) {
+      syncNow();
+    }
+  }, [isOnline, hasPending, syncNow]);
+
+  // 連線中但仍有資料未送出（例如伺服器暫時無回應），定期重試
+  useEffect(() => {
+    if (!isOnline || !hasPending) return;
+
+    const timer = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOnline, hasPending, syncNow]);
+
+  const value: SyncContextType = {
+    isOnline,
+    pendingCount,
+    isSyncing,
+    lastSyncedAt,
+    syncNow,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
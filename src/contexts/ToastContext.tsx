@@ -0,0 +1,110 @@
+import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import { AlertCircle, CheckCircle2, Info, X } from 'lucide-react';
+import { DataError, describeError } from '../services/dataErrors';
+import { useAuth } from './AuthContext';
+
+type ToastVariant = 'error' | 'success' | 'info';
+
+interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+interface Toast {
+  id: number;
+  message: string;
+  variant: ToastVariant;
+  action?: ToastAction;
+}
+
+interface ToastContextType {
+  showToast: (message: string, variant?: ToastVariant, action?: ToastAction) => void;
+  showError: (error: DataError, action?: string) => void; // action 為失敗的操作名稱，例如「刪除記錄」
+}
+
+// 錯誤訊息停留較久，讓使用者有時間看清楚哪個操作被回復
+const TOAST_DURATION_MS: Record<ToastVariant, number> = {
+  error: 8000,
+  success: 4000,
+  info: 5000
+};
+
+const VARIANT_STYLES: Record<ToastVariant, { container: string; icon: React.ReactNode }> = {
+  error: { container: 'bg-red-50 border-red-200 text-red-800', icon: <AlertCircle size={18} className="text-red-500 shrink-0" /> },
+  success: { container: 'bg-emerald-50 border-emerald-200 text-emerald-800', icon: <CheckCircle2 size={18} className="text-emerald-500 shrink-0" /> },
+  info: { container: 'bg-blue-50 border-blue-200 text-blue-800', icon: <Info size={18} className="text-blue-500 shrink-0" /> }
+};
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { signOut } = useAuth();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  // signOut 每次 render 都是新的函式，以 ref 保存讓 showError 保持穩定，可安全放進其他 hook 的依賴
+  const signOutRef = useRef(signOut);
+  signOutRef.current = signOut;
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, variant: ToastVariant = 'info', action?: ToastAction) => {
+    const id = ++nextId.current;
+    setToasts(prev => [...prev, { id, message, variant, action }]);
+    setTimeout(() => dismiss(id), TOAST_DURATION_MS[variant]);
+  }, [dismiss]);
+
+  const showError = useCallback((error: DataError, action?: string) => {
+    // 登入逾時時提供重新登入的捷徑
+    const loginAction = error.kind === 'auth_expired'
+      ? { label: '重新登入', onClick: () => { signOutRef.current(); } }
+      : undefined;
+    showToast(describeError(error, action), 'error', loginAction);
+  }, [showToast]);
+
+  const value: ToastContextType = {
+    showToast,
+    showError,
+  };
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <div className="fixed bottom-4 right-4 left-4 sm:left-auto z-[200] flex flex-col gap-2 sm:w-96 pointer-events-none">
+        {toasts.map(toast => (
+          <div
+            key={toast.id}
+            role={toast.variant === 'error' ? 'alert' : 'status'}
+            className={`pointer-events-auto flex items-start gap-3 px-4 py-3 rounded-xl border shadow-lg animate-fade-in ${VARIANT_STYLES[toast.variant].container}`}
+          >
+            {VARIANT_STYLES[toast.variant].icon}
+            <p className="flex-1 text-sm font-medium">{toast.message}</p>
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action?.onClick();
+                  dismiss(toast.id);
+                }}
+                className="text-sm font-semibold underline shrink-0"
+              >
+                {toast.action.label}
+              </button>
+            )}
+            <button onClick={() => dismiss(toast.id)} className="opacity-60 hover:opacity-100 shrink-0" aria-label="關閉">
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
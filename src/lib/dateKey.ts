@@ -0,0 +1,7 @@
+// 以當地時區格式化為 YYYY-MM-DD，用於 date 欄位、日期輸入框與日期比較。
+// toISOString 會先換算成 UTC，台灣早上 8 點前會得到前一天
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const todayKey = (): string => toDateKey(new Date());
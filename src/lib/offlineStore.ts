@@ -0,0 +1,258 @@
+// 本機 IndexedDB 鏡像與離線寫入佇列（outbox）
+// 讓業務在地下室等無訊號環境仍可查看資料並記錄拜訪，恢復連線後再同步
+
+export type CacheStore = 'hospitals' | 'contacts' | 'notes' | 'usage_records' | 'contracts';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+export interface OutboxMutation {
+  id: string;
+  table: CacheStore;
+  op: OutboxOperation;
+  recordId: string;
+  payload?: Record<string, any>; // 送往 Supabase 的 snake_case 欄位
+  queuedAt: string;              // 離線編輯的時間，同步時作為 updated_at 比對衝突
+}
+
+// 口述錄音：先保存在本機，活動記錄儲存後才上傳為該記錄的附件，上傳或轉錄失敗時不會遺失
+export interface PendingRecording {
+  id: string;
+  hospitalId: string;
+  noteId?: string;         // 活動記錄儲存後填入，之後由同步流程上傳
+  audio: Blob;
+  mimeType: string;
+  durationSeconds: number;
+  recordedAt: string;
+  transcript?: string;     // 已潤飾的轉錄文字；重新開啟未儲存的表單時用來還原內文
+}
+
+const DB_NAME = 'medcrm-offline';
+const DB_VERSION = 2;
+const OUTBOX_STORE = 'outbox';
+const RECORDING_STORE = 'pending_recordings';
+const CACHE_STORES: CacheStore[] = ['hospitals', 'contacts', 'notes', 'usage_records', 'contracts'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        CACHE_STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+        [OUTBOX_STORE, RECORDING_STORE].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// 執行單一 object store 的交易，等交易完成後回傳結果
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// ============== 快取讀寫 ==============
+
+export const cacheGetAll = async <T>(store: CacheStore): Promise<T[]> => {
+  try {
+    return (await runTransaction<T[]>(store, 'readonly', s => s.getAll())) || [];
+  } catch (error) {
+    console.error(`Error reading offline cache (${store}):`, error);
+    return [];
+  }
+};
+
+// 以伺服器最新資料整批取代快取
+export const cacheReplaceAll = async <T extends { id: string }>(store: CacheStore, records: T[]): Promise<void> => {
+  try {
+    await runTransaction(store, 'readwrite', s => {
+      s.clear();
+      records.forEach(record => s.put(record));
+    });
+  } catch (error) {
+    console.error(`Error writing offline cache (${store}):`, error);
+  }
+};
+
+// 寫入單筆資料，與既有資料合併（避免覆蓋掉呼叫端沒有的欄位）
+export const cachePut = async <T extends { id: string }>(store: CacheStore, record: T): Promise<void> => {
+  try {
+    const existing = await runTransaction<T>(store, 'readonly', s => s.get(record.id));
+    await runTransaction(store, 'readwrite', s => s.put({ ...(existing || {}), ...record }));
+  } catch (error) {
+    console.error(`Error writing offline cache (${store}):`, error);
+  }
+};
+
+// 批次寫入完整資料列（分頁查詢結果），不與既有資料合併
+export const cachePutMany = async <T extends { id: string }>(store: CacheStore, records: T[]): Promise<void> => {
+  if (records.length === 0) return;
+  try {
+    await runTransaction(store, 'readwrite', s => {
+      records.forEach(record => s.put(record));
+    });
+  } catch (error) {
+    console.error(`Error writing offline cache (${store}):`, error);
+  }
+};
+
+export const cacheDelete = async (store: CacheStore, id: string): Promise<void> => {
+  try {
+    await runTransaction(store, 'readwrite', s => s.delete(id));
+  } catch (error) {
+    console.error(`Error deleting from offline cache (${store}):`, error);
+  }
+};
+
+// ============== Outbox ==============
+
+type OutboxListener = (pendingCount: number) => void;
+const outboxListeners = new Set<OutboxListener>();
+
+// 待同步數包含已隨活動記錄儲存、尚未上傳的錄音
+const countSyncable = async (): Promise<number> => {
+  const [mutations, recordings] = await Promise.all([countMutations(), listPendingRecordings()]);
+  return mutations + recordings.filter(recording => recording.noteId).length;
+};
+
+const notifyOutboxListeners = async () => {
+  const count = await countSyncable();
+  outboxListeners.forEach(listener => listener(count));
+};
+
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+  outboxListeners.add(listener);
+  countSyncable().then(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+};
+
+export const enqueueMutation = async (
+  mutation: Omit<OutboxMutation, 'id' | 'queuedAt'>
+): Promise<OutboxMutation> => {
+  const entry: OutboxMutation = {
+    ...mutation,
+    id: crypto.randomUUID(),
+    queuedAt: new Date().toISOString()
+  };
+  await runTransaction(OUTBOX_STORE, 'readwrite', s => s.put(entry));
+  notifyOutboxListeners();
+  return entry;
+};
+
+// 依排入順序取出所有待同步的寫入
+export const listMutations = async (): Promise<OutboxMutation[]> => {
+  try {
+    const entries = (await runTransaction<OutboxMutation[]>(OUTBOX_STORE, 'readonly', s => s.getAll())) || [];
+    return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+    return [];
+  }
+};
+
+export const removeMutation = async (id: string): Promise<void> => {
+  await runTransaction(OUTBOX_STORE, 'readwrite', s => s.delete(id));
+  notifyOutboxListeners();
+};
+
+export const countMutations = async (): Promise<number> => {
+  try {
+    return (await runTransaction<number>(OUTBOX_STORE, 'readonly', s => s.count())) || 0;
+  } catch (error) {
+    console.error('Error counting outbox:', error);
+    return 0;
+  }
+};
+
+// 登出時清除本機快取，避免下一位使用者看到；outbox 由登出流程先同步，不在這裡清除
+export const clearOfflineCache = async (): Promise<void> => {
+  try {
+    await Promise.all(CACHE_STORES.map(name =>
+      runTransaction(name, 'readwrite', s => s.clear())
+    ));
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+};
+
+// ============== 口述錄音 ==============
+
+export const savePendingRecording = async (recording: PendingRecording): Promise<void> => {
+  await runTransaction(RECORDING_STORE, 'readwrite', s => s.put(recording));
+  notifyOutboxListeners();
+};
+
+export const listPendingRecordings = async (): Promise<PendingRecording[]> => {
+  try {
+    const recordings = (await runTransaction<PendingRecording[]>(RECORDING_STORE, 'readonly', s => s.getAll())) || [];
+    return recordings.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  } catch (error) {
+    console.error('Error reading pending recordings:', error);
+    return [];
+  }
+};
+
+// 活動記錄儲存後，將表單中的錄音指定給該記錄，交由同步流程上傳
+export const assignPendingRecordings = async (recordingIds: string[], noteId: string): Promise<void> => {
+  if (recordingIds.length === 0) return;
+  const recordings = await listPendingRecordings();
+  await runTransaction(RECORDING_STORE, 'readwrite', s => {
+    recordings
+      .filter(recording => recordingIds.includes(recording.id))
+      .forEach(recording => s.put({ ...recording, noteId }));
+  });
+  notifyOutboxListeners();
+};
+
+export const removePendingRecording = async (id: string): Promise<void> => {
+  await runTransaction(RECORDING_STORE, 'readwrite', s => s.delete(id));
+  notifyOutboxListeners();
+};
+
+// 登出前檢查：離線修改與所有錄音（包含尚未儲存成活動記錄的）
+export const countPendingWrites = async (): Promise<number> => {
+  const [mutations, recordings] = await Promise.all([countMutations(), listPendingRecordings()]);
+  return mutations + recordings.length;
+};
+
+// 使用者確認放棄尚未同步的離線修改與錄音
+export const clearPendingWrites = async (): Promise<void> => {
+  try {
+    await Promise.all([OUTBOX_STORE, RECORDING_STORE].map(name =>
+      runTransaction(name, 'readwrite', s => s.clear())
+    ));
+    notifyOutboxListeners();
+  } catch (error) {
+    console.error('Error clearing pending writes:', error);
+  }
+};
@@ -92,9 +92,14 @@ export interface DBHospital {
   stage: string;
   equipment_installed: boolean;
   last_visit: string;
+  notes: string | null;
+  charge_per_use: number | null;
+  consumables: { code: string; price: number }[] | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null; // 軟刪除時間，null 表示未刪除
+  deleted_by?: string | null;
 }
 
 export interface DBContact {
@@ -108,6 +113,8 @@ export interface DBContact {
   created_by?: string;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null; // 隨醫院一併軟刪除
+  deleted_by?: string | null;
 }
 
 export interface DBNote {
@@ -119,12 +126,17 @@ export interface DBNote {
   author_name: string;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   tags: string[] | null;
+  tags_lower?: string[] | null; // 搜尋用的小寫標籤，由資料庫產生，不可寫入
   sentiment: string | null;
   next_step: string | null;
   next_step_date: string | null;
   related_contact_ids: string[] | null;
   attendees: string | null;
+  audio_recordings: { path: string; mimeType: string; size: number; durationSeconds: number; recordedAt: string }[] | null;
+  user_id: string | null;
 }
 
 export interface DBUsageRecord {
@@ -134,9 +146,13 @@ export interface DBUsageRecord {
   quantity: number;
   date: string;
   type: string;
+  unit_price?: number | null;
   recorded_by?: string;
   recorded_by_name?: string;
   created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
 }
 
 export interface DBInstalledEquipment {
@@ -146,6 +162,195 @@ export interface DBInstalledEquipment {
   install_date: string;
   quantity: number;
   ownership: string;
+  loan_converted_at?: string | null; // 舊版的借用轉換日，已改記在 equipment_assets，不再寫入
   created_by?: string;
   created_at: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+}
+
+// fetchHospitals 以單一查詢嵌入的關聯資料
+export interface DBHospitalWithRelations extends DBHospital {
+  installed_equipment: DBInstalledEquipment[];
+  contracts: { count: number }[];
+  notes_latest: { created_at: string }[];
+  open_tickets?: { count: number }[];
+}
+
+export interface DBContract {
+  id: string;
+  hospital_id: string;
+  product_code: string;
+  contract_type: string;
+  start_date: string;
+  duration_years: number;
+  warranty_years: number | null;
+  maintenance_frequency: string | null;
+  renewal_stage: string | null;
+  user_id: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+}
+
+export interface DBAuditEvent {
+  id: string;
+  entity_type: string;
+  entity_id: string;
+  entity_label: string | null;
+  hospital_id: string | null;
+  action: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  actor_id: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+export interface DBAIUsageLog {
+  id: string;
+  user_id: string | null;
+  feature: string;
+  model: string;
+  prompt_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  status: string;
+  created_at: string;
+}
+
+export interface DBAttachment {
+  id: string;
+  hospital_id: string;
+  entity_type: string;
+  entity_id: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  storage_path: string;
+  visibility: string;
+  uploaded_by: string | null;
+  uploader_name: string | null;
+  created_at: string;
+}
+
+export interface DBQuote {
+  id: string;
+  hospital_id: string;
+  quote_number: string;
+  items: { productCode: string; productName: string; quantity: number; unitPrice: number; priceSource: string }[] | null;
+  tax_rate: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+  valid_until: string;
+  notes: string | null;
+  status: string;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+  converted_at: string | null;
+  deleted_at?: string | null; // 隨醫院一併軟刪除
+  deleted_by?: string | null;
+}
+
+export interface DBEquipmentAsset {
+  id: string;
+  hospital_id: string;
+  product_code: string;
+  serial_number: string;
+  location: string | null;
+  status: string;
+  ownership: string;
+  loan_converted_at: string | null;
+  install_date: string | null;
+  warranty_end_date: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null; // 隨醫院一併軟刪除
+  deleted_by?: string | null;
+}
+
+export interface DBAssetTransfer {
+  id: string;
+  asset_id: string;
+  from_hospital_id: string | null;
+  to_hospital_id: string | null;
+  from_location: string | null;
+  to_location: string | null;
+  transfer_date: string;
+  reason: string | null;
+  transferred_by: string | null;
+  transferred_by_name: string | null;
+  created_at: string;
+}
+
+export interface DBServiceTicket {
+  id: string;
+  hospital_id: string;
+  equipment_id: string;
+  product_code: string;
+  asset_id: string | null;
+  reported_by_contact_id: string | null;
+  fault_category: string;
+  priority: string;
+  status: string;
+  description: string;
+  reported_at: string;
+  resolved_at: string | null;
+  resolution: string | null;
+  loaner_asset_id: string | null;
+  loaner_serial_number: string | null;
+  loaner_assigned_date: string | null;
+  loaner_returned_date: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null; // 隨醫院一併軟刪除
+  deleted_by?: string | null;
+}
+
+export interface DBMaintenanceVisit {
+  id: string;
+  hospital_id: string;
+  contract_id: string;
+  product_code: string;
+  scheduled_date: string;
+  technician: string | null;
+  completed_date: string | null;
+  findings: string | null;
+  signed_off_by: string | null;
+  signed_off_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null; // 隨醫院一併軟刪除
+  deleted_by?: string | null;
+}
+
+export interface DBConsumablePriceChange {
+  id: string;
+  hospital_id: string;
+  product_code: string;
+  price: number;
+  previous_price: number | null;
+  effective_date: string;
+  reason: string | null;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  created_at: string;
+}
+
+export interface DBProduct {
+  code: string;
+  name: string;
+  type: string;
+  description: string | null;
+  is_active: boolean;
+  sort_order: number | null;
+  list_price: number | null;
+  created_at: string;
+  updated_at: string;
 }
@@ -0,0 +1,61 @@
+import { AIProvider } from './types';
+import { invokeAIProxy, streamAIProxy } from './proxyClient';
+import {
+  INSIGHT_JSON_SCHEMA, buildInsightPrompt, buildEmailPrompt, buildRefinePrompt, normalizeInsight, getToday,
+  NOTE_EXTRACTION_JSON_SCHEMA, buildExtractionPrompt, normalizeExtraction, TRANSCRIPTION_PROMPT
+} from './prompts';
+
+// Gemini 經由伺服器端的 ai-proxy 呼叫，瀏覽器不持有金鑰
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// 以 base64 內嵌在請求中傳送，ai-proxy 限制單段錄音大小
+const toBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const createGeminiProvider = (model: string = DEFAULT_GEMINI_MODEL): AIProvider => ({
+  id: 'gemini',
+
+  async generateHospitalInsight(input, options) {
+    const today = getToday();
+    const text = await streamAIProxy({
+      feature: 'insight',
+      model,
+      prompt: buildInsightPrompt(input, today),
+      responseJsonSchema: INSIGHT_JSON_SCHEMA
+    }, options);
+    return normalizeInsight(JSON.parse(text || '{}'), today);
+  },
+
+  async generateEmailDraft(input, options) {
+    return streamAIProxy({ feature: 'email', model, prompt: buildEmailPrompt(input) }, options);
+  },
+
+  async refineNoteContent(content) {
+    return (await invokeAIProxy({ feature: 'refine', model, prompt: buildRefinePrompt(content) })).trim();
+  },
+
+  async extractNoteFields(input) {
+    const text = await invokeAIProxy({
+      feature: 'extract',
+      model,
+      prompt: buildExtractionPrompt(input),
+      responseJsonSchema: NOTE_EXTRACTION_JSON_SCHEMA
+    });
+    return normalizeExtraction(JSON.parse(text || '{}'), input);
+  },
+
+  async transcribeAudio({ audio }) {
+    const text = await invokeAIProxy({
+      feature: 'transcribe',
+      model,
+      prompt: TRANSCRIPTION_PROMPT,
+      audio: { mimeType: audio.type.split(';')[0] || 'audio/webm', data: await toBase64(audio) }
+    });
+    return text.trim();
+  }
+});
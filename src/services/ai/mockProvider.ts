@@ -0,0 +1,273 @@
+import { SalesStage, ProductUsageTrend, InsightTrend, InsightRiskFlag, InsightAction, ActivityType, Sentiment, NoteOrderMention } from '../../types';
+import { AIProvider, StreamOptions } from './types';
+import { TONE_NAMES, MAX_INSIGHT_ITEMS, getToday } from './prompts';
+import { createAbortError } from './streaming';
+
+// 本機模擬：不呼叫任何外部服務，以固定規則從資料算出結果，
+// 同樣的輸入在同一天一定得到同樣的輸出，用於開發、展示與離線測試
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_CHUNK_SIZE = 12;
+const MOCK_CHUNK_INTERVAL_MS = 30;
+const TREND_WINDOW_DAYS = 90;
+
+const STAGE_BASE_SCORES: Record<SalesStage, number> = {
+  [SalesStage.LEAD]: 30,
+  [SalesStage.CONTACT]: 45,
+  [SalesStage.TRIAL]: 60,
+  [SalesStage.PARTNER]: 75,
+  [SalesStage.KEY_ACCOUNT]: 85
+};
+
+const delay = (ms = MOCK_LATENCY_MS) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 模擬串流：把完整結果切成小段逐一送出，可用 signal 中止
+const streamText = async (text: string, { onText, signal }: StreamOptions = {}) => {
+  await delay();
+  for (let end = MOCK_CHUNK_SIZE; ; end += MOCK_CHUNK_SIZE) {
+    if (signal?.aborted) throw createAbortError();
+    onText?.(text.slice(0, end));
+    if (end >= text.length) return;
+    await delay(MOCK_CHUNK_INTERVAL_MS);
+  }
+};
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.floor((new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000));
+
+// ============== 欄位擷取規則 ==============
+
+const ACTIVITY_KEYWORDS: [ActivityType, RegExp][] = [
+  ['教育訓練', /教育訓練|在職教育|上課/],
+  ['展示', /展示|示範|demo/i],
+  ['會議', /會議|開會|簡報/],
+  ['通話', /電話|通話|來電|致電/],
+  ['郵件', /e-?mail|郵件|寄信|來信/i],
+  ['拜訪', /拜訪|到院|前往|見面/]
+];
+
+const POSITIVE_PATTERN = /滿意|肯定|有興趣|同意|好評|順利|願意|認可/;
+const NEGATIVE_PATTERN = /抱怨|不滿|客訴|太貴|退貨|拒絕|延後|流失|改用/;
+
+const TAG_KEYWORDS: Record<string, RegExp> = {
+  '價格異議': /太貴|價格|降價|折扣/,
+  '競品比較': /競品|競爭|對手|其他廠牌/,
+  '需要報價': /報價/,
+  '售後服務': /維修|保養|故障|售後/,
+  '新產品介紹': /新產品|新品/
+};
+
+const NEXT_STEP_PATTERN = /下次|下週|下周|明天|後天|之後|安排|預計|再/;
+const QUANTITY_UNITS = '盒|箱|支|個|組|包|台|套|片';
+const WEEKDAYS = '日一二三四五六';
+
+const splitSentences = (content: string) =>
+  content.split(/[。！？!?\n；;]+/).map(s => s.trim()).filter(Boolean);
+
+// 數量以逗號分隔的子句判斷，避免同一句的「訂購」與「樣品」互相影響
+const splitClauses = (content: string) =>
+  content.split(/[。！？!?\n；;，,]+/).map(s => s.trim()).filter(Boolean);
+
+// 取內文中最先出現的活動類型關鍵字
+const detectActivityType = (content: string): ActivityType | undefined => {
+  let best: { type: ActivityType; index: number } | undefined;
+  ACTIVITY_KEYWORDS.forEach(([type, pattern]) => {
+    const index = content.search(pattern);
+    if (index >= 0 && (!best || index < best.index)) best = { type, index };
+  });
+  return best?.type;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 以活動日期換算「明天」「下週三」「3/15」等說法
+const resolveDate = (sentence: string, baseDate: string): string | undefined => {
+  if (sentence.includes('後天')) return addDays(baseDate, 2);
+  if (sentence.includes('明天')) return addDays(baseDate, 1);
+
+  const weekday = sentence.match(/下[週周]([一二三四五六日])/);
+  if (weekday || /下[週周]/.test(sentence)) {
+    const base = new Date(baseDate);
+    const daysToNextMonday = ((8 - base.getDay()) % 7) || 7;
+    const target = weekday ? (WEEKDAYS.indexOf(weekday[1]) + 6) % 7 : 0;
+    return addDays(baseDate, daysToNextMonday + target);
+  }
+
+  const monthDay = sentence.match(/(\d{1,2})\s*[\/月]\s*(\d{1,2})/);
+  if (monthDay) {
+    const year = Number(baseDate.slice(0, 4));
+    const format = (y: number) => `${y}-${monthDay[1].padStart(2, '0')}-${monthDay[2].padStart(2, '0')}`;
+    const date = format(year);
+    if (isNaN(new Date(date).getTime())) return undefined;
+    return date >= baseDate ? date : format(year + 1);
+  }
+  return undefined;
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+
+  async generateHospitalInsight({ hospital, contacts, notes, usage, products }, options) {
+    const today = getToday();
+    const lastContact = [hospital.lastVisit, hospital.lastNoteDate, ...notes.map(n => n.date)]
+      .filter(Boolean)
+      .sort()
+      .pop();
+    const daysSinceContact = lastContact ? daysBetween(lastContact, today) : null;
+    const recentNotes = notes.filter(n => daysBetween(n.date, today) <= TREND_WINDOW_DAYS);
+    const negativeNotes = recentNotes.filter(n => n.sentiment === 'negative').length;
+    const positiveNotes = recentNotes.filter(n => n.sentiment === 'positive').length;
+
+    // 近 90 天與前 90 天的訂單量比較
+    const productTrends: ProductUsageTrend[] = Array.from(new Set(usage.filter(u => u.type === '訂單').map(u => u.productCode)))
+      .sort()
+      .map(code => {
+        const sum = (fromDays: number, toDays: number) => usage
+          .filter(u => u.productCode === code && u.type === '訂單')
+          .filter(u => {
+            const age = daysBetween(u.date, today);
+            return age >= fromDays && age < toDays;
+          })
+          .reduce((total, u) => total + u.quantity, 0);
+        const recent = sum(0, TREND_WINDOW_DAYS);
+        const previous = sum(TREND_WINDOW_DAYS, TREND_WINDOW_DAYS * 2);
+        const trend: InsightTrend = recent > previous * 1.1 ? 'up' : recent < previous * 0.9 ? 'down' : 'flat';
+        const name = products.find(p => p.code === code)?.name;
+        return {
+          productCode: code,
+          trend,
+          summary: `${name ? `${name}：` : ''}近 ${TREND_WINDOW_DAYS} 天訂購 ${recent}，前期 ${previous}`
+        };
+      })
+      .slice(0, MAX_INSIGHT_ITEMS);
+
+    const decliningProducts = productTrends.filter(t => t.trend === 'down');
+
+    const riskFlags: InsightRiskFlag[] = [];
+    if (daysSinceContact === null || daysSinceContact > 60) {
+      riskFlags.push({
+        level: daysSinceContact === null || daysSinceContact > 90 ? 'high' : 'medium',
+        title: '久未聯繫',
+        detail: daysSinceContact === null ? '尚無任何拜訪或活動記錄' : `已 ${daysSinceContact} 天沒有拜訪或活動記錄`
+      });
+    }
+    decliningProducts.forEach(t => {
+      riskFlags.push({ level: 'medium', title: `${t.productCode} 用量下滑`, detail: t.summary });
+    });
+    if (negativeNotes > 0) {
+      riskFlags.push({ level: 'medium', title: '客戶反應負面', detail: `近 ${TREND_WINDOW_DAYS} 天有 ${negativeNotes} 筆負面反應的記錄` });
+    }
+    if (!contacts.some(c => c.isKeyDecisionMaker)) {
+      riskFlags.push({ level: 'low', title: '缺少關鍵決策者', detail: '尚未記錄此醫院的關鍵決策者' });
+    }
+
+    const recommendedActions: InsightAction[] = [];
+    if (daysSinceContact === null || daysSinceContact > 30) {
+      recommendedActions.push({ title: '安排拜訪', detail: '確認設備使用狀況與近期需求', dueDate: addDays(today, 7), activityType: '拜訪' });
+    }
+    decliningProducts.forEach(t => {
+      recommendedActions.push({ title: `電話確認 ${t.productCode} 用量`, detail: '了解用量下滑原因與庫存狀況', dueDate: addDays(today, 14), activityType: '通話' });
+    });
+    if (hospital.stage === SalesStage.LEAD || hospital.stage === SalesStage.CONTACT) {
+      recommendedActions.push({ title: '安排產品展示', detail: '邀請相關科室主任參加設備展示', dueDate: addDays(today, 21), activityType: '展示' });
+    } else {
+      recommendedActions.push({ title: '季度回顧會議', detail: '回顧使用量與合作成效，討論下一季計畫', dueDate: addDays(today, 30), activityType: '會議' });
+    }
+
+    let score = STAGE_BASE_SCORES[hospital.stage] ?? 50;
+    if (daysSinceContact === null || daysSinceContact > 60) score -= 15;
+    else if (daysSinceContact > 30) score -= 5;
+    score += Math.min(positiveNotes * 5, 10) - negativeNotes * 10 - decliningProducts.length * 5;
+    score = Math.max(0, Math.min(100, score));
+
+    const insight = {
+      healthScore: score,
+      healthSummary: `目前為「${hospital.stage}」，${daysSinceContact === null ? '尚無活動記錄' : `最近一次聯繫在 ${daysSinceContact} 天前`}，共有 ${riskFlags.length} 項風險。（本機模擬結果）`,
+      productTrends,
+      riskFlags: riskFlags.slice(0, MAX_INSIGHT_ITEMS),
+      recommendedActions: recommendedActions.slice(0, MAX_INSIGHT_ITEMS),
+      generatedAt: new Date().toISOString()
+    };
+    await streamText(JSON.stringify(insight), options);
+    return insight;
+  },
+
+  async generateEmailDraft({ contactName, hospitalName, context, tone }, options) {
+    const greeting = tone === 'Friendly' ? `${contactName} 您好：` : `${contactName} 鈞鑒：`;
+    const closing = tone === 'Urgent' ? '此事較為緊急，懇請撥冗於近日內回覆，謝謝。' : '如有任何問題，歡迎隨時與我聯繫。';
+    const draft = [
+      `主旨：${hospitalName} 後續聯繫（${TONE_NAMES[tone]}）`,
+      '',
+      greeting,
+      '',
+      `感謝您一直以來對我們的支持。${context}`,
+      '',
+      closing,
+      '',
+      '敬祝 順心',
+      '（本機模擬草稿）'
+    ].join('\n');
+    await streamText(draft, options);
+    return draft;
+  },
+
+  async extractNoteFields({ content, activityDate, contacts, tags, products }) {
+    await delay();
+    const sentences = splitSentences(content);
+
+    const nextStepSentence = sentences.find(s => NEXT_STEP_PATTERN.test(s));
+    const positive = POSITIVE_PATTERN.test(content);
+    const negative = NEGATIVE_PATTERN.test(content);
+    const sentiment: Sentiment | undefined = positive && !negative ? 'positive' : negative && !positive ? 'negative' : undefined;
+
+    const orderMentions: NoteOrderMention[] = [];
+    splitClauses(content).forEach(clause => {
+      products.forEach(product => {
+        const pattern = new RegExp(`${escapeRegExp(product.code)}[^\\d]{0,10}?(\\d+)\\s*(?:${QUANTITY_UNITS})`, 'i');
+        const match = clause.match(pattern);
+        if (match) {
+          orderMentions.push({
+            productCode: product.code,
+            quantity: Number(match[1]),
+            type: /樣品|試用/.test(clause) ? '樣品' : '訂單',
+            excerpt: clause
+          });
+        }
+      });
+    });
+
+    return {
+      activityType: detectActivityType(content),
+      sentiment,
+      tags: tags.filter(tag => content.toUpperCase().includes(tag.toUpperCase()) || TAG_KEYWORDS[tag]?.test(content)),
+      nextStep: nextStepSentence?.slice(0, 50),
+      nextStepDate: nextStepSentence ? resolveDate(nextStepSentence, activityDate) : undefined,
+      relatedContactIds: contacts.filter(c => c.name && content.includes(c.name)).map(c => c.id),
+      orderMentions
+    };
+  },
+
+  // 只做格式整理：去除多餘空白、半形標點轉全形、補上句號
+  async refineNoteContent(content) {
+    await delay();
+    const refined = content
+      .trim()
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/(\p{Script=Han})\s*,\s*/gu, '$1，')
+      .replace(/(\p{Script=Han})\s*\.\s*$/gu, '$1。');
+    return /[。！？.!?]$/.test(refined) ? refined : `${refined}。`;
+  },
+
+  // 不辨識實際語音，只回傳可辨識的模擬文字，讓後續潤飾與擷取流程可以測試
+  async transcribeAudio({ durationSeconds }) {
+    await delay();
+    return `（本機模擬轉錄，錄音長度 ${durationSeconds} 秒）今天拜訪護理長，對試用結果滿意，下週三再安排教育訓練`;
+  }
+});
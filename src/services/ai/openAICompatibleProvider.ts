@@ -0,0 +1,111 @@
+import { AIProvider, StreamOptions } from './types';
+import { readEventStream } from './streaming';
+import { transcribeWithWhisper, DEFAULT_WHISPER_MODEL } from './whisper';
+import {
+  INSIGHT_JSON_SCHEMA, buildInsightPrompt, buildEmailPrompt, buildRefinePrompt, normalizeInsight, getToday,
+  NOTE_EXTRACTION_JSON_SCHEMA, buildExtractionPrompt, normalizeExtraction
+} from './prompts';
+
+// 相容 OpenAI Chat Completions API 的服務（OpenAI、Azure OpenAI、Ollama、vLLM 等）
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export const createOpenAICompatibleProvider = (
+  baseUrl: string,
+  model: string,
+  apiKey: string,
+  transcriptionModel: string = DEFAULT_WHISPER_MODEL
+): AIProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // 本機服務（如 Ollama）不需要金鑰
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, ...body }),
+      signal
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw Object.assign(new Error(`AI 服務回應 ${response.status}: ${text.slice(0, 200)}`), { status: response.status });
+    }
+    return response;
+  };
+
+  const complete = async (messages: ChatMessage[], responseFormat?: Record<string, unknown>): Promise<string> => {
+    const data = await (await request({
+      messages,
+      ...(responseFormat ? { response_format: responseFormat } : {})
+    })).json();
+    return data?.choices?.[0]?.message?.content || '';
+  };
+
+  // stream: true 時每個事件帶有 choices[0].delta.content
+  const completeStream = async (
+    messages: ChatMessage[],
+    { onText, signal }: StreamOptions = {},
+    responseFormat?: Record<string, unknown>
+  ): Promise<string> => {
+    const response = await request({
+      messages,
+      stream: true,
+      ...(responseFormat ? { response_format: responseFormat } : {})
+    }, signal);
+
+    let text = '';
+    await readEventStream(response, (data) => {
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText?.(text);
+      }
+    }, signal);
+    return text;
+  };
+
+  return {
+    id: 'openai',
+
+    async generateHospitalInsight(input, options) {
+      const today = getToday();
+      const text = await completeStream(
+        [{ role: 'user', content: buildInsightPrompt(input, today) }],
+        options,
+        { type: 'json_schema', json_schema: { name: 'hospital_insight', schema: INSIGHT_JSON_SCHEMA } }
+      );
+      return normalizeInsight(JSON.parse(text || '{}'), today);
+    },
+
+    async generateEmailDraft(input, options) {
+      return completeStream([{ role: 'user', content: buildEmailPrompt(input) }], options);
+    },
+
+    async refineNoteContent(content) {
+      return (await complete([{ role: 'user', content: buildRefinePrompt(content) }])).trim();
+    },
+
+    async extractNoteFields(input) {
+      const text = await complete(
+        [{ role: 'user', content: buildExtractionPrompt(input) }],
+        { type: 'json_schema', json_schema: { name: 'note_extraction', schema: NOTE_EXTRACTION_JSON_SCHEMA } }
+      );
+      return normalizeExtraction(JSON.parse(text || '{}'), input);
+    },
+
+    // 同一服務的 /audio/transcriptions；Ollama 等不支援語音的服務需另外設定轉錄服務網址
+    async transcribeAudio({ audio }) {
+      return transcribeWithWhisper(baseUrl, transcriptionModel, apiKey, audio);
+    }
+  };
+};
@@ -0,0 +1,244 @@
+import { ActivityType, HospitalInsight, InsightTrend, InsightRiskLevel, NoteExtraction, Sentiment, UsageType } from '../../types';
+import { InsightInput, EmailDraftInput, NoteExtractionInput } from './types';
+
+// 各供應商共用的提示詞、輸出格式與結果檢查
+
+export const ACTIVITY_TYPES: ActivityType[] = ['通話', '會議', '拜訪', '郵件', '筆記', '展示', '教育訓練'];
+export const MAX_INSIGHT_ITEMS = 5;
+
+export const getToday = () => new Date().toISOString().split('T')[0];
+
+// ============== 客戶洞察 ==============
+
+// JSON Schema，Gemini 的 responseJsonSchema 與 OpenAI 的 json_schema 都接受
+export const INSIGHT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    healthScore: { type: 'integer', description: '關係健康度，0-100' },
+    healthSummary: { type: 'string', description: '一到兩句說明目前關係階段與健康狀況' },
+    productTrends: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          productCode: { type: 'string' },
+          trend: { type: 'string', enum: ['up', 'flat', 'down'] },
+          summary: { type: 'string' }
+        },
+        required: ['productCode', 'trend', 'summary'],
+        additionalProperties: false
+      }
+    },
+    riskFlags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          level: { type: 'string', enum: ['high', 'medium', 'low'] },
+          title: { type: 'string' },
+          detail: { type: 'string' }
+        },
+        required: ['level', 'title', 'detail'],
+        additionalProperties: false
+      }
+    },
+    recommendedActions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: '可直接作為下一步的簡短行動' },
+          detail: { type: 'string' },
+          dueDate: { type: 'string', description: 'YYYY-MM-DD' },
+          activityType: { type: 'string', enum: ACTIVITY_TYPES }
+        },
+        required: ['title', 'detail', 'dueDate', 'activityType'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['healthScore', 'healthSummary', 'productTrends', 'riskFlags', 'recommendedActions'],
+  additionalProperties: false
+};
+
+export const buildInsightPrompt = ({ hospital, contacts, notes, usage, products }: InsightInput, today: string) => `
+    你是一位專業的醫療銷售助理。請根據以下醫院客戶的數據，為業務代表分析客戶狀況。
+    請用繁體中文（台灣用語）填寫所有文字欄位，語氣專業且具策略性，每個欄位保持簡短。
+    今天是 ${today}。
+
+    請提供：
+    1. healthScore：關係健康度 0-100，並以 healthSummary 說明目前的關係階段與健康狀況。
+    2. productTrends：每個有使用記錄的產品一筆，依近期訂單數量判斷趨勢（up/flat/down）並簡述。
+    3. riskFlags：流失、久未拜訪、用量下滑、合約到期等風險，沒有則回傳空陣列。
+    4. recommendedActions：最多 ${MAX_INSIGHT_ITEMS} 個具體的下一步行動，dueDate 為今天之後的建議完成日期。
+    不要捏造數據中沒有的事實。
+
+    數據：
+    醫院: ${JSON.stringify(hospital)}
+    聯絡人: ${JSON.stringify(contacts)}
+    最近筆記: ${JSON.stringify(notes)}
+    使用記錄: ${JSON.stringify(usage)}
+    產品目錄: ${JSON.stringify(products)}
+  `;
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+const pickEnum = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// 模型偶爾會漏欄位或給出範圍外的值，逐欄位檢查後才交給畫面
+export const normalizeInsight = (raw: any, today: string): HospitalInsight => {
+  const list = (value: unknown): any[] => Array.isArray(value) ? value.slice(0, MAX_INSIGHT_ITEMS) : [];
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const score = Number(raw?.healthScore);
+
+  return {
+    healthScore: isNaN(score) ? 0 : Math.round(Math.min(100, Math.max(0, score))),
+    healthSummary: text(raw?.healthSummary),
+    productTrends: list(raw?.productTrends)
+      .map(t => ({
+        productCode: text(t?.productCode),
+        trend: pickEnum<InsightTrend>(t?.trend, ['up', 'flat', 'down'], 'flat'),
+        summary: text(t?.summary)
+      }))
+      .filter(t => t.productCode),
+    riskFlags: list(raw?.riskFlags)
+      .map(r => ({
+        level: pickEnum<InsightRiskLevel>(r?.level, ['high', 'medium', 'low'], 'medium'),
+        title: text(r?.title),
+        detail: text(r?.detail)
+      }))
+      .filter(r => r.title),
+    recommendedActions: list(raw?.recommendedActions)
+      .map(a => ({
+        title: text(a?.title),
+        detail: text(a?.detail),
+        dueDate: isDateString(a?.dueDate) && a.dueDate >= today ? a.dueDate : today,
+        activityType: pickEnum<ActivityType>(a?.activityType, ACTIVITY_TYPES, '拜訪')
+      }))
+      .filter(a => a.title),
+    generatedAt: new Date().toISOString()
+  };
+};
+
+// ============== 郵件草稿 ==============
+
+export const TONE_NAMES: Record<EmailDraftInput['tone'], string> = {
+  Professional: '專業',
+  Friendly: '友善',
+  Urgent: '緊急'
+};
+
+export const buildEmailPrompt = ({ contactName, hospitalName, context, tone }: EmailDraftInput) => `
+    請為我草擬一封給 ${hospitalName} 的 ${contactName} 的電子郵件。
+    請用繁體中文（台灣用語）。
+    背景: ${context}
+    語氣: ${TONE_NAMES[tone]}
+
+    郵件內容應可直接複製貼上。請包含主旨。
+  `;
+
+// ============== 筆記潤飾 ==============
+
+export const buildRefinePrompt = (content: string) => `
+    你是一位專業的業務助理。
+    請將以下粗略的筆記潤飾為清晰、專業的 CRM 活動記錄。
+    請用繁體中文（台灣用語）。
+    修正語法，提高清晰度，並確保語氣專業。
+    保持簡潔。不要捏造事實。
+
+    原始筆記: "${content}"
+  `;
+
+// ============== 活動記錄欄位擷取 ==============
+
+const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative'];
+const USAGE_TYPES: UsageType[] = ['訂單', '樣品'];
+
+// 沒有把握的欄位回傳空字串或空陣列，由 normalizeExtraction 視為「不建議」
+export const NOTE_EXTRACTION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    activityType: { type: 'string', enum: [...ACTIVITY_TYPES, ''] },
+    sentiment: { type: 'string', enum: [...SENTIMENTS, ''] },
+    tags: { type: 'array', items: { type: 'string' } },
+    nextStep: { type: 'string', description: '內文提到的下一步行動，簡短一句' },
+    nextStepDate: { type: 'string', description: 'YYYY-MM-DD，內文沒有提到時間則為空字串' },
+    relatedContactIds: { type: 'array', items: { type: 'string' } },
+    orderMentions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          productCode: { type: 'string' },
+          quantity: { type: 'integer' },
+          type: { type: 'string', enum: USAGE_TYPES },
+          excerpt: { type: 'string', description: '內文中提到數量的原句' }
+        },
+        required: ['productCode', 'quantity', 'type', 'excerpt'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['activityType', 'sentiment', 'tags', 'nextStep', 'nextStepDate', 'relatedContactIds', 'orderMentions'],
+  additionalProperties: false
+};
+
+export const buildExtractionPrompt = ({ content, activityDate, contacts, tags, products }: NoteExtractionInput) => `
+    你是一位醫療器材業務的 CRM 助理。請從以下活動記錄中擷取結構化欄位，只根據內文，不要猜測。
+    活動日期是 ${activityDate}，內文中的「明天」「下週三」等相對日期請以此換算為 YYYY-MM-DD。
+
+    欄位說明：
+    - activityType：${ACTIVITY_TYPES.join('、')} 之一，無法判斷則為空字串。
+    - sentiment：客戶的整體反應 positive / neutral / negative，無法判斷則為空字串。
+    - tags：只能從可用標籤中選擇。
+    - nextStep、nextStepDate：內文明確提到的下一步與時間。
+    - relatedContactIds：內文提到的聯絡人，只能使用聯絡人清單中的 id。
+    - orderMentions：內文提到的訂購或樣品數量，productCode 只能使用產品目錄中的代碼。
+
+    可用標籤: ${JSON.stringify(tags)}
+    聯絡人: ${JSON.stringify(contacts.map(c => ({ id: c.id, name: c.name, role: c.role })))}
+    產品目錄: ${JSON.stringify(products.map(p => ({ code: p.code, name: p.name })))}
+
+    活動記錄: "${content}"
+  `;
+
+// 只保留清單中存在的聯絡人、標籤與產品；聯絡人也接受以姓名回傳
+export const normalizeExtraction = (raw: any, input: NoteExtractionInput): NoteExtraction => {
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const list = (value: unknown): any[] => Array.isArray(value) ? value : [];
+  const findProductCode = (value: unknown) =>
+    input.products.find(p => p.code.toUpperCase() === text(value).toUpperCase())?.code || '';
+  const nextStepDate = text(raw?.nextStepDate);
+
+  const contactIds = list(raw?.relatedContactIds)
+    .map(value => text(value))
+    .map(value => input.contacts.find(c => c.id === value || c.name === value)?.id)
+    .filter((id): id is string => !!id);
+
+  return {
+    activityType: ACTIVITY_TYPES.includes(raw?.activityType) ? raw.activityType : undefined,
+    sentiment: SENTIMENTS.includes(raw?.sentiment) ? raw.sentiment : undefined,
+    tags: Array.from(new Set(list(raw?.tags).map(text).filter(tag => input.tags.includes(tag)))),
+    nextStep: text(raw?.nextStep) || undefined,
+    nextStepDate: isDateString(nextStepDate) && nextStepDate >= input.activityDate ? nextStepDate : undefined,
+    relatedContactIds: Array.from(new Set(contactIds)),
+    orderMentions: list(raw?.orderMentions)
+      .map(m => ({
+        productCode: findProductCode(m?.productCode),
+        quantity: Math.round(Number(m?.quantity)),
+        type: pickEnum<UsageType>(m?.type, USAGE_TYPES, '訂單'),
+        excerpt: text(m?.excerpt)
+      }))
+      .filter(m => m.productCode && m.quantity > 0)
+  };
+};
+
+// ============== 語音轉錄 ==============
+
+export const TRANSCRIPTION_PROMPT = `
+    請將這段業務拜訪的口述錄音逐字轉錄為繁體中文（台灣用語）。
+    保留人名、醫院名稱、產品代碼與數量，不要摘要、不要加入說明或標點以外的內容。
+    聽不清楚的部分以「（聽不清楚）」標示。只輸出轉錄文字。
+  `;
@@ -0,0 +1,74 @@
+import { FunctionsHttpError, FunctionsFetchError, FunctionsRelayError } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { DataError, toDataError } from '../dataErrors';
+import { AIFeature, StreamOptions } from './types';
+import { readEventStream, createAbortError } from './streaming';
+
+// 呼叫 Supabase Edge Function ai-proxy（supabase/functions/ai-proxy）
+
+const PROXY_FUNCTION = 'ai-proxy';
+
+export interface AIQuota {
+  used: number;  // 今日已用 token 數
+  limit: number; // 依 role_type 的每日上限
+  role: string;
+}
+
+interface ProxyRequest {
+  feature: AIFeature;
+  model: string;
+  prompt: string;
+  responseJsonSchema?: unknown;
+  audio?: { mimeType: string; data: string }; // base64，僅語音轉錄使用
+}
+
+// 將 Edge Function 的錯誤轉為 DataError，並保留伺服器回傳的中文訊息（例如額度用完）
+const toProxyError = async (error: unknown): Promise<DataError> => {
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+    return new DataError('network', '無法連線到 AI 服務，請檢查網路連線', { cause: error });
+  }
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const body = await response.json().catch(() => null);
+    const message: string | undefined = body?.error;
+    if (response.status === 401) return new DataError('auth_expired', message || '登入已逾時，請重新登入', { cause: error });
+    if (response.status === 429) return new DataError('permission_denied', message || '今日 AI 用量已達上限', { cause: error });
+    if (response.status === 400) return new DataError('validation', message || '請求格式不正確', { cause: error });
+    return new DataError('unknown', message || 'AI 服務暫時無法使用，請稍後再試', { cause: error });
+  }
+  return toDataError(error);
+};
+
+export const invokeAIProxy = async (request: ProxyRequest): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke(PROXY_FUNCTION, { body: request });
+  if (error) throw await toProxyError(error);
+  return data?.text || '';
+};
+
+// 串流模式：ai-proxy 以 SSE 逐段回傳 { text }，中途失敗時回傳 { error }
+export const streamAIProxy = async (request: ProxyRequest, options: StreamOptions = {}): Promise<string> => {
+  const { signal, onText } = options;
+  const { data, error } = await supabase.functions.invoke(PROXY_FUNCTION, {
+    body: { ...request, stream: true },
+    signal
+  });
+  if (signal?.aborted) throw createAbortError();
+  if (error) throw await toProxyError(error);
+
+  let text = '';
+  await readEventStream(data as Response, (eventData) => {
+    const payload = JSON.parse(eventData);
+    if (payload.error) throw new DataError('unknown', payload.error);
+    if (payload.text) {
+      text += payload.text;
+      onText?.(text);
+    }
+  }, signal);
+  return text;
+};
+
+export const fetchAIQuota = async (): Promise<AIQuota> => {
+  const { data, error } = await supabase.functions.invoke(PROXY_FUNCTION, { body: { action: 'quota' } });
+  if (error) throw await toProxyError(error);
+  return data.quota;
+};
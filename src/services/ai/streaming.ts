@@ -0,0 +1,91 @@
+// 串流回應的共用工具：讀取 Server-Sent Events，以及解析尚未完整的 JSON
+
+export const createAbortError = () => new DOMException('已停止產生', 'AbortError');
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// 逐一取出 SSE 事件的 data 內容；收到 [DONE] 即結束（OpenAI 格式）
+export const readEventStream = async (
+  response: Response,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  if (!response.body) throw new Error('AI 服務沒有回傳內容');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleEvent = (event: string): boolean => {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return true;
+    if (data === '[DONE]') return false;
+    onData(data);
+    return true;
+  };
+
+  try {
+    while (true) {
+      if (signal?.aborted) throw createAbortError();
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+      for (const event of events) {
+        if (!handleEvent(event)) return;
+      }
+    }
+    if (buffer.trim()) handleEvent(buffer);
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+// 補上未關閉的字串與括號後嘗試解析；結尾是不完整的欄位時，退回到最後一個逗號再試。
+// 無法解析時回傳 null，呼叫端等下一段文字再試
+export const parsePartialJson = (text: string): any => {
+  const stack: string[] = [];
+  const commas: { index: number; closers: string }[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+    else if (char === ',') commas.push({ index: i, closers: stack.slice().reverse().join('') });
+  }
+
+  const tryParse = (candidate: string) => {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const closers = stack.slice().reverse().join('');
+  let head = text;
+  if (inString) head = `${escaped ? text.slice(0, -1) : text}"`;
+  const parsed = tryParse(head + closers);
+  if (parsed !== undefined) return parsed;
+
+  const lastComma = commas[commas.length - 1];
+  if (!lastComma) return null;
+  return tryParse(text.slice(0, lastComma.index) + lastComma.closers) ?? null;
+};
@@ -0,0 +1,67 @@
+import { Hospital, Contact, Note, UsageRecord, Product, HospitalInsight, NoteExtraction } from '../../types';
+
+// AI 供應商介面：畫面只透過 aiService 呼叫，不直接依賴任何廠商的 SDK
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export type EmailTone = 'Professional' | 'Friendly' | 'Urgent';
+
+// 用量記錄中的功能類別
+export type AIFeature = 'insight' | 'email' | 'refine' | 'extract' | 'transcribe';
+
+export interface InsightInput {
+  hospital: Hospital;
+  contacts: Contact[];
+  notes: Note[];
+  usage: UsageRecord[];
+  products: Product[];
+}
+
+export interface EmailDraftInput {
+  contactName: string;
+  hospitalName: string;
+  context: string;
+  tone: EmailTone;
+}
+
+export interface NoteExtractionInput {
+  content: string;
+  activityDate: string; // 下一步日期以活動日期為基準推算
+  contacts: Contact[];
+  tags: string[];       // 可選用的標籤
+  products: Product[];
+}
+
+export interface TranscriptionInput {
+  audio: Blob;
+  durationSeconds: number;
+}
+
+// 串流選項：onText 每收到一段就以目前累積的完整文字呼叫；signal 中止時丟出 AbortError
+export interface StreamOptions {
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// 失敗時直接丟出錯誤，由 aiService 統一轉換
+export interface AIProvider {
+  id: AIProviderId;
+  generateHospitalInsight(input: InsightInput, options?: StreamOptions): Promise<HospitalInsight>;
+  generateEmailDraft(input: EmailDraftInput, options?: StreamOptions): Promise<string>;
+  refineNoteContent(content: string): Promise<string>;
+  extractNoteFields(input: NoteExtractionInput): Promise<NoteExtraction>;
+  transcribeAudio(input: TranscriptionInput): Promise<string>;
+}
+
+// 儲存在瀏覽器的供應商設定；Gemini 金鑰只存在伺服器端的 ai-proxy
+export interface AISettings {
+  provider: AIProviderId;
+  geminiModel: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiApiKey: string;
+  // 語音轉錄：填寫網址時改用該 Whisper 相容服務（例如自架的 faster-whisper），留空則使用上方供應商
+  transcriptionBaseUrl: string;
+  transcriptionModel: string;
+  transcriptionApiKey: string;
+}
@@ -0,0 +1,41 @@
+// 相容 OpenAI Audio Transcriptions API 的語音轉錄（OpenAI Whisper、faster-whisper-server、LocalAI 等）
+
+export const DEFAULT_WHISPER_MODEL = 'whisper-1';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+// 服務依副檔名判斷格式，檔名需與實際編碼一致
+const toFileName = (mimeType: string) => `recording.${FILE_EXTENSIONS[mimeType.split(';')[0]] || 'webm'}`;
+
+export const transcribeWithWhisper = async (
+  baseUrl: string,
+  model: string,
+  apiKey: string,
+  audio: Blob
+): Promise<string> => {
+  const form = new FormData();
+  form.append('file', audio, toFileName(audio.type));
+  form.append('model', model || DEFAULT_WHISPER_MODEL);
+  form.append('language', 'zh');
+  form.append('response_format', 'json');
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+    method: 'POST',
+    // 本機服務不需要金鑰；Content-Type 由瀏覽器依 FormData 自動帶入 boundary
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    body: form
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw Object.assign(new Error(`轉錄服務回應 ${response.status}: ${text.slice(0, 200)}`), { status: response.status });
+  }
+  const data = await response.json();
+  return (data?.text || '').trim();
+};
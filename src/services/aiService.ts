@@ -0,0 +1,212 @@
+import { Hospital, Contact, Note, UsageRecord, Product, HospitalInsight, NoteExtraction } from '../types';
+import { DataError, Result, ok, fail, toDataError } from './dataErrors';
+import { AIProvider, AIProviderId, AISettings, EmailTone } from './ai/types';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './ai/geminiProvider';
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './ai/openAICompatibleProvider';
+import { createMockProvider } from './ai/mockProvider';
+import { transcribeWithWhisper, DEFAULT_WHISPER_MODEL } from './ai/whisper';
+import { parsePartialJson, isAbortError } from './ai/streaming';
+import { normalizeInsight, getToday, TONE_NAMES } from './ai/prompts';
+import { fetchAIQuota as invokeQuota, AIQuota } from './ai/proxyClient';
+
+export type { AIProviderId, AISettings, EmailTone } from './ai/types';
+export type { AIQuota } from './ai/proxyClient';
+
+// AI 功能的統一入口：依設定選擇供應商，畫面不需要知道實際呼叫的是哪一家
+
+const SETTINGS_STORAGE_KEY = 'aiProviderSettings';
+
+export const EMAIL_TONE_NAMES: Record<EmailTone, string> = TONE_NAMES;
+
+export const AI_PROVIDER_NAMES: Record<AIProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 相容服務',
+  mock: '本機模擬'
+};
+
+// 開發環境預設使用本機模擬，不需部署 ai-proxy 也能操作 AI 功能
+export const getDefaultAISettings = (): AISettings => ({
+  provider: import.meta.env.DEV ? 'mock' : 'gemini',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  openaiBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  openaiModel: DEFAULT_OPENAI_MODEL,
+  openaiApiKey: '',
+  transcriptionBaseUrl: '',
+  transcriptionModel: DEFAULT_WHISPER_MODEL,
+  transcriptionApiKey: ''
+});
+
+// ============== 設定 ==============
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) {
+      // 舊版設定曾在瀏覽器保存 Gemini 金鑰，讀取時一併移除
+      const { geminiApiKey: _legacyKey, ...parsed } = JSON.parse(saved);
+      return { ...getDefaultAISettings(), ...parsed };
+    }
+  } catch (e) {
+    console.error('Error reading AI settings from localStorage:', e);
+  }
+  return getDefaultAISettings();
+};
+
+let cachedProvider: { settings: string; provider: AIProvider } | null = null;
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  cachedProvider = null;
+};
+
+const createProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.geminiModel || DEFAULT_GEMINI_MODEL);
+    case 'openai':
+      if (!settings.openaiBaseUrl) throw new DataError('validation', '請設定 AI 服務網址');
+      return createOpenAICompatibleProvider(
+        settings.openaiBaseUrl,
+        settings.openaiModel || DEFAULT_OPENAI_MODEL,
+        settings.openaiApiKey,
+        settings.transcriptionModel || DEFAULT_WHISPER_MODEL
+      );
+    case 'mock':
+    default:
+      return createMockProvider();
+  }
+};
+
+const getProvider = (): AIProvider => {
+  const settings = loadAISettings();
+  const key = JSON.stringify(settings);
+  if (cachedProvider?.settings !== key) {
+    cachedProvider = { settings: key, provider: createProvider(settings) };
+  }
+  return cachedProvider.provider;
+};
+
+const toAIError = (error: unknown): DataError => {
+  if (isAbortError(error)) {
+    return new DataError('unknown', '已停止產生', { cause: error });
+  }
+  if (error instanceof SyntaxError) {
+    return new DataError('unknown', 'AI 回傳的格式不正確，請重新產生');
+  }
+  return toDataError(error);
+};
+
+// 以一段短文字確認設定可用，供設定頁的「測試連線」使用
+export const testAIProvider = async (settings: AISettings): Promise<Result<void>> => {
+  try {
+    await createProvider(settings).refineNoteContent('測試連線');
+    return ok(undefined);
+  } catch (error) {
+    console.error('AI provider test failed:', error);
+    return fail(toAIError(error));
+  }
+};
+
+// 今日 token 用量與上限，只有經由 ai-proxy 的 Gemini 有額度限制
+export const fetchAIQuota = async (): Promise<Result<AIQuota>> => {
+  try {
+    return ok(await invokeQuota());
+  } catch (error) {
+    console.error('AI quota error:', error);
+    return fail(toDataError(error));
+  }
+};
+
+// ============== AI 功能 ==============
+
+// 串流中的部分結果透過 onPartial 回報；呼叫端以 signal 中止時回傳「已停止產生」的錯誤
+export interface AIStreamOptions<T> {
+  onPartial?: (partial: T) => void;
+  signal?: AbortSignal;
+}
+
+export const generateHospitalInsight = async (
+  hospital: Hospital,
+  contacts: Contact[],
+  notes: Note[],
+  usage: UsageRecord[],
+  products: Product[],
+  { onPartial, signal }: AIStreamOptions<HospitalInsight> = {}
+): Promise<Result<HospitalInsight>> => {
+  const today = getToday();
+  // 收到健康度分數後才開始顯示，避免畫面先出現 0 分
+  const onText = onPartial && ((text: string) => {
+    const raw = parsePartialJson(text);
+    if (typeof raw?.healthScore === 'number') onPartial(normalizeInsight(raw, today));
+  });
+
+  try {
+    return ok(await getProvider().generateHospitalInsight({ hospital, contacts, notes, usage, products }, { onText, signal }));
+  } catch (error) {
+    if (!isAbortError(error)) console.error('AI insight error:', error);
+    return fail(toAIError(error));
+  }
+};
+
+export const generateEmailDraft = async (
+  contactName: string,
+  hospitalName: string,
+  context: string,
+  tone: EmailTone,
+  { onPartial, signal }: AIStreamOptions<string> = {}
+): Promise<Result<string>> => {
+  try {
+    const draft = await getProvider().generateEmailDraft({ contactName, hospitalName, context, tone }, { onText: onPartial, signal });
+    if (!draft.trim()) return fail(new DataError('unknown', 'AI 沒有產生任何內容，請重新產生'));
+    return ok(draft);
+  } catch (error) {
+    if (!isAbortError(error)) console.error('AI email draft error:', error);
+    return fail(toAIError(error));
+  }
+};
+
+// 從活動記錄內文擷取欄位建議；結果只供預先填入表單，由業務確認後儲存
+export const extractNoteFields = async (
+  content: string,
+  activityDate: string,
+  contacts: Contact[],
+  tags: string[],
+  products: Product[]
+): Promise<Result<NoteExtraction>> => {
+  try {
+    return ok(await getProvider().extractNoteFields({ content, activityDate, contacts, tags, products }));
+  } catch (error) {
+    console.error('AI extraction error:', error);
+    return fail(toAIError(error));
+  }
+};
+
+// 失敗時保留原文，使用者不會因此遺失已輸入的內容
+export const refineNoteContent = async (content: string): Promise<string> => {
+  try {
+    return (await getProvider().refineNoteContent(content)) || content;
+  } catch (error) {
+    console.error('AI refine error:', error);
+    return content;
+  }
+};
+
+// 語音轉錄：有設定轉錄服務網址時直接呼叫該服務，否則交給目前的 AI 供應商
+export const transcribeAudio = async (audio: Blob, durationSeconds: number): Promise<Result<string>> => {
+  try {
+    const settings = loadAISettings();
+    const text = settings.transcriptionBaseUrl
+      ? await transcribeWithWhisper(
+          settings.transcriptionBaseUrl,
+          settings.transcriptionModel || DEFAULT_WHISPER_MODEL,
+          settings.transcriptionApiKey,
+          audio
+        )
+      : await getProvider().transcribeAudio({ audio, durationSeconds });
+    if (!text.trim()) return fail(new DataError('unknown', '沒有辨識到語音內容，請靠近麥克風重新錄音'));
+    return ok(text.trim());
+  } catch (error) {
+    console.error('AI transcription error:', error);
+    return fail(toAIError(error));
+  }
+};
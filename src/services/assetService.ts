@@ -0,0 +1,42 @@
+import { AssetStatus, EquipmentAsset, OwnershipType } from '../types';
+import { toDateKey } from '../lib/dateKey';
+
+// ============== 設備序號彙總 ==============
+// 已安裝設備的數量是業務填寫的彙總；登錄序號後可逐台比對狀態與所有權
+
+export const ASSET_STATUS_CONFIG: Record<AssetStatus, { label: string; className: string }> = {
+  in_service: { label: '使用中', className: 'bg-emerald-100 text-emerald-700' },
+  in_repair: { label: '送修中', className: 'bg-amber-100 text-amber-700' },
+  returned: { label: '已退回', className: 'bg-slate-100 text-slate-500' }
+};
+
+export const OWNERSHIP_TYPES: OwnershipType[] = ['買斷', '租賃', '借用'];
+
+export interface AssetSummary {
+  registered: number;  // 仍在院內（未退回）的台數
+  byStatus: Record<AssetStatus, number>;
+  byOwnership: Partial<Record<OwnershipType, number>>;
+}
+
+// 同一型號的序號彙總；已退回的不計入所有權分布
+export const summarizeAssets = (assets: EquipmentAsset[], productCode: string): AssetSummary => {
+  const summary: AssetSummary = {
+    registered: 0,
+    byStatus: { in_service: 0, in_repair: 0, returned: 0 },
+    byOwnership: {}
+  };
+  assets
+    .filter(asset => asset.productCode === productCode)
+    .forEach(asset => {
+      summary.byStatus[asset.status]++;
+      if (asset.status === 'returned') return;
+      summary.registered++;
+      summary.byOwnership[asset.ownership] = (summary.byOwnership[asset.ownership] || 0) + 1;
+    });
+  return summary;
+};
+
+export const isWarrantyExpired = (asset: EquipmentAsset, today: Date = new Date()) => {
+  if (!asset.warrantyEndDate) return false;
+  return asset.warrantyEndDate < toDateKey(today);
+};
@@ -0,0 +1,160 @@
+import { supabase, DBAuditEvent } from '../lib/supabase';
+import { AuditEvent, AuditEntityType, AuditAction, AuditFieldChange } from '../types';
+import { mapAuditEventRow, describeRow } from './rowMappers';
+import { toDataError } from './dataErrors';
+import type { Page } from './databaseService';
+
+// 稽核記錄：databaseService 與離線同步的每次寫入都會附加一筆 audit_events，
+// 記錄操作者、對象與欄位層級的修改前後值。資料表只開放新增，不能修改或刪除
+
+type Row = Record<string, any>;
+
+// 不列入差異比對的欄位（系統自動維護）
+const IGNORED_FIELDS = new Set(['id', 'updated_at', 'user_id', 'created_by', 'author_id', 'deleted_at', 'deleted_by', 'uploaded_by', 'recorded_by', 'storage_path', 'entity_id', 'contract_id', 'equipment_id', 'asset_id', 'loaner_asset_id', 'tags_lower', 'reported_by_contact_id']);
+
+// 活動記錄的 created_at 是使用者填寫的活動日期，其他資料表則是系統時間
+const isIgnoredField = (table: AuditEntityType, field: string) =>
+  IGNORED_FIELDS.has(field) || (field === 'created_at' && table !== 'notes');
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// 比對兩筆資料列，只留下有變動的欄位；新增時 before 為空，刪除時 after 為空
+const diffRows = (table: AuditEntityType, before: Row | null, after: Row | null): Record<string, AuditFieldChange> => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: Record<string, AuditFieldChange> = {};
+
+  fields.forEach(field => {
+    if (isIgnoredField(table, field)) return;
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (before && after && isSameValue(previous, next)) return;
+    if (!before && next === null) return;
+    if (!after && previous === null) return;
+    changes[field] = { before: previous, after: next };
+  });
+
+  return changes;
+};
+
+const getActor = async (): Promise<{ id: string | null; name: string }> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  return {
+    id: user?.id || null,
+    name: user?.user_metadata?.full_name || user?.email || '未知使用者'
+  };
+};
+
+// ============== 寫入 ==============
+
+export interface AuditInput {
+  table: AuditEntityType;
+  action: AuditAction;
+  entityId: string;
+  before?: Row | null;
+  after?: Row | null;
+  occurredAt?: string; // 離線修改以編輯當下的時間記錄
+}
+
+// 讀取修改前的資料列，供更新時比對欄位差異
+export const fetchRowSnapshot = async (table: AuditEntityType, column: string, value: string): Promise<Row | null> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// 稽核記錄寫入失敗不應讓使用者的修改失敗，只記錄錯誤
+export const recordAuditEvent = async (input: AuditInput): Promise<void> => {
+  const before = input.before || null;
+  const after = input.after || null;
+  const changes = diffRows(input.table, before, after);
+  if (input.action === 'update' && Object.keys(changes).length === 0) return;
+
+  const snapshot = after || before || {};
+  const hospitalId = input.table === 'hospitals'
+    ? input.entityId
+    : snapshot.hospital_id || null;
+
+  try {
+    const actor = await getActor();
+    const { error } = await supabase
+      .from('audit_events')
+      .insert({
+        entity_type: input.table,
+        entity_id: input.entityId,
+        entity_label: describeRow(input.table, snapshot),
+        hospital_id: hospitalId,
+        action: input.action,
+        changes,
+        actor_id: actor.id,
+        actor_name: actor.name,
+        ...(input.occurredAt ? { created_at: input.occurredAt } : {})
+      });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error(`Error recording audit event for ${input.table}/${input.entityId}:`, error);
+  }
+};
+
+// ============== 查詢 ==============
+
+export const AUDIT_PAGE_SIZE = 30;
+
+export interface AuditQuery {
+  hospitalId?: string;
+  entityType?: AuditEntityType;
+  actorId?: string;
+  from?: string; // YYYY-MM-DD，含當日
+  to?: string;   // YYYY-MM-DD，含當日
+  cursor?: string | null;
+  limit?: number;
+}
+
+// 依時間由新到舊，以 (created_at, id) 作為游標分頁
+export const fetchAuditEvents = async (query: AuditQuery = {}): Promise<Page<AuditEvent>> => {
+  const limit = query.limit || AUDIT_PAGE_SIZE;
+
+  let request = supabase.from('audit_events').select('*');
+
+  if (query.hospitalId) request = request.eq('hospital_id', query.hospitalId);
+  if (query.entityType) request = request.eq('entity_type', query.entityType);
+  if (query.actorId) request = request.eq('actor_id', query.actorId);
+  if (query.from) request = request.gte('created_at', new Date(`${query.from}T00:00:00`).toISOString());
+  if (query.to) {
+    const end = new Date(`${query.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    request = request.lt('created_at', end.toISOString());
+  }
+
+  if (query.cursor) {
+    const [cursorDate, cursorId] = JSON.parse(query.cursor) as [string, string];
+    request = request.or(
+      `created_at.lt."${cursorDate}",and(created_at.eq."${cursorDate}",id.lt."${cursorId}")`
+    );
+  }
+
+  const { data, error } = await request
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    console.error('Error fetching audit events:', error);
+    throw toDataError(error);
+  }
+
+  const rows = (data || []) as DBAuditEvent[];
+  const items = rows.slice(0, limit).map(mapAuditEventRow);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? JSON.stringify([last.createdAt, last.id]) : null
+  };
+};
@@ -0,0 +1,129 @@
+import { Contract, ContractRenewalStage } from '../types';
+import { toDateKey } from '../lib/dateKey';
+
+// ============== 合約續約 ==============
+// 依剩餘天數與提醒門檻判斷合約是否需要處理；已續約或確定不續約的合約不再提醒
+
+const THRESHOLDS_STORAGE_KEY = 'contract_alert_thresholds';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// 提醒門檻（天）：notice ≥ warning ≥ critical
+export interface ContractAlertThresholds {
+  notice: number;
+  warning: number;
+  critical: number;
+}
+
+export const DEFAULT_CONTRACT_ALERT_THRESHOLDS: ContractAlertThresholds = {
+  notice: 180,
+  warning: 90,
+  critical: 30
+};
+
+export type ContractAlertLevel = 'expired' | 'critical' | 'warning' | 'notice' | 'active';
+
+export const CONTRACT_RENEWAL_STAGES: Record<ContractRenewalStage, { label: string; className: string }> = {
+  not_started: { label: '尚未開始', className: 'bg-slate-100 text-slate-600' },
+  negotiating: { label: '洽談中', className: 'bg-blue-100 text-blue-700' },
+  renewed: { label: '已續約', className: 'bg-emerald-100 text-emerald-700' },
+  lost: { label: '未續約', className: 'bg-red-100 text-red-700' }
+};
+
+export const CONTRACT_ALERT_LEVELS: Record<ContractAlertLevel, { label: string; className: string }> = {
+  expired: { label: '已到期', className: 'bg-red-100 text-red-700' },
+  critical: { label: '即將到期', className: 'bg-red-100 text-red-700' },
+  warning: { label: '續約提醒', className: 'bg-amber-100 text-amber-700' },
+  notice: { label: '續約預告', className: 'bg-yellow-50 text-yellow-700' },
+  active: { label: '有效', className: 'bg-emerald-100 text-emerald-700' }
+};
+
+export interface ContractRenewalItem {
+  contract: Contract;
+  endDate: string;        // YYYY-MM-DD
+  daysRemaining: number;  // 負數表示已到期
+  alertLevel: ContractAlertLevel;
+  stage: ContractRenewalStage;
+}
+
+// 門檻須為正整數且由大到小，回傳錯誤訊息；沒有問題時回傳 null
+export const validateContractAlertThresholds = ({ notice, warning, critical }: ContractAlertThresholds): string | null => {
+  if ([notice, warning, critical].some(value => !Number.isInteger(value) || value <= 0)) {
+    return '提醒天數必須是正整數';
+  }
+  if (notice < warning || warning < critical) {
+    return '提醒天數須由大到小：預告 ≥ 提醒 ≥ 即將到期';
+  }
+  return null;
+};
+
+// 儲存的設定不合法時整組改用預設值
+const normalizeThresholds = (thresholds: Partial<ContractAlertThresholds>): ContractAlertThresholds => {
+  const merged = { ...DEFAULT_CONTRACT_ALERT_THRESHOLDS, ...thresholds };
+  return validateContractAlertThresholds(merged) ? DEFAULT_CONTRACT_ALERT_THRESHOLDS : merged;
+};
+
+export const loadContractAlertThresholds = (): ContractAlertThresholds => {
+  try {
+    const saved = localStorage.getItem(THRESHOLDS_STORAGE_KEY);
+    if (saved) return normalizeThresholds(JSON.parse(saved));
+  } catch (e) {
+    console.error('Error reading contract alert thresholds from localStorage:', e);
+  }
+  return DEFAULT_CONTRACT_ALERT_THRESHOLDS;
+};
+
+export const saveContractAlertThresholds = (thresholds: ContractAlertThresholds) => {
+  localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+};
+
+export const getContractEndDate = (contract: Pick<Contract, 'startDate' | 'durationYears'>): string => {
+  const end = new Date(`${contract.startDate.slice(0, 10)}T00:00:00`);
+  end.setFullYear(end.getFullYear() + contract.durationYears);
+  return toDateKey(end);
+};
+
+export const getContractAlertLevel = (
+  daysRemaining: number,
+  thresholds: ContractAlertThresholds = DEFAULT_CONTRACT_ALERT_THRESHOLDS
+): ContractAlertLevel => {
+  if (daysRemaining < 0) return 'expired';
+  if (daysRemaining <= thresholds.critical) return 'critical';
+  if (daysRemaining <= thresholds.warning) return 'warning';
+  if (daysRemaining <= thresholds.notice) return 'notice';
+  return 'active';
+};
+
+// 已續約或確定不續約，續約流程已結束
+export const isRenewalClosed = (stage: ContractRenewalStage) => stage === 'renewed' || stage === 'lost';
+
+export const buildRenewalItem = (
+  contract: Contract,
+  thresholds: ContractAlertThresholds = DEFAULT_CONTRACT_ALERT_THRESHOLDS,
+  today: Date = new Date()
+): ContractRenewalItem => {
+  const endDate = getContractEndDate(contract);
+  const todayStart = new Date(`${toDateKey(today)}T00:00:00`);
+  const daysRemaining = Math.round((new Date(`${endDate}T00:00:00`).getTime() - todayStart.getTime()) / DAY_MS);
+  return {
+    contract,
+    endDate,
+    daysRemaining,
+    alertLevel: getContractAlertLevel(daysRemaining, thresholds),
+    stage: contract.renewalStage || 'not_started'
+  };
+};
+
+// 依剩餘天數排序，最急迫的在前
+export const buildRenewalPipeline = (
+  contracts: Contract[],
+  thresholds: ContractAlertThresholds = DEFAULT_CONTRACT_ALERT_THRESHOLDS,
+  today: Date = new Date()
+): ContractRenewalItem[] =>
+  contracts
+    .map(contract => buildRenewalItem(contract, thresholds, today))
+    .sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+// 進入提醒範圍（含已到期）且續約流程尚未結束的合約
+export const getExpiringContracts = (items: ContractRenewalItem[]) =>
+  items.filter(item => item.alertLevel !== 'active' && !isRenewalClosed(item.stage));
@@ -0,0 +1,109 @@
+// 資料存取錯誤分類：將 Supabase / PostgREST / 瀏覽器錯誤轉為前端可判斷的類型，
+// 寫入操作以 Result 回傳，呼叫端據此回復樂觀更新並顯示提示
+
+export type DataErrorKind =
+  | 'auth_expired'       // 登入逾時，需重新登入
+  | 'permission_denied'  // RLS 拒絕或權限不足
+  | 'validation'         // 資料不符合欄位限制
+  | 'conflict'           // 資料重複，或已被其他人修改/刪除
+  | 'network'            // 連線失敗
+  | 'unknown';
+
+export class DataError extends Error {
+  kind: DataErrorKind;
+  code?: string;
+  cause?: unknown;
+
+  constructor(kind: DataErrorKind, message: string, options: { code?: string; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'DataError';
+    this.kind = kind;
+    this.code = options.code;
+    this.cause = options.cause;
+  }
+}
+
+// 專案未啟用 strict，須以 result.ok === false 判斷失敗，TypeScript 才會縮小型別
+export type Result<T> =
+  | { ok: true; data: T; queued?: boolean } // queued: 離線時已排入 outbox，尚未送達伺服器
+  | { ok: false; error: DataError };
+
+export const ok = <T>(data: T, queued?: boolean): Result<T> => ({ ok: true, data, queued });
+
+export const fail = <T = never>(error: DataError): Result<T> => ({ ok: false, error });
+
+// ============== 錯誤分類 ==============
+
+// PostgreSQL 錯誤代碼 → 錯誤類型
+const POSTGRES_CODE_KINDS: Record<string, DataErrorKind> = {
+  '42501': 'permission_denied', // insufficient_privilege（RLS with check 失敗）
+  '23505': 'conflict',          // unique_violation
+  '23502': 'validation',        // not_null_violation
+  '23503': 'validation',        // foreign_key_violation
+  '23514': 'validation',        // check_violation
+  '22001': 'validation',        // string_data_right_truncation
+  '22007': 'validation',        // invalid_datetime_format
+  '22P02': 'validation',        // invalid_text_representation
+  'PGRST301': 'auth_expired',   // JWT 過期或無效
+  'PGRST303': 'auth_expired'
+};
+
+const DEFAULT_MESSAGES: Record<DataErrorKind, string> = {
+  auth_expired: '登入已逾時，請重新登入',
+  permission_denied: '您沒有權限執行此操作',
+  validation: '資料格式不正確，請檢查輸入內容',
+  conflict: '資料已被其他人修改或已存在，請重新整理後再試',
+  network: '無法連線到伺服器，請檢查網路連線',
+  unknown: '發生未預期的錯誤，請稍後再試'
+};
+
+// 判斷是否為連線問題（Supabase 會把 fetch 失敗包成一般錯誤物件回傳）
+export const isNetworkError = (error: any): boolean => {
+  if (error instanceof DataError) return error.kind === 'network';
+  if (!navigator.onLine) return true;
+  const message = (error?.message || '').toLowerCase();
+  return (
+    message.includes('failed to fetch') ||
+    message.includes('networkerror') ||
+    message.includes('load failed') ||
+    message.includes('network request failed')
+  );
+};
+
+const classifyKind = (error: any): DataErrorKind => {
+  if (isNetworkError(error)) return 'network';
+
+  const code: string | undefined = error?.code;
+  if (code && POSTGRES_CODE_KINDS[code]) return POSTGRES_CODE_KINDS[code];
+
+  const status: number | undefined = error?.status;
+  if (status === 401) return 'auth_expired';
+  if (status === 403) return 'permission_denied';
+  if (status === 409) return 'conflict';
+
+  const message = (error?.message || '').toLowerCase();
+  if (message.includes('jwt expired') || message.includes('invalid jwt') || message.includes('refresh token')) {
+    return 'auth_expired';
+  }
+  if (message.includes('row-level security') || message.includes('permission denied')) {
+    return 'permission_denied';
+  }
+  return 'unknown';
+};
+
+export const toDataError = (error: unknown): DataError => {
+  if (error instanceof DataError) return error;
+  const kind = classifyKind(error);
+  return new DataError(kind, DEFAULT_MESSAGES[kind], { code: (error as any)?.code, cause: error });
+};
+
+// 給使用者看的錯誤訊息，action 為失敗的操作（例如「刪除記錄」）
+export const describeError = (error: DataError, action?: string): string =>
+  action ? `${action}失敗：${error.message}` : error.message;
+
+// 更新/刪除沒有影響任何資料列：資料已被刪除，或 RLS 靜默過濾掉了這筆資料
+export const noRowsAffected = (): DataError =>
+  new DataError('conflict', '這筆資料已被刪除或您沒有修改權限，請重新整理');
+
+export const validationError = (message: string): DataError =>
+  new DataError('validation', message);
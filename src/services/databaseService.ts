@@ -1,750 +1,2153 @@
+import { FunctionsHttpError, FunctionsFetchError, FunctionsRelayError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { Hospital, Contact, Note, UsageRecord, InstalledEquipment, SalesStage, HospitalLevel } from '../types';
+import {
+  CacheStore,
+  OutboxMutation,
+  PendingRecording,
+  cacheGetAll,
+  cacheReplaceAll,
+  cachePut,
+  cachePutMany,
+  cacheDelete,
+  enqueueMutation
+} from '../lib/offlineStore';
+import { markLocalWrite } from './realtimeService';
+import { getPriceAtDate } from './revenueService';
+import { diffMaintenanceSchedule } from './maintenanceService';
+import {
+  OPEN_TICKET_STATUSES,
+  SERVICE_TICKET_STATUS_CONFIG,
+  SERVICE_TICKET_TRANSITIONS,
+  isLoanerOut,
+  isTicketOpen
+} from './ticketService';
+import { recordAuditEvent, fetchRowSnapshot } from './auditService';
+import {
+  DataError,
+  Result,
+  ok,
+  fail,
+  toDataError,
+  isNetworkError,
+  noRowsAffected,
+  validationError
+} from './dataErrors';
+import {
+  Hospital, Contact, Note, UsageRecord, InstalledEquipment, Contract, Product,
+  TrashItem, TrashEntityType, AIUsageLog, Attachment, AttachmentEntityType, AttachmentVisibility,
+  Quote, QuoteStatus, ConsumablePriceChange, MaintenanceVisit, EquipmentAsset, AssetTransfer, ServiceTicket
+} from '../types';
+import { DBHospitalWithRelations } from '../lib/supabase';
+import { toDateKey, todayKey } from '../lib/dateKey';
+import {
+  NoteWithUserId,
+  mapHospitalRow,
+  mapHospitalWithRelationsRow,
+  toHospitalRow,
+  mapContactRow,
+  toContactRow,
+  mapNoteRow,
+  toNoteRow,
+  mapUsageRecordRow,
+  toUsageRecordRow,
+  mapEquipmentRow,
+  toEquipmentRow,
+  mapContractRow,
+  toContractRow,
+  mapProductRow,
+  toProductRow,
+  mapTrashRow,
+  mapAIUsageLogRow,
+  mapAttachmentRow,
+  mapQuoteRow,
+  toQuoteRow,
+  mapConsumablePriceChangeRow,
+  mapMaintenanceVisitRow,
+  mapEquipmentAssetRow,
+  toEquipmentAssetRow,
+  mapAssetTransferRow,
+  mapServiceTicketRow,
+  toServiceTicketRow
+} from './rowMappers';
+
+export type { NoteWithUserId } from './rowMappers';
+export type { Result } from './dataErrors';
 
 // ============== Helper: 簡化的 API 請求（不再每次檢查 session） ==============
 
+// 失敗時拋出已分類的 DataError；登入逾時會先更新 session 再重試
 const withRetry = async <T>(
   operation: () => Promise<T>,
   maxRetries: number = 1
 ): Promise<T> => {
-  let lastError: any = null;
-  
+  let lastError: DataError | null = null;
+
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const result = await operation();
-      return result;
-      
-    } catch (error: any) {
-      lastError = error;
-      const errorMessage = error?.message?.toLowerCase() || '';
-      
-      // 檢查是否是認證相關錯誤
-      const isAuthError = 
-        errorMessage.includes('jwt') ||
-        errorMessage.includes('token') ||
-        errorMessage.includes('unauthorized') ||
-        errorMessage.includes('auth') ||
-        error?.code === 'PGRST301';
-      
-      if (isAuthError && attempt < maxRetries) {
+      return await operation();
+    } catch (error) {
+      lastError = toDataError(error);
+      if (attempt === maxRetries) break;
+
+      if (lastError.kind === 'auth_expired') {
         console.log(`Auth error on attempt ${attempt + 1}, refreshing session and retrying...`);
         await supabase.auth.refreshSession();
-        await new Promise(resolve => setTimeout(resolve, 200));
-        continue;
+      } else if (lastError.kind !== 'network' && lastError.kind !== 'unknown') {
+        // 權限、資料驗證、衝突等錯誤重試也不會成功
+        break;
       }
-      
-      // 最後一次嘗試失敗，拋出錯誤
-      if (attempt === maxRetries) {
-        console.error('Operation failed after retries:', error);
-        throw error;
-      }
-      
+
       await new Promise(resolve => setTimeout(resolve, 200));
     }
   }
-  
+
+  console.error('Operation failed after retries:', lastError?.cause ?? lastError);
   throw lastError;
 };
 
+// 不需離線佇列的寫入（設備、產品目錄），以 Result 回傳
+const toResult = async <T>(operation: () => Promise<T>): Promise<Result<T>> => {
+  try {
+    return ok(await withRetry(operation));
+  } catch (error) {
+    return fail(toDataError(error));
+  }
+};
+
+// 更新/刪除時以 .select() 取回受影響的資料列，沒有任何一筆即視為衝突
+const expectRows = (rows: unknown[] | null) => {
+  if (!rows || rows.length === 0) throw noRowsAffected();
+};
+
+// ============== Helper: 寫入前驗證 ==============
+// 在送出前擋下資料庫一定會拒絕的資料，離線時也能立即提示
+
+const validateHospital = (hospital: Pick<Hospital, 'name'>): DataError | null =>
+  hospital.name.trim() ? null : validationError('醫院名稱不可空白');
+
+const validateContact = (contact: Pick<Contact, 'name'>): DataError | null =>
+  contact.name.trim() ? null : validationError('聯絡人姓名不可空白');
+
+const validateNote = (note: Pick<Note, 'content' | 'date'>): DataError | null => {
+  if (!note.content.trim()) return validationError('記錄內容不可空白');
+  if (isNaN(new Date(note.date).getTime())) return validationError('記錄日期格式不正確');
+  return null;
+};
+
+const validateQuote = (quote: Pick<Quote, 'items' | 'validUntil' | 'taxRate'>): DataError | null => {
+  if (quote.items.length === 0) return validationError('報價單至少需要一個品項');
+  if (quote.items.some(item => !Number.isFinite(item.quantity) || item.quantity <= 0)) return validationError('數量必須大於 0');
+  if (quote.items.some(item => !Number.isFinite(item.unitPrice) || item.unitPrice < 0)) return validationError('單價不可為負數');
+  if (!Number.isFinite(quote.taxRate) || quote.taxRate < 0) return validationError('稅率格式不正確');
+  if (isNaN(new Date(quote.validUntil).getTime())) return validationError('有效期限格式不正確');
+  return null;
+};
+
+const validatePriceChanges = (changes: PriceChangeInput[], effectiveDate: string, reason: string): DataError | null => {
+  if (changes.length === 0) return validationError('沒有需要記錄的價格異動');
+  if (changes.some(change => !Number.isFinite(change.price) || change.price < 0)) return validationError('價格不可為負數');
+  if (isNaN(new Date(effectiveDate).getTime())) return validationError('生效日期格式不正確');
+  if (!reason.trim()) return validationError('請填寫調價原因');
+  return null;
+};
+
+const validateMaintenanceCompletion = (completion: MaintenanceCompletion): DataError | null => {
+  if (!completion.technician.trim()) return validationError('請填寫技術人員');
+  if (isNaN(new Date(completion.completedDate).getTime())) return validationError('完成日期格式不正確');
+  return null;
+};
+
+const validateEquipmentAsset = (asset: Pick<EquipmentAsset, 'serialNumber' | 'installDate' | 'warrantyEndDate'>): DataError | null => {
+  if (!asset.serialNumber.trim()) return validationError('序號不可空白');
+  if (asset.installDate && isNaN(new Date(asset.installDate).getTime())) return validationError('安裝日期格式不正確');
+  if (asset.warrantyEndDate && isNaN(new Date(asset.warrantyEndDate).getTime())) return validationError('保固到期日格式不正確');
+  return null;
+};
+
+const validateAssetTransfer = (asset: EquipmentAsset, transfer: AssetTransferInput): DataError | null => {
+  if (transfer.toHospitalId === asset.hospitalId && (transfer.toLocation || '').trim() === (asset.location || '')) {
+    return validationError('請選擇不同的醫院或放置位置');
+  }
+  if (isNaN(new Date(transfer.transferDate).getTime())) return validationError('移轉日期格式不正確');
+  return null;
+};
+
+const validateServiceTicket = (ticket: Pick<ServiceTicket, 'equipmentId' | 'description' | 'reportedAt'>): DataError | null => {
+  if (!ticket.equipmentId) return validationError('請選擇故障的設備');
+  if (!ticket.description.trim()) return validationError('請填寫故障描述');
+  if (isNaN(new Date(ticket.reportedAt).getTime())) return validationError('報修時間格式不正確');
+  return null;
+};
+
+const validateTicketTransition = (previous: ServiceTicket, ticket: ServiceTicket): DataError | null => {
+  if (ticket.status !== previous.status && !SERVICE_TICKET_TRANSITIONS[previous.status].includes(ticket.status)) {
+    const from = SERVICE_TICKET_STATUS_CONFIG[previous.status].label;
+    const to = SERVICE_TICKET_STATUS_CONFIG[ticket.status].label;
+    return validationError(`維修單無法從「${from}」變更為「${to}」`);
+  }
+  if ((ticket.status === 'resolved' || ticket.status === 'closed') && !ticket.resolution?.trim()) {
+    return validationError('請填寫處理結果');
+  }
+  return null;
+};
+
+const validateUsageRecord = (record: Pick<UsageRecord, 'quantity' | 'date'>): DataError | null => {
+  if (!Number.isFinite(record.quantity) || record.quantity <= 0) return validationError('數量必須大於 0');
+  if (isNaN(new Date(record.date).getTime())) return validationError('日期格式不正確');
+  return null;
+};
+
+// ============== Helper: 離線快取與寫入佇列 ==============
+
+// 從本機 session 取得使用者 ID（離線時 getUser 會失敗）
+const getCurrentUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user?.id || null;
+};
+
+// 讀取：線上時順便更新本機快取，離線或連線失敗時改讀快取
+const withOfflineCache = async <T extends { id: string }>(
+  store: CacheStore,
+  fetcher: () => Promise<T[]>
+): Promise<T[]> => {
+  if (!navigator.onLine) {
+    return cacheGetAll<T>(store);
+  }
+
+  try {
+    const data = await withRetry(fetcher);
+    await cacheReplaceAll(store, data);
+    return data;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      console.warn(`Network unavailable, reading ${store} from offline cache`);
+      return cacheGetAll<T>(store);
+    }
+    throw error;
+  }
+};
+
+// 寫入：線上時直接送出，離線或連線失敗時排入 outbox，兩者都會同步更新本機快取
+// 其他錯誤（權限、驗證、衝突）不排入佇列，回傳失敗讓呼叫端回復畫面
+const runOrQueue = async <T>(
+  mutation: Omit<OutboxMutation, 'id' | 'queuedAt'>,
+  operation: () => Promise<T>,
+  offlineResult: T,
+  cacheRecord?: { id: string }
+): Promise<Result<T>> => {
+  let result: T;
+  let queued = false;
+  markLocalWrite(mutation.recordId);
+
+  if (!navigator.onLine) {
+    await enqueueMutation(mutation);
+    result = offlineResult;
+    queued = true;
+  } else {
+    try {
+      result = await withRetry(operation);
+    } catch (error) {
+      const dataError = toDataError(error);
+      if (dataError.kind !== 'network') return fail(dataError);
+      console.warn(`Network unavailable, queued ${mutation.op} on ${mutation.table}`);
+      await enqueueMutation(mutation);
+      result = offlineResult;
+      queued = true;
+    }
+  }
+
+  if (mutation.op === 'delete') {
+    await cacheDelete(mutation.table, mutation.recordId);
+  } else {
+    const record = cacheRecord || result;
+    if (record && typeof record === 'object') {
+      await cachePut(mutation.table, record as unknown as { id: string });
+    }
+  }
+
+  return ok(result, queued);
+};
+
+// ============== Helper: 軟刪除 ==============
+// 刪除只標記 deleted_at，資料留在回收筒中可還原；所有查詢都必須排除已刪除的資料
+
+// 醫院刪除時一併標記的關聯資料，還原時依相同的 deleted_at 一起還原。
+// HOSPITAL_CHILD_TABLES 也能在回收筒個別刪除與還原，其餘只隨醫院標記；只能新增的歷史資料（議定價、設備移轉、附件）
+// 不標記，永久刪除醫院時由外鍵 on delete cascade 一併刪除
+const HOSPITAL_CHILD_TABLES: TrashEntityType[] = ['notes', 'usage_records', 'installed_equipment', 'contracts', 'quotes'];
+
+type HospitalTombstoneTable = TrashEntityType | 'contacts' | 'maintenance_visits' | 'equipment_assets' | 'service_tickets';
+
+const HOSPITAL_TOMBSTONE_TABLES: HospitalTombstoneTable[] = [
+  ...HOSPITAL_CHILD_TABLES, 'contacts', 'maintenance_visits', 'equipment_assets', 'service_tickets'
+];
+
+export interface Tombstone {
+  deleted_at: string;
+  deleted_by: string | null;
+}
+
+const softDeleteFields = async (): Promise<Tombstone> => ({
+  deleted_at: new Date().toISOString(),
+  deleted_by: await getCurrentUserId()
+});
+
+// 依醫院批次修改關聯資料；先取出受影響的 id 標記為本機寫入，realtime 廣播回來時才不會被當成其他人的修改
+// deletedAt 為 null 時只修改未刪除的資料，否則只修改與醫院同時刪除的資料
+const updateHospitalChildren = async (
+  table: HospitalTombstoneTable,
+  hospitalId: string,
+  deletedAt: string | null,
+  changes: Record<string, unknown>
+): Promise<void> => {
+  let query = supabase.from(table).select('id').eq('hospital_id', hospitalId);
+  query = deletedAt ? query.eq('deleted_at', deletedAt) : query.is('deleted_at', null);
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const ids: string[] = (data || []).map(row => row.id);
+  if (ids.length === 0) return;
+  ids.forEach(markLocalWrite);
+
+  const { error: updateError } = await supabase
+    .from(table)
+    .update(changes)
+    .in('id', ids);
+  if (updateError) throw updateError;
+};
+
+export const softDeleteHospitalChildren = async (hospitalId: string, tombstone: Tombstone): Promise<void> => {
+  await Promise.all(HOSPITAL_TOMBSTONE_TABLES.map(table =>
+    updateHospitalChildren(table, hospitalId, null, { ...tombstone })
+  ));
+};
+
+// 筆記日期晚於醫院的上次拜訪日時，更新醫院 last_visit
+export const bumpHospitalLastVisit = async (hospitalId: string, date: string): Promise<void> => {
+  const { data: hospital } = await supabase
+    .from('hospitals')
+    .select('last_visit')
+    .eq('id', hospitalId)
+    .single();
+
+  if (hospital) {
+    const noteDate = new Date(date);
+    const lastVisit = hospital.last_visit === 'Never' ? new Date(0) : new Date(hospital.last_visit);
+
+    if (noteDate > lastVisit) {
+      markLocalWrite(hospitalId);
+      await supabase
+        .from('hospitals')
+        .update({ last_visit: date })
+        .eq('id', hospitalId);
+    }
+  }
+};
+
+// ============== Helper: 分頁查詢 ==============
+// 以 (日期, id) 作為游標的 keyset 分頁，資料持續新增時也不會跳筆或重複
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // null 表示沒有更多資料
+  total?: number;            // 僅在 withCount 時回傳
+}
+
+export interface PageQuery {
+  hospitalId?: string;
+  userId?: string;
+  from?: string;             // YYYY-MM-DD，含當日
+  to?: string;               // YYYY-MM-DD，含當日
+  cursor?: string | null;
+  limit?: number;
+  withCount?: boolean;
+}
+
+interface PagedRecord {
+  id: string;
+  hospitalId: string;
+  date: string;
+  userId?: string;
+}
+
+// PostgREST 單次最多回傳 1000 筆
+const MAX_PAGE_SIZE = 1000;
+
+const encodeCursor = (item: PagedRecord) => JSON.stringify([item.date, item.id]);
+const decodeCursor = (cursor: string): [string, string] => JSON.parse(cursor);
+
+const nextDay = (date: string) => {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() + 1);
+  return d;
+};
+
+// 依當地時區換算日期邊界：timestamp 欄位要轉成 ISO 時間，date 欄位直接比較日期字串
+const toBound = (date: Date, isTimestamp: boolean) =>
+  isTimestamp
+    ? date.toISOString()
+    : toDateKey(date);
+
+// 離線時以快取資料套用相同的篩選與分頁
+const paginateOffline = <T extends PagedRecord>(items: T[], query: PageQuery, limit: number): Page<T> => {
+  let filtered = items.filter(item =>
+    (!query.hospitalId || item.hospitalId === query.hospitalId) &&
+    (!query.userId || item.userId === query.userId) &&
+    (!query.from || item.date.slice(0, 10) >= query.from) &&
+    (!query.to || item.date.slice(0, 10) <= query.to)
+  );
+
+  filtered.sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+
+  if (query.cursor) {
+    const [cursorDate, cursorId] = decodeCursor(query.cursor);
+    filtered = filtered.filter(item =>
+      item.date < cursorDate || (item.date === cursorDate && item.id < cursorId)
+    );
+  }
+
+  const pageItems = filtered.slice(0, limit);
+  return {
+    items: pageItems,
+    nextCursor: filtered.length > limit ? encodeCursor(pageItems[pageItems.length - 1]) : null,
+    total: query.withCount ? filtered.length : undefined
+  };
+};
+
+const fetchPage = async <T extends PagedRecord>(
+  table: 'notes' | 'usage_records',
+  query: PageQuery,
+  options: {
+    dateColumn: string;
+    isTimestamp: boolean;
+    mapRow: (row: any) => T;
+    defaultLimit: number;
+  }
+): Promise<Page<T>> => {
+  const limit = Math.min(query.limit || options.defaultLimit, MAX_PAGE_SIZE);
+  const { dateColumn, isTimestamp } = options;
+
+  const fetchFromServer = async (): Promise<Page<T>> => {
+    let request = supabase
+      .from(table)
+      .select('*', query.withCount ? { count: 'exact' } : undefined)
+      .is('deleted_at', null);
+
+    if (query.hospitalId) request = request.eq('hospital_id', query.hospitalId);
+    if (query.userId) request = request.eq('user_id', query.userId);
+    if (query.from) request = request.gte(dateColumn, toBound(new Date(`${query.from}T00:00:00`), isTimestamp));
+    if (query.to) request = request.lt(dateColumn, toBound(nextDay(query.to), isTimestamp));
+
+    if (query.cursor) {
+      const [cursorDate, cursorId] = decodeCursor(query.cursor);
+      request = request.or(
+        `${dateColumn}.lt."${cursorDate}",and(${dateColumn}.eq."${cursorDate}",id.lt."${cursorId}")`
+      );
+    }
+
+    // 多取一筆用來判斷是否還有下一頁
+    const { data, error, count } = await request
+      .order(dateColumn, { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const items = (data || []).slice(0, limit).map(options.mapRow);
+    return {
+      items,
+      nextCursor: (data || []).length > limit ? encodeCursor(items[items.length - 1]) : null,
+      total: query.withCount ? count ?? undefined : undefined
+    };
+  };
+
+  const readFromCache = async () => paginateOffline(await cacheGetAll<T>(table), query, limit);
+
+  if (!navigator.onLine) {
+    return readFromCache();
+  }
+
+  try {
+    const page = await withRetry(fetchFromServer);
+    await cachePutMany(table, page.items);
+    return page;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return readFromCache();
+    }
+    throw error;
+  }
+};
+
+// 逐頁取回查詢範圍內的所有資料
+const fetchAllPages = async <T>(fetcher: (cursor: string | null) => Promise<Page<T>>): Promise<T[]> => {
+  const items: T[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetcher(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return items;
+};
+
 // ============== 醫院 CRUD ==============
 
 export const fetchHospitals = async (): Promise<Hospital[]> => {
-  return withRetry(async () => {
-    const { data: hospitalsData, error } = await supabase
+  return withOfflineCache('hospitals', async () => {
+    // 一次取回醫院與已安裝設備、合約數、最近一筆活動記錄日期與未結案維修單數
+    // hospitals 本身有 notes（備註）欄位，關聯的活動記錄以 notes_latest 別名嵌入
+    const { data, error } = await supabase
+      .from('hospitals')
+      .select('*, installed_equipment(*), contracts(count), notes_latest:notes(created_at), open_tickets:service_tickets(count)')
+      .is('deleted_at', null)
+      .is('installed_equipment.deleted_at', null)
+      .is('contracts.deleted_at', null)
+      .in('open_tickets.status', OPEN_TICKET_STATUSES)
+      .is('open_tickets.deleted_at', null)
+      .is('notes_latest.deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('created_at', { referencedTable: 'notes_latest', ascending: false })
+      .limit(1, { referencedTable: 'notes_latest' });
+
+    if (error) throw error;
+
+    return ((data || []) as DBHospitalWithRelations[]).map(mapHospitalWithRelationsRow);
+  });
+};
+
+export const createHospital = async (
+  hospital: Pick<Hospital, 'name' | 'region' | 'address' | 'stage' | 'level'>
+): Promise<Result<Hospital>> => {
+  const invalid = validateHospital(hospital);
+  if (invalid) return fail(invalid);
+
+  const hospitalId = crypto.randomUUID();
+  const offlineHospital: Hospital = {
+    ...hospital,
+    id: hospitalId,
+    equipmentInstalled: false,
+    lastVisit: 'Never',
+    notes: '',
+    consumables: [],
+    installedEquipment: []
+  };
+  const row = { id: hospitalId, ...toHospitalRow(offlineHospital) };
+
+  return runOrQueue<Hospital>({ table: 'hospitals', op: 'insert', recordId: hospitalId, payload: row }, async () => {
+    const { data, error } = await supabase
+      .from('hospitals')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'hospitals', action: 'create', entityId: hospitalId, after: data });
+
+    return mapHospitalRow(data);
+  }, offlineHospital);
+};
+
+export const updateHospital = async (hospital: Hospital): Promise<Result<void>> => {
+  const invalid = validateHospital(hospital);
+  if (invalid) return fail(invalid);
+
+  const row = toHospitalRow(hospital);
+
+  return runOrQueue({ table: 'hospitals', op: 'update', recordId: hospital.id, payload: row }, async () => {
+    const before = await fetchRowSnapshot('hospitals', 'id', hospital.id);
+    const { data, error } = await supabase
       .from('hospitals')
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq('id', hospital.id)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'hospitals', action: 'update', entityId: hospital.id, before, after: data[0] });
+  }, undefined, hospital);
+};
+
+export const deleteHospital = async (hospitalId: string): Promise<Result<void>> => {
+  const tombstone = await softDeleteFields();
+
+  return runOrQueue({ table: 'hospitals', op: 'delete', recordId: hospitalId, payload: tombstone }, async () => {
+    const { data, error } = await supabase
+      .from('hospitals')
+      .update({ ...tombstone, updated_at: tombstone.deleted_at })
+      .eq('id', hospitalId)
+      .is('deleted_at', null)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await softDeleteHospitalChildren(hospitalId, tombstone);
+    await recordAuditEvent({ table: 'hospitals', action: 'delete', entityId: hospitalId, before: data[0] });
+  }, undefined);
+};
+
+// ============== 聯絡人 CRUD ==============
+
+export const fetchContacts = async (): Promise<Contact[]> => {
+  return withOfflineCache('contacts', async () => {
+    const { data, error } = await supabase
+      .from('contacts')
       .select('*')
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
-    if (error) {
-      console.error('Error fetching hospitals:', error);
-      throw error;
+    if (error) throw error;
+
+    return (data || []).map(mapContactRow);
+  });
+};
+
+export const createContact = async (contact: Omit<Contact, 'id'>): Promise<Result<Contact>> => {
+  const invalid = validateContact(contact);
+  if (invalid) return fail(invalid);
+
+  const contactId = crypto.randomUUID();
+  const row = { id: contactId, ...toContactRow(contact) };
+
+  return runOrQueue({ table: 'contacts', op: 'insert', recordId: contactId, payload: row }, async () => {
+    const { data, error } = await supabase
+      .from('contacts')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'contacts', action: 'create', entityId: contactId, after: data });
+
+    return mapContactRow(data);
+  }, { ...contact, id: contactId });
+};
+
+export const updateContact = async (contact: Contact): Promise<Result<void>> => {
+  const invalid = validateContact(contact);
+  if (invalid) return fail(invalid);
+
+  const row = toContactRow(contact);
+
+  return runOrQueue({ table: 'contacts', op: 'update', recordId: contact.id, payload: row }, async () => {
+    const before = await fetchRowSnapshot('contacts', 'id', contact.id);
+    const { data, error } = await supabase
+      .from('contacts')
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq('id', contact.id)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'contacts', action: 'update', entityId: contact.id, before, after: data[0] });
+  }, undefined, contact);
+};
+
+// ============== 筆記/活動記錄 CRUD ==============
+
+export const NOTES_PAGE_SIZE = 20;
+
+export const fetchNotesPage = async (query: PageQuery = {}): Promise<Page<NoteWithUserId>> => {
+  return fetchPage('notes', query, {
+    dateColumn: 'created_at',
+    isTimestamp: true,
+    mapRow: mapNoteRow,
+    defaultLimit: NOTES_PAGE_SIZE
+  });
+};
+
+// 取回日期範圍內的所有活動記錄（行事曆、儀表板使用）
+export const fetchNotesInRange = async (
+  from: string,
+  to: string,
+  userId?: string
+): Promise<NoteWithUserId[]> => {
+  return fetchAllPages(cursor => fetchNotesPage({ from, to, userId, cursor, limit: MAX_PAGE_SIZE }));
+};
+
+// 下一步日期落在範圍內的活動記錄（行事曆待辦事項）
+export const fetchNotesWithNextStep = async (from: string, to?: string): Promise<NoteWithUserId[]> => {
+  const fetchFromServer = async () => {
+    let request = supabase
+      .from('notes')
+      .select('*')
+      .is('deleted_at', null)
+      .not('next_step', 'is', null)
+      .gte('next_step_date', from);
+
+    if (to) request = request.lte('next_step_date', to);
+
+    const { data, error } = await request
+      .order('next_step_date', { ascending: true })
+      .limit(MAX_PAGE_SIZE);
+
+    if (error) throw error;
+
+    return (data || []).map(mapNoteRow);
+  };
+
+  const readFromCache = async () =>
+    (await cacheGetAll<NoteWithUserId>('notes')).filter(n =>
+      n.nextStep && n.nextStepDate && n.nextStepDate >= from && (!to || n.nextStepDate <= to)
+    );
+
+  if (!navigator.onLine) {
+    return readFromCache();
+  }
+
+  try {
+    const notes = await withRetry(fetchFromServer);
+    await cachePutMany('notes', notes);
+    return notes;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return readFromCache();
     }
+    throw error;
+  }
+};
+
+export const createNote = async (note: Omit<Note, 'id'>): Promise<Result<NoteWithUserId>> => {
+  const invalid = validateNote(note);
+  if (invalid) return fail(invalid);
+
+  // 取得當前使用者 ID
+  const userId = await getCurrentUserId();
+
+  // 先生成一個 ID
+  const noteId = crypto.randomUUID();
+
+  const row = { id: noteId, ...toNoteRow(note), user_id: userId };
+
+  const newNote: NoteWithUserId = {
+    ...note,
+    id: noteId,
+    tags: note.tags || [],
+    relatedContactIds: note.relatedContactIds || [],
+    userId: userId || undefined
+  };
+
+  return runOrQueue({ table: 'notes', op: 'insert', recordId: noteId, payload: row }, async () => {
+    const { error } = await supabase
+      .from('notes')
+      .insert(row);
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'notes', action: 'create', entityId: noteId, after: row });
+
+    // Check and update hospital last_visit
+    await bumpHospitalLastVisit(note.hospitalId, note.date);
+
+    return newNote;
+  }, newNote);
+};
+
+export const updateNote = async (note: Note): Promise<Result<void>> => {
+  const invalid = validateNote(note);
+  if (invalid) return fail(invalid);
+
+  const row = toNoteRow(note);
+
+  return runOrQueue({ table: 'notes', op: 'update', recordId: note.id, payload: row }, async () => {
+    const before = await fetchRowSnapshot('notes', 'id', note.id);
+    const { data, error } = await supabase
+      .from('notes')
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq('id', note.id)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'notes', action: 'update', entityId: note.id, before, after: data[0] });
+
+    // Check and update hospital last_visit
+    await bumpHospitalLastVisit(note.hospitalId, note.date);
+  }, undefined, note);
+};
+
+export const deleteNote = async (noteId: string): Promise<Result<void>> => {
+  const tombstone = await softDeleteFields();
+
+  return runOrQueue({ table: 'notes', op: 'delete', recordId: noteId, payload: tombstone }, async () => {
+    const { data, error } = await supabase
+      .from('notes')
+      .update({ ...tombstone, updated_at: tombstone.deleted_at })
+      .eq('id', noteId)
+      .is('deleted_at', null)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'notes', action: 'delete', entityId: noteId, before: data[0] });
+  }, undefined);
+};
+
+// ============== 活動記錄錄音 ==============
+// 較早的口述錄音存放在私有的 note-audio bucket，並記錄在活動記錄的 audio_recordings 欄位，
+// 播放時才產生短效的簽署網址。新的錄音改為活動記錄的附件（見 uploadNoteRecording）
+
+const NOTE_AUDIO_BUCKET = 'note-audio';
+const NOTE_AUDIO_URL_TTL_SECONDS = 60 * 60;
+
+export const getNoteAudioUrl = async (path: string): Promise<Result<string>> => {
+  return toResult(async () => {
+    const { data, error } = await supabase.storage
+      .from(NOTE_AUDIO_BUCKET)
+      .createSignedUrl(path, NOTE_AUDIO_URL_TTL_SECONDS);
+
+    if (error) throw error;
+    return data.signedUrl;
+  });
+};
+
+// 刪除 Storage 檔案失敗只記錄不阻擋，最多留下無人引用的檔案
+const removeStoredFiles = async (bucket: string, paths: string[]): Promise<void> => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(bucket).remove(paths);
+  if (error) console.error(`Error removing files from ${bucket}:`, error);
+};
+
+// ============== 使用記錄/訂單 CRUD ==============
+
+export const fetchUsageRecordsPage = async (query: PageQuery = {}): Promise<Page<UsageRecord>> => {
+  return fetchPage('usage_records', query, {
+    dateColumn: 'date',
+    isTimestamp: false,
+    mapRow: mapUsageRecordRow,
+    defaultLimit: 100
+  });
+};
+
+// 單一醫院的所有使用記錄（醫院詳情頁的圖表需要完整歷史）
+export const fetchUsageRecordsByHospital = async (hospitalId: string): Promise<UsageRecord[]> => {
+  return fetchAllPages(cursor => fetchUsageRecordsPage({ hospitalId, cursor, limit: MAX_PAGE_SIZE }));
+};
+
+// 日期範圍內的所有使用記錄；未指定 from 時從最早的資料開始
+export const fetchUsageRecordsInRange = async (from?: string, to?: string): Promise<UsageRecord[]> => {
+  return fetchAllPages(cursor => fetchUsageRecordsPage({ from, to, cursor, limit: MAX_PAGE_SIZE }));
+};
+
+export const createUsageRecord = async (record: Omit<UsageRecord, 'id'>): Promise<Result<UsageRecord>> => {
+  const invalid = validateUsageRecord(record);
+  if (invalid) return fail(invalid);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  const recordId = crypto.randomUUID();
+  const priced = {
+    ...await withPriceAtDate(record),
+    recordedBy: user?.id,
+    recordedByName: user?.user_metadata?.full_name || user?.email
+  };
+  const row = {
+    id: recordId,
+    ...toUsageRecordRow(priced),
+    recorded_by: priced.recordedBy || null,
+    recorded_by_name: priced.recordedByName || null
+  };
+
+  return runOrQueue({ table: 'usage_records', op: 'insert', recordId, payload: row }, async () => {
+    const { data, error } = await supabase
+      .from('usage_records')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'usage_records', action: 'create', entityId: recordId, after: data });
+
+    return mapUsageRecordRow(data);
+  }, { ...priced, id: recordId });
+};
 
-    // 取得所有已安裝設備
-    const { data: equipmentData } = await supabase
+// 變更產品、日期或類型時，呼叫端應清除 unitPrice，這裡會依新的訂單日期重新查價
+export const updateUsageRecord = async (record: UsageRecord): Promise<Result<UsageRecord>> => {
+  const invalid = validateUsageRecord(record);
+  if (invalid) return fail(invalid);
+
+  const priced = await withPriceAtDate(record);
+  const row = toUsageRecordRow(priced);
+
+  return runOrQueue({ table: 'usage_records', op: 'update', recordId: record.id, payload: row }, async () => {
+    const before = await fetchRowSnapshot('usage_records', 'id', record.id);
+    const { data, error } = await supabase
+      .from('usage_records')
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq('id', record.id)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'usage_records', action: 'update', entityId: record.id, before, after: data[0] });
+    return priced;
+  }, priced);
+};
+
+export const deleteUsageRecord = async (recordId: string): Promise<Result<void>> => {
+  const tombstone = await softDeleteFields();
+
+  return runOrQueue({ table: 'usage_records', op: 'delete', recordId, payload: tombstone }, async () => {
+    const { data, error } = await supabase
+      .from('usage_records')
+      .update({ ...tombstone, updated_at: tombstone.deleted_at })
+      .eq('id', recordId)
+      .is('deleted_at', null)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'usage_records', action: 'delete', entityId: recordId, before: data[0] });
+  }, undefined);
+};
+
+// ============== 已安裝設備 CRUD ==============
+
+export const createInstalledEquipment = async (
+  equipment: InstalledEquipment
+): Promise<Result<InstalledEquipment>> => {
+  const equipmentId = crypto.randomUUID();
+  markLocalWrite(equipmentId);
+
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('installed_equipment')
+      .insert({ id: equipmentId, ...toEquipmentRow(equipment) })
+      .select()
+      .single();
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'installed_equipment', action: 'create', entityId: equipmentId, after: data });
+
+    return mapEquipmentRow(data);
+  });
+};
+
+export const updateInstalledEquipment = async (equipment: InstalledEquipment): Promise<Result<InstalledEquipment>> => {
+  markLocalWrite(equipment.id);
+
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('installed_equipment', 'id', equipment.id);
+    const { data, error } = await supabase
+      .from('installed_equipment')
+      .update(toEquipmentRow(equipment))
+      .eq('id', equipment.id)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'installed_equipment', action: 'update', entityId: equipment.id, before, after: data[0] });
+    return mapEquipmentRow(data[0]);
+  });
+};
+
+export const deleteInstalledEquipment = async (equipmentId: string): Promise<Result<void>> => {
+  const tombstone = await softDeleteFields();
+  markLocalWrite(equipmentId);
+
+  return toResult(async () => {
+    const { data, error } = await supabase
       .from('installed_equipment')
-      .select('*');
-
-    // 組合資料
-    const hospitals: Hospital[] = (hospitalsData || []).map(h => ({
-      id: h.id,
-      name: h.name,
-      address: h.address || '',
-      region: h.region,
-      level: h.level as HospitalLevel,
-      stage: h.stage as SalesStage,
-      equipmentInstalled: h.equipment_installed,
-      lastVisit: h.last_visit || 'Never',
-      notes: h.notes || '',
-      chargePerUse: h.charge_per_use || undefined,
-      consumables: h.consumables || [],
-      installedEquipment: (equipmentData || [])
-        .filter(e => e.hospital_id === h.id)
-        .map(e => ({
-          id: e.id,
-          hospitalId: e.hospital_id,
-          productCode: e.product_code,
-          installDate: e.install_date,
-          quantity: e.quantity,
-          ownership: e.ownership
-        }))
+      .update(tombstone)
+      .eq('id', equipmentId)
+      .is('deleted_at', null)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'installed_equipment', action: 'delete', entityId: equipmentId, before: data[0] });
+  });
+};
+
+// ============== Profiles (用於行事曆篩選) ==============
+
+export interface ProfileSummary {
+  id: string;
+  full_name: string;
+  email: string;
+  role_type: string;
+}
+
+export const fetchAllProfiles = async (): Promise<ProfileSummary[]> => {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, email, role_type')
+      .order('full_name', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(p => ({
+      id: p.id,
+      full_name: p.full_name || '',
+      email: p.email || '',
+      role_type: p.role_type || 'sales'
     }));
+  });
+};
+
+
+// ============== 合約 CRUD ==============
 
-    return hospitals;
+export const fetchContracts = async (): Promise<Contract[]> => {
+  return withOfflineCache('contracts', async () => {
+    const { data, error } = await supabase
+      .from('contracts')
+      .select('*')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(mapContractRow);
   });
 };
 
-export const createHospital = async (
-  hospital: Pick<Hospital, 'name' | 'region' | 'address' | 'stage' | 'level'>
-): Promise<Hospital | null> => {
+export const fetchContractsByHospital = async (hospitalId: string): Promise<Contract[]> => {
+  const fetchFromServer = async (): Promise<Contract[]> => {
+    const { data, error } = await supabase
+      .from('contracts')
+      .select('*')
+      .eq('hospital_id', hospitalId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(mapContractRow);
+  };
+
+  // 只取單一醫院的資料，不能整批取代快取，改為逐筆寫入
+  const readFromCache = async () =>
+    (await cacheGetAll<Contract>('contracts')).filter(c => c.hospitalId === hospitalId);
+
+  if (!navigator.onLine) {
+    return readFromCache();
+  }
+
+  try {
+    const contracts = await withRetry(fetchFromServer);
+    await Promise.all(contracts.map(c => cachePut('contracts', c)));
+    return contracts;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return readFromCache();
+    }
+    throw error;
+  }
+};
+
+export const createContract = async (contract: Omit<Contract, 'id'>): Promise<Result<Contract>> => {
+  const userId = await getCurrentUserId();
+  const contractId = crypto.randomUUID();
+
+  const row = { id: contractId, ...toContractRow(contract), user_id: userId };
+
+  return runOrQueue<Contract>({ table: 'contracts', op: 'insert', recordId: contractId, payload: row }, async () => {
+    const { data, error } = await supabase
+      .from('contracts')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'contracts', action: 'create', entityId: contractId, after: data });
+
+    const created = mapContractRow(data);
+    await scheduleContractMaintenance(created);
+    return created;
+  }, { ...contract, id: contractId });
+};
+
+export const updateContract = async (contract: Contract): Promise<Result<void>> => {
+  const row = toContractRow(contract);
+
+  return runOrQueue({ table: 'contracts', op: 'update', recordId: contract.id, payload: row }, async () => {
+    const before = await fetchRowSnapshot('contracts', 'id', contract.id);
+    const { data, error } = await supabase
+      .from('contracts')
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq('id', contract.id)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'contracts', action: 'update', entityId: contract.id, before, after: data[0] });
+    await scheduleContractMaintenance(mapContractRow(data[0]));
+  }, undefined, contract);
+};
+
+export const deleteContract = async (contractId: string): Promise<Result<void>> => {
+  const tombstone = await softDeleteFields();
+
+  return runOrQueue({ table: 'contracts', op: 'delete', recordId: contractId, payload: tombstone }, async () => {
+    const { data, error } = await supabase
+      .from('contracts')
+      .update({ ...tombstone, updated_at: tombstone.deleted_at })
+      .eq('id', contractId)
+      .is('deleted_at', null)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'contracts', action: 'delete', entityId: contractId, before: data[0] });
+  }, undefined);
+};
+
+// ============== 產品目錄 CRUD ==============
+
+export const fetchProducts = async (): Promise<Product[]> => {
   return withRetry(async () => {
     const { data, error } = await supabase
-      .from('hospitals')
+      .from('products')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('code', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(mapProductRow);
+  });
+};
+
+export const createProduct = async (product: Product): Promise<Result<Product>> => {
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('products')
+      .insert(toProductRow(product))
+      .select()
+      .single();
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'products', action: 'create', entityId: product.code, after: data });
+
+    return mapProductRow(data);
+  });
+};
+
+// 產品代碼為訂單、設備、合約的關聯鍵，因此只允許修改代碼以外的欄位
+export const updateProduct = async (product: Product): Promise<Result<void>> => {
+  return toResult(async () => {
+    const { code, ...row } = toProductRow(product);
+    const before = await fetchRowSnapshot('products', 'code', code);
+    const { data, error } = await supabase
+      .from('products')
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq('code', code)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'products', action: 'update', entityId: code, before, after: data[0] });
+  });
+};
+
+// 批次匯入產品（用於初始化空的產品目錄）
+export const importProducts = async (products: Product[]): Promise<Result<void>> => {
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('products')
+      .upsert(products.map(toProductRow), { onConflict: 'code' })
+      .select();
+
+    if (error) throw error;
+    await Promise.all((data || []).map(row =>
+      recordAuditEvent({ table: 'products', action: 'create', entityId: row.code, after: row })
+    ));
+  });
+};
+
+// ============== 議定價歷史 ==============
+// 調整醫院耗材售價時新增異動記錄，訂單建立時依訂單日期查出當時的價格寫入 unit_price
+
+export interface PriceChangeInput {
+  productCode: string;
+  price: number;
+  previousPrice?: number;
+}
+
+export const fetchPriceHistory = async (
+  filter: { hospitalId?: string; productCodes?: string[] } = {}
+): Promise<ConsumablePriceChange[]> => {
+  return withRetry(async () => {
+    let query = supabase
+      .from('consumable_price_history')
+      .select('*')
+      .order('effective_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (filter.hospitalId) query = query.eq('hospital_id', filter.hospitalId);
+    if (filter.productCodes?.length) query = query.in('product_code', filter.productCodes);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapConsumablePriceChangeRow);
+  });
+};
+
+// 需連線：異動記錄是營收計算的依據，不排入離線佇列以免與其他人的調價順序錯亂
+export const recordPriceChanges = async (
+  hospitalId: string,
+  changes: PriceChangeInput[],
+  effectiveDate: string,
+  reason: string
+): Promise<Result<ConsumablePriceChange[]>> => {
+  const invalid = validatePriceChanges(changes, effectiveDate, reason);
+  if (invalid) return fail(invalid);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('consumable_price_history')
+      .insert(changes.map(change => ({
+        id: crypto.randomUUID(),
+        hospital_id: hospitalId,
+        product_code: change.productCode,
+        price: change.price,
+        previous_price: change.previousPrice ?? null,
+        effective_date: effectiveDate,
+        reason: reason.trim(),
+        changed_by: user?.id || null,
+        changed_by_name: user?.user_metadata?.full_name || user?.email || null
+      })))
+      .select();
+
+    if (error) throw error;
+    return (data || []).map(mapConsumablePriceChangeRow);
+  });
+};
+
+const findCurrentPrice = async (hospitalId: string, productCode: string): Promise<number | undefined> => {
+  const hospitals = await cacheGetAll<Hospital>('hospitals');
+  const price = hospitals.find(h => h.id === hospitalId)?.consumables?.find(c => c.code === productCode)?.price;
+  return price || undefined;
+};
+
+// 只有訂單需要計價；沒有異動記錄（功能上線前的議價）或離線時使用醫院目前的議定價
+const withPriceAtDate = async <T extends Omit<UsageRecord, 'id'>>(record: T): Promise<T> => {
+  if (record.type !== '訂單') return { ...record, unitPrice: undefined };
+  if (record.unitPrice != null) return record;
+
+  let unitPrice: number | undefined;
+  let hasHistory = false;
+  if (navigator.onLine) {
+    try {
+      const history = await fetchPriceHistory({ hospitalId: record.hospitalId, productCodes: [record.productCode] });
+      hasHistory = history.length > 0;
+      unitPrice = getPriceAtDate(history, record.productCode, record.date);
+    } catch (error) {
+      console.warn('Failed to load price history, using current negotiated price:', error);
+    }
+  }
+  if (!hasHistory) unitPrice = await findCurrentPrice(record.hospitalId, record.productCode);
+
+  return { ...record, unitPrice };
+};
+
+// ============== 報價單 ==============
+// 報價單需要網路才能建立與修改，不進入離線佇列
+
+export type NewQuote = Omit<Quote, 'id' | 'quoteNumber' | 'createdBy' | 'createdByName' | 'createdAt' | 'convertedAt'>;
+
+export const fetchQuotesByHospital = async (hospitalId: string): Promise<Quote[]> => {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('*')
+      .eq('hospital_id', hospitalId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapQuoteRow);
+  });
+};
+
+// 報價單號為 Q + 日期 + id 前四碼，例如 Q20261019-3F2A
+export const createQuote = async (quote: NewQuote): Promise<Result<Quote>> => {
+  const invalid = validateQuote(quote);
+  if (invalid) return fail(invalid);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  const quoteId = crypto.randomUUID();
+  const quoteNumber = `Q${toBound(new Date(), false).replace(/-/g, '')}-${quoteId.slice(0, 4).toUpperCase()}`;
+
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('quotes')
       .insert({
-        name: hospital.name,
-        region: hospital.region,
-        address: hospital.address,
-        stage: hospital.stage,
-        level: hospital.level,
-        equipment_installed: false,
-        last_visit: 'Never'
+        id: quoteId,
+        ...toQuoteRow({ ...quote, quoteNumber }),
+        created_by: user?.id || null,
+        created_by_name: user?.user_metadata?.full_name || user?.email || null
       })
       .select()
       .single();
 
-    if (error) {
-      console.error('Error creating hospital:', error);
-      throw error;
-    }
+    if (error) throw error;
+    await recordAuditEvent({ table: 'quotes', action: 'create', entityId: quoteId, after: data });
+    return mapQuoteRow(data);
+  });
+};
+
+const updateQuoteFields = async (quoteId: string, fields: Record<string, unknown>): Promise<Result<Quote>> => {
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('quotes', 'id', quoteId);
+    const { data, error } = await supabase
+      .from('quotes')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', quoteId)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'quotes', action: 'update', entityId: quoteId, before, after: data[0] });
+    return mapQuoteRow(data[0]);
+  });
+};
 
+export const updateQuoteStatus = (quoteId: string, status: QuoteStatus): Promise<Result<Quote>> =>
+  updateQuoteFields(quoteId, { status });
+
+// 轉換已在 RPC 內提交，稽核記錄或讀回報價單失敗時不回報為轉換失敗
+const recordQuoteConversionAudit = async (quote: Quote, before: Record<string, any> | null): Promise<Quote> => {
+  const converted = { ...quote, convertedAt: new Date().toISOString() };
+  try {
+    const after = await fetchRowSnapshot('quotes', 'id', quote.id);
+    if (!after) return converted;
+    await recordAuditEvent({ table: 'quotes', action: 'update', entityId: quote.id, before, after });
+    return { ...converted, convertedAt: after.converted_at };
+  } catch (error) {
+    console.error('Error recording quote conversion audit:', error);
+    return converted;
+  }
+};
+
+// 建立訂單與標記已轉換在 RPC 內以同一個交易完成（supabase/migrations/20261019080000_convert_quote_to_orders.sql）；
+// 其他人已先轉換時回傳空結果，視為衝突，不會重複建立訂單
+export const convertQuoteToOrders = async (
+  quote: Quote,
+  orderDate: string
+): Promise<Result<{ quote: Quote; orders: UsageRecord[] }>> => {
+  if (isNaN(new Date(orderDate).getTime())) return fail(validationError('訂單日期格式不正確'));
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  const orderIds = quote.items.map(() => crypto.randomUUID());
+  orderIds.forEach(markLocalWrite);
+  markLocalWrite(quote.id);
+
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('quotes', 'id', quote.id);
+    const { data, error } = await supabase.rpc('convert_quote_to_orders', {
+      p_quote_id: quote.id,
+      p_order_ids: orderIds,
+      p_order_date: orderDate,
+      p_recorded_by_name: user?.user_metadata?.full_name || user?.email || null
+    });
+
+    if (error) throw error;
+    expectRows(data);
+
+    for (const row of data) {
+      await recordAuditEvent({ table: 'usage_records', action: 'create', entityId: row.id, after: row });
+    }
     return {
-      id: data.id,
-      name: data.name,
-      address: data.address || '',
-      region: data.region,
-      level: data.level as HospitalLevel,
-      stage: data.stage as SalesStage,
-      equipmentInstalled: data.equipment_installed,
-      lastVisit: data.last_visit || 'Never',
-      notes: data.notes || '',
-      chargePerUse: data.charge_per_use || undefined,
-      consumables: data.consumables || [],
-      installedEquipment: []
+      quote: await recordQuoteConversionAudit(quote, before),
+      orders: data.map(mapUsageRecordRow)
     };
   });
 };
 
-export const updateHospital = async (hospital: Hospital): Promise<boolean> => {
+export const deleteQuote = async (quoteId: string): Promise<Result<void>> => {
+  const tombstone = await softDeleteFields();
+
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('quotes')
+      .update({ ...tombstone, updated_at: tombstone.deleted_at })
+      .eq('id', quoteId)
+      .is('deleted_at', null)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'quotes', action: 'delete', entityId: quoteId, before: data[0] });
+  });
+};
+
+// ============== 設備序號 ==============
+// 設備序號與移轉需要網路才能修改，不進入離線佇列；序號在同一型號內唯一
+
+export type NewEquipmentAsset = Omit<EquipmentAsset, 'id' | 'createdAt' | 'loanConvertedAt'>;
+
+export interface AssetTransferInput {
+  toHospitalId: string;
+  toLocation: string;
+  transferDate: string;
+  reason: string;
+}
+
+export const fetchEquipmentAssets = async (hospitalId: string): Promise<EquipmentAsset[]> => {
   return withRetry(async () => {
-    const { error } = await supabase
-      .from('hospitals')
-      .update({
-        name: hospital.name,
-        region: hospital.region,
-        address: hospital.address,
-        stage: hospital.stage,
-        level: hospital.level,
-        equipment_installed: hospital.equipmentInstalled,
-        last_visit: hospital.lastVisit,
-        notes: hospital.notes || null,
-        charge_per_use: hospital.chargePerUse || null,
-        consumables: hospital.consumables || null
-      })
-      .eq('id', hospital.id);
+    const { data, error } = await supabase
+      .from('equipment_assets')
+      .select('*')
+      .eq('hospital_id', hospitalId)
+      .is('deleted_at', null)
+      .order('product_code', { ascending: true })
+      .order('serial_number', { ascending: true });
 
-    if (error) {
-      console.error('Error updating hospital:', error);
-      throw error;
+    if (error) throw error;
+    return (data || []).map(mapEquipmentAssetRow);
+  });
+};
+
+// 借用設備計畫：所有醫院使用中的設備，借用中與已轉換的設備逐台列出，其餘用來分攤醫院的耗材訂單
+export const fetchLoanProgramAssets = async (): Promise<EquipmentAsset[]> => {
+  return withRetry(async () => {
+    const assets: EquipmentAsset[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await supabase
+        .from('equipment_assets')
+        .select('*')
+        .is('deleted_at', null)
+        .neq('status', 'returned')
+        .order('id', { ascending: true })
+        .range(offset, offset + MAX_PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      assets.push(...(data || []).map(mapEquipmentAssetRow));
+      if (!data || data.length < MAX_PAGE_SIZE) return assets;
+      offset += MAX_PAGE_SIZE;
     }
+  });
+};
+
+export const createEquipmentAsset = async (asset: NewEquipmentAsset): Promise<Result<EquipmentAsset>> => {
+  const invalid = validateEquipmentAsset(asset);
+  if (invalid) return fail(invalid);
+
+  const assetId = crypto.randomUUID();
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('equipment_assets')
+      .insert({ id: assetId, ...toEquipmentAssetRow(asset) })
+      .select()
+      .single();
+
+    if (error) throw error;
+    await recordAuditEvent({ table: 'equipment_assets', action: 'create', entityId: assetId, after: data });
+    return mapEquipmentAssetRow(data);
+  });
+};
 
-    return true;
+// 醫院與放置位置只能透過移轉修改，才會留下移轉記錄；
+// 所有權由借用改為買斷/租賃時記下轉換日，借用計畫以此統計轉換，改回借用則清除
+export const updateEquipmentAsset = async (asset: EquipmentAsset): Promise<Result<EquipmentAsset>> => {
+  const invalid = validateEquipmentAsset(asset);
+  if (invalid) return fail(invalid);
+
+  const { hospital_id: _hospitalId, location: _location, ...row } = toEquipmentAssetRow(asset);
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('equipment_assets', 'id', asset.id);
+    const today = todayKey();
+    const loanConvertedAt = asset.ownership === '借用'
+      ? null
+      : before?.ownership === '借用' ? today : before?.loan_converted_at ?? null;
+    const { data, error } = await supabase
+      .from('equipment_assets')
+      .update({ ...row, loan_converted_at: loanConvertedAt, updated_at: new Date().toISOString() })
+      .eq('id', asset.id)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'equipment_assets', action: 'update', entityId: asset.id, before, after: data[0] });
+    return mapEquipmentAssetRow(data[0]);
   });
 };
 
-export const deleteHospital = async (hospitalId: string): Promise<boolean> => {
+export const fetchAssetTransfers = async (assetId: string): Promise<AssetTransfer[]> => {
   return withRetry(async () => {
-    const { error } = await supabase
-      .from('hospitals')
-      .delete()
-      .eq('id', hospitalId);
+    const { data, error } = await supabase
+      .from('equipment_asset_transfers')
+      .select('*')
+      .eq('asset_id', assetId)
+      .order('transfer_date', { ascending: false })
+      .order('created_at', { ascending: false });
 
-    if (error) {
-      console.error('Error deleting hospital:', error);
-      throw error;
-    }
+    if (error) throw error;
+    return (data || []).map(mapAssetTransferRow);
+  });
+};
 
-    return true;
+// 先確認設備仍在原醫院與位置再更新，其他人已先移轉時回傳衝突；更新成功後才寫入移轉記錄
+export const transferEquipmentAsset = async (
+  asset: EquipmentAsset,
+  transfer: AssetTransferInput
+): Promise<Result<EquipmentAsset>> => {
+  const invalid = validateAssetTransfer(asset, transfer);
+  if (invalid) return fail(invalid);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  const toLocation = transfer.toLocation.trim() || null;
+
+  // 更新設備與新增移轉記錄在 RPC 內以同一個交易完成（supabase/migrations/20261019020000_transfer_equipment_asset.sql）；
+  // 設備的醫院或位置已被其他人改動時回傳空結果，視為衝突
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('equipment_assets', 'id', asset.id);
+    const { data, error } = await supabase.rpc('transfer_equipment_asset', {
+      p_asset_id: asset.id,
+      p_from_hospital_id: asset.hospitalId,
+      p_from_location: asset.location || null,
+      p_to_hospital_id: transfer.toHospitalId,
+      p_to_location: toLocation,
+      p_transfer_date: transfer.transferDate,
+      p_reason: transfer.reason.trim() || null,
+      p_transferred_by_name: user?.user_metadata?.full_name || user?.email || null
+    });
+
+    if (error) throw error;
+    expectRows(data);
+
+    await recordAuditEvent({ table: 'equipment_assets', action: 'update', entityId: asset.id, before, after: data[0] });
+    return mapEquipmentAssetRow(data[0]);
   });
 };
 
-// ============== 聯絡人 CRUD ==============
+// ============== 維修單 ==============
+// 維修單需要網路才能建立與修改，不進入離線佇列；狀態依 SERVICE_TICKET_TRANSITIONS 前進
+
+export type NewServiceTicket = Omit<ServiceTicket,
+  'id' | 'status' | 'resolvedAt' | 'resolution' | 'loanerAssetId' | 'loanerSerialNumber' | 'loanerAssignedDate' | 'loanerReturnedDate' |
+  'createdBy' | 'createdByName' | 'createdAt'
+>;
 
-export const fetchContacts = async (): Promise<Contact[]> => {
+export const fetchServiceTickets = async (
+  filter: { hospitalId?: string; openOnly?: boolean } = {}
+): Promise<ServiceTicket[]> => {
   return withRetry(async () => {
-    const { data, error } = await supabase
-      .from('contacts')
+    let query = supabase
+      .from('service_tickets')
       .select('*')
-      .order('created_at', { ascending: false });
+      .is('deleted_at', null)
+      .order('reported_at', { ascending: false });
+    if (filter.hospitalId) query = query.eq('hospital_id', filter.hospitalId);
+    if (filter.openOnly) query = query.in('status', OPEN_TICKET_STATUSES);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapServiceTicketRow);
+  });
+};
 
-    if (error) {
-      console.error('Error fetching contacts:', error);
-      throw error;
-    }
+// 醫院列表的未結案數在維修單變更後以此更新
+export const fetchOpenTicketCount = async (hospitalId: string): Promise<number> => {
+  return withRetry(async () => {
+    const { count, error } = await supabase
+      .from('service_tickets')
+      .select('id', { count: 'exact', head: true })
+      .eq('hospital_id', hospitalId)
+      .is('deleted_at', null)
+      .in('status', OPEN_TICKET_STATUSES);
 
-    return (data || []).map(c => ({
-      id: c.id,
-      hospitalId: c.hospital_id,
-      name: c.name,
-      role: c.role || '',
-      email: c.email || '',
-      phone: c.phone || '',
-      isKeyDecisionMaker: c.is_key_decision_maker
-    }));
+    if (error) throw error;
+    return count || 0;
   });
 };
 
-export const createContact = async (contact: Omit<Contact, 'id'>): Promise<Contact | null> => {
-  return withRetry(async () => {
+export const createServiceTicket = async (ticket: NewServiceTicket): Promise<Result<ServiceTicket>> => {
+  const invalid = validateServiceTicket(ticket);
+  if (invalid) return fail(invalid);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  const ticketId = crypto.randomUUID();
+  markLocalWrite(ticketId);
+
+  return toResult(async () => {
     const { data, error } = await supabase
-      .from('contacts')
+      .from('service_tickets')
       .insert({
-        hospital_id: contact.hospitalId,
-        name: contact.name,
-        role: contact.role,
-        email: contact.email,
-        phone: contact.phone,
-        is_key_decision_maker: contact.isKeyDecisionMaker
+        id: ticketId,
+        hospital_id: ticket.hospitalId,
+        ...toServiceTicketRow(ticket),
+        status: 'open',
+        reported_at: ticket.reportedAt,
+        created_by: user?.id || null,
+        created_by_name: user?.user_metadata?.full_name || user?.email || null
       })
       .select()
       .single();
 
-    if (error) {
-      console.error('Error creating contact:', error);
-      throw error;
-    }
-
-    return {
-      id: data.id,
-      hospitalId: data.hospital_id,
-      name: data.name,
-      role: data.role || '',
-      email: data.email || '',
-      phone: data.phone || '',
-      isKeyDecisionMaker: data.is_key_decision_maker
-    };
+    if (error) throw error;
+    await recordAuditEvent({ table: 'service_tickets', action: 'create', entityId: ticketId, after: data });
+    return mapServiceTicketRow(data);
   });
 };
 
-export const updateContact = async (contact: Contact): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('contacts')
-      .update({
-        name: contact.name,
-        role: contact.role,
-        email: contact.email,
-        phone: contact.phone,
-        is_key_decision_maker: contact.isKeyDecisionMaker
-      })
-      .eq('id', contact.id);
+// 以畫面上的狀態為前提更新，其他人已先變更狀態時回傳衝突；
+// 修復時記錄修復時間（結案沿用），重新開啟時清除
+export const updateServiceTicket = async (
+  previous: ServiceTicket,
+  ticket: ServiceTicket
+): Promise<Result<ServiceTicket>> => {
+  const invalid = validateServiceTicket(ticket) || validateTicketTransition(previous, ticket);
+  if (invalid) return fail(invalid);
 
-    if (error) {
-      console.error('Error updating contact:', error);
-      throw error;
-    }
+  const isResolved = ticket.status === 'resolved' || ticket.status === 'closed';
+  markLocalWrite(ticket.id);
 
-    return true;
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('service_tickets', 'id', ticket.id);
+    const { data, error } = await supabase
+      .from('service_tickets')
+      .update({
+        ...toServiceTicketRow(ticket),
+        status: ticket.status,
+        reported_at: ticket.reportedAt,
+        resolved_at: isResolved ? previous.resolvedAt || new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', ticket.id)
+      .eq('status', previous.status)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'service_tickets', action: 'update', entityId: ticket.id, before, after: data[0] });
+    return mapServiceTicketRow(data[0]);
   });
 };
 
-// ============== 筆記/活動記錄 CRUD ==============
-
-// 擴展 Note 類型加入 userId
-export interface NoteWithUserId extends Note {
-  userId?: string;
-}
-
-export const fetchNotes = async (): Promise<NoteWithUserId[]> => {
+// 可借出的替代機：同產品、已退回的設備，不限醫院；借出中的設備狀態為使用中，不會出現在這裡
+export const fetchAvailableLoaners = async (productCode: string): Promise<EquipmentAsset[]> => {
   return withRetry(async () => {
     const { data, error } = await supabase
-      .from('notes')
+      .from('equipment_assets')
       .select('*')
-      .order('created_at', { ascending: false });
+      .eq('product_code', productCode)
+      .eq('status', 'returned')
+      .is('deleted_at', null)
+      .order('serial_number', { ascending: true });
 
-    if (error) {
-      console.error('Error fetching notes:', error);
-      throw error;
-    }
-
-    return (data || []).map(n => ({
-      id: n.id,
-      hospitalId: n.hospital_id,
-      content: n.content,
-      date: n.created_at,
-      author: n.author_name,
-      activityType: n.activity_type,
-      tags: n.tags || [],
-      sentiment: n.sentiment,
-      nextStep: n.next_step,
-      nextStepDate: n.next_step_date,
-      relatedContactIds: n.related_contact_ids || [],
-      attendees: n.attendees || undefined,
-      userId: n.user_id || undefined
-    }));
+    if (error) throw error;
+    return (data || []).map(mapEquipmentAssetRow);
   });
 };
 
-export const createNote = async (note: Omit<Note, 'id'>): Promise<NoteWithUserId | null> => {
-  return withRetry(async () => {
-    // 取得當前使用者 ID
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    // 先生成一個 ID
-    const noteId = crypto.randomUUID();
-    
-    const { error } = await supabase
-      .from('notes')
-      .insert({
-        id: noteId,
-        hospital_id: note.hospitalId,
-        content: note.content,
-        activity_type: note.activityType,
-        author_name: note.author,
-        tags: note.tags || null,
-        sentiment: note.sentiment || null,
-        next_step: note.nextStep || null,
-        next_step_date: note.nextStepDate || null,
-        related_contact_ids: note.relatedContactIds || null,
-        attendees: note.attendees || null,
-        user_id: user?.id || null,
-        created_at: note.date
-      });
+const validateLoanerAssignment = (ticket: ServiceTicket, assignedDate: string): DataError | null => {
+  if (!isTicketOpen(ticket)) return validationError('已修復的維修單不能再借出替代機');
+  if (isLoanerOut(ticket)) return validationError('替代機尚未歸還');
+  if (isNaN(new Date(assignedDate).getTime())) return validationError('借出日格式不正確');
+  return null;
+};
 
-    if (error) {
-      console.error('Error creating note:', error);
-      throw error;
-    }
+// RPC 已完成後才讀取設備的新狀態，讀取失敗只略過設備的稽核記錄，不讓借出或歸還顯示為失敗
+const recordLoanerAssetAudit = async (assetId: string, before: Record<string, any> | null) => {
+  if (!before) return;
+  try {
+    const after = await fetchRowSnapshot('equipment_assets', 'id', assetId);
+    await recordAuditEvent({ table: 'equipment_assets', action: 'update', entityId: assetId, before, after });
+  } catch (error) {
+    console.error('Error recording loaner asset audit:', error);
+  }
+};
 
-    const newNote: NoteWithUserId = {
-      id: noteId,
-      hospitalId: note.hospitalId,
-      content: note.content,
-      date: note.date,
-      author: note.author,
-      activityType: note.activityType,
-      tags: note.tags || [],
-      sentiment: note.sentiment as any,
-      nextStep: note.nextStep || undefined,
-      nextStepDate: note.nextStepDate || undefined,
-      relatedContactIds: note.relatedContactIds || [],
-      attendees: note.attendees || undefined,
-      userId: user?.id || undefined
-    };
+// 借出替代機與歸還都在 RPC 內以同一個交易更新維修單、設備狀態與位置並新增移轉記錄
+// （supabase/migrations/20261019030000_service_ticket_loaner_asset.sql）；
+// 設備已被其他維修單借走或維修單已有借出中的替代機時回傳空結果，視為衝突
+export const assignTicketLoaner = async (
+  ticket: ServiceTicket,
+  loaner: EquipmentAsset,
+  assignedDate: string,
+  location: string
+): Promise<Result<ServiceTicket>> => {
+  const invalid = validateLoanerAssignment(ticket, assignedDate);
+  if (invalid) return fail(invalid);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  markLocalWrite(ticket.id);
+
+  return toResult(async () => {
+    const [before, assetBefore] = await Promise.all([
+      fetchRowSnapshot('service_tickets', 'id', ticket.id),
+      fetchRowSnapshot('equipment_assets', 'id', loaner.id)
+    ]);
+    const { data, error } = await supabase.rpc('assign_ticket_loaner', {
+      p_ticket_id: ticket.id,
+      p_asset_id: loaner.id,
+      p_assigned_date: assignedDate,
+      p_location: location.trim() || null,
+      p_transferred_by_name: user?.user_metadata?.full_name || user?.email || null
+    });
+
+    if (error) throw error;
+    expectRows(data);
+
+    await recordAuditEvent({ table: 'service_tickets', action: 'update', entityId: ticket.id, before, after: data[0] });
+    await recordLoanerAssetAudit(loaner.id, assetBefore);
+    return mapServiceTicketRow(data[0]);
+  });
+};
 
-    // Check and update hospital last_visit
-    const { data: hospital } = await supabase
-      .from('hospitals')
-      .select('last_visit')
-      .eq('id', note.hospitalId)
-      .single();
+export const returnTicketLoaner = async (ticket: ServiceTicket, returnedDate: string): Promise<Result<ServiceTicket>> => {
+  if (!isLoanerOut(ticket)) return fail(validationError('這張維修單沒有借出中的替代機'));
+  if (isNaN(new Date(returnedDate).getTime())) return fail(validationError('歸還日格式不正確'));
+  if (ticket.loanerAssignedDate && returnedDate < ticket.loanerAssignedDate) {
+    return fail(validationError('替代機歸還日不可早於借出日'));
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  const loanerAssetId = ticket.loanerAssetId;
+  markLocalWrite(ticket.id);
+
+  return toResult(async () => {
+    const [before, assetBefore] = await Promise.all([
+      fetchRowSnapshot('service_tickets', 'id', ticket.id),
+      loanerAssetId ? fetchRowSnapshot('equipment_assets', 'id', loanerAssetId) : null
+    ]);
+    const { data, error } = await supabase.rpc('return_ticket_loaner', {
+      p_ticket_id: ticket.id,
+      p_returned_date: returnedDate,
+      p_transferred_by_name: user?.user_metadata?.full_name || user?.email || null
+    });
+
+    if (error) throw error;
+    expectRows(data);
+
+    await recordAuditEvent({ table: 'service_tickets', action: 'update', entityId: ticket.id, before, after: data[0] });
+    await recordLoanerAssetAudit(loanerAssetId, assetBefore);
+    return mapServiceTicketRow(data[0]);
+  });
+};
 
-    if (hospital) {
-      const noteDate = new Date(note.date);
-      const lastVisit = hospital.last_visit === 'Never' ? new Date(0) : new Date(hospital.last_visit);
+// ============== 定期保養 ==============
+// 保養紀錄需要網路才能產生與修改，不進入離線佇列
 
-      if (noteDate > lastVisit) {
-        await supabase
-          .from('hospitals')
-          .update({ last_visit: note.date })
-          .eq('id', note.hospitalId);
-      }
-    }
+export interface MaintenanceCompletion {
+  technician: string;
+  completedDate: string;
+  findings: string;
+  signedOffBy: string;
+}
 
-    return newNote;
+export const fetchMaintenanceVisits = async (
+  filter: { hospitalId?: string; from?: string; to?: string; pendingOnly?: boolean } = {}
+): Promise<MaintenanceVisit[]> => {
+  return withRetry(async () => {
+    let query = supabase
+      .from('maintenance_visits')
+      .select('*')
+      .is('deleted_at', null)
+      .order('scheduled_date', { ascending: true });
+    if (filter.hospitalId) query = query.eq('hospital_id', filter.hospitalId);
+    if (filter.from) query = query.gte('scheduled_date', filter.from);
+    if (filter.to) query = query.lte('scheduled_date', filter.to);
+    if (filter.pendingOnly) query = query.is('completed_date', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapMaintenanceVisitRow);
   });
 };
 
-export const updateNote = async (note: Note): Promise<boolean> => {
-  return withRetry(async () => {
+// 依合約目前的保養頻率與期間補齊排程，移除已不在排程內且尚未完成的保養。
+// 排程是系統產生的，不寫入稽核記錄；(contract_id, scheduled_date) 唯一，重複產生也不會重複建立
+const syncMaintenanceSchedule = async (contract: Contract): Promise<void> => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('maintenance_visits')
+    .select('*')
+    .eq('contract_id', contract.id)
+    .is('deleted_at', null);
+  if (fetchError) throw fetchError;
+
+  const { toCreate, toRemove } = diffMaintenanceSchedule(contract, (existing || []).map(mapMaintenanceVisitRow));
+  if (toRemove.length > 0) {
     const { error } = await supabase
-      .from('notes')
-      .update({
-        content: note.content,
-        activity_type: note.activityType,
-        tags: note.tags,
-        sentiment: note.sentiment,
-        next_step: note.nextStep,
-        next_step_date: note.nextStepDate,
-        related_contact_ids: note.relatedContactIds,
-        attendees: note.attendees,
-        created_at: note.date
-      })
-      .eq('id', note.id);
-
-    if (error) {
-      console.error('Error updating note:', error);
-      throw error;
-    }
+      .from('maintenance_visits')
+      .delete()
+      .in('id', toRemove.map(visit => visit.id))
+      .is('completed_date', null);
+    if (error) throw error;
+  }
 
-    // Check and update hospital last_visit
-    const { data: hospital } = await supabase
-      .from('hospitals')
-      .select('last_visit')
-      .eq('id', note.hospitalId)
-      .single();
+  if (toCreate.length > 0) {
+    const { error } = await supabase
+      .from('maintenance_visits')
+      .upsert(
+        toCreate.map(date => ({
+          id: crypto.randomUUID(),
+          hospital_id: contract.hospitalId,
+          contract_id: contract.id,
+          product_code: contract.productCode,
+          scheduled_date: date
+        })),
+        { onConflict: 'contract_id,scheduled_date', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  }
+};
 
-    if (hospital) {
-      const noteDate = new Date(note.date);
-      const lastVisit = hospital.last_visit === 'Never' ? new Date(0) : new Date(hospital.last_visit);
+// 合約寫入伺服器後產生保養排程（含離線排入、同步時才寫入的合約），行事曆不必等有人開啟醫院頁面。
+// 排程失敗不影響合約本身的儲存，下次修改或同步合約時會再補齊
+export const scheduleContractMaintenance = async (contract: Contract): Promise<void> => {
+  try {
+    await syncMaintenanceSchedule(contract);
+  } catch (error) {
+    console.error(`Error scheduling maintenance for contract ${contract.id}:`, error);
+  }
+};
 
-      if (noteDate > lastVisit) {
-        await supabase
-          .from('hospitals')
-          .update({ last_visit: note.date })
-          .eq('id', note.hospitalId);
-      }
-    }
+// 填寫或修改保養結果；有院方簽收人時記錄簽收時間
+export const completeMaintenanceVisit = async (
+  visit: MaintenanceVisit,
+  completion: MaintenanceCompletion
+): Promise<Result<MaintenanceVisit>> => {
+  const invalid = validateMaintenanceCompletion(completion);
+  if (invalid) return fail(invalid);
+
+  const signedOffBy = completion.signedOffBy.trim() || null;
+  const signedOffAt = !signedOffBy
+    ? null
+    : signedOffBy === visit.signedOffBy && visit.signedOffAt ? visit.signedOffAt : new Date().toISOString();
+
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('maintenance_visits', 'id', visit.id);
+    const { data, error } = await supabase
+      .from('maintenance_visits')
+      .update({
+        technician: completion.technician.trim(),
+        completed_date: completion.completedDate,
+        findings: completion.findings.trim() || null,
+        signed_off_by: signedOffBy,
+        signed_off_at: signedOffAt,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', visit.id)
+      .select();
 
-    return true;
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'maintenance_visits', action: 'update', entityId: visit.id, before, after: data[0] });
+    return mapMaintenanceVisitRow(data[0]);
   });
 };
 
-export const deleteNote = async (noteId: string): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('notes')
-      .delete()
-      .eq('id', noteId);
+// ============== 附件 ==============
+// 檔案存放在私有的 attachments bucket，路徑為 {hospitalId}/{attachmentId}/{檔名}；
+// 檢視權限由 attachments 資料表的 RLS 控制，Storage 的讀取 policy 再以該表判斷
 
-    if (error) {
-      console.error('Error deleting note:', error);
-      throw error;
-    }
+const ATTACHMENT_BUCKET = 'attachments';
+const ATTACHMENT_URL_TTL_SECONDS = 10 * 60;
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
 
-    return true;
-  });
-};
+export interface AttachmentTarget {
+  hospitalId: string;
+  entityType: AttachmentEntityType;
+  entityId: string;
+}
 
-// ============== 使用記錄/訂單 CRUD ==============
+// Storage 路徑只允許安全字元，原始檔名保存在 file_name
+const toStorageFileName = (fileName: string) => {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  const base = fileName.replace(/\.[^.]*$/, '').replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 60) || 'file';
+  return extension ? `${base}.${extension}` : base;
+};
 
-export const fetchUsageRecords = async (): Promise<UsageRecord[]> => {
+export const fetchAttachmentsByHospital = async (hospitalId: string): Promise<Attachment[]> => {
   return withRetry(async () => {
     const { data, error } = await supabase
-      .from('usage_records')
+      .from('attachments')
       .select('*')
+      .eq('hospital_id', hospitalId)
       .order('created_at', { ascending: false });
 
-    if (error) {
-      console.error('Error fetching usage records:', error);
-      throw error;
-    }
-
-    return (data || []).map(u => ({
-      id: u.id,
-      hospitalId: u.hospital_id,
-      productCode: u.product_code,
-      quantity: u.quantity,
-      date: u.date,
-      type: u.type
-    }));
+    if (error) throw error;
+    return (data || []).map(mapAttachmentRow);
   });
 };
 
-export const createUsageRecord = async (record: Omit<UsageRecord, 'id'>): Promise<UsageRecord | null> => {
-  return withRetry(async () => {
+// 先上傳檔案再寫入資料列；寫入失敗時刪除已上傳的檔案。上傳需要網路，不進入離線佇列
+export const uploadAttachment = async (
+  file: File,
+  target: AttachmentTarget,
+  visibility: AttachmentVisibility
+): Promise<Result<Attachment>> => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return fail(validationError(`檔案「${file.name}」超過 ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB 上限`));
+  }
+  if (file.size === 0) return fail(validationError(`檔案「${file.name}」是空的`));
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+  const attachmentId = crypto.randomUUID();
+  const storagePath = `${target.hospitalId}/${attachmentId}/${toStorageFileName(file.name)}`;
+  const mimeType = file.type || 'application/octet-stream';
+
+  return toResult(async () => {
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, file, { contentType: mimeType });
+    if (uploadError) throw uploadError;
+
     const { data, error } = await supabase
-      .from('usage_records')
+      .from('attachments')
       .insert({
-        hospital_id: record.hospitalId,
-        product_code: record.productCode,
-        quantity: record.quantity,
-        date: record.date,
-        type: record.type
+        id: attachmentId,
+        hospital_id: target.hospitalId,
+        entity_type: target.entityType,
+        entity_id: target.entityId,
+        file_name: file.name,
+        mime_type: mimeType,
+        size: file.size,
+        storage_path: storagePath,
+        visibility,
+        uploaded_by: user?.id || null,
+        uploader_name: user?.user_metadata?.full_name || user?.email || null
       })
       .select()
       .single();
 
     if (error) {
-      console.error('Error creating usage record:', error);
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([storagePath]);
       throw error;
     }
-
-    return {
-      id: data.id,
-      hospitalId: data.hospital_id,
-      productCode: data.product_code,
-      quantity: data.quantity,
-      date: data.date,
-      type: data.type
-    };
+    await recordAuditEvent({ table: 'attachments', action: 'create', entityId: attachmentId, after: data });
+    return mapAttachmentRow(data);
   });
 };
 
-export const updateUsageRecord = async (record: UsageRecord): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('usage_records')
-      .update({
-        product_code: record.productCode,
-        quantity: record.quantity,
-        date: record.date,
-        type: record.type
-      })
-      .eq('id', record.id);
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a'
+};
 
-    if (error) {
-      console.error('Error updating usage record:', error);
-      throw error;
-    }
+// 口述錄音上傳為活動記錄的附件，與其他附件一起出現在檔案總覽；由同步流程在連線時呼叫
+export const uploadNoteRecording = async (recording: PendingRecording): Promise<Result<Attachment>> => {
+  if (!recording.noteId) return fail(validationError('錄音尚未對應到活動記錄'));
+  const recordedAt = new Date(recording.recordedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${recordedAt.getFullYear()}${pad(recordedAt.getMonth() + 1)}${pad(recordedAt.getDate())}-${pad(recordedAt.getHours())}${pad(recordedAt.getMinutes())}`;
+  const file = new File(
+    [recording.audio],
+    `口述錄音-${stamp}.${AUDIO_EXTENSIONS[recording.mimeType] || 'webm'}`,
+    { type: recording.mimeType }
+  );
+  return uploadAttachment(file, { hospitalId: recording.hospitalId, entityType: 'notes', entityId: recording.noteId }, 'team');
+};
 
-    return true;
+// RLS 只允許上傳者與主管修改或刪除
+export const updateAttachmentVisibility = async (
+  attachmentId: string,
+  visibility: AttachmentVisibility
+): Promise<Result<void>> => {
+  return toResult(async () => {
+    const before = await fetchRowSnapshot('attachments', 'id', attachmentId);
+    const { data, error } = await supabase
+      .from('attachments')
+      .update({ visibility })
+      .eq('id', attachmentId)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+    await recordAuditEvent({ table: 'attachments', action: 'update', entityId: attachmentId, before, after: data[0] });
   });
 };
 
-export const deleteUsageRecord = async (recordId: string): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('usage_records')
+// 附件不進回收筒，刪除時直接移除資料列與檔案
+export const deleteAttachment = async (attachment: Attachment): Promise<Result<void>> => {
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('attachments')
       .delete()
-      .eq('id', recordId);
-
-    if (error) {
-      console.error('Error deleting usage record:', error);
-      throw error;
-    }
+      .eq('id', attachment.id)
+      .select();
 
-    return true;
+    if (error) throw error;
+    expectRows(data);
+    await removeStoredFiles(ATTACHMENT_BUCKET, [attachment.storagePath]);
+    await recordAuditEvent({ table: 'attachments', action: 'delete', entityId: attachment.id, before: data[0] });
   });
 };
 
-// ============== 已安裝設備 CRUD ==============
-
-export const createInstalledEquipment = async (
-  equipment: InstalledEquipment
-): Promise<InstalledEquipment | null> => {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from('installed_equipment')
-      .insert({
-        hospital_id: equipment.hospitalId,
-        product_code: equipment.productCode,
-        install_date: equipment.installDate,
-        quantity: equipment.quantity,
-        ownership: equipment.ownership
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating installed equipment:', error);
-      throw error;
-    }
+// 預覽用的短效網址；download 帶檔名時瀏覽器會直接下載
+export const getAttachmentUrl = async (attachment: Attachment, download = false): Promise<Result<string>> => {
+  return toResult(async () => {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(attachment.storagePath, ATTACHMENT_URL_TTL_SECONDS, download ? { download: attachment.fileName } : undefined);
 
-    return {
-      id: data.id,
-      hospitalId: data.hospital_id,
-      productCode: data.product_code,
-      installDate: data.install_date,
-      quantity: data.quantity,
-      ownership: data.ownership
-    };
+    if (error) throw error;
+    return data.signedUrl;
   });
 };
 
-export const updateInstalledEquipment = async (equipment: InstalledEquipment): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('installed_equipment')
-      .update({
-        product_code: equipment.productCode,
-        install_date: equipment.installDate,
-        quantity: equipment.quantity,
-        ownership: equipment.ownership
-      })
-      .eq('id', equipment.id);
+// ============== 團隊設定 ==============
+// app_settings 以 key 存放全團隊共用的設定（jsonb），所有人可讀取，只有主管與管理員可修改
 
-    if (error) {
-      console.error('Error updating installed equipment:', error);
-      throw error;
-    }
+export const fetchAppSetting = async <T>(key: string): Promise<T | null> => {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('value')
+      .eq('key', key)
+      .maybeSingle();
 
-    return true;
+    if (error) throw error;
+    return (data?.value as T) ?? null;
   });
 };
 
-export const deleteInstalledEquipment = async (equipmentId: string): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('installed_equipment')
-      .delete()
-      .eq('id', equipmentId);
+export const saveAppSetting = async (key: string, value: unknown): Promise<Result<void>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
 
-    if (error) {
-      console.error('Error deleting installed equipment:', error);
-      throw error;
-    }
+  return toResult(async () => {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .upsert({ key, value, updated_at: new Date().toISOString(), updated_by: user?.id || null }, { onConflict: 'key' })
+      .select();
 
-    return true;
+    if (error) throw error;
+    expectRows(data);
   });
 };
 
-// ============== Profiles (用於行事曆篩選) ==============
-
-export interface ProfileSummary {
-  id: string;
-  full_name: string;
-  email: string;
-  role_type: string;
-}
+// ============== AI 用量 ==============
 
-export const fetchAllProfiles = async (): Promise<ProfileSummary[]> => {
+// ai_usage_logs 由 ai-proxy 以 service role 寫入；RLS 只讓管理員讀取所有人的記錄
+export const fetchAIUsageLogs = async (from: string, to: string): Promise<AIUsageLog[]> => {
   return withRetry(async () => {
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('id, full_name, email, role_type')
-      .order('full_name', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching profiles:', error);
-      throw error;
+    const logs: AIUsageLog[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await supabase
+        .from('ai_usage_logs')
+        .select('*')
+        .gte('created_at', toBound(new Date(`${from}T00:00:00`), true))
+        .lt('created_at', toBound(nextDay(to), true))
+        .order('created_at', { ascending: false })
+        .range(offset, offset + MAX_PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      logs.push(...(data || []).map(mapAIUsageLogRow));
+      if (!data || data.length < MAX_PAGE_SIZE) return logs;
+      offset += MAX_PAGE_SIZE;
     }
-
-    return (data || []).map(p => ({
-      id: p.id,
-      full_name: p.full_name || '',
-      email: p.email || '',
-      role_type: p.role_type || 'sales'
-    }));
   });
 };
 
-// ============== 合約 CRUD ==============
-
-import { Contract, ContractType, MaintenanceFrequency } from '../types';
+// ============== 回收筒 ==============
 
-export const fetchContracts = async (): Promise<Contract[]> => {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from('contracts')
-      .select('*')
-      .order('created_at', { ascending: false });
+// 刪除後至少保留的天數，期滿才能永久刪除；需與 purge-trash 的設定一致
+export const RECYCLE_RETENTION_DAYS = 30;
 
-    if (error) {
-      console.error('Error fetching contracts:', error);
-      throw error;
-    }
+const TRASH_TABLES: TrashEntityType[] = ['hospitals', ...HOSPITAL_CHILD_TABLES];
 
-    return (data || []).map(c => ({
-      id: c.id,
-      hospitalId: c.hospital_id,
-      productCode: c.product_code,
-      contractType: c.contract_type as ContractType,
-      startDate: c.start_date,
-      durationYears: c.duration_years,
-      warrantyYears: c.warranty_years || undefined,
-      maintenanceFrequency: c.maintenance_frequency as MaintenanceFrequency || undefined
-    }));
-  });
+// 可以永久刪除的時間
+export const getPurgeAvailableAt = (item: TrashItem): Date => {
+  const date = new Date(item.deletedAt);
+  date.setDate(date.getDate() + RECYCLE_RETENTION_DAYS);
+  return date;
 };
 
-export const fetchContractsByHospital = async (hospitalId: string): Promise<Contract[]> => {
+export const canPurge = (item: TrashItem): boolean => getPurgeAvailableAt(item) <= new Date();
+
+export const fetchTrash = async (): Promise<TrashItem[]> => {
   return withRetry(async () => {
-    const { data, error } = await supabase
-      .from('contracts')
-      .select('*')
-      .eq('hospital_id', hospitalId)
-      .order('created_at', { ascending: false });
+    const results = await Promise.all(TRASH_TABLES.map(async table => {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+        .limit(MAX_PAGE_SIZE);
 
-    if (error) {
-      console.error('Error fetching contracts:', error);
-      throw error;
-    }
+      if (error) throw error;
 
-    return (data || []).map(c => ({
-      id: c.id,
-      hospitalId: c.hospital_id,
-      productCode: c.product_code,
-      contractType: c.contract_type as ContractType,
-      startDate: c.start_date,
-      durationYears: c.duration_years,
-      warrantyYears: c.warranty_years || undefined,
-      maintenanceFrequency: c.maintenance_frequency as MaintenanceFrequency || undefined
+      return (data || []).map(row => mapTrashRow(table, row));
     }));
+
+    return results.flat().sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
   });
 };
 
-export const createContract = async (contract: Omit<Contract, 'id'>): Promise<Contract | null> => {
-  return withRetry(async () => {
-    const { data: { user } } = await supabase.auth.getUser();
+export const restoreTrashItem = async (item: TrashItem): Promise<Result<void>> => {
+  markLocalWrite(item.id);
+  const restored = { deleted_at: null, deleted_by: null };
 
+  return toResult(async () => {
+    // installed_equipment 沒有 updated_at 欄位
+    const touch = item.entityType === 'installed_equipment' ? {} : { updated_at: new Date().toISOString() };
     const { data, error } = await supabase
-      .from('contracts')
-      .insert({
-        hospital_id: contract.hospitalId,
-        product_code: contract.productCode,
-        contract_type: contract.contractType,
-        start_date: contract.startDate,
-        duration_years: contract.durationYears,
-        warranty_years: contract.warrantyYears || null,
-        maintenance_frequency: contract.maintenanceFrequency || null,
-        user_id: user?.id || null
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating contract:', error);
-      throw error;
+      .from(item.entityType)
+      .update({ ...restored, ...touch })
+      .eq('id', item.id)
+      .not('deleted_at', 'is', null)
+      .select();
+
+    if (error) throw error;
+    expectRows(data);
+
+    // 一併還原和醫院同時刪除的關聯資料
+    if (item.entityType === 'hospitals') {
+      await Promise.all(HOSPITAL_TOMBSTONE_TABLES.map(table =>
+        updateHospitalChildren(table, item.id, item.deletedAt, restored)
+      ));
     }
 
-    return {
-      id: data.id,
-      hospitalId: data.hospital_id,
-      productCode: data.product_code,
-      contractType: data.contract_type as ContractType,
-      startDate: data.start_date,
-      durationYears: data.duration_years,
-      warrantyYears: data.warranty_years || undefined,
-      maintenanceFrequency: data.maintenance_frequency as MaintenanceFrequency || undefined
-    };
+    await recordAuditEvent({ table: item.entityType, action: 'restore', entityId: item.id, after: data[0] });
   });
 };
 
-export const updateContract = async (contract: Contract): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('contracts')
-      .update({
-        product_code: contract.productCode,
-        contract_type: contract.contractType,
-        start_date: contract.startDate,
-        duration_years: contract.durationYears,
-        warranty_years: contract.warrantyYears || null,
-        maintenance_frequency: contract.maintenanceFrequency || null
-      })
-      .eq('id', contract.id);
-
-    if (error) {
-      console.error('Error updating contract:', error);
-      throw error;
-    }
+// 永久刪除由 Edge Function purge-trash 以 service role 執行，呼叫者看不到的附件（例如他人的私人附件）與檔案也會一併刪除
+const PURGE_FUNCTION = 'purge-trash';
 
-    return true;
-  });
+const toPurgeError = async (error: unknown): Promise<DataError> => {
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+    return new DataError('network', '無法連線到伺服器，請檢查網路連線', { cause: error });
+  }
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const body = await response.json().catch(() => null);
+    const message: string | undefined = body?.error;
+    if (response.status === 401) return new DataError('auth_expired', message || '登入已逾時，請重新登入', { cause: error });
+    if (response.status === 403) return new DataError('permission_denied', message || '您沒有權限執行此操作', { cause: error });
+    if (response.status === 400) return new DataError('validation', message || '請求格式不正確', { cause: error });
+    if (response.status === 409) return new DataError('conflict', message || '資料已不存在，請重新整理後再試', { cause: error });
+    return new DataError('unknown', message || '永久刪除失敗，請稍後再試', { cause: error });
+  }
+  return toDataError(error);
 };
 
-export const deleteContract = async (contractId: string): Promise<boolean> => {
-  return withRetry(async () => {
-    const { error } = await supabase
-      .from('contracts')
-      .delete()
-      .eq('id', contractId);
-
-    if (error) {
-      console.error('Error deleting contract:', error);
-      throw error;
-    }
+export const purgeTrashItem = async (item: TrashItem): Promise<Result<void>> => {
+  if (!canPurge(item)) {
+    return fail(validationError(`刪除後需保留 ${RECYCLE_RETENTION_DAYS} 天才能永久刪除`));
+  }
+  markLocalWrite(item.id);
 
-    return true;
+  const { data, error } = await supabase.functions.invoke(PURGE_FUNCTION, {
+    body: { entityType: item.entityType, id: item.id }
   });
+  if (error) return fail(await toPurgeError(error));
+
+  await recordAuditEvent({ table: item.entityType, action: 'purge', entityId: item.id, before: data?.before });
+  return ok(undefined);
 };
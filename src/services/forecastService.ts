@@ -0,0 +1,158 @@
+import { Hospital, UsageRecord } from '../types';
+import { fetchUsageRecordsInRange } from './databaseService';
+import { toDateKey } from '../lib/dateKey';
+
+// ============== 耗材補貨預測 ==============
+// 以每家醫院各耗材的訂購節奏估算每月用量，訂單不足時參考已安裝設備台數；設備訂單不列入預測。
+// 預測下次補貨日 = 最後一次訂貨日 + 該批數量可用天數
+
+// 往回取多久的訂單估算用量
+export const FORECAST_LOOKBACK_DAYS = 365;
+
+// 訂單筆數達此數量時只依訂購節奏估算，不再參考設備台數
+const CADENCE_ONLY_MIN_ORDERS = 4;
+
+// 「本週可能補貨」的天數範圍
+export const REORDER_SOON_DAYS = 7;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DAYS_PER_MONTH = 30;
+
+export type ForecastConfidence = 'high' | 'medium' | 'low';
+export type ForecastBasis = 'cadence' | 'equipment' | 'blended';
+export type ReorderStatus = 'overdue' | 'soon' | 'upcoming';
+
+export interface ReorderForecast {
+  hospitalId: string;
+  productCode: string;
+  orderCount: number;
+  lastOrderDate: string;
+  lastOrderQuantity: number;
+  monthlyConsumption: number;  // 估計每月用量（件）
+  equipmentUnits: number;      // 已安裝設備台數
+  nextReorderDate: string;     // YYYY-MM-DD
+  daysUntilReorder: number;    // 負數表示已逾期
+  status: ReorderStatus;
+  basis: ForecastBasis;
+  confidence: ForecastConfidence;
+}
+
+const parseDay = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00`);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+
+const countEquipmentUnits = (hospital: Hospital | undefined) =>
+  (hospital?.installedEquipment || []).reduce((sum, equipment) => sum + (equipment.quantity || 0), 0);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// 依訂購節奏估算每日用量：最後一批之前訂的數量在這段期間內用完
+const getCadenceDailyRate = (orders: { date: string; quantity: number }[]) => {
+  if (orders.length < 2) return null;
+  const span = daysBetween(orders[0].date, orders[orders.length - 1].date);
+  if (span <= 0) return null;
+  const consumed = orders.slice(0, -1).reduce((sum, order) => sum + order.quantity, 0);
+  return consumed / span;
+};
+
+export const getReorderStatus = (daysUntilReorder: number): ReorderStatus =>
+  daysUntilReorder < 0 ? 'overdue' : daysUntilReorder <= REORDER_SOON_DAYS ? 'soon' : 'upcoming';
+
+export const forecastReorders = (
+  records: UsageRecord[],
+  hospitals: Hospital[],
+  isConsumable: (productCode: string) => boolean,
+  today: Date = new Date()
+): ReorderForecast[] => {
+  const hospitalMap = new Map(hospitals.map(h => [h.id, h]));
+  const todayKey = toDateKey(today);
+
+  // 同一天的多筆訂單合併為一次訂貨
+  const groups = new Map<string, Map<string, number>>();
+  records
+    .filter(record => record.type !== '樣品' && isConsumable(record.productCode) && hospitalMap.has(record.hospitalId))
+    .forEach(record => {
+      const key = `${record.hospitalId}|${record.productCode}`;
+      const byDate = groups.get(key) || new Map<string, number>();
+      const day = record.date.slice(0, 10);
+      byDate.set(day, (byDate.get(day) || 0) + record.quantity);
+      groups.set(key, byDate);
+    });
+
+  const series = Array.from(groups, ([key, byDate]) => {
+    const [hospitalId, productCode] = key.split('|');
+    const orders = Array.from(byDate, ([date, quantity]) => ({ date, quantity }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return {
+      hospitalId,
+      productCode,
+      orders,
+      cadenceRate: getCadenceDailyRate(orders),
+      units: countEquipmentUnits(hospitalMap.get(hospitalId))
+    };
+  });
+
+  // 各耗材每台設備的每日用量，取有訂購節奏的醫院中位數
+  const perUnitRates = new Map<string, number>();
+  const productCodes = new Set(series.map(s => s.productCode));
+  productCodes.forEach(productCode => {
+    const rate = median(series
+      .filter(s => s.productCode === productCode && s.cadenceRate !== null && s.units > 0)
+      .map(s => s.cadenceRate! / s.units));
+    if (rate !== null) perUnitRates.set(productCode, rate);
+  });
+
+  return series.flatMap(({ hospitalId, productCode, orders, cadenceRate, units }) => {
+    const perUnitRate = perUnitRates.get(productCode);
+    const equipmentRate = perUnitRate !== undefined && units > 0 ? perUnitRate * units : null;
+
+    let dailyRate: number | null;
+    let basis: ForecastBasis;
+    if (cadenceRate !== null && (orders.length >= CADENCE_ONLY_MIN_ORDERS || equipmentRate === null)) {
+      dailyRate = cadenceRate;
+      basis = 'cadence';
+    } else if (cadenceRate !== null && equipmentRate !== null) {
+      dailyRate = (cadenceRate + equipmentRate) / 2;
+      basis = 'blended';
+    } else {
+      dailyRate = equipmentRate;
+      basis = 'equipment';
+    }
+    if (!dailyRate || dailyRate <= 0) return [];
+
+    const last = orders[orders.length - 1];
+    const next = parseDay(last.date);
+    next.setDate(next.getDate() + Math.max(1, Math.round(last.quantity / dailyRate)));
+    const nextReorderDate = toDateKey(next);
+    const daysUntilReorder = daysBetween(todayKey, nextReorderDate);
+
+    const confidence: ForecastConfidence = orders.length >= CADENCE_ONLY_MIN_ORDERS ? 'high' : basis === 'equipment' ? 'low' : 'medium';
+    return [{
+      hospitalId,
+      productCode,
+      orderCount: orders.length,
+      lastOrderDate: last.date,
+      lastOrderQuantity: last.quantity,
+      monthlyConsumption: Math.round(dailyRate * DAYS_PER_MONTH),
+      equipmentUnits: units,
+      nextReorderDate,
+      daysUntilReorder,
+      status: getReorderStatus(daysUntilReorder),
+      basis,
+      confidence
+    }];
+  }).sort((a, b) => a.daysUntilReorder - b.daysUntilReorder);
+};
+
+// 預測所需的近一年訂單；醫院資料變動時只需重新計算，不必重新查詢
+export const fetchForecastRecords = (): Promise<UsageRecord[]> => {
+  const from = new Date();
+  from.setDate(from.getDate() - FORECAST_LOOKBACK_DAYS);
+  return fetchUsageRecordsInRange(toDateKey(from));
+};
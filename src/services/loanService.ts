@@ -0,0 +1,165 @@
+import { EquipmentAsset, Hospital, UsageRecord } from '../types';
+import { toDateKey } from '../lib/dateKey';
+import { fetchAppSetting, saveAppSetting } from './databaseService';
+import { Result } from './dataErrors';
+
+// ============== 借用設備計畫 ==============
+// 借用（OwnershipType '借用'）的設備以耗材訂單帶來營收，目標是轉為買斷或租賃。
+// 以登錄序號的設備逐台統計；耗材訂單記在醫院層級，無法對應到單台設備，因此依醫院的借用與借用後轉換的設備台數
+// 平均分攤到每台借用機，醫院自購的設備不參與分攤
+
+export interface LoanUtilizationSettings {
+  minMonthlyPerUnit: number;  // 每台每月至少應有的耗材訂購量
+  graceDays: number;          // 借用未滿此天數不判斷是否低度使用
+}
+
+export const DEFAULT_LOAN_UTILIZATION_SETTINGS: LoanUtilizationSettings = {
+  minMonthlyPerUnit: 20,
+  graceDays: 90
+};
+
+// 全團隊共用，存在 app_settings
+const SETTINGS_KEY = 'loan_utilization';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DAYS_PER_MONTH = 30.44;
+
+export type LoanStatus = 'active' | 'converted';
+
+export interface LoanPlacement {
+  asset: EquipmentAsset;
+  hospital: Hospital;
+  status: LoanStatus;
+  loanStart: string;            // installDate，未填時以登錄日計
+  loanEnd?: string;             // 轉為買斷/租賃的日期
+  daysOnLoan: number;
+  consumableQuantity: number;   // 借用期間的耗材訂購量，已依台數分攤到這台
+  monthlyPerUnit: number;       // 每月平均耗材量
+  isUnderUtilized: boolean;
+}
+
+export interface LoanConversionPoint {
+  month: string;  // YYYY-MM
+  買斷: number;
+  租賃: number;
+}
+
+const parseDay = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00`);
+
+export const validateLoanUtilizationSettings = ({ minMonthlyPerUnit, graceDays }: LoanUtilizationSettings): string | null => {
+  if (!Number.isFinite(minMonthlyPerUnit) || minMonthlyPerUnit <= 0) return '每台每月耗材量必須大於 0';
+  if (!Number.isInteger(graceDays) || graceDays < 0) return '觀察期必須是 0 以上的整數';
+  return null;
+};
+
+// 尚未設定或內容不合法時使用預設值
+export const fetchLoanUtilizationSettings = async (): Promise<LoanUtilizationSettings> => {
+  const saved = await fetchAppSetting<Partial<LoanUtilizationSettings>>(SETTINGS_KEY);
+  if (!saved) return DEFAULT_LOAN_UTILIZATION_SETTINGS;
+  const merged = { ...DEFAULT_LOAN_UTILIZATION_SETTINGS, ...saved };
+  return validateLoanUtilizationSettings(merged) ? DEFAULT_LOAN_UTILIZATION_SETTINGS : merged;
+};
+
+export const saveLoanUtilizationSettings = (settings: LoanUtilizationSettings): Promise<Result<void>> =>
+  saveAppSetting(SETTINGS_KEY, settings);
+
+// 借用中的設備與曾經借用、已轉換的設備；已退回的設備不再列入
+export const isLoanPlacement = (asset: EquipmentAsset) =>
+  asset.status !== 'returned' && (asset.ownership === '借用' || !!asset.loanConvertedAt);
+
+const getLoanStart = (asset: EquipmentAsset) => (asset.installDate || asset.createdAt).slice(0, 10);
+
+// 最早的借用開始日，用來決定需要載入多久以前的耗材訂單
+export const getEarliestLoanStart = (assets: EquipmentAsset[]): string | null => {
+  const starts = assets.filter(isLoanPlacement).map(getLoanStart);
+  return starts.length > 0 ? starts.sort()[0] : null;
+};
+
+export const buildLoanPlacements = (
+  assets: EquipmentAsset[],
+  hospitals: Hospital[],
+  usageRecords: UsageRecord[],
+  isConsumable: (productCode: string) => boolean,
+  settings: LoanUtilizationSettings = DEFAULT_LOAN_UTILIZATION_SETTINGS,
+  today: Date = new Date()
+): LoanPlacement[] => {
+  const todayKey = toDateKey(today);
+  const hospitalMap = new Map(hospitals.map(h => [h.id, h]));
+  const unitsByHospital = new Map<string, number>();
+  assets
+    .filter(isLoanPlacement)
+    .forEach(asset => unitsByHospital.set(asset.hospitalId, (unitsByHospital.get(asset.hospitalId) || 0) + 1));
+  const ordersByHospital = new Map<string, UsageRecord[]>();
+  usageRecords
+    .filter(record => record.type === '訂單' && isConsumable(record.productCode))
+    .forEach(record => {
+      ordersByHospital.set(record.hospitalId, [...(ordersByHospital.get(record.hospitalId) || []), record]);
+    });
+
+  // 醫院已不在清單（已刪除或無權限）的設備不列入
+  return assets.filter(isLoanPlacement).flatMap(asset => {
+    const hospital = hospitalMap.get(asset.hospitalId);
+    if (!hospital) return [];
+
+    const loanStart = getLoanStart(asset);
+    const loanEnd = asset.ownership === '借用' ? undefined : asset.loanConvertedAt;
+    const periodEnd = loanEnd || todayKey;
+    const daysOnLoan = Math.max(0, Math.round((parseDay(periodEnd).getTime() - parseDay(loanStart).getTime()) / DAY_MS));
+
+    const hospitalQuantity = (ordersByHospital.get(hospital.id) || [])
+      .filter(record => {
+        const date = record.date.slice(0, 10);
+        return date >= loanStart && date <= periodEnd;
+      })
+      .reduce((sum, record) => sum + record.quantity, 0);
+    const perUnit = hospitalQuantity / (unitsByHospital.get(hospital.id) || 1);
+    // 借用未滿一個月時以一個月計，避免剛借出就出現過高或過低的月平均
+    const monthlyPerUnit = perUnit / Math.max(daysOnLoan / DAYS_PER_MONTH, 1);
+    const status: LoanStatus = loanEnd ? 'converted' : 'active';
+
+    return [{
+      asset,
+      hospital,
+      status,
+      loanStart,
+      loanEnd,
+      daysOnLoan,
+      consumableQuantity: Math.round(perUnit),
+      monthlyPerUnit,
+      isUnderUtilized: status === 'active' && daysOnLoan >= settings.graceDays && monthlyPerUnit < settings.minMonthlyPerUnit
+    }];
+  });
+};
+
+// 最近幾個月每月轉為買斷/租賃的台數
+export const buildConversionTrend = (placements: LoanPlacement[], months: number = 12, today: Date = new Date()): LoanConversionPoint[] => {
+  const points: LoanConversionPoint[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const date = new Date(today.getFullYear(), today.getMonth() - i, 1);
+    points.push({ month: toDateKey(date).slice(0, 7), 買斷: 0, 租賃: 0 });
+  }
+  const pointMap = new Map(points.map(point => [point.month, point]));
+  placements.forEach(placement => {
+    if (placement.status !== 'converted' || !placement.loanEnd) return;
+    const point = pointMap.get(placement.loanEnd.slice(0, 7));
+    const ownership = placement.asset.ownership;
+    if (point && (ownership === '買斷' || ownership === '租賃')) point[ownership] += 1;
+  });
+  return points;
+};
+
+export const summarizeLoanProgram = (placements: LoanPlacement[]) => {
+  const active = placements.filter(p => p.status === 'active');
+  const converted = placements.filter(p => p.status === 'converted');
+  const activeUnits = active.length;
+  const convertedUnits = converted.length;
+  return {
+    activeUnits,
+    convertedUnits,
+    underUtilizedUnits: active.filter(p => p.isUnderUtilized).length,
+    conversionRate: activeUnits + convertedUnits > 0 ? convertedUnits / (activeUnits + convertedUnits) : 0,
+    averageDaysToConvert: converted.length > 0
+      ? Math.round(converted.reduce((sum, p) => sum + p.daysOnLoan, 0) / converted.length)
+      : null
+  };
+};
@@ -0,0 +1,92 @@
+import { Contract, MaintenanceFrequency, MaintenanceVisit } from '../types';
+import { getContractEndDate } from './contractService';
+import { toDateKey } from '../lib/dateKey';
+
+// ============== 定期保養排程 ==============
+// 設備合約自開始日起依保養頻率排定保養，直到合約到期；保固期內的保養不另收費
+
+export const MAINTENANCE_INTERVAL_MONTHS: Record<MaintenanceFrequency, number> = {
+  yearly: 12,
+  biannual: 6,
+  quarterly: 3,
+  monthly: 1
+};
+
+// 排定日前幾天開始提醒
+export const MAINTENANCE_DUE_SOON_DAYS = 14;
+
+// 產生排程時最多回補幾天前的保養，避免舊合約一開始就有整排逾期
+export const MAINTENANCE_BACKFILL_DAYS = 90;
+
+export type MaintenanceStatus = 'completed' | 'overdue' | 'due_soon' | 'scheduled';
+
+export const MAINTENANCE_STATUS_CONFIG: Record<MaintenanceStatus, { label: string; className: string }> = {
+  completed: { label: '已完成', className: 'bg-emerald-100 text-emerald-700' },
+  overdue: { label: '逾期', className: 'bg-red-100 text-red-700' },
+  due_soon: { label: '即將到期', className: 'bg-amber-100 text-amber-700' },
+  scheduled: { label: '已排定', className: 'bg-slate-100 text-slate-600' }
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const parseDay = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00`);
+
+// 加上月數；目標月份沒有該日時取月底（1/31 + 1 個月 = 2/28）
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+};
+
+export const hasMaintenancePlan = (contract: Contract) =>
+  contract.contractType === 'equipment' && !!contract.maintenanceFrequency;
+
+// 合約期間內每次保養的排定日（不含開始日當天，含到期日）
+export const getMaintenanceSchedule = (contract: Contract): string[] => {
+  if (!hasMaintenancePlan(contract)) return [];
+  const interval = MAINTENANCE_INTERVAL_MONTHS[contract.maintenanceFrequency!];
+  const start = parseDay(contract.startDate);
+  const endDate = getContractEndDate(contract);
+
+  const dates: string[] = [];
+  for (let i = 1; ; i++) {
+    const date = toDateKey(addMonths(start, interval * i));
+    if (date > endDate) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+export const getWarrantyEndDate = (contract: Contract): string | null =>
+  contract.warrantyYears ? getContractEndDate({ startDate: contract.startDate, durationYears: contract.warrantyYears }) : null;
+
+export const isUnderWarranty = (contract: Contract, date: string) => {
+  const warrantyEnd = getWarrantyEndDate(contract);
+  return warrantyEnd !== null && date.slice(0, 10) <= warrantyEnd;
+};
+
+export const getDaysUntil = (date: string, today: Date = new Date()) =>
+  Math.round((parseDay(date).getTime() - parseDay(toDateKey(today)).getTime()) / DAY_MS);
+
+export const getMaintenanceStatus = (visit: MaintenanceVisit, today: Date = new Date()): MaintenanceStatus => {
+  if (visit.completedDate) return 'completed';
+  const days = getDaysUntil(visit.scheduledDate, today);
+  if (days < 0) return 'overdue';
+  return days <= MAINTENANCE_DUE_SOON_DAYS ? 'due_soon' : 'scheduled';
+};
+
+// 排程與既有紀錄的差異：缺少的排定日需新增（不回補超過 MAINTENANCE_BACKFILL_DAYS 的）；
+// 未完成且已不在排程內的需移除，已完成的紀錄一律保留
+export const diffMaintenanceSchedule = (contract: Contract, visits: MaintenanceVisit[], today: Date = new Date()) => {
+  const planned = getMaintenanceSchedule(contract);
+  const backfillFrom = new Date(today);
+  backfillFrom.setDate(backfillFrom.getDate() - MAINTENANCE_BACKFILL_DAYS);
+  const earliest = toDateKey(backfillFrom);
+  const existing = new Set(visits.map(visit => visit.scheduledDate));
+  const plannedSet = new Set(planned);
+  return {
+    toCreate: planned.filter(date => date >= earliest && !existing.has(date)),
+    toRemove: visits.filter(visit => !visit.completedDate && !plannedSet.has(visit.scheduledDate))
+  };
+};
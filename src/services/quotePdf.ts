@@ -0,0 +1,156 @@
+import jsPDF from 'jspdf';
+import autoTable, { Table } from 'jspdf-autotable';
+import { Hospital, Quote } from '../types';
+import { Result, ok, fail, validationError } from './dataErrors';
+
+// ============== 報價單 PDF ==============
+// jsPDF 內建字型不含中文字，使用隨專案發布的 Noto Sans TC（public/fonts/，SIL Open Font License）；
+// 字型檔下載失敗時不匯出，避免醫院名稱、品名等中文欄位印成空白
+
+const CJK_FONT_URL = '/fonts/NotoSansTC-Regular.ttf';
+const CJK_FONT_NAME = 'NotoSansTC';
+
+const COMPANY_NAME = 'MedSales';
+const BRAND_COLOR: [number, number, number] = [37, 99, 235];
+
+let cachedFontBase64: Promise<string | null> | null = null;
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// 字型檔約數 MB，整個工作階段只下載一次
+const loadCjkFont = (): Promise<string | null> => {
+  if (!cachedFontBase64) {
+    cachedFontBase64 = fetch(CJK_FONT_URL)
+      .then(async response => {
+        const type = response.headers.get('content-type') || '';
+        // SPA fallback 會對不存在的路徑回傳 index.html
+        if (!response.ok || type.includes('text/html')) return null;
+        return arrayBufferToBase64(await response.arrayBuffer());
+      })
+      .catch(error => {
+        console.warn('CJK font not available:', error);
+        return null;
+      });
+  }
+  return cachedFontBase64;
+};
+
+// jspdf-autotable 會把最後一個表格記在 doc.lastAutoTable，型別定義沒有這個欄位
+const getLastAutoTable = (doc: jsPDF): Table | undefined =>
+  (doc as jsPDF & { lastAutoTable?: Table }).lastAutoTable;
+
+const formatAmount = (amount: number) =>
+  `NT$ ${amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => date.slice(0, 10);
+
+export const exportQuotePdf = async (quote: Quote, hospital: Hospital): Promise<Result<void>> => {
+  const fontBase64 = await loadCjkFont();
+  if (!fontBase64) {
+    // 下次匯出時重新嘗試下載，網路恢復後不需重新整理頁面
+    cachedFontBase64 = null;
+    return fail(validationError(`無法下載報價單使用的中文字型（${CJK_FONT_URL}），請確認網路連線後再試`));
+  }
+
+  const doc = new jsPDF();
+  doc.addFileToVFS(`${CJK_FONT_NAME}.ttf`, fontBase64);
+  doc.addFont(`${CJK_FONT_NAME}.ttf`, CJK_FONT_NAME, 'normal');
+  doc.setFont(CJK_FONT_NAME, 'normal');
+
+  // 雙語標籤「中文 English」
+  const label = (zh: string, en: string) => `${zh} ${en}`;
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // 品牌頁首
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, pageWidth, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(18);
+  doc.text(COMPANY_NAME, 14, 17);
+  doc.setFontSize(14);
+  doc.text(label('報價單', 'QUOTATION'), pageWidth - 14, 17, { align: 'right' });
+
+  doc.setTextColor(30, 41, 59);
+  doc.setFontSize(10);
+  const infoRows: [string, string][] = [
+    [label('報價單號', 'Quote No.'), quote.quoteNumber],
+    [label('報價日期', 'Date'), formatDate(quote.createdAt)],
+    [label('有效期限', 'Valid Until'), formatDate(quote.validUntil)],
+    [label('客戶', 'Customer'), hospital.name],
+    [label('報價人', 'Prepared By'), quote.createdByName || '-']
+  ];
+  infoRows.forEach(([key, value], index) => {
+    const y = 40 + index * 6;
+    doc.text(key, 14, y);
+    doc.text(value, 55, y);
+  });
+
+  autoTable(doc, {
+    startY: 40 + infoRows.length * 6 + 4,
+    head: [[
+      '#',
+      label('產品代碼', 'Code'),
+      label('品名', 'Description'),
+      label('數量', 'Qty'),
+      label('單價', 'Unit Price'),
+      label('金額', 'Amount')
+    ]],
+    body: quote.items.map((item, index) => [
+      String(index + 1),
+      item.productCode,
+      item.productName || item.productCode,
+      String(item.quantity),
+      formatAmount(item.unitPrice),
+      formatAmount(item.unitPrice * item.quantity)
+    ]),
+    styles: { fontSize: 9, cellPadding: 2.5, font: CJK_FONT_NAME },
+    headStyles: { fillColor: BRAND_COLOR, textColor: 255, fontStyle: 'normal' },
+    columnStyles: {
+      0: { cellWidth: 10 },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' }
+    }
+  });
+
+  let y = (getLastAutoTable(doc)?.finalY ?? 80) + 8;
+  const totals: [string, string][] = [
+    [label('小計', 'Subtotal'), formatAmount(quote.subtotal)],
+    [`${label('稅額', 'Tax')} (${Math.round(quote.taxRate * 1000) / 10}%)`, formatAmount(quote.tax)],
+    [label('總計', 'Total'), formatAmount(quote.total)]
+  ];
+  totals.forEach(([key, value], index) => {
+    if (index === totals.length - 1) doc.setFontSize(12);
+    doc.text(key, pageWidth - 70, y);
+    doc.text(value, pageWidth - 14, y, { align: 'right' });
+    y += 7;
+  });
+
+  doc.setFontSize(9);
+  const notes = quote.notes || '';
+  if (notes) {
+    y += 4;
+    doc.text(label('備註', 'Notes'), 14, y);
+    const lines = doc.splitTextToSize(notes, pageWidth - 28);
+    doc.text(lines, 14, y + 5);
+    y += 5 + lines.length * 4.5;
+  }
+
+  doc.setTextColor(100, 116, 139);
+  doc.text(
+    `本報價單有效期限至 ${formatDate(quote.validUntil)}，價格以新台幣計價。 Prices in TWD, valid until ${formatDate(quote.validUntil)}.`,
+    14,
+    y + 8
+  );
+
+  doc.save(`${quote.quoteNumber}.pdf`);
+  return ok(undefined);
+};
@@ -0,0 +1,106 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export type RealtimeTable =
+  | 'hospitals'
+  | 'notes'
+  | 'contacts'
+  | 'usage_records'
+  | 'installed_equipment'
+  | 'contracts'
+  | 'service_tickets';
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  newRow: Record<string, any> | null;
+  oldRow: Record<string, any> | null; // 未設定 REPLICA IDENTITY FULL 時只有 id
+  isLocalEcho: boolean;               // 自己剛寫入而被廣播回來的變更
+}
+
+// 其他使用者對某間醫院資料的變更，用於醫院詳情頁的提示
+export interface RemoteEdit {
+  hospitalId: string;
+  table: RealtimeTable;
+  eventType: RealtimeChange['eventType'];
+  at: number;
+}
+
+// ============== 本機寫入標記 ==============
+// Postgres Changes 不會告訴我們是誰改的，改為記下自己剛寫入的 id，
+// 在時效內收到同一筆的廣播就視為自己的變更
+
+const LOCAL_WRITE_TTL_MS = 10 * 1000;
+const recentLocalWrites = new Map<string, number>();
+
+export const markLocalWrite = (recordId: string) => {
+  recentLocalWrites.set(recordId, Date.now());
+};
+
+const isRecentLocalWrite = (recordId: string | undefined): boolean => {
+  if (!recordId) return false;
+  const writtenAt = recentLocalWrites.get(recordId);
+  if (!writtenAt) return false;
+  if (Date.now() - writtenAt > LOCAL_WRITE_TTL_MS) {
+    recentLocalWrites.delete(recordId);
+    return false;
+  }
+  return true;
+};
+
+// ============== 訂閱 ==============
+
+let channelSeq = 0;
+
+// 訂閱指定資料表的新增/修改/刪除，回傳取消訂閱函式
+export const subscribeToTableChanges = (
+  tables: RealtimeTable[],
+  onChange: (change: RealtimeChange) => void,
+  onSubscribed?: (isReconnect: boolean) => void
+): (() => void) => {
+  let channel = supabase.channel(`medcrm-changes-${++channelSeq}`);
+  let hasSubscribed = false;
+
+  tables.forEach(table => {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table },
+      (payload: RealtimePostgresChangesPayload<Record<string, any>>) => {
+        let eventType = payload.eventType;
+        let newRow: Record<string, any> | null = eventType === 'DELETE' ? null : payload.new;
+        let oldRow: Record<string, any> | null = eventType === 'INSERT' ? null : payload.old;
+
+        // 軟刪除在資料庫是 UPDATE，對畫面而言等同刪除
+        if (eventType === 'UPDATE' && newRow?.deleted_at) {
+          eventType = 'DELETE';
+          oldRow = newRow;
+          newRow = null;
+        }
+
+        const recordId = newRow?.id || oldRow?.id;
+
+        onChange({
+          table,
+          eventType,
+          newRow,
+          oldRow,
+          isLocalEcho: isRecentLocalWrite(recordId)
+        });
+      }
+    );
+  });
+
+  channel.subscribe((status, error) => {
+    if (status === 'SUBSCRIBED') {
+      // 重新連線期間可能漏掉變更，交由呼叫端決定是否重新載入
+      onSubscribed?.(hasSubscribed);
+      hasSubscribed = true;
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.error(`Realtime channel ${status}:`, error);
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,104 @@
+import { Hospital, UsageRecord, ConsumablePriceChange } from '../types';
+
+// ============== 營收計算 ==============
+// 訂單數量乘上訂單日期當時的議定價；樣品不計入營收
+
+// 單價來源：訂單上記錄的價格、議定價歷史、醫院目前的議定價，都沒有時列為缺價
+export type PriceSource = 'recorded' | 'history' | 'current' | 'missing';
+
+export interface PricedOrder {
+  record: UsageRecord;
+  unitPrice: number | null;
+  revenue: number;
+  source: PriceSource;
+}
+
+export interface MissingPriceEntry {
+  hospitalId: string;
+  productCodes: string[];
+  orderCount: number;
+  quantity: number;
+}
+
+// 依異動記錄找出某日有效的價格；早於第一筆異動時使用該筆的調整前價格
+export const getPriceAtDate = (history: ConsumablePriceChange[], productCode: string, date: string): number | undefined => {
+  const day = date.slice(0, 10);
+  const changes = history.filter(change => change.productCode === productCode);
+  if (changes.length === 0) return undefined;
+
+  const effective = changes.filter(change => change.effectiveDate <= day);
+  return effective.length > 0 ? effective[effective.length - 1].price : changes[0].previousPrice;
+};
+
+export const priceOrders = (
+  records: UsageRecord[],
+  hospitals: Hospital[],
+  history: ConsumablePriceChange[] = []
+): PricedOrder[] => {
+  const hospitalMap = new Map(hospitals.map(h => [h.id, h]));
+  const historyByHospital = new Map<string, ConsumablePriceChange[]>();
+  history.forEach(change => {
+    historyByHospital.set(change.hospitalId, [...(historyByHospital.get(change.hospitalId) || []), change]);
+  });
+
+  return records
+    .filter(record => record.type !== '樣品')
+    .map(record => {
+      let unitPrice: number | null = null;
+      let source: PriceSource = 'missing';
+
+      if (record.unitPrice != null) {
+        unitPrice = record.unitPrice;
+        source = 'recorded';
+      } else {
+        const hospitalHistory = historyByHospital.get(record.hospitalId) || [];
+        const historical = getPriceAtDate(hospitalHistory, record.productCode, record.date);
+        const current = hospitalMap.get(record.hospitalId)?.consumables?.find(c => c.code === record.productCode)?.price;
+        if (historical != null) {
+          unitPrice = historical;
+          source = 'history';
+        } else if (current != null) {
+          unitPrice = current;
+          source = 'current';
+        }
+      }
+
+      return { record, unitPrice, revenue: (unitPrice || 0) * record.quantity, source };
+    });
+};
+
+export const sumRevenue = (orders: PricedOrder[]) =>
+  orders.reduce((total, order) => total + order.revenue, 0);
+
+// 依指定欄位加總營收，由高到低排序
+export const groupRevenue = (orders: PricedOrder[], getKey: (order: PricedOrder) => string) => {
+  const totals = new Map<string, number>();
+  orders.forEach(order => {
+    const key = getKey(order);
+    totals.set(key, (totals.get(key) || 0) + order.revenue);
+  });
+  return Array.from(totals, ([name, revenue]) => ({ name, revenue }))
+    .filter(item => item.revenue > 0)
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+// 找不到任何價格的訂單，依醫院彙整
+export const findMissingPrices = (orders: PricedOrder[]): MissingPriceEntry[] => {
+  const entries = new Map<string, MissingPriceEntry>();
+  orders
+    .filter(order => order.source === 'missing')
+    .forEach(({ record }) => {
+      const entry = entries.get(record.hospitalId) || { hospitalId: record.hospitalId, productCodes: [], orderCount: 0, quantity: 0 };
+      if (!entry.productCodes.includes(record.productCode)) entry.productCodes.push(record.productCode);
+      entry.orderCount += 1;
+      entry.quantity += record.quantity;
+      entries.set(record.hospitalId, entry);
+    });
+  return Array.from(entries.values()).sort((a, b) => b.quantity - a.quantity);
+};
+
+// 與前一期比較的變化百分比；前一期為 0 時無法比較
+export const calculateTrend = (current: number, previous: number): number | null => {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return (current - previous) / previous * 100;
+};
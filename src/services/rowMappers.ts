@@ -0,0 +1,506 @@
+import {
+  DBHospital,
+  DBHospitalWithRelations,
+  DBContact,
+  DBNote,
+  DBUsageRecord,
+  DBInstalledEquipment,
+  DBContract,
+  DBMaintenanceVisit,
+  DBEquipmentAsset,
+  DBAssetTransfer,
+  DBServiceTicket,
+  DBProduct,
+  DBAuditEvent,
+  DBAIUsageLog,
+  DBAttachment,
+  DBQuote,
+  DBConsumablePriceChange
+} from '../lib/supabase';
+import {
+  Hospital,
+  Contact,
+  Note,
+  UsageRecord,
+  InstalledEquipment,
+  Contract,
+  ContractType,
+  ContractRenewalStage,
+  MaintenanceVisit,
+  MaintenanceFrequency,
+  EquipmentAsset,
+  AssetStatus,
+  AssetTransfer,
+  ServiceTicket,
+  ServiceTicketStatus,
+  ServiceTicketPriority,
+  FaultCategory,
+  Product,
+  ProductType,
+  SalesStage,
+  HospitalLevel,
+  Region,
+  ActivityType,
+  Sentiment,
+  UsageType,
+  OwnershipType,
+  AuditEvent,
+  AuditEntityType,
+  AuditAction,
+  TrashItem,
+  TrashEntityType,
+  AIUsageLog,
+  Attachment,
+  AttachmentEntityType,
+  AttachmentVisibility,
+  Quote,
+  QuoteStatus,
+  QuotePriceSource,
+  ConsumablePriceChange
+} from '../types';
+
+// 資料列與前端型別的轉換集中在這裡：map* 將 Supabase 的 snake_case 資料列轉為前端型別，
+// to*Row 則產生寫入用的欄位（不含 id 與時間戳記，由呼叫端補上）
+
+// 擴展 Note 類型加入 userId
+export interface NoteWithUserId extends Note {
+  userId?: string;
+}
+
+// ============== 已安裝設備 ==============
+
+export const mapEquipmentRow = (row: DBInstalledEquipment): InstalledEquipment => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  productCode: row.product_code,
+  installDate: row.install_date,
+  quantity: row.quantity,
+  ownership: row.ownership as OwnershipType
+});
+
+export const toEquipmentRow = (equipment: InstalledEquipment) => ({
+  hospital_id: equipment.hospitalId,
+  product_code: equipment.productCode,
+  install_date: equipment.installDate,
+  quantity: equipment.quantity,
+  ownership: equipment.ownership
+});
+
+// ============== 醫院 ==============
+
+export const mapHospitalRow = (row: DBHospital, installedEquipment: InstalledEquipment[] = []): Hospital => ({
+  id: row.id,
+  name: row.name,
+  address: row.address || '',
+  region: row.region as Region,
+  level: row.level as HospitalLevel,
+  stage: row.stage as SalesStage,
+  equipmentInstalled: row.equipment_installed,
+  lastVisit: row.last_visit || 'Never',
+  notes: row.notes || '',
+  chargePerUse: row.charge_per_use || undefined,
+  consumables: row.consumables || [],
+  installedEquipment
+});
+
+export const mapHospitalWithRelationsRow = (row: DBHospitalWithRelations): Hospital => ({
+  ...mapHospitalRow(row, (row.installed_equipment || []).map(mapEquipmentRow)),
+  contractCount: row.contracts?.[0]?.count ?? 0,
+  openTicketCount: row.open_tickets?.[0]?.count ?? 0,
+  lastNoteDate: row.notes_latest?.[0]?.created_at
+});
+
+export const toHospitalRow = (hospital: Omit<Hospital, 'id' | 'installedEquipment'>) => ({
+  name: hospital.name,
+  region: hospital.region,
+  address: hospital.address,
+  stage: hospital.stage,
+  level: hospital.level,
+  equipment_installed: hospital.equipmentInstalled,
+  last_visit: hospital.lastVisit,
+  notes: hospital.notes || null,
+  charge_per_use: hospital.chargePerUse || null,
+  consumables: hospital.consumables || null
+});
+
+// ============== 聯絡人 ==============
+
+export const mapContactRow = (row: DBContact): Contact => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  name: row.name,
+  role: row.role || '',
+  email: row.email || '',
+  phone: row.phone || '',
+  isKeyDecisionMaker: row.is_key_decision_maker
+});
+
+export const toContactRow = (contact: Omit<Contact, 'id'>) => ({
+  hospital_id: contact.hospitalId,
+  name: contact.name,
+  role: contact.role,
+  email: contact.email,
+  phone: contact.phone,
+  is_key_decision_maker: contact.isKeyDecisionMaker
+});
+
+// ============== 筆記/活動記錄 ==============
+
+export const mapNoteRow = (row: DBNote): NoteWithUserId => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  content: row.content,
+  date: row.created_at,
+  author: row.author_name,
+  activityType: row.activity_type as ActivityType,
+  tags: row.tags || [],
+  sentiment: (row.sentiment as Sentiment) || undefined,
+  nextStep: row.next_step || undefined,
+  nextStepDate: row.next_step_date || undefined,
+  relatedContactIds: row.related_contact_ids || [],
+  attendees: row.attendees || undefined,
+  audioRecordings: row.audio_recordings || undefined,
+  userId: row.user_id || undefined
+});
+
+// 活動日期存在 created_at，讓使用者可以補登過去的拜訪
+export const toNoteRow = (note: Omit<Note, 'id'>) => ({
+  hospital_id: note.hospitalId,
+  content: note.content,
+  activity_type: note.activityType,
+  author_name: note.author,
+  tags: note.tags || null,
+  sentiment: note.sentiment || null,
+  next_step: note.nextStep || null,
+  next_step_date: note.nextStepDate || null,
+  related_contact_ids: note.relatedContactIds || null,
+  attendees: note.attendees || null,
+  audio_recordings: note.audioRecordings?.length ? note.audioRecordings : null,
+  created_at: note.date
+});
+
+// ============== 使用記錄/訂單 ==============
+
+export const mapUsageRecordRow = (row: DBUsageRecord): UsageRecord => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  productCode: row.product_code,
+  quantity: row.quantity,
+  date: row.date,
+  type: row.type as UsageType,
+  unitPrice: row.unit_price ?? undefined,
+  recordedBy: row.recorded_by || undefined,
+  recordedByName: row.recorded_by_name || undefined
+});
+
+export const toUsageRecordRow = (record: Omit<UsageRecord, 'id'>) => ({
+  hospital_id: record.hospitalId,
+  product_code: record.productCode,
+  quantity: record.quantity,
+  date: record.date,
+  type: record.type,
+  unit_price: record.unitPrice ?? null
+});
+
+// ============== 合約 ==============
+
+export const mapContractRow = (row: DBContract): Contract => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  productCode: row.product_code,
+  contractType: row.contract_type as ContractType,
+  startDate: row.start_date,
+  durationYears: row.duration_years,
+  warrantyYears: row.warranty_years || undefined,
+  maintenanceFrequency: (row.maintenance_frequency as MaintenanceFrequency) || undefined,
+  renewalStage: (row.renewal_stage as ContractRenewalStage) || 'not_started'
+});
+
+export const toContractRow = (contract: Omit<Contract, 'id'>) => ({
+  hospital_id: contract.hospitalId,
+  product_code: contract.productCode,
+  contract_type: contract.contractType,
+  start_date: contract.startDate,
+  duration_years: contract.durationYears,
+  warranty_years: contract.warrantyYears || null,
+  maintenance_frequency: contract.maintenanceFrequency || null,
+  renewal_stage: contract.renewalStage || 'not_started'
+});
+
+// ============== 設備序號 ==============
+
+const ASSET_STATUSES: AssetStatus[] = ['in_service', 'in_repair', 'returned'];
+
+export const mapEquipmentAssetRow = (row: DBEquipmentAsset): EquipmentAsset => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  productCode: row.product_code,
+  serialNumber: row.serial_number,
+  location: row.location || undefined,
+  status: ASSET_STATUSES.includes(row.status as AssetStatus) ? row.status as AssetStatus : 'in_service',
+  ownership: row.ownership as OwnershipType,
+  loanConvertedAt: row.loan_converted_at || undefined,
+  installDate: row.install_date || undefined,
+  warrantyEndDate: row.warranty_end_date || undefined,
+  notes: row.notes || undefined,
+  createdAt: row.created_at
+});
+
+// 借用轉換日由 updateEquipmentAsset 依所有權變更處理，不在這裡產生
+export const toEquipmentAssetRow = (asset: Omit<EquipmentAsset, 'id' | 'createdAt' | 'loanConvertedAt'>) => ({
+  hospital_id: asset.hospitalId,
+  product_code: asset.productCode,
+  serial_number: asset.serialNumber.trim(),
+  location: asset.location?.trim() || null,
+  status: asset.status,
+  ownership: asset.ownership,
+  install_date: asset.installDate || null,
+  warranty_end_date: asset.warrantyEndDate || null,
+  notes: asset.notes?.trim() || null
+});
+
+export const mapAssetTransferRow = (row: DBAssetTransfer): AssetTransfer => ({
+  id: row.id,
+  assetId: row.asset_id,
+  fromHospitalId: row.from_hospital_id || undefined,
+  toHospitalId: row.to_hospital_id || undefined,
+  fromLocation: row.from_location || undefined,
+  toLocation: row.to_location || undefined,
+  transferDate: row.transfer_date,
+  reason: row.reason || '',
+  transferredBy: row.transferred_by || undefined,
+  transferredByName: row.transferred_by_name || '未知使用者',
+  createdAt: row.created_at
+});
+
+// ============== 維修單 ==============
+
+const TICKET_STATUSES: ServiceTicketStatus[] = ['open', 'in_progress', 'awaiting_parts', 'resolved', 'closed'];
+const TICKET_PRIORITIES: ServiceTicketPriority[] = ['urgent', 'high', 'normal', 'low'];
+const FAULT_CATEGORIES: FaultCategory[] = ['hardware', 'software', 'accessory', 'operation', 'other'];
+
+export const mapServiceTicketRow = (row: DBServiceTicket): ServiceTicket => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  equipmentId: row.equipment_id,
+  productCode: row.product_code,
+  assetId: row.asset_id || undefined,
+  reportedByContactId: row.reported_by_contact_id || undefined,
+  faultCategory: FAULT_CATEGORIES.includes(row.fault_category as FaultCategory) ? row.fault_category as FaultCategory : 'other',
+  priority: TICKET_PRIORITIES.includes(row.priority as ServiceTicketPriority) ? row.priority as ServiceTicketPriority : 'normal',
+  status: TICKET_STATUSES.includes(row.status as ServiceTicketStatus) ? row.status as ServiceTicketStatus : 'open',
+  description: row.description,
+  reportedAt: row.reported_at,
+  resolvedAt: row.resolved_at || undefined,
+  resolution: row.resolution || undefined,
+  loanerAssetId: row.loaner_asset_id || undefined,
+  loanerSerialNumber: row.loaner_serial_number || undefined,
+  loanerAssignedDate: row.loaner_assigned_date || undefined,
+  loanerReturnedDate: row.loaner_returned_date || undefined,
+  createdBy: row.created_by || undefined,
+  createdByName: row.created_by_name || '未知使用者',
+  createdAt: row.created_at
+});
+
+// 狀態與修復時間由 updateServiceTicket 依狀態流程處理，替代機由 assignTicketLoaner/returnTicketLoaner 處理，
+// 這裡只產生可編輯的欄位
+export const toServiceTicketRow = (ticket: Pick<ServiceTicket,
+  'equipmentId' | 'productCode' | 'assetId' | 'reportedByContactId' | 'faultCategory' | 'priority' |
+  'description' | 'resolution'
+>) => ({
+  equipment_id: ticket.equipmentId,
+  product_code: ticket.productCode,
+  asset_id: ticket.assetId || null,
+  reported_by_contact_id: ticket.reportedByContactId || null,
+  fault_category: ticket.faultCategory,
+  priority: ticket.priority,
+  description: ticket.description.trim(),
+  resolution: ticket.resolution?.trim() || null
+});
+
+// ============== 定期保養 ==============
+
+export const mapMaintenanceVisitRow = (row: DBMaintenanceVisit): MaintenanceVisit => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  contractId: row.contract_id,
+  productCode: row.product_code,
+  scheduledDate: row.scheduled_date,
+  technician: row.technician || undefined,
+  completedDate: row.completed_date || undefined,
+  findings: row.findings || undefined,
+  signedOffBy: row.signed_off_by || undefined,
+  signedOffAt: row.signed_off_at || undefined,
+  createdAt: row.created_at
+});
+
+// ============== 產品目錄 ==============
+
+export const mapProductRow = (row: DBProduct): Product => ({
+  code: row.code,
+  name: row.name,
+  type: row.type as ProductType,
+  description: row.description || '',
+  isActive: row.is_active ?? true,
+  sortOrder: row.sort_order ?? undefined,
+  listPrice: row.list_price ?? undefined
+});
+
+export const toProductRow = (product: Product) => ({
+  code: product.code,
+  name: product.name,
+  type: product.type,
+  description: product.description || null,
+  is_active: product.isActive,
+  sort_order: product.sortOrder ?? null,
+  list_price: product.listPrice ?? null
+});
+
+// ============== 稽核記錄 ==============
+
+// 資料列的顯示名稱（稽核記錄與回收筒使用），資料刪除後仍看得出是哪一筆
+export const describeRow = (table: AuditEntityType, row: Record<string, any>): string => {
+  switch (table) {
+    case 'hospitals':
+    case 'contacts':
+      return row.name || '';
+    case 'notes':
+      return `${row.activity_type || ''}：${(row.content || '').slice(0, 30)}`;
+    case 'usage_records':
+    case 'installed_equipment':
+      return `${row.product_code} × ${row.quantity}`;
+    case 'contracts':
+      return row.product_code || '';
+    case 'products':
+      return `${row.code} ${row.name || ''}`.trim();
+    case 'attachments':
+      return row.file_name || '';
+    case 'quotes':
+      return row.quote_number || '';
+    case 'maintenance_visits':
+      return `${row.product_code} 保養 ${row.scheduled_date}`;
+    case 'equipment_assets':
+      return `${row.product_code} #${row.serial_number}`;
+    case 'service_tickets':
+      return `${row.product_code} 維修：${(row.description || '').slice(0, 30)}`;
+  }
+};
+
+export const mapAuditEventRow = (row: DBAuditEvent): AuditEvent => ({
+  id: row.id,
+  entityType: row.entity_type as AuditEntityType,
+  entityId: row.entity_id,
+  entityLabel: row.entity_label || '',
+  hospitalId: row.hospital_id || undefined,
+  action: row.action as AuditAction,
+  changes: row.changes || {},
+  actorId: row.actor_id || undefined,
+  actorName: row.actor_name || '未知使用者',
+  createdAt: row.created_at
+});
+
+// ============== AI 用量 ==============
+
+export const mapAIUsageLogRow = (row: DBAIUsageLog): AIUsageLog => ({
+  id: row.id,
+  userId: row.user_id || undefined,
+  feature: row.feature as AIUsageLog['feature'],
+  model: row.model,
+  promptTokens: row.prompt_tokens || 0,
+  outputTokens: row.output_tokens || 0,
+  totalTokens: row.total_tokens || 0,
+  status: row.status === 'error' || row.status === 'cancelled' || row.status === 'reserved' ? row.status : 'success',
+  createdAt: row.created_at
+});
+
+// ============== 議定價歷史 ==============
+
+export const mapConsumablePriceChangeRow = (row: DBConsumablePriceChange): ConsumablePriceChange => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  productCode: row.product_code,
+  price: Number(row.price) || 0,
+  previousPrice: row.previous_price ?? undefined,
+  effectiveDate: row.effective_date,
+  reason: row.reason || '',
+  changedBy: row.changed_by || undefined,
+  changedByName: row.changed_by_name || '未知使用者',
+  createdAt: row.created_at
+});
+
+// ============== 報價單 ==============
+
+const QUOTE_STATUSES: QuoteStatus[] = ['draft', 'sent', 'accepted', 'rejected'];
+const QUOTE_PRICE_SOURCES: QuotePriceSource[] = ['negotiated', 'list', 'manual'];
+
+export const mapQuoteRow = (row: DBQuote): Quote => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  quoteNumber: row.quote_number,
+  items: (row.items || []).map(item => ({
+    productCode: item.productCode,
+    productName: item.productName || item.productCode,
+    quantity: Number(item.quantity) || 0,
+    unitPrice: Number(item.unitPrice) || 0,
+    priceSource: QUOTE_PRICE_SOURCES.includes(item.priceSource as QuotePriceSource)
+      ? item.priceSource as QuotePriceSource
+      : 'manual'
+  })),
+  taxRate: Number(row.tax_rate) || 0,
+  subtotal: Number(row.subtotal) || 0,
+  tax: Number(row.tax) || 0,
+  total: Number(row.total) || 0,
+  validUntil: row.valid_until,
+  notes: row.notes || undefined,
+  status: QUOTE_STATUSES.includes(row.status as QuoteStatus) ? row.status as QuoteStatus : 'draft',
+  createdBy: row.created_by || undefined,
+  createdByName: row.created_by_name || '未知使用者',
+  createdAt: row.created_at,
+  convertedAt: row.converted_at || undefined
+});
+
+export const toQuoteRow = (quote: Omit<Quote, 'id' | 'createdBy' | 'createdByName' | 'createdAt'>) => ({
+  hospital_id: quote.hospitalId,
+  quote_number: quote.quoteNumber,
+  items: quote.items,
+  tax_rate: quote.taxRate,
+  subtotal: quote.subtotal,
+  tax: quote.tax,
+  total: quote.total,
+  valid_until: quote.validUntil,
+  notes: quote.notes || null,
+  status: quote.status,
+  converted_at: quote.convertedAt || null
+});
+
+// ============== 附件 ==============
+
+const ATTACHMENT_VISIBILITIES: AttachmentVisibility[] = ['team', 'managers', 'private'];
+
+export const mapAttachmentRow = (row: DBAttachment): Attachment => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  entityType: row.entity_type as AttachmentEntityType,
+  entityId: row.entity_id,
+  fileName: row.file_name,
+  mimeType: row.mime_type || 'application/octet-stream',
+  size: row.size || 0,
+  storagePath: row.storage_path,
+  visibility: ATTACHMENT_VISIBILITIES.includes(row.visibility as AttachmentVisibility)
+    ? row.visibility as AttachmentVisibility
+    : 'team',
+  uploadedBy: row.uploaded_by || undefined,
+  uploaderName: row.uploader_name || '未知使用者',
+  createdAt: row.created_at
+});
+
+// ============== 回收筒 ==============
+
+export const mapTrashRow = (table: TrashEntityType, row: Record<string, any>): TrashItem => ({
+  entityType: table,
+  id: row.id,
+  hospitalId: table === 'hospitals' ? row.id : row.hospital_id,
+  label: describeRow(table, row),
+  deletedAt: row.deleted_at,
+  deletedBy: row.deleted_by || undefined
+});
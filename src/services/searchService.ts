@@ -0,0 +1,170 @@
+import { supabase, DBContact, DBNote, DBUsageRecord } from '../lib/supabase';
+import { Hospital, Contact, Note, UsageRecord, Product } from '../types';
+import { mapContactRow, mapNoteRow, mapUsageRecordRow } from './rowMappers';
+import { toDataError } from './dataErrors';
+
+// 全站搜尋：醫院在前端比對（已全部載入），聯絡人、活動記錄與訂單在伺服器端以 ilike 查詢
+
+export const SEARCH_GROUP_LIMIT = 8;
+const MAX_TOKENS = 6;
+
+export interface SearchResults {
+  hospitals: Hospital[];
+  contacts: Contact[];
+  notes: Note[];
+  orders: UsageRecord[];
+}
+
+// ============== 斷詞 ==============
+
+const HAN_RUN = /\p{Script=Han}+|[^\p{Script=Han}]+/gu;
+const SEPARATORS = /[\s\p{P}\p{S}]+/u;
+// 超過這個長度的連續中文才嘗試斷詞，短的直接當作一個關鍵字
+const HAN_SEGMENT_MIN_LENGTH = 5;
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter('zh-Hant', { granularity: 'word' })
+  : null;
+
+// 中文沒有空白分詞：短詞以子字串比對即可找到，長句（例如「台大醫院追蹤報價」）
+// 才用瀏覽器內建的斷詞器拆開，並略過單字的虛詞，避免「的」「了」之類的字讓結果變多
+const splitHanRun = (run: string): string[] => {
+  if (!segmenter || run.length < HAN_SEGMENT_MIN_LENGTH) return [run];
+  const words = Array.from(segmenter.segment(run))
+    .filter(s => s.isWordLike && s.segment.length > 1)
+    .map(s => s.segment);
+  return words.length > 0 ? words : [run];
+};
+
+// 全形轉半形、英文轉小寫，以空白與標點切開，中文與英數的交界也切開（「AA耗材」→「aa」「耗材」）。
+// 數字間的 - 與空白視為電話號碼的分隔，不切開
+export const tokenizeSearchQuery = (query: string): string[] => {
+  const tokens = query
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/(\d)[-\s]+(?=\d)/g, '$1')
+    .split(SEPARATORS)
+    .flatMap(part => part.match(HAN_RUN) || [])
+    .flatMap(part => /\p{Script=Han}/u.test(part) ? splitHanRun(part) : [part])
+    .filter(Boolean);
+
+  return Array.from(new Set(tokens)).slice(0, MAX_TOKENS);
+};
+
+export const matchesToken = (text: string | undefined, token: string): boolean =>
+  !!text && text.normalize('NFKC').toLowerCase().includes(token);
+
+// ============== 查詢條件 ==============
+
+// PostgREST or() 的值以雙引號包住，% 與 _ 需跳脫才會被當成字面
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+const ilikePattern = (token: string) => quote(`%${token.replace(/[%_\\]/g, '\\$&')}%`);
+
+// 電話常以 - 或空白分隔，數字關鍵字允許中間夾雜非數字
+const phonePattern = (token: string) => quote(token.split('').join('[^0-9]*'));
+
+const inList = (column: string, values: string[]) =>
+  values.length > 0 ? [`${column}.in.(${values.map(quote).join(',')})`] : [];
+
+// 每個關鍵字產生一組 or 條件，多組 or 之間為 AND：所有關鍵字都要出現在某個欄位
+interface TokenScope {
+  hospitalIds: string[];  // 名稱符合此關鍵字的醫院，讓「台大 報價」可以找到台大的記錄
+  productCodes: string[]; // 名稱符合此關鍵字的產品
+}
+
+// 只輸入醫院名稱時不套用醫院範圍，否則會列出該醫院的所有資料
+const buildScopes = (tokens: string[], hospitals: Hospital[], products: Product[]): TokenScope[] =>
+  tokens.map(token => ({
+    hospitalIds: tokens.length > 1
+      ? hospitals.filter(h => matchesToken(h.name, token)).map(h => h.id).slice(0, 50)
+      : [],
+    productCodes: products.filter(p => matchesToken(p.name, token)).map(p => p.code)
+  }));
+
+const contactConditions = (token: string, scope: TokenScope) => [
+  `name.ilike.${ilikePattern(token)}`,
+  `role.ilike.${ilikePattern(token)}`,
+  `email.ilike.${ilikePattern(token)}`,
+  `phone.ilike.${ilikePattern(token)}`,
+  ...(/^\d{3,}$/.test(token) ? [`phone.imatch.${phonePattern(token)}`] : []),
+  ...inList('hospital_id', scope.hospitalIds)
+].join(',');
+
+const noteConditions = (token: string, scope: TokenScope) => [
+  `content.ilike.${ilikePattern(token)}`,
+  `next_step.ilike.${ilikePattern(token)}`,
+  // 關鍵字已轉為小寫，與小寫的標籤產生欄位比對（supabase/migrations/20261019050000_note_tags_case_insensitive.sql）
+  `tags_lower.cs.{${quote(token)}}`,
+  ...inList('hospital_id', scope.hospitalIds)
+].join(',');
+
+const orderConditions = (token: string, scope: TokenScope) => [
+  `product_code.ilike.${ilikePattern(token)}`,
+  ...inList('product_code', scope.productCodes),
+  ...inList('hospital_id', scope.hospitalIds)
+].join(',');
+
+// ============== 查詢 ==============
+
+const searchHospitals = (tokens: string[], hospitals: Hospital[]): Hospital[] => {
+  const scored = hospitals
+    .map(hospital => {
+      let score = 0;
+      for (const token of tokens) {
+        if (matchesToken(hospital.name, token)) score += hospital.name.toLowerCase().startsWith(token) ? 3 : 2;
+        else if (matchesToken(hospital.address, token) || matchesToken(hospital.region, token)) score += 1;
+        else return null; // 每個關鍵字都要符合
+      }
+      return { hospital, score };
+    })
+    .filter((item): item is { hospital: Hospital; score: number } => item !== null);
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.hospital.name.localeCompare(b.hospital.name, 'zh-TW'))
+    .slice(0, SEARCH_GROUP_LIMIT)
+    .map(item => item.hospital);
+};
+
+export const searchAll = async (
+  query: string,
+  hospitals: Hospital[],
+  products: Product[]
+): Promise<SearchResults> => {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) {
+    return { hospitals: [], contacts: [], notes: [], orders: [] };
+  }
+
+  const scopes = buildScopes(tokens, hospitals, products);
+  // 搜尋結果只顯示仍存在的醫院底下的資料
+  const hospitalIds = new Set(hospitals.map(h => h.id));
+
+  let contactQuery = supabase.from('contacts').select('*').is('deleted_at', null);
+  let noteQuery = supabase.from('notes').select('*').is('deleted_at', null);
+  let orderQuery = supabase.from('usage_records').select('*').is('deleted_at', null);
+
+  tokens.forEach((token, i) => {
+    contactQuery = contactQuery.or(contactConditions(token, scopes[i]));
+    noteQuery = noteQuery.or(noteConditions(token, scopes[i]));
+    orderQuery = orderQuery.or(orderConditions(token, scopes[i]));
+  });
+
+  const [contactsRes, notesRes, ordersRes] = await Promise.all([
+    contactQuery.order('name').limit(SEARCH_GROUP_LIMIT),
+    noteQuery.order('created_at', { ascending: false }).limit(SEARCH_GROUP_LIMIT),
+    orderQuery.order('date', { ascending: false }).limit(SEARCH_GROUP_LIMIT)
+  ]);
+
+  const error = contactsRes.error || notesRes.error || ordersRes.error;
+  if (error) {
+    console.error('Error searching:', error);
+    throw toDataError(error);
+  }
+
+  return {
+    hospitals: searchHospitals(tokens, hospitals),
+    contacts: ((contactsRes.data || []) as DBContact[]).map(mapContactRow).filter(c => hospitalIds.has(c.hospitalId)),
+    notes: ((notesRes.data || []) as DBNote[]).map(mapNoteRow).filter(n => hospitalIds.has(n.hospitalId)),
+    orders: ((ordersRes.data || []) as DBUsageRecord[]).map(mapUsageRecordRow).filter(u => hospitalIds.has(u.hospitalId))
+  };
+};
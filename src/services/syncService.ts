@@ -0,0 +1,145 @@
+import { supabase } from '../lib/supabase';
+import { OutboxMutation, listMutations, removeMutation, listPendingRecordings, removePendingRecording } from '../lib/offlineStore';
+import { bumpHospitalLastVisit, softDeleteHospitalChildren, uploadNoteRecording, scheduleContractMaintenance, Tombstone } from './databaseService';
+import { mapContractRow } from './rowMappers';
+import { isNetworkError, toDataError } from './dataErrors';
+import { markLocalWrite } from './realtimeService';
+import { recordAuditEvent } from './auditService';
+
+export interface SyncResult {
+  applied: number;
+  conflicts: number; // 伺服器資料較新而捨棄的離線修改
+  failed: number;    // 伺服器拒絕（例如權限或資料已不存在）而捨棄的修改
+}
+
+// 套用單筆離線寫入；伺服器版本較新時回傳 conflict
+const applyMutation = async (mutation: OutboxMutation): Promise<'applied' | 'conflict'> => {
+  const { table, op, recordId, payload, queuedAt } = mutation;
+  markLocalWrite(recordId);
+
+  if (op === 'delete') {
+    // 軟刪除；較早版本排入的刪除沒有 payload，以排入時間作為刪除時間
+    const tombstone: Tombstone = payload as Tombstone || { deleted_at: queuedAt, deleted_by: null };
+    const { data, error } = await supabase
+      .from(table)
+      .update({ ...tombstone, updated_at: queuedAt })
+      .eq('id', recordId)
+      .is('deleted_at', null)
+      .select();
+    if (error) throw error;
+    if (data && data.length > 0) {
+      if (table === 'hospitals') {
+        await softDeleteHospitalChildren(recordId, tombstone);
+      }
+      await recordAuditEvent({ table, action: 'delete', entityId: recordId, before: data[0], occurredAt: queuedAt });
+    }
+    return 'applied';
+  }
+
+  let saved: any = null;
+  if (op === 'insert') {
+    // 使用 upsert，避免上次同步中斷後重送造成重複資料
+    const { data, error } = await supabase
+      .from(table)
+      .upsert({ ...payload, id: recordId, updated_at: queuedAt }, { onConflict: 'id' })
+      .select();
+    if (error) throw error;
+    saved = data?.[0];
+    await recordAuditEvent({ table, action: 'create', entityId: recordId, after: saved, occurredAt: queuedAt });
+  } else {
+    // 最後寫入者勝：伺服器上的資料若在離線編輯之後又被修改，保留伺服器版本
+    const { data: current, error: fetchError } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', recordId)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+
+    if (!current) return 'conflict';
+    if (current.updated_at && new Date(current.updated_at) > new Date(queuedAt)) {
+      return 'conflict';
+    }
+
+    const { data, error } = await supabase
+      .from(table)
+      .update({ ...payload, updated_at: queuedAt })
+      .eq('id', recordId)
+      .select();
+    if (error) throw error;
+    saved = data?.[0];
+    await recordAuditEvent({ table, action: 'update', entityId: recordId, before: current, after: saved, occurredAt: queuedAt });
+  }
+
+  // 拜訪記錄需同步更新醫院的上次拜訪日
+  if (table === 'notes' && payload?.hospital_id && payload?.created_at) {
+    await bumpHospitalLastVisit(payload.hospital_id, payload.created_at);
+  }
+
+  // 離線新增或修改的合約在寫入伺服器後才產生保養排程
+  if (table === 'contracts' && saved) {
+    await scheduleContractMaintenance(mapContractRow(saved));
+  }
+
+  return 'applied';
+};
+
+// 進行中的同步；自動同步與登出前的同步同時觸發時共用同一次，避免重複送出
+let flushInFlight: Promise<SyncResult> | null = null;
+
+// 依序重送 outbox 中的寫入，再上傳已儲存到活動記錄的錄音；遇到連線錯誤或登入逾時即停止，保留剩餘項目待下次同步
+export const flushOutbox = (): Promise<SyncResult> => {
+  if (!flushInFlight) {
+    flushInFlight = runFlush().finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+};
+
+const runFlush = async (): Promise<SyncResult> => {
+  const result: SyncResult = { applied: 0, conflicts: 0, failed: 0 };
+  const mutations = await listMutations();
+
+  for (const mutation of mutations) {
+    try {
+      const outcome = await applyMutation(mutation);
+      if (outcome === 'applied') {
+        result.applied++;
+      } else {
+        console.warn(`Skipped offline ${mutation.op} on ${mutation.table}/${mutation.recordId}: server version is newer`);
+        result.conflicts++;
+      }
+      await removeMutation(mutation.id);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        console.warn('Network unavailable, sync paused');
+        return result;
+      }
+      if (toDataError(error).kind === 'auth_expired') {
+        console.warn('Session expired, sync paused until next sign-in');
+        return result;
+      }
+      console.error(`Error syncing offline ${mutation.op} on ${mutation.table}:`, error);
+      result.failed++;
+      await removeMutation(mutation.id);
+    }
+  }
+
+  // 錄音在對應的活動記錄送出後才上傳；上傳失敗的錄音留在本機，下次同步再試，不會被捨棄
+  const recordings = (await listPendingRecordings()).filter(recording => recording.noteId);
+  for (const recording of recordings) {
+    const uploaded = await uploadNoteRecording(recording);
+    if (uploaded.ok === false) {
+      if (uploaded.error.kind === 'network' || uploaded.error.kind === 'auth_expired') {
+        console.warn('Recording upload paused:', uploaded.error.message);
+        break;
+      }
+      console.error('Error uploading note recording, will retry on next sync:', uploaded.error);
+      continue;
+    }
+    await removePendingRecording(recording.id);
+    result.applied++;
+  }
+
+  return result;
+};
@@ -0,0 +1,82 @@
+import { FaultCategory, ServiceTicket, ServiceTicketPriority, ServiceTicketStatus } from '../types';
+
+// ============== 維修單狀態與 SLA ==============
+// SLA 以報修時間起算，修復（resolved）即停止計時；等待零件期間照常計時
+
+export const SERVICE_TICKET_STATUS_CONFIG: Record<ServiceTicketStatus, { label: string; className: string }> = {
+  open: { label: '待處理', className: 'bg-red-100 text-red-700' },
+  in_progress: { label: '處理中', className: 'bg-blue-100 text-blue-700' },
+  awaiting_parts: { label: '等待零件', className: 'bg-amber-100 text-amber-700' },
+  resolved: { label: '已修復', className: 'bg-emerald-100 text-emerald-700' },
+  closed: { label: '已結案', className: 'bg-slate-100 text-slate-500' }
+};
+
+export const SERVICE_TICKET_PRIORITY_CONFIG: Record<ServiceTicketPriority, { label: string; className: string; slaHours: number }> = {
+  urgent: { label: '緊急', className: 'bg-red-600 text-white', slaHours: 24 },
+  high: { label: '高', className: 'bg-orange-100 text-orange-700', slaHours: 48 },
+  normal: { label: '一般', className: 'bg-slate-100 text-slate-600', slaHours: 72 },
+  low: { label: '低', className: 'bg-slate-50 text-slate-400', slaHours: 168 }
+};
+
+export const FAULT_CATEGORY_LABELS: Record<FaultCategory, string> = {
+  hardware: '硬體故障',
+  software: '軟體異常',
+  accessory: '配件損壞',
+  operation: '操作問題',
+  other: '其他'
+};
+
+// 每個狀態可以前往的下一步；已修復可重新開啟，已結案不再變動
+export const SERVICE_TICKET_TRANSITIONS: Record<ServiceTicketStatus, ServiceTicketStatus[]> = {
+  open: ['in_progress', 'resolved'],
+  in_progress: ['awaiting_parts', 'resolved'],
+  awaiting_parts: ['in_progress', 'resolved'],
+  resolved: ['closed', 'in_progress'],
+  closed: []
+};
+
+export const OPEN_TICKET_STATUSES: ServiceTicketStatus[] = ['open', 'in_progress', 'awaiting_parts'];
+
+// SLA 剩餘不到此比例時提醒
+const SLA_AT_RISK_RATIO = 0.25;
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+export const SLA_STATE_CONFIG: Record<SlaState, { label: string; className: string }> = {
+  on_track: { label: '時限內', className: 'text-slate-500' },
+  at_risk: { label: '即將逾時', className: 'text-amber-600' },
+  breached: { label: '已逾時', className: 'text-red-600' },
+  met: { label: '如期修復', className: 'text-emerald-600' }
+};
+
+export const isTicketOpen = (ticket: ServiceTicket) => OPEN_TICKET_STATUSES.includes(ticket.status);
+
+// 未比對到設備的舊替代機只有序號，仍視為借出中
+export const isLoanerOut = (ticket: ServiceTicket) =>
+  !!(ticket.loanerAssetId || ticket.loanerSerialNumber) && !ticket.loanerReturnedDate;
+
+export const getSlaDeadline = (ticket: ServiceTicket) =>
+  new Date(new Date(ticket.reportedAt).getTime() + SERVICE_TICKET_PRIORITY_CONFIG[ticket.priority].slaHours * HOUR_MS);
+
+// hoursRemaining 為負值表示已超過時限；已修復的單以修復時間計算
+export const getSlaStatus = (ticket: ServiceTicket, now: Date = new Date()): { state: SlaState; hoursRemaining: number } => {
+  const deadline = getSlaDeadline(ticket);
+  const endedAt = ticket.resolvedAt ? new Date(ticket.resolvedAt) : null;
+  const hoursRemaining = ((deadline.getTime() - (endedAt || now).getTime()) / HOUR_MS);
+
+  if (endedAt) return { state: hoursRemaining >= 0 ? 'met' : 'breached', hoursRemaining };
+  if (hoursRemaining < 0) return { state: 'breached', hoursRemaining };
+  const slaHours = SERVICE_TICKET_PRIORITY_CONFIG[ticket.priority].slaHours;
+  return { state: hoursRemaining <= slaHours * SLA_AT_RISK_RATIO ? 'at_risk' : 'on_track', hoursRemaining };
+};
+
+// 例如「剩 5 小時」、「逾時 1 天 3 小時」
+export const formatSlaRemaining = (hoursRemaining: number) => {
+  const totalHours = Math.floor(Math.abs(hoursRemaining));
+  const days = Math.floor(totalHours / 24);
+  const hours = totalHours % 24;
+  const duration = days > 0 ? `${days} 天${hours > 0 ? ` ${hours} 小時` : ''}` : `${hours} 小時`;
+  return hoursRemaining >= 0 ? `剩 ${duration}` : `逾時 ${duration}`;
+};
@@ -8,6 +8,9 @@ export interface Product {
   name: string;
   type: ProductType;
   description: string;
+  isActive: boolean; // 停售產品保留供歷史資料查詢，但不出現在選單中
+  sortOrder?: number;
+  listPrice?: number; // 未稅定價，醫院沒有議定價時報價使用
 }
 
 export type UsageType = '訂單' | '樣品';
@@ -19,6 +22,9 @@ export interface UsageRecord {
   quantity: number;
   date: string; // ISO Date
   type: UsageType;
+  unitPrice?: number; // 訂單日期當時的議定價，營收以此計算，之後調價不影響
+  recordedBy?: string;
+  recordedByName?: string; // 建立記錄的業務，營收依此歸屬
 }
 
 export enum SalesStage {
@@ -62,6 +68,16 @@ export interface Note {
   nextStepDate?: string;
   relatedContactIds?: string[];
   attendees?: string; // Free text for non-contact participants
+  audioRecordings?: NoteAudioRecording[]; // 口述錄音原檔
+}
+
+// 存放在 Storage note-audio bucket 的錄音
+export interface NoteAudioRecording {
+  path: string;
+  mimeType: string;
+  size: number;            // bytes
+  durationSeconds: number;
+  recordedAt: string;
 }
 
 export type OwnershipType = '借用' | '買斷' | '租賃';
@@ -75,6 +91,40 @@ export interface InstalledEquipment {
   ownership: OwnershipType;
 }
 
+// 單台設備的狀態：in_service 使用中、in_repair 送修中、returned 已退回
+export type AssetStatus = 'in_service' | 'in_repair' | 'returned';
+
+// 以序號追蹤的單台設備；InstalledEquipment 的數量為同型號的彙總
+export interface EquipmentAsset {
+  id: string;
+  hospitalId: string;
+  productCode: string;
+  serialNumber: string;
+  location?: string;         // 病房或科別
+  status: AssetStatus;
+  ownership: OwnershipType;
+  loanConvertedAt?: string;  // 由借用轉為買斷/租賃的日期（YYYY-MM-DD），由 updateEquipmentAsset 寫入
+  installDate?: string;      // 借用設備即借用開始日
+  warrantyEndDate?: string;  // YYYY-MM-DD
+  notes?: string;
+  createdAt: string;
+}
+
+// 設備移轉記錄（只新增、不修改），院內換病房也會記錄
+export interface AssetTransfer {
+  id: string;
+  assetId: string;
+  fromHospitalId?: string;   // 新登錄或原醫院已永久刪除時為空
+  toHospitalId?: string;     // 目的醫院已永久刪除時為空
+  fromLocation?: string;
+  toLocation?: string;
+  transferDate: string;      // YYYY-MM-DD
+  reason: string;
+  transferredBy?: string;
+  transferredByName: string;
+  createdAt: string;
+}
+
 export enum Region {
   NORTH = '北區',
   CENTRAL = '中區',
@@ -119,6 +169,20 @@ export interface ConsumablePrice {
   price: number;  // 售價
 }
 
+// 議定價異動記錄：每次調整 Hospital.consumables 的售價都新增一筆，不修改舊記錄
+export interface ConsumablePriceChange {
+  id: string;
+  hospitalId: string;
+  productCode: string;
+  price: number;
+  previousPrice?: number; // 首次議價時為空
+  effectiveDate: string;  // YYYY-MM-DD
+  reason: string;
+  changedBy?: string;
+  changedByName: string;
+  createdAt: string;
+}
+
 export interface Hospital {
   id: string;
   name: string;
@@ -132,6 +196,9 @@ export interface Hospital {
   notes?: string; // 備註欄位
   chargePerUse?: number; // 每次收費價格
   consumables?: ConsumablePrice[]; // 使用耗材及其價格
+  contractCount?: number; // 合約數（fetchHospitals 一併查詢）
+  lastNoteDate?: string; // 最近一筆活動記錄的日期
+  openTicketCount?: number; // 未結案的維修單數（fetchHospitals 一併查詢）
 }
 
 export interface AIResponse {
@@ -139,12 +206,65 @@ export interface AIResponse {
   suggestedAction?: 'EMAIL' | 'MEETING' | 'ORDER';
 }
 
+// AI 客戶洞察
+export type InsightTrend = 'up' | 'flat' | 'down';
+export type InsightRiskLevel = 'high' | 'medium' | 'low';
+
+export interface ProductUsageTrend {
+  productCode: string;
+  trend: InsightTrend;
+  summary: string;
+}
+
+export interface InsightRiskFlag {
+  level: InsightRiskLevel;
+  title: string;
+  detail: string;
+}
+
+export interface InsightAction {
+  title: string;
+  detail: string;
+  dueDate: string; // YYYY-MM-DD
+  activityType: ActivityType;
+}
+
+export interface HospitalInsight {
+  healthScore: number; // 0-100，關係健康度
+  healthSummary: string;
+  productTrends: ProductUsageTrend[];
+  riskFlags: InsightRiskFlag[];
+  recommendedActions: InsightAction[];
+  generatedAt: string;
+}
+
+// AI 從活動記錄內文擷取的欄位建議，業務確認後才寫入表單
+export interface NoteOrderMention {
+  productCode: string;
+  quantity: number;
+  type: UsageType;
+  excerpt: string; // 內文中提到數量的原句
+}
+
+export interface NoteExtraction {
+  activityType?: ActivityType;
+  sentiment?: Sentiment;
+  tags: string[];
+  nextStep?: string;
+  nextStepDate?: string;
+  relatedContactIds: string[];
+  orderMentions: NoteOrderMention[];
+}
+
 // 合約類型
 export type ContractType = 'consumable' | 'equipment';
 
 // 保養頻率
 export type MaintenanceFrequency = 'yearly' | 'biannual' | 'quarterly' | 'monthly';
 
+// 續約階段：尚未開始、洽談中、已續約、未續約
+export type ContractRenewalStage = 'not_started' | 'negotiating' | 'renewed' | 'lost';
+
 // 合約資訊
 export interface Contract {
   id: string;
@@ -155,4 +275,172 @@ export interface Contract {
   durationYears: number;
   warrantyYears?: number;
   maintenanceFrequency?: MaintenanceFrequency;
+  renewalStage?: ContractRenewalStage;  // 未設定視為尚未開始
+}
+
+// 定期保養：依設備合約的保養頻率排定，完成後記錄技術人員、檢查結果與院方簽收
+export interface MaintenanceVisit {
+  id: string;
+  hospitalId: string;
+  contractId: string;
+  productCode: string;
+  scheduledDate: string;   // YYYY-MM-DD
+  technician?: string;
+  completedDate?: string;  // 有值表示已完成
+  findings?: string;
+  signedOffBy?: string;    // 院方簽收人
+  signedOffAt?: string;
+  createdAt: string;
+}
+
+// 維修單狀態：open 待處理 → in_progress 處理中 ⇄ awaiting_parts 等待零件 → resolved 已修復 → closed 已結案
+export type ServiceTicketStatus = 'open' | 'in_progress' | 'awaiting_parts' | 'resolved' | 'closed';
+
+// 優先等級決定 SLA 修復時限
+export type ServiceTicketPriority = 'urgent' | 'high' | 'normal' | 'low';
+
+export type FaultCategory = 'hardware' | 'software' | 'accessory' | 'operation' | 'other';
+
+// 設備維修單：對應一筆已安裝設備，有登錄序號時可指定故障的單台設備
+export interface ServiceTicket {
+  id: string;
+  hospitalId: string;
+  equipmentId: string;           // InstalledEquipment
+  productCode: string;
+  assetId?: string;              // EquipmentAsset
+  reportedByContactId?: string;  // 院方報修人
+  faultCategory: FaultCategory;
+  priority: ServiceTicketPriority;
+  status: ServiceTicketStatus;
+  description: string;
+  reportedAt: string;            // SLA 由報修時間起算
+  resolvedAt?: string;
+  resolution?: string;
+  loanerAssetId?: string;        // 維修期間借給醫院的替代機（EquipmentAsset），以 assignTicketLoaner 借出
+  loanerSerialNumber?: string;   // 借出當時的序號，設備刪除後仍可顯示
+  loanerAssignedDate?: string;   // YYYY-MM-DD
+  loanerReturnedDate?: string;
+  createdBy?: string;
+  createdByName: string;
+  createdAt: string;
+}
+
+// 稽核記錄涵蓋的資料表
+export type AuditEntityType =
+  | 'hospitals'
+  | 'contacts'
+  | 'notes'
+  | 'usage_records'
+  | 'installed_equipment'
+  | 'contracts'
+  | 'products'
+  | 'attachments'
+  | 'quotes'
+  | 'maintenance_visits'
+  | 'equipment_assets'
+  | 'service_tickets';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// 單一欄位的修改前後值（資料庫欄位名稱）
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// 稽核記錄（只新增、不修改）
+export interface AuditEvent {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;      // 寫入當下的顯示名稱，資料刪除後仍可辨識
+  hospitalId?: string;
+  action: AuditAction;
+  changes: Record<string, AuditFieldChange>;
+  actorId?: string;
+  actorName: string;
+  createdAt: string;
+}
+
+// 經由 ai-proxy 的每一次 AI 呼叫
+export interface AIUsageLog {
+  id: string;
+  userId?: string;
+  feature: 'insight' | 'email' | 'refine' | 'extract' | 'transcribe';
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  status: 'success' | 'error' | 'cancelled' | 'reserved'; // cancelled：串流途中被使用者停止；reserved：呼叫進行中或中斷而未結算的預留額度
+  createdAt: string;
+}
+
+// 報價單狀態：draft 草稿、sent 已送出、accepted 客戶接受、rejected 未成交
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'rejected';
+
+// 單價來源：negotiated 醫院議定價、list 產品定價、manual 手動輸入
+export type QuotePriceSource = 'negotiated' | 'list' | 'manual';
+
+export interface QuoteItem {
+  productCode: string;
+  productName: string;  // 建立當下的產品名稱，產品改名後報價單內容不變
+  quantity: number;
+  unitPrice: number;    // 未稅單價
+  priceSource: QuotePriceSource;
+}
+
+export interface Quote {
+  id: string;
+  hospitalId: string;
+  quoteNumber: string;
+  items: QuoteItem[];
+  taxRate: number;      // 例如 0.05
+  subtotal: number;
+  tax: number;
+  total: number;
+  validUntil: string;   // YYYY-MM-DD
+  notes?: string;
+  status: QuoteStatus;
+  createdBy?: string;
+  createdByName: string;
+  createdAt: string;
+  convertedAt?: string; // 已轉為訂單的時間，避免重複轉換
+}
+
+// 附件可連結的對象
+export type AttachmentEntityType = 'hospitals' | 'notes' | 'contracts';
+
+// 個別檔案的檢視權限：team 所有人、managers 主管與管理員（含上傳者）、private 僅上傳者
+export type AttachmentVisibility = 'team' | 'managers' | 'private';
+
+// 存放在 Storage attachments bucket 的檔案
+export interface Attachment {
+  id: string;
+  hospitalId: string;
+  entityType: AttachmentEntityType;
+  entityId: string;        // 連結醫院本身時與 hospitalId 相同
+  fileName: string;
+  mimeType: string;
+  size: number;            // bytes
+  storagePath: string;
+  visibility: AttachmentVisibility;
+  uploadedBy?: string;
+  uploaderName: string;
+  createdAt: string;
+}
+
+// 可軟刪除並在回收筒中還原的資料表
+export type TrashEntityType = 'hospitals' | 'notes' | 'usage_records' | 'installed_equipment' | 'contracts' | 'quotes';
+
+// 醫院詳情頁的分頁，對應網址的 ?tab=
+export type HospitalDetailTab = 'overview' | 'orders' | 'contacts' | 'notes' | 'files' | 'history';
+
+// 回收筒項目
+export interface TrashItem {
+  entityType: TrashEntityType;
+  id: string;
+  hospitalId: string;
+  label: string;
+  deletedAt: string;
+  deletedBy?: string;
 }
@@ -0,0 +1,347 @@
+// AI 代理：瀏覽器不再持有 Gemini 金鑰，所有呼叫經由此 Edge Function。
+// 驗證呼叫者的 Supabase JWT、依 role_type 檢查每日 token 額度，並將用量寫入 ai_usage_logs。
+// 呼叫前先以 countTokens 估算輸入、預留輸入加輸出上限的額度，輸出上限不超過剩餘額度，結束後再以實際用量結算。
+// 請求帶 stream: true 時以 Server-Sent Events 逐段回傳，供郵件草稿與客戶洞察即時顯示。
+//
+// 部署：supabase functions deploy ai-proxy
+// 金鑰：supabase secrets set GEMINI_API_KEY=...
+// 額度（選填）：AI_DAILY_TOKEN_QUOTA_SALES / _MANAGER / _ADMIN
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type RoleType = 'sales' | 'manager' | 'admin';
+
+const DEFAULT_DAILY_TOKEN_QUOTAS: Record<RoleType, number> = {
+  sales: 100_000,
+  manager: 300_000,
+  admin: 1_000_000
+};
+
+const ALLOWED_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const FEATURES = ['insight', 'email', 'refine', 'extract', 'transcribe'];
+const MAX_PROMPT_LENGTH = 100_000;
+// 語音轉錄以 inline data 傳送，約 10MB 的錄音（base64 後約 13.4MB 字元）
+const MAX_AUDIO_BASE64_LENGTH = 14_000_000;
+const AUDIO_MIME_PATTERN = /^audio\/[a-z0-9.+-]+$/;
+
+// 單次呼叫的輸出上限（Gemini 2.5 的思考 token 也計入），實際上限再依剩餘額度縮小
+const MAX_OUTPUT_TOKENS = 16_384;
+// 剩餘額度扣掉輸入後不足此數時直接拒絕，避免回應被截斷到無法使用
+const MIN_OUTPUT_TOKENS = 1_024;
+// countTokens 失敗時的保守估計：文字以一字一 token 計（中文約如此，英文會高估），
+// 錄音依 Gemini 每秒 32 tokens、以 8 kbps 的最低位元率推算秒數
+const AUDIO_TOKENS_PER_SECOND = 32;
+const MIN_AUDIO_BYTES_PER_SECOND = 1_000;
+
+// 額度以台灣時間的日期計算
+const TIMEZONE_OFFSET_HOURS = 8;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const getQuota = (role: RoleType): number => {
+  const override = Number(Deno.env.get(`AI_DAILY_TOKEN_QUOTA_${role.toUpperCase()}`));
+  return override > 0 ? override : DEFAULT_DAILY_TOKEN_QUOTAS[role];
+};
+
+const startOfToday = (): string => {
+  const offsetMs = TIMEZONE_OFFSET_HOURS * 60 * 60 * 1000;
+  const local = new Date(Date.now() + offsetMs);
+  local.setUTCHours(0, 0, 0, 0);
+  return new Date(local.getTime() - offsetMs).toISOString();
+};
+
+// ============== Gemini ==============
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// reserved：呼叫進行中的預留額度，結束後改為實際狀態；函式中斷時保留預留量，寧可多扣不超用
+type UsageStatus = 'reserved' | 'success' | 'error' | 'cancelled';
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface Quota {
+  used: number;
+  limit: number;
+  role: RoleType;
+}
+
+const countTokens = (usage: GeminiUsage = {}) => {
+  const prompt = usage.promptTokenCount || 0;
+  const output = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+  return { prompt, output, total: usage.totalTokenCount || prompt + output };
+};
+
+// 以 countTokens 取得輸入 token 數，失敗時改用保守估計
+const countPromptTokens = async (model: string, apiKey: string, contents: unknown[], prompt: string, audioBase64?: string) => {
+  try {
+    const response = await fetch(`${GEMINI_API_BASE}/${model}:countTokens`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({ contents })
+    });
+    const result = await response.json();
+    if (response.ok && result?.totalTokens > 0) return result.totalTokens as number;
+    console.warn('Gemini countTokens failed, using estimate:', response.status, result);
+  } catch (error) {
+    console.warn('Gemini countTokens failed, using estimate:', error);
+  }
+  const audioBytes = audioBase64 ? audioBase64.length * 3 / 4 : 0;
+  return prompt.length + Math.ceil(audioBytes / MIN_AUDIO_BYTES_PER_SECOND * AUDIO_TOKENS_PER_SECOND);
+};
+
+const extractText = (result: any): string =>
+  (result?.candidates?.[0]?.content?.parts || [])
+    .map((part: { text?: string }) => part.text || '')
+    .join('');
+
+// 串流：轉送 Gemini 的 SSE，每段只回傳 { text }，結束時回傳 { done, quota }。
+// 用量以最後一段的 usageMetadata 為準；瀏覽器中途取消時記為 cancelled
+const streamGemini = async (
+  model: string,
+  apiKey: string,
+  requestBody: string,
+  quota: Quota,
+  logUsage: (usage: GeminiUsage | undefined, status: UsageStatus, hasOutput?: boolean) => Promise<number>
+): Promise<Response> => {
+  const upstream = await fetch(`${GEMINI_API_BASE}/${model}:streamGenerateContent?alt=sse`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+    body: requestBody
+  });
+
+  if (!upstream.ok || !upstream.body) {
+    const result = await upstream.json().catch(() => null);
+    await logUsage(result?.usageMetadata, 'error');
+    console.error('Gemini API error:', upstream.status, result);
+    return json({ error: 'AI 服務暫時無法使用，請稍後再試' }, 502);
+  }
+
+  const reader = upstream.body.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  let usage: GeminiUsage | undefined;
+  let streamed = false;
+  let logged = false;
+
+  // 串流中途出錯時可能已產生部分輸出
+  const finish = async (status: UsageStatus) => {
+    if (logged) return 0;
+    logged = true;
+    return logUsage(usage, status, status !== 'error' || streamed);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const send = (payload: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          const totalTokens = await finish('success');
+          send({ done: true, quota: { ...quota, used: quota.used + totalTokens } });
+          controller.close();
+          return;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+        for (const event of events) {
+          const data = event.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5)).join('');
+          if (!data.trim()) continue;
+          const chunk = JSON.parse(data);
+          if (chunk.usageMetadata) usage = chunk.usageMetadata;
+          const text = extractText(chunk);
+          if (text) {
+            streamed = true;
+            send({ text });
+          }
+        }
+      } catch (error) {
+        console.error('Gemini stream error:', error);
+        await finish('error');
+        send({ error: 'AI 回應中斷，請重新產生' });
+        controller.close();
+      }
+    },
+    async cancel() {
+      await reader.cancel().catch(() => {});
+      await finish('cancelled');
+    }
+  });
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // 驗證 JWT
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const { data: { user }, error: authError } = await admin.auth.getUser(token);
+  if (authError || !user) return json({ error: '登入已逾時，請重新登入' }, 401);
+
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('role_type')
+    .eq('id', user.id)
+    .maybeSingle();
+  const role: RoleType = (['sales', 'manager', 'admin'] as RoleType[]).includes(profile?.role_type)
+    ? profile!.role_type
+    : 'sales';
+
+  // 今日已用量，包含其他進行中呼叫的預留額度
+  const fetchUsedToday = async (): Promise<number | null> => {
+    const { data: usageRows, error: usageError } = await admin
+      .from('ai_usage_logs')
+      .select('total_tokens')
+      .eq('user_id', user.id)
+      .gte('created_at', startOfToday());
+    if (usageError) return null;
+    return (usageRows || []).reduce((sum: number, row: { total_tokens: number }) => sum + (row.total_tokens || 0), 0);
+  };
+
+  const used = await fetchUsedToday();
+  if (used === null) return json({ error: '無法讀取 AI 用量' }, 500);
+  const limit = getQuota(role);
+  const quota: Quota = { used, limit, role };
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: '請求格式不正確' }, 400);
+  }
+
+  if (body?.action === 'quota') return json({ quota });
+
+  const feature = FEATURES.includes(body?.feature) ? body.feature : null;
+  const prompt = typeof body?.prompt === 'string' ? body.prompt : '';
+  const model = ALLOWED_MODELS.includes(body?.model) ? body.model : DEFAULT_MODEL;
+  if (!feature || !prompt || prompt.length > MAX_PROMPT_LENGTH) {
+    return json({ error: '請求格式不正確' }, 400);
+  }
+
+  const audio = body.audio;
+  if (audio && (
+    typeof audio.data !== 'string' || !audio.data ||
+    typeof audio.mimeType !== 'string' || !AUDIO_MIME_PATTERN.test(audio.mimeType)
+  )) {
+    return json({ error: '錄音格式不正確' }, 400);
+  }
+  if (audio && audio.data.length > MAX_AUDIO_BASE64_LENGTH) {
+    return json({ error: '錄音檔案過大，請分段錄音' }, 400);
+  }
+
+  if (used >= limit) {
+    return json({ error: `今日 AI 用量已達上限（${used.toLocaleString()} / ${limit.toLocaleString()} tokens），明天會重新計算`, quota }, 429);
+  }
+
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) return json({ error: 'AI 服務尚未設定金鑰' }, 500);
+
+  const contents = [{
+    role: 'user',
+    parts: [
+      { text: prompt },
+      ...(audio ? [{ inlineData: { mimeType: audio.mimeType, data: audio.data } }] : [])
+    ]
+  }];
+
+  // 輸出上限為剩餘額度扣掉輸入，單次呼叫最多用完今日剩餘額度
+  const promptTokens = await countPromptTokens(model, apiKey, contents, prompt, audio?.data);
+  const maxOutputTokens = Math.min(MAX_OUTPUT_TOKENS, limit - used - promptTokens);
+  if (maxOutputTokens < MIN_OUTPUT_TOKENS) {
+    return json({ error: `今日剩餘 AI 額度不足以處理這次請求（約需 ${(promptTokens + MIN_OUTPUT_TOKENS).toLocaleString()} tokens，剩餘 ${(limit - used).toLocaleString()}），請縮短內容或明天再試`, quota }, 429);
+  }
+
+  // 先寫入預留記錄再重新加總，同時進行的呼叫也會互相計入，不會一起超過上限
+  const { data: reservation, error: reserveError } = await admin
+    .from('ai_usage_logs')
+    .insert({
+      user_id: user.id,
+      feature,
+      model,
+      prompt_tokens: promptTokens,
+      output_tokens: maxOutputTokens,
+      total_tokens: promptTokens + maxOutputTokens,
+      status: 'reserved'
+    })
+    .select('id')
+    .single();
+  if (reserveError || !reservation) return json({ error: '無法讀取 AI 用量' }, 500);
+
+  const usedWithReservation = await fetchUsedToday();
+  if (usedWithReservation === null || usedWithReservation > limit) {
+    await admin.from('ai_usage_logs').delete().eq('id', reservation.id);
+    return json({ error: '其他 AI 請求正在使用今日剩餘額度，請稍後再試', quota }, 429);
+  }
+
+  const generationConfig = {
+    maxOutputTokens,
+    ...(body.responseJsonSchema ? { responseMimeType: 'application/json', responseJsonSchema: body.responseJsonSchema } : {})
+  };
+  const requestBody = JSON.stringify({ contents, generationConfig });
+
+  // 以實際用量結算預留記錄。Gemini 沒有回傳用量時：請求失敗、尚未產生輸出只計輸入；
+  // 其餘（完成、取消或串流中途出錯）無法得知已產生多少輸出，保留整筆預留量
+  const logUsage = async (usage: GeminiUsage | undefined, status: UsageStatus, hasOutput = status !== 'error') => {
+    const tokens = usage
+      ? countTokens(usage)
+      : hasOutput
+        ? { prompt: promptTokens, output: maxOutputTokens, total: promptTokens + maxOutputTokens }
+        : { prompt: promptTokens, output: 0, total: promptTokens };
+    await admin
+      .from('ai_usage_logs')
+      .update({
+        prompt_tokens: tokens.prompt,
+        output_tokens: tokens.output,
+        total_tokens: tokens.total,
+        status
+      })
+      .eq('id', reservation.id);
+    return tokens.total;
+  };
+
+  if (body.stream) {
+    return streamGemini(model, apiKey, requestBody, quota, logUsage);
+  }
+
+  const geminiResponse = await fetch(`${GEMINI_API_BASE}/${model}:generateContent`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+    body: requestBody
+  });
+
+  const result = await geminiResponse.json().catch(() => null);
+  const totalTokens = await logUsage(result?.usageMetadata, geminiResponse.ok ? 'success' : 'error');
+
+  if (!geminiResponse.ok) {
+    console.error('Gemini API error:', geminiResponse.status, result);
+    return json({ error: 'AI 服務暫時無法使用，請稍後再試' }, 502);
+  }
+
+  return json({ text: extractText(result), quota: { ...quota, used: quota.used + totalTokens } });
+});
@@ -0,0 +1,97 @@
+// 回收筒永久刪除：以 service role 執行，附件與錄音不受呼叫者的 RLS 可見範圍限制，全部一併刪除。
+// 只允許主管與管理員，且項目須已刪除滿保留天數。附件資料列與項目在 purge_trash_item RPC 內以同一個交易刪除
+// （supabase/migrations/20261019090000_purge_trash_item.sql），交易提交後才移除 Storage 檔案，
+// 刪除失敗時檔案仍在；檔案移除失敗只記錄，最多留下無人引用的檔案。
+//
+// 部署：supabase functions deploy purge-trash
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// 對應前端的 RECYCLE_RETENTION_DAYS
+const RECYCLE_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TRASH_TABLES = ['hospitals', 'notes', 'usage_records', 'installed_equipment', 'contracts', 'quotes'];
+
+const ATTACHMENT_BUCKET = 'attachments';
+const NOTE_AUDIO_BUCKET = 'note-audio';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+interface PurgeResult {
+  row: Record<string, unknown>;
+  attachment_paths: string[];
+  audio_paths: string[];
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // 驗證 JWT 與角色
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const { data: { user }, error: authError } = await admin.auth.getUser(token);
+  if (authError || !user) return json({ error: '登入已逾時，請重新登入' }, 401);
+
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('role_type')
+    .eq('id', user.id)
+    .maybeSingle();
+  if (!['manager', 'admin'].includes(profile?.role_type)) {
+    return json({ error: '只有主管與管理員可以永久刪除' }, 403);
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: '請求格式不正確' }, 400);
+  }
+  const { entityType, id } = body || {};
+  if (!TRASH_TABLES.includes(entityType) || typeof id !== 'string') {
+    return json({ error: '請求格式不正確' }, 400);
+  }
+
+  const { data: row, error: fetchError } = await admin
+    .from(entityType)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (fetchError) return json({ error: '無法讀取資料' }, 500);
+  if (!row || !row.deleted_at) return json({ error: '資料已不存在或尚未刪除' }, 409);
+  if (Date.now() - new Date(row.deleted_at).getTime() < RECYCLE_RETENTION_DAYS * DAY_MS) {
+    return json({ error: `刪除後需保留 ${RECYCLE_RETENTION_DAYS} 天才能永久刪除` }, 400);
+  }
+
+  // 附件與錄音不論其可見範圍全部刪除；RPC 回傳交易內收集到的檔案路徑
+  const { data: purged, error: purgeError } = await admin.rpc('purge_trash_item', {
+    p_entity_type: entityType,
+    p_id: id
+  });
+  if (purgeError) return json({ error: '永久刪除失敗，請確認資料庫的外鍵刪除規則' }, 500);
+  if (!purged) return json({ error: '資料已不存在或尚未刪除' }, 409);
+  const result = purged as PurgeResult;
+
+  const removeFiles = async (bucket: string, paths: string[]) => {
+    if (paths.length === 0) return;
+    const { error } = await admin.storage.from(bucket).remove(paths);
+    if (error) console.error(`Error removing files from ${bucket}:`, error);
+  };
+  await removeFiles(ATTACHMENT_BUCKET, result.attachment_paths);
+  await removeFiles(NOTE_AUDIO_BUCKET, result.audio_paths);
+
+  return json({ before: result.row });
+});
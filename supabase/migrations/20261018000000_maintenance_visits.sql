@@ -0,0 +1,69 @@
+-- 定期保養：排程由設備合約產生（databaseService 的 syncMaintenanceSchedule 與補齊排程的 migration），
+-- 兩者都以 (contract_id, scheduled_date) 的唯一索引略過已存在的保養，索引需先於補齊排程建立。
+-- 須在 20261019000000_hospital_scoped_delete_rules.sql 之前執行，該檔會修改此資料表的外鍵
+
+create table if not exists maintenance_visits (
+  id uuid primary key default gen_random_uuid(),
+  hospital_id uuid not null references hospitals (id) on delete cascade,
+  contract_id uuid not null references contracts (id) on delete cascade,
+  product_code text not null,
+  scheduled_date date not null,
+  technician text,
+  completed_date date,
+  findings text,
+  signed_off_by text,
+  signed_off_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  deleted_by uuid
+);
+
+-- 既有資料表可能已有重複的排程（同一合約同一天）：保留已完成或最早建立的一筆，其餘未完成的刪除
+delete from maintenance_visits
+ where id in (
+   select id
+     from (
+       select id,
+              completed_date,
+              row_number() over (
+                partition by contract_id, scheduled_date
+                order by completed_date is null, created_at
+              ) as rank
+         from maintenance_visits
+     ) ranked
+    where rank > 1
+      and completed_date is null
+ );
+
+create unique index if not exists maintenance_visits_contract_date_idx
+  on maintenance_visits (contract_id, scheduled_date);
+
+create index if not exists maintenance_visits_hospital_date_idx
+  on maintenance_visits (hospital_id, scheduled_date);
+
+-- ============== RLS ==============
+-- 排程隨合約調整時會刪除已不在排程內、尚未完成的保養；已完成的保養紀錄不可刪除
+
+alter table maintenance_visits enable row level security;
+
+drop policy if exists "maintenance_visits_select" on maintenance_visits;
+create policy "maintenance_visits_select" on maintenance_visits
+  for select to authenticated
+  using (true);
+
+drop policy if exists "maintenance_visits_insert" on maintenance_visits;
+create policy "maintenance_visits_insert" on maintenance_visits
+  for insert to authenticated
+  with check (true);
+
+drop policy if exists "maintenance_visits_update" on maintenance_visits;
+create policy "maintenance_visits_update" on maintenance_visits
+  for update to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "maintenance_visits_delete" on maintenance_visits;
+create policy "maintenance_visits_delete" on maintenance_visits
+  for delete to authenticated
+  using (completed_date is null);
@@ -0,0 +1,129 @@
+-- 附件：資料列與 Storage 檔案的可見範圍都由 RLS 判斷，前端只是依結果顯示。
+--   team      所有已登入使用者
+--   managers  上傳者與主管/管理員
+--   private   僅上傳者
+-- 修改可見範圍與刪除開放給上傳者與主管/管理員；永久刪除醫院、活動記錄或合約時由 purge-trash 以 service role 刪除。
+-- 須在 20261019000000_hospital_scoped_delete_rules.sql 之前執行，該檔會修改此資料表的外鍵
+
+-- ============== 角色 ==============
+
+-- security definer：policy 內查詢 profiles 時不受 profiles 本身的 RLS 影響
+create or replace function current_role_type()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role_type from profiles where id = auth.uid()
+$$;
+
+grant execute on function current_role_type() to authenticated;
+
+-- ============== 資料表 ==============
+
+create table if not exists attachments (
+  id uuid primary key default gen_random_uuid(),
+  hospital_id uuid not null references hospitals (id) on delete cascade,
+  entity_type text not null check (entity_type in ('hospitals', 'notes', 'contracts')),
+  entity_id uuid not null,
+  file_name text not null,
+  mime_type text not null,
+  size bigint not null check (size > 0),
+  storage_path text not null unique,
+  visibility text not null default 'team' check (visibility in ('team', 'managers', 'private')),
+  uploaded_by uuid references auth.users (id) on delete set null,
+  uploader_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attachments_hospital_created_idx on attachments (hospital_id, created_at desc);
+create index if not exists attachments_entity_idx on attachments (entity_type, entity_id);
+
+-- 資料列與 Storage 的 select policy 共用同一組規則
+create or replace function can_view_attachment(p_visibility text, p_uploaded_by uuid)
+returns boolean
+language sql
+stable
+as $$
+  select case p_visibility
+    when 'team' then true
+    when 'managers' then p_uploaded_by = auth.uid() or current_role_type() in ('manager', 'admin')
+    else p_uploaded_by = auth.uid()
+  end
+$$;
+
+create or replace function can_manage_attachment(p_uploaded_by uuid)
+returns boolean
+language sql
+stable
+as $$
+  select p_uploaded_by = auth.uid() or current_role_type() in ('manager', 'admin')
+$$;
+
+-- ============== 資料表 RLS ==============
+
+alter table attachments enable row level security;
+
+drop policy if exists "attachments_select" on attachments;
+create policy "attachments_select" on attachments
+  for select to authenticated
+  using (can_view_attachment(visibility, uploaded_by));
+
+drop policy if exists "attachments_insert" on attachments;
+create policy "attachments_insert" on attachments
+  for insert to authenticated
+  with check (uploaded_by = auth.uid());
+
+-- 只能修改可見範圍；上傳者與檔案路徑不可改
+drop policy if exists "attachments_update" on attachments;
+create policy "attachments_update" on attachments
+  for update to authenticated
+  using (can_manage_attachment(uploaded_by))
+  with check (can_manage_attachment(uploaded_by));
+
+drop policy if exists "attachments_delete" on attachments;
+create policy "attachments_delete" on attachments
+  for delete to authenticated
+  using (can_manage_attachment(uploaded_by));
+
+revoke update on attachments from authenticated;
+grant update (visibility) on attachments to authenticated;
+
+-- ============== Storage ==============
+-- 路徑為 {hospital_id}/{attachment_id}/{檔名}，單檔上限 20MB（對應 MAX_ATTACHMENT_SIZE）
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('attachments', 'attachments', false, 20 * 1024 * 1024)
+on conflict (id) do update set public = false, file_size_limit = excluded.file_size_limit;
+
+-- 簽署網址與下載依對應附件資料列的可見範圍判斷；沒有資料列的檔案（上傳中或孤兒檔案）只有上傳者看得到
+drop policy if exists "attachments_objects_select" on storage.objects;
+create policy "attachments_objects_select" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (
+      exists (
+        select 1 from attachments a
+         where a.storage_path = storage.objects.name
+           and can_view_attachment(a.visibility, a.uploaded_by)
+      )
+      or (owner = auth.uid() and not exists (select 1 from attachments a where a.storage_path = storage.objects.name))
+    )
+  );
+
+-- 檔案先上傳、再新增資料列，上傳時還沒有資料列可以比對
+drop policy if exists "attachments_objects_insert" on storage.objects;
+create policy "attachments_objects_insert" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'attachments' and owner = auth.uid());
+
+-- deleteAttachment 先刪資料列再刪檔案，此時已無資料列可比對：上傳者可刪自己的檔案，主管/管理員可刪任何附件檔案
+drop policy if exists "attachments_objects_delete" on storage.objects;
+create policy "attachments_objects_delete" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (owner = auth.uid() or current_role_type() in ('manager', 'admin'))
+  );
@@ -0,0 +1,59 @@
+-- 醫院關聯資料的刪除規則
+-- 軟刪除醫院時，前端會把下列資料表中屬於該醫院、尚未刪除的資料標記為相同的 deleted_at，還原時一起還原；
+-- 回收筒永久刪除醫院時只刪除 hospitals 這一列，其餘資料由外鍵 on delete cascade 一併刪除
+
+-- ============== 隨醫院一併軟刪除 ==============
+
+alter table contacts add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid;
+alter table quotes add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid;
+alter table maintenance_visits add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid;
+alter table equipment_assets add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid;
+alter table service_tickets add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid;
+
+-- ============== 永久刪除醫院時一併刪除 ==============
+
+alter table notes drop constraint if exists notes_hospital_id_fkey,
+  add constraint notes_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table usage_records drop constraint if exists usage_records_hospital_id_fkey,
+  add constraint usage_records_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table installed_equipment drop constraint if exists installed_equipment_hospital_id_fkey,
+  add constraint installed_equipment_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table contracts drop constraint if exists contracts_hospital_id_fkey,
+  add constraint contracts_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table contacts drop constraint if exists contacts_hospital_id_fkey,
+  add constraint contacts_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table quotes drop constraint if exists quotes_hospital_id_fkey,
+  add constraint quotes_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table consumable_price_history drop constraint if exists consumable_price_history_hospital_id_fkey,
+  add constraint consumable_price_history_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table maintenance_visits drop constraint if exists maintenance_visits_hospital_id_fkey,
+  add constraint maintenance_visits_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table equipment_assets drop constraint if exists equipment_assets_hospital_id_fkey,
+  add constraint equipment_assets_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table service_tickets drop constraint if exists service_tickets_hospital_id_fkey,
+  add constraint service_tickets_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+alter table attachments drop constraint if exists attachments_hospital_id_fkey,
+  add constraint attachments_hospital_id_fkey foreign key (hospital_id) references hospitals (id) on delete cascade;
+
+-- ============== 關聯資料之間 ==============
+
+-- 保養排程由合約產生，合約永久刪除時一併刪除
+alter table maintenance_visits drop constraint if exists maintenance_visits_contract_id_fkey,
+  add constraint maintenance_visits_contract_id_fkey foreign key (contract_id) references contracts (id) on delete cascade;
+
+-- 維修單屬於已安裝設備；序號與報修人刪除後保留維修單
+alter table service_tickets drop constraint if exists service_tickets_equipment_id_fkey,
+  add constraint service_tickets_equipment_id_fkey foreign key (equipment_id) references installed_equipment (id) on delete cascade;
+alter table service_tickets drop constraint if exists service_tickets_asset_id_fkey,
+  add constraint service_tickets_asset_id_fkey foreign key (asset_id) references equipment_assets (id) on delete set null;
+alter table service_tickets drop constraint if exists service_tickets_reported_by_contact_id_fkey,
+  add constraint service_tickets_reported_by_contact_id_fkey foreign key (reported_by_contact_id) references contacts (id) on delete set null;
+
+-- 移轉記錄隨設備刪除；設備已移到其他醫院時，刪除來源或經過的醫院只清空該欄位，保留設備的移轉歷史
+alter table equipment_asset_transfers alter column to_hospital_id drop not null;
+alter table equipment_asset_transfers drop constraint if exists equipment_asset_transfers_asset_id_fkey,
+  add constraint equipment_asset_transfers_asset_id_fkey foreign key (asset_id) references equipment_assets (id) on delete cascade;
+alter table equipment_asset_transfers drop constraint if exists equipment_asset_transfers_from_hospital_id_fkey,
+  add constraint equipment_asset_transfers_from_hospital_id_fkey foreign key (from_hospital_id) references hospitals (id) on delete set null;
+alter table equipment_asset_transfers drop constraint if exists equipment_asset_transfers_to_hospital_id_fkey,
+  add constraint equipment_asset_transfers_to_hospital_id_fkey foreign key (to_hospital_id) references hospitals (id) on delete set null;
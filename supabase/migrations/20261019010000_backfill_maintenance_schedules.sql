@@ -0,0 +1,24 @@
+-- 補齊既有設備合約的保養排程
+-- 新增或修改合約時由前端產生排程（見 databaseService 的 scheduleContractMaintenance）；
+-- 在此之前建立、之後沒有再修改的合約需執行一次，行事曆才會顯示這些合約的保養。
+-- 規則與 maintenanceService.getMaintenanceSchedule 相同：開始日起每隔保養間隔排一次（月底依月份天數調整），
+-- 含到期日，最多回補 90 天前（MAINTENANCE_BACKFILL_DAYS）；(contract_id, scheduled_date) 已存在的略過
+
+insert into maintenance_visits (id, hospital_id, contract_id, product_code, scheduled_date)
+select gen_random_uuid(), c.hospital_id, c.id, c.product_code, schedule.scheduled_date
+from contracts c
+cross join lateral (
+  select (c.start_date::date + make_interval(months => n * case c.maintenance_frequency
+    when 'yearly' then 12
+    when 'biannual' then 6
+    when 'quarterly' then 3
+    when 'monthly' then 1
+  end))::date as scheduled_date
+  from generate_series(1, ceil(12 * c.duration_years)::int) as n
+) schedule
+where c.contract_type = 'equipment'
+  and c.maintenance_frequency in ('yearly', 'biannual', 'quarterly', 'monthly')
+  and c.deleted_at is null
+  and schedule.scheduled_date <= (c.start_date::date + make_interval(years => c.duration_years::int))::date
+  and schedule.scheduled_date >= current_date - 90
+on conflict (contract_id, scheduled_date) do nothing;
@@ -0,0 +1,49 @@
+-- 設備序號移轉：更新設備所在醫院/位置與新增移轉記錄在同一個交易內完成，
+-- 不會出現設備已移走卻沒有移轉記錄（或反過來）的情況。
+-- security invoker：沿用呼叫者在 equipment_assets 與 equipment_asset_transfers 的 RLS。
+-- 設備的醫院或位置已被其他人改動時不更新任何資料、回傳空結果，前端視為衝突
+
+create or replace function transfer_equipment_asset(
+  p_asset_id uuid,
+  p_from_hospital_id uuid,
+  p_from_location text,
+  p_to_hospital_id uuid,
+  p_to_location text,
+  p_transfer_date date,
+  p_reason text,
+  p_transferred_by_name text
+)
+returns setof equipment_assets
+language plpgsql
+security invoker
+as $$
+declare
+  moved equipment_assets;
+begin
+  update equipment_assets
+     set hospital_id = p_to_hospital_id,
+         location = p_to_location,
+         updated_at = now()
+   where id = p_asset_id
+     and hospital_id = p_from_hospital_id
+     and location is not distinct from p_from_location
+     and deleted_at is null
+  returning * into moved;
+
+  if not found then
+    return;
+  end if;
+
+  insert into equipment_asset_transfers (
+    id, asset_id, from_hospital_id, to_hospital_id, from_location, to_location,
+    transfer_date, reason, transferred_by, transferred_by_name
+  ) values (
+    gen_random_uuid(), p_asset_id, p_from_hospital_id, p_to_hospital_id, p_from_location, p_to_location,
+    p_transfer_date, p_reason, auth.uid(), p_transferred_by_name
+  );
+
+  return next moved;
+end;
+$$;
+
+grant execute on function transfer_equipment_asset(uuid, uuid, text, uuid, text, date, text, text) to authenticated;
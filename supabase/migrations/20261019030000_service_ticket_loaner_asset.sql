@@ -0,0 +1,160 @@
+-- 維修替代機改為指定設備序號：借出時設備移到維修單的醫院並改為使用中，歸還時改回已退回，
+-- 兩者都新增移轉記錄，與維修單的更新在同一個交易內完成。
+-- 同一台設備同時只能借給一張維修單（部分唯一索引），只能從已退回的同產品設備中挑選。
+-- security invoker：沿用呼叫者在 service_tickets、equipment_assets 與 equipment_asset_transfers 的 RLS。
+-- 條件不符（設備已被借出、維修單已有借出中的替代機等）時不更新任何資料、回傳空結果，前端視為衝突
+
+alter table service_tickets
+  add column if not exists loaner_asset_id uuid references equipment_assets(id) on delete set null;
+
+create unique index if not exists service_tickets_active_loaner_idx
+  on service_tickets (loaner_asset_id)
+  where loaner_returned_date is null and deleted_at is null;
+
+-- 既有的替代機序號以產品與序號比對回設備；loaner_serial_number 保留為借出當時的序號。
+-- 同一台設備有多張借出中的維修單時只連結最近借出的一張，避免違反唯一索引
+with matched as (
+  select t.id as ticket_id,
+         a.id as asset_id,
+         t.loaner_returned_date is null and t.deleted_at is null as is_active,
+         row_number() over (
+           partition by a.id, (t.loaner_returned_date is null and t.deleted_at is null)
+           order by t.loaner_assigned_date desc nulls last, t.created_at desc
+         ) as rank
+    from service_tickets t
+    join equipment_assets a
+      on a.product_code = t.product_code
+     and a.serial_number = t.loaner_serial_number
+   where t.loaner_asset_id is null
+)
+update service_tickets t
+   set loaner_asset_id = matched.asset_id
+  from matched
+ where t.id = matched.ticket_id
+   and (not matched.is_active or matched.rank = 1);
+
+create or replace function assign_ticket_loaner(
+  p_ticket_id uuid,
+  p_asset_id uuid,
+  p_assigned_date date,
+  p_location text,
+  p_transferred_by_name text
+)
+returns setof service_tickets
+language plpgsql
+security invoker
+as $$
+declare
+  ticket service_tickets;
+  loaner equipment_assets;
+begin
+  select * into ticket
+    from service_tickets
+   where id = p_ticket_id
+     and deleted_at is null
+     and status not in ('resolved', 'closed')
+     and ((loaner_asset_id is null and loaner_serial_number is null) or loaner_returned_date is not null)
+   for update;
+
+  if not found then
+    return;
+  end if;
+
+  select * into loaner
+    from equipment_assets
+   where id = p_asset_id
+     and product_code = ticket.product_code
+     and status = 'returned'
+     and deleted_at is null
+   for update;
+
+  if not found then
+    return;
+  end if;
+
+  update equipment_assets
+     set hospital_id = ticket.hospital_id,
+         location = p_location,
+         status = 'in_service',
+         updated_at = now()
+   where id = p_asset_id;
+
+  insert into equipment_asset_transfers (
+    id, asset_id, from_hospital_id, to_hospital_id, from_location, to_location,
+    transfer_date, reason, transferred_by, transferred_by_name
+  ) values (
+    gen_random_uuid(), p_asset_id, loaner.hospital_id, ticket.hospital_id, loaner.location, p_location,
+    p_assigned_date, '維修替代機借出', auth.uid(), p_transferred_by_name
+  );
+
+  return query
+  update service_tickets
+     set loaner_asset_id = p_asset_id,
+         loaner_serial_number = loaner.serial_number,
+         loaner_assigned_date = p_assigned_date,
+         loaner_returned_date = null,
+         updated_at = now()
+   where id = p_ticket_id
+  returning *;
+end;
+$$;
+
+create or replace function return_ticket_loaner(
+  p_ticket_id uuid,
+  p_returned_date date,
+  p_transferred_by_name text
+)
+returns setof service_tickets
+language plpgsql
+security invoker
+as $$
+declare
+  ticket service_tickets;
+  loaner equipment_assets;
+begin
+  select * into ticket
+    from service_tickets
+   where id = p_ticket_id
+     and deleted_at is null
+     and (loaner_asset_id is not null or loaner_serial_number is not null)
+     and loaner_returned_date is null
+     and (loaner_assigned_date is null or loaner_assigned_date <= p_returned_date)
+   for update;
+
+  if not found then
+    return;
+  end if;
+
+  select * into loaner
+    from equipment_assets
+   where id = ticket.loaner_asset_id
+   for update;
+
+  -- 未比對到設備的舊資料或設備已被刪除時只記錄歸還日
+  if found and loaner.deleted_at is null then
+    update equipment_assets
+       set location = null,
+           status = 'returned',
+           updated_at = now()
+     where id = loaner.id;
+
+    insert into equipment_asset_transfers (
+      id, asset_id, from_hospital_id, to_hospital_id, from_location, to_location,
+      transfer_date, reason, transferred_by, transferred_by_name
+    ) values (
+      gen_random_uuid(), loaner.id, loaner.hospital_id, loaner.hospital_id, loaner.location, null,
+      p_returned_date, '維修替代機歸還', auth.uid(), p_transferred_by_name
+    );
+  end if;
+
+  return query
+  update service_tickets
+     set loaner_returned_date = p_returned_date,
+         updated_at = now()
+   where id = p_ticket_id
+  returning *;
+end;
+$$;
+
+grant execute on function assign_ticket_loaner(uuid, uuid, date, text, text) to authenticated;
+grant execute on function return_ticket_loaner(uuid, date, text) to authenticated;
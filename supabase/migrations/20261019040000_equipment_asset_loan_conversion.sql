@@ -0,0 +1,23 @@
+-- 借用設備計畫改以設備序號逐台統計：借用轉為買斷/租賃的日期記在每台設備上，
+-- 由 updateEquipmentAsset 在所有權由借用改為其他時寫入、改回借用時清除。
+-- installed_equipment.loan_converted_at 是舊版以彙總列記錄的轉換日，不再寫入，保留供查詢歷史
+
+alter table equipment_assets
+  add column if not exists loan_converted_at date;
+
+-- 舊的轉換日帶到同醫院、同型號、所有權與轉換後相同的設備；
+-- 同型號有多筆彙總列轉換時取最早的日期
+update equipment_assets a
+   set loan_converted_at = converted.loan_converted_at
+  from (
+    select hospital_id, product_code, ownership, min(loan_converted_at) as loan_converted_at
+      from installed_equipment
+     where loan_converted_at is not null
+       and deleted_at is null
+     group by hospital_id, product_code, ownership
+  ) converted
+ where a.loan_converted_at is null
+   and a.deleted_at is null
+   and a.hospital_id = converted.hospital_id
+   and a.product_code = converted.product_code
+   and a.ownership = converted.ownership;
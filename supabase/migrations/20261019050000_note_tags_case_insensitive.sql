@@ -0,0 +1,16 @@
+-- 全站搜尋的標籤比對不分大小寫：關鍵字在前端已轉為小寫，
+-- 以小寫的標籤產生欄位 tags_lower 比對，產品代碼（AA001）或大小寫混合的標籤才找得到
+
+-- 產生欄位只能使用 immutable 函式；lower 與 unnest 都是 immutable
+create or replace function lower_text_array(value text[])
+returns text[]
+language sql
+immutable
+as $$
+  select array(select lower(item) from unnest(value) as item)
+$$;
+
+alter table notes
+  add column if not exists tags_lower text[] generated always as (lower_text_array(tags)) stored;
+
+create index if not exists notes_tags_lower_idx on notes using gin (tags_lower);
@@ -0,0 +1,31 @@
+-- AI 用量：每次呼叫先由 ai-proxy 寫入預留記錄（reserved），結束後改為實際用量與狀態。
+-- 只有 Edge Function 以 service role 寫入（service role 不受 RLS 限制）；
+-- 使用者只能讀取自己的記錄，管理員可讀取全部（設定頁的 AI 用量報表）
+
+create table if not exists ai_usage_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete set null,
+  feature text not null check (feature in ('insight', 'email', 'refine', 'extract', 'transcribe')),
+  model text not null,
+  prompt_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  status text not null default 'reserved' check (status in ('reserved', 'success', 'error', 'cancelled')),
+  created_at timestamptz not null default now()
+);
+
+-- 今日額度以 user_id 加總當天記錄；報表依日期範圍查詢
+create index if not exists ai_usage_logs_user_created_idx on ai_usage_logs (user_id, created_at);
+create index if not exists ai_usage_logs_created_idx on ai_usage_logs (created_at desc);
+
+-- ============== RLS ==============
+
+alter table ai_usage_logs enable row level security;
+
+drop policy if exists "ai_usage_logs_select" on ai_usage_logs;
+create policy "ai_usage_logs_select" on ai_usage_logs
+  for select to authenticated
+  using (user_id = auth.uid() or current_role_type() = 'admin');
+
+-- 不建立 insert/update/delete policy；一併收回權限，避免使用者竄改自己的用量繞過額度
+revoke insert, update, delete on ai_usage_logs from anon, authenticated;
@@ -0,0 +1,37 @@
+-- 稽核記錄：由 auditService 在每次寫入後附加，只能新增與查詢，不可修改或刪除。
+-- hospital_id 不設外鍵，醫院永久刪除後仍保留歷史；created_at 可由離線同步帶入實際操作時間
+
+create table if not exists audit_events (
+  id uuid primary key default gen_random_uuid(),
+  entity_type text not null,
+  entity_id text not null,
+  entity_label text not null default '',
+  hospital_id uuid,
+  action text not null check (action in ('create', 'update', 'delete', 'restore', 'purge')),
+  changes jsonb not null default '{}'::jsonb,
+  actor_id uuid,
+  actor_name text not null,
+  created_at timestamptz not null default now()
+);
+
+-- 依醫院或全站時間軸以游標分頁
+create index if not exists audit_events_hospital_created_idx on audit_events (hospital_id, created_at desc, id desc);
+create index if not exists audit_events_created_idx on audit_events (created_at desc, id desc);
+
+-- ============== RLS ==============
+
+alter table audit_events enable row level security;
+
+drop policy if exists "audit_events_select" on audit_events;
+create policy "audit_events_select" on audit_events
+  for select to authenticated
+  using (true);
+
+-- 只能以自己的身分新增
+drop policy if exists "audit_events_insert" on audit_events;
+create policy "audit_events_insert" on audit_events
+  for insert to authenticated
+  with check (actor_id = auth.uid());
+
+-- 不建立 update/delete policy，並收回權限，已寫入的記錄無法被竄改
+revoke update, delete, truncate on audit_events from anon, authenticated;
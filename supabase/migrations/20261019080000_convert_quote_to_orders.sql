@@ -0,0 +1,56 @@
+-- 報價單轉訂單：依報價單品項建立訂單與標記已轉換在同一個交易內完成，
+-- 不會留下只轉了一部分的報價單，也不需要在失敗時逐筆刪除已建立的訂單。
+-- 訂單 id 由前端先產生（依品項順序），以便在即時同步廣播到達前標記為自己的寫入。
+-- security invoker：沿用呼叫者在 quotes 與 usage_records 的 RLS。
+-- 報價單已轉換、已刪除、尚未接受或品項數與 id 數不符時不新增任何資料、回傳空結果，前端視為衝突
+
+create or replace function convert_quote_to_orders(
+  p_quote_id uuid,
+  p_order_ids uuid[],
+  p_order_date date,
+  p_recorded_by_name text
+)
+returns setof usage_records
+language plpgsql
+security invoker
+as $$
+declare
+  quote quotes;
+begin
+  select * into quote
+    from quotes
+   where id = p_quote_id
+     and deleted_at is null
+     and status = 'accepted'
+     and converted_at is null
+   for update;
+
+  if not found or jsonb_array_length(quote.items) <> coalesce(array_length(p_order_ids, 1), 0) then
+    return;
+  end if;
+
+  update quotes
+     set converted_at = now(),
+         updated_at = now()
+   where id = p_quote_id;
+
+  -- 單價沿用報價單議定的未稅單價
+  return query
+  insert into usage_records (
+    id, hospital_id, product_code, quantity, date, type, unit_price, recorded_by, recorded_by_name
+  )
+  select p_order_ids[item.position],
+         quote.hospital_id,
+         item.value ->> 'productCode',
+         (item.value ->> 'quantity')::numeric,
+         p_order_date,
+         '訂單',
+         (item.value ->> 'unitPrice')::numeric,
+         auth.uid(),
+         p_recorded_by_name
+    from jsonb_array_elements(quote.items) with ordinality as item(value, position)
+  returning *;
+end;
+$$;
+
+grant execute on function convert_quote_to_orders(uuid, uuid[], date, text) to authenticated;
@@ -0,0 +1,66 @@
+-- 回收筒永久刪除：附件資料列與項目本身在同一個交易內刪除，不會留下已刪附件卻仍在的項目（或反過來）。
+-- 同時回傳交易內收集到的附件與舊版錄音路徑，purge-trash 在交易提交後才移除 Storage 檔案。
+-- 只由 purge-trash 以 service role 呼叫（角色與保留天數在 Edge Function 檢查），不開放給一般使用者。
+-- 項目已不存在或尚未刪除時不刪除任何資料、回傳 null
+
+create or replace function purge_trash_item(p_entity_type text, p_id uuid)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  purged jsonb;
+  attachment_paths text[] := '{}';
+  audio_paths text[] := '{}';
+begin
+  if p_entity_type not in ('hospitals', 'notes', 'usage_records', 'installed_equipment', 'contracts', 'quotes') then
+    raise exception 'unsupported entity type: %', p_entity_type;
+  end if;
+
+  execute format('select to_jsonb(t) from %I t where id = $1 and deleted_at is not null for update', p_entity_type)
+    into purged
+    using p_id;
+
+  if purged is null then
+    return null;
+  end if;
+
+  -- 醫院的附件與活動記錄由外鍵 cascade 刪除，這裡只收集檔案路徑
+  if p_entity_type = 'hospitals' then
+    select coalesce(array_agg(storage_path), '{}') into attachment_paths
+      from attachments
+     where hospital_id = p_id;
+
+    select coalesce(array_agg(recording ->> 'path'), '{}') into audio_paths
+      from notes n, jsonb_array_elements(coalesce(n.audio_recordings, '[]'::jsonb)) recording
+     where n.hospital_id = p_id;
+  end if;
+
+  -- 活動記錄與合約的附件以 entity_type/entity_id 掛在項目上，沒有外鍵，需另外刪除
+  if p_entity_type in ('notes', 'contracts') then
+    with removed as (
+      delete from attachments
+       where entity_type = p_entity_type
+         and entity_id = p_id
+      returning storage_path
+    )
+    select coalesce(array_agg(storage_path), '{}') into attachment_paths from removed;
+  end if;
+
+  if p_entity_type = 'notes' then
+    select coalesce(array_agg(recording ->> 'path'), '{}') into audio_paths
+      from jsonb_array_elements(coalesce(purged -> 'audio_recordings', '[]'::jsonb)) recording;
+  end if;
+
+  execute format('delete from %I where id = $1', p_entity_type) using p_id;
+
+  return jsonb_build_object(
+    'row', purged,
+    'attachment_paths', to_jsonb(attachment_paths),
+    'audio_paths', to_jsonb(audio_paths)
+  );
+end;
+$$;
+
+revoke execute on function purge_trash_item(text, uuid) from public, anon, authenticated;
+grant execute on function purge_trash_item(text, uuid) to service_role;
@@ -0,0 +1,27 @@
+-- 團隊共用設定：以 key 存放 jsonb，例如借用設備計畫的低度使用門檻（loan_utilization）。
+-- 所有已登入使用者可讀取；只有主管與管理員可新增或修改，不開放刪除
+
+create table if not exists app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+alter table app_settings enable row level security;
+
+drop policy if exists "app_settings_select" on app_settings;
+create policy "app_settings_select" on app_settings
+  for select to authenticated
+  using (true);
+
+drop policy if exists "app_settings_insert" on app_settings;
+create policy "app_settings_insert" on app_settings
+  for insert to authenticated
+  with check (current_role_type() in ('manager', 'admin'));
+
+drop policy if exists "app_settings_update" on app_settings;
+create policy "app_settings_update" on app_settings
+  for update to authenticated
+  using (current_role_type() in ('manager', 'admin'))
+  with check (current_role_type() in ('manager', 'admin'));